@@ -6,6 +6,7 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import * as os from 'os';
+import * as path from 'path';
 import { loadCliConfig, parseArguments } from './config.js';
 import { Settings } from './settings.js';
 import { Extension } from './extension.js';
@@ -262,6 +263,39 @@ describe('loadCliConfig', () => {
     const config = await loadCliConfig(settings, [], 'test-session', argv);
     expect(config.getProxy()).toBe('http://localhost:7890');
   });
+
+  it('should replay model calls from the fixture given by --provider-fixture', async () => {
+    process.argv = [
+      'node',
+      'script.js',
+      '--provider-fixture',
+      'replay',
+      'session.jsonl',
+    ];
+    const argv = await parseArguments();
+    const config = await loadCliConfig({}, [], 'test-session', argv);
+    expect(config.getProviderFixture()).toEqual({
+      mode: 'replay',
+      path: path.resolve('session.jsonl'),
+    });
+  });
+
+  it('should replay leniently with --provider-fixture-lenient', async () => {
+    process.argv = [
+      'node',
+      'script.js',
+      '--provider-fixture',
+      'replay',
+      'session.jsonl',
+      '--provider-fixture-lenient',
+    ];
+    const argv = await parseArguments();
+    const config = await loadCliConfig({}, [], 'test-session', argv);
+    expect(config.getProviderFixture()).toMatchObject({
+      mode: 'replay',
+      lenient: true,
+    });
+  });
 });
 
 describe('loadCliConfig telemetry', () => {
@@ -98,6 +98,7 @@ describe('Settings Loading and Merging', () => {
       expect(settings.merged).toEqual({
         customThemes: {},
         mcpServers: {},
+        providers: {},
       });
       expect(settings.errors.length).toBe(0);
     });
@@ -131,6 +132,7 @@ describe('Settings Loading and Merging', () => {
         ...systemSettingsContent,
         customThemes: {},
         mcpServers: {},
+        providers: {},
       });
     });
 
@@ -164,6 +166,7 @@ describe('Settings Loading and Merging', () => {
         ...userSettingsContent,
         customThemes: {},
         mcpServers: {},
+        providers: {},
       });
     });
 
@@ -195,6 +198,7 @@ describe('Settings Loading and Merging', () => {
         ...workspaceSettingsContent,
         customThemes: {},
         mcpServers: {},
+        providers: {},
       });
     });
 
@@ -232,6 +236,7 @@ describe('Settings Loading and Merging', () => {
         contextFileName: 'WORKSPACE_CONTEXT.md',
         customThemes: {},
         mcpServers: {},
+        providers: {},
       });
     });
 
@@ -281,6 +286,7 @@ describe('Settings Loading and Merging', () => {
         allowMCPServers: ['server1', 'server2'],
         customThemes: {},
         mcpServers: {},
+        providers: {},
       });
     });
 
@@ -515,6 +521,54 @@ describe('Settings Loading and Merging', () => {
       });
     });
 
+    it('should merge provider profiles across scopes, with system taking precedence', () => {
+      (mockFsExistsSync as Mock).mockReturnValue(true);
+      const systemSettingsContent = {
+        providers: {
+          gateway: { baseUrl: 'https://gateway.corp', model: 'gpt-4o' },
+        },
+      };
+      const userSettingsContent = {
+        defaultProvider: 'local',
+        providers: {
+          local: { type: 'ollama', baseUrl: 'http://localhost:11434' },
+          gateway: { baseUrl: 'https://user.example', model: 'gpt-4o-mini' },
+        },
+      };
+      const workspaceSettingsContent = {
+        providers: {
+          local: {
+            type: 'ollama',
+            baseUrl: 'http://localhost:11434',
+            model: 'qwen3:8b',
+          },
+        },
+      };
+
+      (fs.readFileSync as Mock).mockImplementation(
+        (p: fs.PathOrFileDescriptor) => {
+          if (p === getSystemSettingsPath())
+            return JSON.stringify(systemSettingsContent);
+          if (p === USER_SETTINGS_PATH)
+            return JSON.stringify(userSettingsContent);
+          if (p === MOCK_WORKSPACE_SETTINGS_PATH)
+            return JSON.stringify(workspaceSettingsContent);
+          return '';
+        },
+      );
+
+      const settings = loadSettings(MOCK_WORKSPACE_DIR);
+      expect(settings.merged.defaultProvider).toBe('local');
+      expect(settings.merged.providers).toEqual({
+        local: {
+          type: 'ollama',
+          baseUrl: 'http://localhost:11434',
+          model: 'qwen3:8b',
+        },
+        gateway: { baseUrl: 'https://gateway.corp', model: 'gpt-4o' },
+      });
+    });
+
     it('should have mcpServers as empty object if not in any settings file', () => {
       (mockFsExistsSync as Mock).mockReturnValue(false); // No settings files exist
       (fs.readFileSync as Mock).mockReturnValue('{}');
@@ -560,6 +614,7 @@ describe('Settings Loading and Merging', () => {
       expect(settings.merged).toEqual({
         customThemes: {},
         mcpServers: {},
+        providers: {},
       });
 
       // Check that error objects are populated in settings.errors
@@ -954,6 +1009,7 @@ describe('Settings Loading and Merging', () => {
           ...systemSettingsContent,
           customThemes: {},
           mcpServers: {},
+          providers: {},
         });
       });
     });
@@ -15,6 +15,13 @@ import {
   BugCommandSettings,
   TelemetrySettings,
   AuthType,
+  LLMProviderSettings,
+  ProviderProfile,
+  ModelCapabilityOverrides,
+  ModelRouting,
+  ModelPricing,
+  BudgetSettings,
+  WebSearchSettings,
 } from '@google/gemini-cli-core';
 import stripJsonComments from 'strip-json-comments';
 import { DefaultLight } from '../ui/themes/default-light.js';
@@ -97,6 +104,40 @@ export interface Settings {
   // A map of tool names to their summarization settings.
   summarizeToolOutput?: Record<string, SummarizeToolOutputSettings>;
 
+  // Options passed through to the LLM provider, e.g. Ollama's `num_ctx`.
+  llmProvider?: LLMProviderSettings;
+
+  // Named LLM provider profiles, and the one to use unless --provider is set.
+  providers?: Record<string, ProviderProfile>;
+  defaultProvider?: string;
+
+  // Provider profiles to fail over to, in order, when the active one is
+  // unavailable, and how long a failed provider is skipped for.
+  fallbackProviders?: string[];
+  providerCooldownSeconds?: number;
+
+  // Overrides of the built-in model capabilities, keyed by model id.
+  modelCapabilities?: Record<string, ModelCapabilityOverrides>;
+
+  // The models and providers for the LLM calls besides the main chat.
+  modelRouting?: ModelRouting;
+
+  // The model and provider profile used for embeddings, when they differ
+  // from the active provider's.
+  embeddingModel?: string;
+  embeddingProvider?: string;
+
+  // Overrides of the built-in model prices, keyed by model id, and the
+  // spending limits in US dollars.
+  modelPricing?: Record<string, ModelPricing>;
+  budget?: BudgetSettings;
+
+  // Whether to ask providers to cache the system prompt and history.
+  promptCaching?: boolean;
+
+  // The service that google_web_search searches with.
+  webSearch?: WebSearchSettings;
+
   vimMode?: boolean;
 
   // Add other settings here.
@@ -157,6 +198,11 @@ export class LoadedSettings {
         ...(workspace.mcpServers || {}),
         ...(system.mcpServers || {}),
       },
+      providers: {
+        ...(user.providers || {}),
+        ...(workspace.providers || {}),
+        ...(system.providers || {}),
+      },
     };
   }
 
@@ -22,20 +22,30 @@ import {
 import { themeManager } from './ui/themes/theme-manager.js';
 import { getStartupWarnings } from './utils/startupWarnings.js';
 import { getUserStartupWarnings } from './utils/userStartupWarnings.js';
-import { runNonInteractive } from './nonInteractiveCli.js';
+import {
+  runNonInteractive,
+  runNonInteractiveCompare,
+} from './nonInteractiveCli.js';
 import { loadExtensions, Extension } from './config/extension.js';
-import { cleanupCheckpoints, registerCleanup } from './utils/cleanup.js';
+import {
+  cleanupCheckpoints,
+  registerBackgroundProcessCleanup,
+  registerCleanup,
+} from './utils/cleanup.js';
 import { getCliVersion } from './utils/version.js';
 import {
   ApprovalMode,
   Config,
   EditTool,
+  ApplyPatchTool,
   ShellTool,
+  ProcessTool,
   WriteFileTool,
   sessionId,
   logUserPrompt,
   AuthType,
   getOauthClient,
+  uiTelemetryService,
 } from '@google/gemini-cli-core';
 import { validateAuthMethod } from './config/auth.js';
 import { setMaxSizedBoxDebugging } from './ui/components/shared/MaxSizedBox.js';
@@ -159,12 +169,19 @@ export async function main() {
         'selectedAuthType',
         AuthType.CLOUD_SHELL,
       );
+    } else if (config.getActiveProviderName()) {
+      settings.setValue(
+        SettingScope.User,
+        'selectedAuthType',
+        AuthType.USE_MULTI_LLM,
+      );
     }
   }
 
   setMaxSizedBoxDebugging(config.getDebugMode());
 
   await config.initialize();
+  registerBackgroundProcessCleanup(config);
 
   // Load custom themes from settings
   themeManager.loadCustomThemes(settings.merged.customThemes);
@@ -217,6 +234,9 @@ export async function main() {
     await getOauthClient(settings.merged.selectedAuthType, config);
   }
 
+  // Count the cost of every kind of session towards the daily budget.
+  uiTelemetryService.recordDailySpend();
+
   if (config.getExperimentalAcp()) {
     return runAcpPeer(config, settings);
   }
@@ -228,7 +248,8 @@ export async function main() {
   ];
 
   const shouldBeInteractive =
-    !!argv.promptInteractive || (process.stdin.isTTY && input?.length === 0);
+    !!argv.promptInteractive ||
+    (!argv.compare && process.stdin.isTTY && input?.length === 0);
 
   // Render UI, passing necessary config values. Check that there is no command line question.
   if (shouldBeInteractive) {
@@ -277,7 +298,11 @@ export async function main() {
     argv,
   );
 
-  await runNonInteractive(nonInteractiveConfig, input, prompt_id);
+  if (argv.compare) {
+    await runNonInteractiveCompare(nonInteractiveConfig, argv.compare, input);
+  } else {
+    await runNonInteractive(nonInteractiveConfig, input, prompt_id);
+  }
   process.exit(0);
 }
 
@@ -308,7 +333,9 @@ async function loadNonInteractiveConfig(
     const existingExcludeTools = settings.merged.excludeTools || [];
     const interactiveTools = [
       ShellTool.Name,
+      ProcessTool.Name,
       EditTool.Name,
+      ApplyPatchTool.Name,
       WriteFileTool.Name,
     ];
 
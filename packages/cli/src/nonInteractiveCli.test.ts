@@ -6,7 +6,10 @@
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { runNonInteractive } from './nonInteractiveCli.js';
+import {
+  runNonInteractive,
+  runNonInteractiveCompare,
+} from './nonInteractiveCli.js';
 import { Config, GeminiClient, ToolRegistry } from '@google/gemini-cli-core';
 import { GenerateContentResponse, Part, FunctionCall } from '@google/genai';
 
@@ -342,3 +345,35 @@ describe('runNonInteractive', () => {
     expect(mockProcessExit).not.toHaveBeenCalled();
   });
 });
+
+describe('runNonInteractiveCompare', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should exit with an error unless two different models are named', async () => {
+    const config = {
+      initialize: vi.fn(),
+      getProviderProfiles: () => ({
+        openai: {
+          baseUrl: 'https://api.openai.com/v1/chat/completions',
+          model: 'gpt-4o',
+        },
+      }),
+    } as unknown as Config;
+    const exit = vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit');
+    });
+    const consoleError = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+
+    await expect(
+      runNonInteractiveCompare(config, ['openai', 'openai/gpt-4o'], 'Hi'),
+    ).rejects.toThrow('process.exit');
+    expect(consoleError).toHaveBeenCalledWith(
+      'Name at least two different models for --compare.',
+    );
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+});
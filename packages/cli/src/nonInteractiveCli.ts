@@ -11,6 +11,10 @@ import {
   ToolRegistry,
   shutdownTelemetry,
   isTelemetrySdkInitialized,
+  ComparisonTarget,
+  compareModels,
+  countDistinctTargets,
+  resolveComparisonTarget,
 } from '@google/gemini-cli-core';
 import {
   Content,
@@ -20,6 +24,7 @@ import {
 } from '@google/genai';
 
 import { parseAndFormatApiError } from './ui/utils/errorParsing.js';
+import { formatComparisonUsage } from './ui/utils/formatters.js';
 
 function getResponseText(response: GenerateContentResponse): string | null {
   if (response.candidates && response.candidates.length > 0) {
@@ -170,3 +175,57 @@ export async function runNonInteractive(
     }
   }
 }
+
+/**
+ * Sends the prompt to each `--compare` target instead of running the agent,
+ * and prints their answers with latency and token usage. Exits with an
+ * error if any of them failed.
+ */
+export async function runNonInteractiveCompare(
+  config: Config,
+  targetArgs: string[],
+  input: string,
+): Promise<void> {
+  await config.initialize();
+
+  const targets: ComparisonTarget[] = [];
+  for (const arg of targetArgs) {
+    const target = resolveComparisonTarget(config, arg);
+    if (!target) {
+      const profiles = Object.keys(config.getProviderProfiles());
+      console.error(
+        `Unknown provider "${arg}" for --compare, or it has no default model. Configured providers: ${profiles.join(', ') || 'none'}.`,
+      );
+      process.exit(1);
+    }
+    targets.push(target);
+  }
+  if (countDistinctTargets(targets) < 2) {
+    console.error('Name at least two different models for --compare.');
+    process.exit(1);
+  }
+
+  try {
+    const results = await compareModels(
+      config,
+      targets,
+      input,
+      new AbortController().signal,
+    );
+    for (const result of results) {
+      process.stdout.write(
+        `=== ${result.provider}/${result.model} (${formatComparisonUsage(result)}) ===\n`,
+      );
+      process.stdout.write(
+        `${result.error !== undefined ? `Error: ${result.error}` : result.text}\n\n`,
+      );
+    }
+    if (results.some((result) => result.error !== undefined)) {
+      process.exit(1);
+    }
+  } finally {
+    if (isTelemetrySdkInitialized()) {
+      await shutdownTelemetry();
+    }
+  }
+}
@@ -37,6 +37,7 @@ import { AuthDialog } from './components/AuthDialog.js';
 import { AuthInProgress } from './components/AuthInProgress.js';
 import { EditorSettingsDialog } from './components/EditorSettingsDialog.js';
 import { ShellConfirmationDialog } from './components/ShellConfirmationDialog.js';
+import { BudgetConfirmationDialog } from './components/BudgetConfirmationDialog.js';
 import { Colors } from './colors.js';
 import { Help } from './components/Help.js';
 import { loadHierarchicalGeminiMemory } from '../config/config.js';
@@ -71,6 +72,7 @@ import {
   useSessionStats,
 } from './contexts/SessionContext.js';
 import { useGitBranchName } from './hooks/useGitBranchName.js';
+import { useBackgroundProcessCount } from './hooks/useBackgroundProcessCount.js';
 import { useFocus } from './hooks/useFocus.js';
 import { useBracketedPaste } from './hooks/useBracketedPaste.js';
 import { useTextBuffer } from './components/shared/text-buffer.js';
@@ -151,6 +153,9 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
   const [footerHeight, setFooterHeight] = useState<number>(0);
   const [corgiMode, setCorgiMode] = useState(false);
   const [currentModel, setCurrentModel] = useState(config.getModel());
+  const [currentProvider, setCurrentProvider] = useState(
+    config.getActiveProviderName(),
+  );
   const [shellModeActive, setShellModeActive] = useState(false);
   const [showErrorDetails, setShowErrorDetails] = useState<boolean>(false);
   const [showToolDescriptions, setShowToolDescriptions] =
@@ -305,13 +310,17 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
     }
   }, [config, addItem, settings.merged]);
 
-  // Watch for model changes (e.g., from Flash fallback)
+  // Watch for model changes (e.g., from Flash fallback or /model use)
   useEffect(() => {
     const checkModelChange = () => {
       const configModel = config.getModel();
       if (configModel !== currentModel) {
         setCurrentModel(configModel);
       }
+      const configProvider = config.getActiveProviderName();
+      if (configProvider !== currentProvider) {
+        setCurrentProvider(configProvider);
+      }
     };
 
     // Check immediately and then periodically
@@ -319,7 +328,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
     const interval = setInterval(checkModelChange, 1000); // Check every second
 
     return () => clearInterval(interval);
-  }, [config, currentModel]);
+  }, [config, currentModel, currentProvider]);
 
   // Set up Flash fallback handler
   useEffect(() => {
@@ -406,6 +415,20 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
     config.setFlashFallbackHandler(flashFallbackHandler);
   }, [config, addItem, userTier]);
 
+  // Set up provider failover handler
+  useEffect(() => {
+    config.setProviderFailoverHandler((from, to, error) => {
+      addItem(
+        {
+          type: MessageType.INFO,
+          text: `⚡ ${from} is unavailable: ${getErrorMessage(error)}
+⚡ Switching to ${to}. ${from} will be tried again once its cool-down has passed.`,
+        },
+        Date.now(),
+      );
+    });
+  }, [config, addItem]);
+
   // Terminal and UI setup
   const { rows: terminalHeight, columns: terminalWidth } = useTerminalSize();
   const { stdin, setRawMode } = useStdin();
@@ -480,6 +503,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
     initError,
     pendingHistoryItems: pendingGeminiHistoryItems,
     thought,
+    budgetConfirmationRequest,
   } = useGeminiStream(
     config.getGeminiClient(),
     history,
@@ -687,6 +711,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
   }, [consoleMessages, config]);
 
   const branchName = useGitBranchName(config.getTargetDir());
+  const backgroundProcessCount = useBackgroundProcessCount(config);
 
   const contextFileNames = useMemo(() => {
     const fromSettings = settings.merged.contextFileName;
@@ -837,6 +862,8 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
 
           {shellConfirmationRequest ? (
             <ShellConfirmationDialog request={shellConfirmationRequest} />
+          ) : budgetConfirmationRequest ? (
+            <BudgetConfirmationDialog request={budgetConfirmationRequest} />
           ) : isThemeDialogOpen ? (
             <Box flexDirection="column">
               {themeError && (
@@ -1035,6 +1062,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
           )}
           <Footer
             model={currentModel}
+            provider={currentProvider}
             targetDir={config.getTargetDir()}
             debugMode={config.getDebugMode()}
             branchName={branchName}
@@ -1048,6 +1076,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
             promptTokenCount={sessionStats.lastPromptTokenCount}
             nightly={nightly}
             vimMode={vimModeEnabled ? vimMode : undefined}
+            backgroundProcessCount={backgroundProcessCount}
           />
         </Box>
       </Box>
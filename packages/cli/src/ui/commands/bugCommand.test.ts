@@ -95,4 +95,26 @@ describe('bugCommand', () => {
 
     expect(open).toHaveBeenCalledWith(expectedUrl);
   });
+
+  it('should redact secrets pasted into the description', async () => {
+    const mockContext = createMockCommandContext({
+      services: {
+        config: {
+          getModel: () => 'gemini-pro',
+          getBugCommand: () => ({ urlTemplate: 'https://bugs/new?t={title}' }),
+        },
+      },
+    });
+
+    if (!bugCommand.action) throw new Error('Action is not defined');
+    await bugCommand.action(
+      mockContext,
+      'Fails with Authorization: Bearer abc.def.ghi',
+    );
+
+    expect(open).toHaveBeenCalledWith(
+      'https://bugs/new?t=' +
+        encodeURIComponent('Fails with Authorization: Bearer [REDACTED]'),
+    );
+  });
 });
@@ -6,6 +6,7 @@
 
 import open from 'open';
 import process from 'node:process';
+import { redactSecrets } from '@google/gemini-cli-core';
 import {
   type CommandContext,
   type SlashCommand,
@@ -54,9 +55,11 @@ export const bugCommand: SlashCommand = {
       bugReportUrl = bugCommandSettings.urlTemplate;
     }
 
+    // The report leaves the machine, so scrub any keys pasted into the
+    // description along with the collected info.
     bugReportUrl = bugReportUrl
-      .replace('{title}', encodeURIComponent(bugDescription))
-      .replace('{info}', encodeURIComponent(info));
+      .replace('{title}', encodeURIComponent(redactSecrets(bugDescription)))
+      .replace('{info}', encodeURIComponent(redactSecrets(info)));
 
     context.ui.addItem(
       {
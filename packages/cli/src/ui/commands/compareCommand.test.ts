@@ -0,0 +1,146 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { Config, compareModels } from '@google/gemini-cli-core';
+import { compareCommand, parseCompareArgs } from './compareCommand.js';
+import { type CommandContext } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import { MessageType } from '../types.js';
+
+vi.mock('@google/gemini-cli-core', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('@google/gemini-cli-core')>();
+  return { ...actual, compareModels: vi.fn() };
+});
+
+describe('compareCommand', () => {
+  let mockContext: CommandContext;
+  let config: Config;
+
+  beforeEach(() => {
+    vi.mocked(compareModels).mockReset();
+    config = {
+      getProviderProfiles: () => ({
+        local: { baseUrl: 'http://localhost:11434', model: 'qwen3:8b' },
+        openai: {
+          baseUrl: 'https://api.openai.com/v1/chat/completions',
+          model: 'gpt-4o',
+        },
+      }),
+    } as unknown as Config;
+    mockContext = createMockCommandContext({ services: { config } });
+  });
+
+  it('should split the leading providers from the prompt', () => {
+    expect(
+      parseCompareArgs(config, 'local openai/gpt-4o-mini  Explain  this'),
+    ).toEqual({
+      targets: [
+        { provider: 'local', model: 'qwen3:8b' },
+        { provider: 'openai', model: 'gpt-4o-mini' },
+      ],
+      prompt: 'Explain  this',
+    });
+  });
+
+  it('should show usage when fewer than two providers are given', async () => {
+    await compareCommand.action!(mockContext, 'local What is this?');
+
+    expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+      {
+        type: MessageType.ERROR,
+        text: expect.stringContaining('Configured providers: local, openai.'),
+      },
+      expect.any(Number),
+    );
+    expect(compareModels).not.toHaveBeenCalled();
+  });
+
+  it('should reject comparing a model with itself', async () => {
+    await compareCommand.action!(
+      mockContext,
+      'local local/qwen3:8b What is this?',
+    );
+
+    expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+      {
+        type: MessageType.ERROR,
+        text: 'Name at least two different models to compare.',
+      },
+      expect.any(Number),
+    );
+    expect(compareModels).not.toHaveBeenCalled();
+  });
+
+  it('should show the answers once all models have answered', async () => {
+    const results = [
+      { provider: 'local', model: 'qwen3:8b', text: 'A', durationMs: 10 },
+      { provider: 'openai', model: 'gpt-4o', error: 'Boom', durationMs: 5 },
+    ];
+    vi.mocked(compareModels).mockResolvedValue(results);
+
+    await compareCommand.action!(mockContext, 'local openai What is this?');
+
+    expect(compareModels).toHaveBeenCalledWith(
+      config,
+      [
+        { provider: 'local', model: 'qwen3:8b' },
+        { provider: 'openai', model: 'gpt-4o' },
+      ],
+      'What is this?',
+      expect.any(AbortSignal),
+    );
+    expect(mockContext.ui.setPendingItem).toHaveBeenCalledWith({
+      type: MessageType.COMPARISON,
+      comparison: {
+        isPending: true,
+        prompt: 'What is this?',
+        targets: ['local/qwen3:8b', 'openai/gpt-4o'],
+        results: [],
+      },
+    });
+    expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+      {
+        type: MessageType.COMPARISON,
+        comparison: {
+          isPending: false,
+          prompt: 'What is this?',
+          targets: ['local/qwen3:8b', 'openai/gpt-4o'],
+          results,
+        },
+      },
+      expect.any(Number),
+    );
+    expect(mockContext.ui.setPendingItem).toHaveBeenLastCalledWith(null);
+  });
+
+  it('should stop comparing when the command is cancelled', async () => {
+    const controller = new AbortController();
+    mockContext = createMockCommandContext({
+      services: { config },
+      invocation: { abortSignal: controller.signal },
+    });
+    vi.mocked(compareModels).mockImplementation(async () => {
+      controller.abort();
+      return [];
+    });
+
+    await compareCommand.action!(mockContext, 'local openai What is this?');
+
+    expect(compareModels).toHaveBeenCalledWith(
+      config,
+      expect.any(Array),
+      'What is this?',
+      controller.signal,
+    );
+    expect(mockContext.ui.addItem).toHaveBeenLastCalledWith(
+      { type: MessageType.INFO, text: 'Comparison cancelled.' },
+      expect.any(Number),
+    );
+    expect(mockContext.ui.setPendingItem).toHaveBeenLastCalledWith(null);
+  });
+});
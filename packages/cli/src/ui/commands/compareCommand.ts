@@ -0,0 +1,129 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  ComparisonTarget,
+  Config,
+  compareModels,
+  countDistinctTargets,
+  getErrorMessage,
+  resolveComparisonTarget,
+} from '@google/gemini-cli-core';
+import { HistoryItemComparison, MessageType } from '../types.js';
+import { CommandContext, CommandKind, SlashCommand } from './types.js';
+
+const USAGE =
+  'Usage: /compare <provider>[/<model>] <provider>[/<model>] [...] <prompt>';
+
+/**
+ * Splits the arguments into the leading provider targets and the prompt
+ * that follows them.
+ */
+export function parseCompareArgs(
+  config: Config,
+  args: string,
+): { targets: ComparisonTarget[]; prompt: string } {
+  const targets: ComparisonTarget[] = [];
+  let rest = args.trim();
+  while (rest) {
+    const [word] = rest.split(/\s/, 1);
+    const target = resolveComparisonTarget(config, word);
+    if (!target) {
+      break;
+    }
+    targets.push(target);
+    rest = rest.slice(word.length).trimStart();
+  }
+  return { targets, prompt: rest };
+}
+
+export const compareCommand: SlashCommand = {
+  name: 'compare',
+  description: `Ask several providers the same prompt and show their answers side by side. ${USAGE}`,
+  kind: CommandKind.BUILT_IN,
+  action: async (context: CommandContext, args: string) => {
+    const { ui } = context;
+    const { config } = context.services;
+    if (!config) {
+      ui.addItem(
+        { type: MessageType.ERROR, text: 'Config not loaded.' },
+        Date.now(),
+      );
+      return;
+    }
+    if (ui.pendingItem) {
+      ui.addItem(
+        {
+          type: MessageType.ERROR,
+          text: 'Already comparing, wait for previous request to complete',
+        },
+        Date.now(),
+      );
+      return;
+    }
+
+    const { targets, prompt } = parseCompareArgs(config, args);
+    if (targets.length < 2 || !prompt) {
+      const profiles = Object.keys(config.getProviderProfiles());
+      ui.addItem(
+        {
+          type: MessageType.ERROR,
+          text: `${USAGE}\nConfigured providers: ${profiles.join(', ') || 'none'}.`,
+        },
+        Date.now(),
+      );
+      return;
+    }
+    if (countDistinctTargets(targets) < 2) {
+      ui.addItem(
+        {
+          type: MessageType.ERROR,
+          text: 'Name at least two different models to compare.',
+        },
+        Date.now(),
+      );
+      return;
+    }
+
+    const comparison = {
+      prompt,
+      targets: targets.map(({ provider, model }) => `${provider}/${model}`),
+    };
+    const abortSignal =
+      context.invocation?.abortSignal ?? new AbortController().signal;
+    try {
+      ui.setPendingItem({
+        type: MessageType.COMPARISON,
+        comparison: { ...comparison, isPending: true, results: [] },
+      } as HistoryItemComparison);
+      const results = await compareModels(config, targets, prompt, abortSignal);
+      if (abortSignal.aborted) {
+        ui.addItem(
+          { type: MessageType.INFO, text: 'Comparison cancelled.' },
+          Date.now(),
+        );
+        return;
+      }
+      ui.addItem(
+        {
+          type: MessageType.COMPARISON,
+          comparison: { ...comparison, isPending: false, results },
+        } as HistoryItemComparison,
+        Date.now(),
+      );
+    } catch (e) {
+      ui.addItem(
+        {
+          type: MessageType.ERROR,
+          text: `Failed to compare models: ${getErrorMessage(e)}`,
+        },
+        Date.now(),
+      );
+    } finally {
+      ui.setPendingItem(null);
+    }
+  },
+};
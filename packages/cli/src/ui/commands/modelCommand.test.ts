@@ -0,0 +1,156 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { Config } from '@google/gemini-cli-core';
+import { modelCommand } from './modelCommand.js';
+import { type CommandContext, SlashCommand } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+
+describe('modelCommand', () => {
+  let mockContext: CommandContext;
+  let mockListModels: ReturnType<typeof vi.fn>;
+  let mockSwitchModel: ReturnType<typeof vi.fn>;
+  let activeProvider: string | undefined;
+  let model: string;
+
+  const getSubCommand = (name: 'list' | 'use'): SlashCommand => {
+    const subCommand = modelCommand.subCommands?.find(
+      (cmd) => cmd.name === name,
+    );
+    if (!subCommand) {
+      throw new Error(`/model ${name} command not found.`);
+    }
+    return subCommand;
+  };
+
+  beforeEach(() => {
+    activeProvider = 'local';
+    model = 'qwen3:8b';
+    mockListModels = vi
+      .fn()
+      .mockResolvedValue([
+        { name: 'qwen3:8b', contextLength: 40960 },
+        { name: 'llama3.2:latest' },
+      ]);
+    mockSwitchModel = vi.fn(async (newModel: string, provider?: string) => {
+      model = newModel;
+      activeProvider = provider ?? activeProvider;
+    });
+    mockContext = createMockCommandContext({
+      services: {
+        config: {
+          getModel: () => model,
+          getActiveProviderName: () => activeProvider,
+          getProviderProfiles: () => ({
+            local: { baseUrl: 'http://localhost:11434', model: 'qwen3:8b' },
+            openai: {
+              baseUrl: 'https://api.openai.com/v1/chat/completions',
+              model: 'gpt-4o',
+              models: { 'gpt-4o-mini': {} },
+            },
+          }),
+          getGeminiClient: () => ({
+            getContentGenerator: () => ({ listModels: mockListModels }),
+          }),
+          switchModel: mockSwitchModel,
+        } as unknown as Config,
+      },
+    });
+  });
+
+  it('should show the current provider and model', () => {
+    expect(modelCommand.action?.(mockContext, '')).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: 'Current model: local/qwen3:8b',
+    });
+  });
+
+  describe('list', () => {
+    it('should list the models of the active provider and the profiles', async () => {
+      const result = await getSubCommand('list').action?.(mockContext, '');
+      expect(result).toEqual({
+        type: 'message',
+        messageType: 'info',
+        content: [
+          'Current model: local/qwen3:8b',
+          '',
+          'Available models:',
+          '  * qwen3:8b (40960 tokens)',
+          '  - llama3.2:latest',
+          '',
+          'Configured providers:',
+          '  - local (default model: qwen3:8b)',
+          '  - openai (default model: gpt-4o)',
+        ].join('\n'),
+      });
+    });
+
+    it('should report listing errors', async () => {
+      mockListModels.mockRejectedValue(new Error('connection refused'));
+      const result = await getSubCommand('list').action?.(mockContext, '');
+      expect(result).toEqual({
+        type: 'message',
+        messageType: 'error',
+        content: 'Failed to list models: connection refused',
+      });
+    });
+  });
+
+  describe('use', () => {
+    it('should switch to a model of another provider', async () => {
+      const result = await getSubCommand('use').action?.(
+        mockContext,
+        'openai/gpt-4o-mini',
+      );
+      expect(mockSwitchModel).toHaveBeenCalledWith('gpt-4o-mini', 'openai');
+      expect(result).toEqual({
+        type: 'message',
+        messageType: 'info',
+        content: 'Switched to openai/gpt-4o-mini.',
+      });
+    });
+
+    it('should use the default model for a bare provider name', async () => {
+      await getSubCommand('use').action?.(mockContext, 'openai');
+      expect(mockSwitchModel).toHaveBeenCalledWith('gpt-4o', 'openai');
+    });
+
+    it('should treat ids with an unknown prefix as models of the active provider', async () => {
+      await getSubCommand('use').action?.(mockContext, 'library/mistral');
+      expect(mockSwitchModel).toHaveBeenCalledWith(
+        'library/mistral',
+        undefined,
+      );
+    });
+
+    it('should report errors and require a model', async () => {
+      mockSwitchModel.mockRejectedValue(new Error('Unknown provider'));
+      const useCommand = getSubCommand('use');
+      expect(await useCommand.action?.(mockContext, '')).toMatchObject({
+        messageType: 'error',
+        content: 'Missing model. Usage: /model use [<provider>/]<model>',
+      });
+      expect(await useCommand.action?.(mockContext, 'x')).toMatchObject({
+        messageType: 'error',
+        content: 'Failed to switch model: Unknown provider',
+      });
+    });
+
+    it('should complete profile models and listed models', async () => {
+      const completion = getSubCommand('use').completion!;
+      expect(await completion(mockContext, 'local/')).toEqual([
+        'local/qwen3:8b',
+        'local/llama3.2:latest',
+      ]);
+      expect(await completion(mockContext, 'openai/')).toEqual([
+        'openai/gpt-4o',
+        'openai/gpt-4o-mini',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  Config,
+  ContentGenerator,
+  LLMModelInfo,
+  getErrorMessage,
+} from '@google/gemini-cli-core';
+import {
+  CommandContext,
+  CommandKind,
+  MessageActionReturn,
+  SlashCommand,
+} from './types.js';
+
+interface ModelTarget {
+  provider?: string;
+  model: string;
+}
+
+// Model listings are fetched once per content generator so that completion
+// does not hit the provider on every keystroke. Switching models creates a
+// new generator, which invalidates the cache.
+const modelListings = new WeakMap<ContentGenerator, Promise<LLMModelInfo[]>>();
+
+function getContentGenerator(config: Config): ContentGenerator | undefined {
+  try {
+    return config.getGeminiClient()?.getContentGenerator();
+  } catch {
+    return undefined;
+  }
+}
+
+function listModels(
+  generator: ContentGenerator,
+  refresh = false,
+): Promise<LLMModelInfo[]> | undefined {
+  if (!generator.listModels) {
+    return undefined;
+  }
+  let listing = refresh ? undefined : modelListings.get(generator);
+  if (!listing) {
+    listing = generator.listModels();
+    modelListings.set(generator, listing);
+    // Do not cache failures, so that a later attempt can succeed.
+    listing.catch(() => modelListings.delete(generator));
+  }
+  return listing;
+}
+
+function describeActiveModel(config: Config): string {
+  const provider = config.getActiveProviderName();
+  return provider ? `${provider}/${config.getModel()}` : config.getModel();
+}
+
+/**
+ * Resolves `<provider>/<model>`, a bare provider name (its default model) or
+ * a model id of the active provider. Model ids may themselves contain `/`, so
+ * the prefix only counts as a provider if such a profile exists.
+ */
+function parseModelTarget(config: Config, arg: string): ModelTarget {
+  const profiles = config.getProviderProfiles();
+  if (profiles[arg]) {
+    return { provider: arg, model: profiles[arg].model ?? '' };
+  }
+  const slash = arg.indexOf('/');
+  if (slash > 0) {
+    const provider = arg.slice(0, slash);
+    if (profiles[provider]) {
+      return {
+        provider,
+        model: arg.slice(slash + 1) || (profiles[provider].model ?? ''),
+      };
+    }
+  }
+  return { model: arg };
+}
+
+const listCommand: SlashCommand = {
+  name: 'list',
+  description: 'List the models offered by the active provider.',
+  kind: CommandKind.BUILT_IN,
+  action: async (context: CommandContext): Promise<MessageActionReturn> => {
+    const { config } = context.services;
+    if (!config) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Config not loaded.',
+      };
+    }
+
+    const lines = [`Current model: ${describeActiveModel(config)}`];
+    const generator = getContentGenerator(config);
+    const listing = generator && listModels(generator, true);
+    if (listing) {
+      try {
+        const models = await listing;
+        const current = config.getModel();
+        lines.push('', 'Available models:');
+        for (const model of models) {
+          const marker = model.name === current ? '*' : '-';
+          const limit = model.contextLength
+            ? ` (${model.contextLength} tokens)`
+            : '';
+          lines.push(`  ${marker} ${model.name}${limit}`);
+        }
+        if (models.length === 0) {
+          lines.push('  (none)');
+        }
+      } catch (error) {
+        return {
+          type: 'message',
+          messageType: 'error',
+          content: `Failed to list models: ${getErrorMessage(error)}`,
+        };
+      }
+    } else {
+      lines.push('', 'The active provider does not support listing models.');
+    }
+
+    const profiles = Object.entries(config.getProviderProfiles());
+    if (profiles.length > 0) {
+      lines.push('', 'Configured providers:');
+      for (const [name, profile] of profiles) {
+        lines.push(`  - ${name} (default model: ${profile.model ?? 'none'})`);
+      }
+    }
+
+    return { type: 'message', messageType: 'info', content: lines.join('\n') };
+  },
+};
+
+const useCommand: SlashCommand = {
+  name: 'use',
+  description:
+    'Switch model for this session. Usage: /model use [<provider>/]<model>',
+  kind: CommandKind.BUILT_IN,
+  action: async (
+    context: CommandContext,
+    args: string,
+  ): Promise<MessageActionReturn> => {
+    const arg = args.trim();
+    if (!arg) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Missing model. Usage: /model use [<provider>/]<model>',
+      };
+    }
+    const { config } = context.services;
+    if (!config) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Config not loaded.',
+      };
+    }
+
+    const target = parseModelTarget(config, arg);
+    if (!target.model) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Provider "${target.provider}" has no default model. Usage: /model use ${target.provider}/<model>`,
+      };
+    }
+    try {
+      await config.switchModel(target.model, target.provider);
+    } catch (error) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Failed to switch model: ${getErrorMessage(error)}`,
+      };
+    }
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Switched to ${describeActiveModel(config)}.`,
+    };
+  },
+  completion: async (context: CommandContext, partialArg: string) => {
+    const { config } = context.services;
+    if (!config) {
+      return [];
+    }
+
+    const candidates = new Set<string>();
+    for (const [name, profile] of Object.entries(
+      config.getProviderProfiles(),
+    )) {
+      for (const model of [
+        profile.model,
+        ...Object.keys(profile.models ?? {}),
+      ]) {
+        if (model) {
+          candidates.add(`${name}/${model}`);
+        }
+      }
+    }
+
+    const generator = getContentGenerator(config);
+    const listing = generator && listModels(generator);
+    if (listing) {
+      const provider = config.getActiveProviderName();
+      const models = await listing.catch(() => []);
+      for (const model of models) {
+        candidates.add(provider ? `${provider}/${model.name}` : model.name);
+      }
+    }
+
+    return [...candidates].filter((candidate) =>
+      candidate.startsWith(partialArg),
+    );
+  },
+};
+
+export const modelCommand: SlashCommand = {
+  name: 'model',
+  description:
+    'List and switch models. Usage: /model [list|use [<provider>/]<model>]',
+  kind: CommandKind.BUILT_IN,
+  action: (context: CommandContext): MessageActionReturn => {
+    const { config } = context.services;
+    if (!config) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Config not loaded.',
+      };
+    }
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Current model: ${describeActiveModel(config)}`,
+    };
+  },
+  subCommands: [listCommand, useCommand],
+};
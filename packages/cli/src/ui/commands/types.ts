@@ -22,6 +22,8 @@ export interface CommandContext {
     name: string;
     /** The arguments string that follows the command name. */
     args: string;
+    /** Aborted when the user cancels the command with Esc. */
+    abortSignal?: AbortSignal;
   };
   // Core services and configuration
   services: {
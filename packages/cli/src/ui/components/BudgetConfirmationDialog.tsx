@@ -0,0 +1,82 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ToolConfirmationOutcome } from '@google/gemini-cli-core';
+import { Box, Text, useInput } from 'ink';
+import React from 'react';
+import { Colors } from '../colors.js';
+import { formatCost } from '../utils/formatters.js';
+import {
+  RadioButtonSelect,
+  RadioSelectItem,
+} from './shared/RadioButtonSelect.js';
+
+export interface BudgetConfirmationRequest {
+  /** Which of the budgets was reached. */
+  limit: 'session' | 'daily';
+  budget: number;
+  spent: number;
+  onConfirm: (outcome: ToolConfirmationOutcome) => void;
+}
+
+export interface BudgetConfirmationDialogProps {
+  request: BudgetConfirmationRequest;
+}
+
+export const BudgetConfirmationDialog: React.FC<
+  BudgetConfirmationDialogProps
+> = ({ request }) => {
+  const { limit, budget, spent, onConfirm } = request;
+
+  useInput((_, key) => {
+    if (key.escape) {
+      onConfirm(ToolConfirmationOutcome.Cancel);
+    }
+  });
+
+  const period = limit === 'session' ? 'session' : 'day';
+  const options: Array<RadioSelectItem<ToolConfirmationOutcome>> = [
+    {
+      label: 'Yes, continue once',
+      value: ToolConfirmationOutcome.ProceedOnce,
+    },
+    {
+      label: "Yes, don't ask again this session",
+      value: ToolConfirmationOutcome.ProceedAlways,
+    },
+    {
+      label: 'No, stop (esc)',
+      value: ToolConfirmationOutcome.Cancel,
+    },
+  ];
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={Colors.AccentYellow}
+      padding={1}
+      width="100%"
+      marginLeft={1}
+    >
+      <Box flexDirection="column" marginBottom={1}>
+        <Text bold>Budget Reached</Text>
+        <Text>
+          This {period} has cost an estimated{' '}
+          <Text color={Colors.AccentYellow}>{formatCost(spent)}</Text>, which
+          reaches the {limit} budget of{' '}
+          <Text color={Colors.AccentYellow}>{formatCost(budget)}</Text>.
+        </Text>
+      </Box>
+
+      <Box marginBottom={1}>
+        <Text>Do you want to send the next request to the model?</Text>
+      </Box>
+
+      <RadioButtonSelect items={options} onSelect={onConfirm} isFocused />
+    </Box>
+  );
+};
@@ -15,6 +15,7 @@ import { MemoryUsageDisplay } from './MemoryUsageDisplay.js';
 
 interface FooterProps {
   model: string;
+  provider?: string;
   targetDir: string;
   branchName?: string;
   debugMode: boolean;
@@ -26,10 +27,12 @@ interface FooterProps {
   promptTokenCount: number;
   nightly: boolean;
   vimMode?: string;
+  backgroundProcessCount?: number;
 }
 
 export const Footer: React.FC<FooterProps> = ({
   model,
+  provider,
   targetDir,
   branchName,
   debugMode,
@@ -41,6 +44,7 @@ export const Footer: React.FC<FooterProps> = ({
   promptTokenCount,
   nightly,
   vimMode,
+  backgroundProcessCount = 0,
 }) => {
   const limit = tokenLimit(model);
   const percentage = promptTokenCount / limit;
@@ -96,6 +100,7 @@ export const Footer: React.FC<FooterProps> = ({
       <Box alignItems="center">
         <Text color={Colors.AccentBlue}>
           {' '}
+          {provider && <Text color={Colors.Gray}>{provider}/</Text>}
           {model}{' '}
           <Text color={Colors.Gray}>
             ({((1 - percentage) * 100).toFixed(0)}% context left)
@@ -111,6 +116,15 @@ export const Footer: React.FC<FooterProps> = ({
             <Text color={Colors.AccentRed}>▼ </Text>
           </Text>
         )}
+        {backgroundProcessCount > 0 && (
+          <Text>
+            <Text color={Colors.Gray}>| </Text>
+            <Text color={Colors.AccentCyan}>
+              {backgroundProcessCount} background process
+              {backgroundProcessCount > 1 ? 'es' : ''}{' '}
+            </Text>
+          </Text>
+        )}
         {!showErrorDetails && errorCount > 0 && (
           <Box>
             <Text color={Colors.Gray}>| </Text>
@@ -236,4 +236,41 @@ describe('<ModelStatsDisplay />', () => {
     expect(output).not.toContain('gemini-2.5-flash');
     expect(output).toMatchSnapshot();
   });
+
+  it('should attribute usage to auxiliary roles', () => {
+    const { lastFrame } = renderWithMockedStats({
+      models: {
+        'gemini-2.5-flash': {
+          api: { totalRequests: 5, totalErrors: 0, totalLatencyMs: 500 },
+          tokens: {
+            prompt: 900,
+            candidates: 100,
+            total: 1000,
+            cached: 0,
+            thoughts: 0,
+            tool: 0,
+          },
+          roles: {
+            nextSpeaker: { totalRequests: 2, totalTokens: 300 },
+          },
+        },
+      },
+      tools: {
+        totalCalls: 0,
+        totalSuccess: 0,
+        totalFail: 0,
+        totalDurationMs: 0,
+        totalDecisions: { accept: 0, reject: 0, modify: 0 },
+        byName: {},
+      },
+    });
+
+    const output = lastFrame();
+    expect(output).toContain('Roles (requests · tokens)');
+    expect(output).toContain('Main Chat');
+    expect(output).toContain('3 · 700 tokens');
+    expect(output).toContain('Next Speaker');
+    expect(output).toContain('2 · 300 tokens');
+    expect(output).not.toContain('Compression');
+  });
 });
@@ -7,17 +7,32 @@
 import React from 'react';
 import { Box, Text } from 'ink';
 import { Colors } from '../colors.js';
-import { formatDuration } from '../utils/formatters.js';
+import { formatCost, formatDuration } from '../utils/formatters.js';
 import {
   calculateAverageLatency,
   calculateCacheHitRate,
   calculateErrorRate,
+  calculateModelCost,
 } from '../utils/computeStats.js';
 import { useSessionStats, ModelMetrics } from '../contexts/SessionContext.js';
+import { ModelRole } from '@google/gemini-cli-core';
 
 const METRIC_COL_WIDTH = 28;
 const MODEL_COL_WIDTH = 22;
 
+const ROLE_TITLES: Record<ModelRole, string> = {
+  compression: 'Compression',
+  nextSpeaker: 'Next Speaker',
+  loopDetection: 'Loop Detection',
+  editCorrection: 'Edit Correction',
+  summarizer: 'Summarizer',
+};
+
+const formatRoleUsage = (requests: number, tokens: number) =>
+  requests > 0
+    ? `${requests.toLocaleString()} · ${tokens.toLocaleString()} tokens`
+    : '-';
+
 interface StatRowProps {
   title: string;
   values: Array<string | React.ReactElement>;
@@ -78,6 +93,19 @@ export const ModelStatsDisplay: React.FC = () => {
   const hasCached = activeModels.some(
     ([, metrics]) => metrics.tokens.cached > 0,
   );
+  const activeRoles = (Object.keys(ROLE_TITLES) as ModelRole[]).filter((role) =>
+    activeModels.some(([, metrics]) => metrics.roles?.[role]),
+  );
+
+  // Requests that were not made for an auxiliary role belong to the main chat.
+  const getChatUsage = (m: ModelMetrics) => {
+    const roles = Object.values(m.roles ?? {});
+    return formatRoleUsage(
+      m.api.totalRequests -
+        roles.reduce((sum, role) => sum + role.totalRequests, 0),
+      m.tokens.total - roles.reduce((sum, role) => sum + role.totalTokens, 0),
+    );
+  };
 
   return (
     <Box
@@ -192,6 +220,46 @@ export const ModelStatsDisplay: React.FC = () => {
         isSubtle
         values={getModelValues((m) => m.tokens.candidates.toLocaleString())}
       />
+
+      <Box height={1} />
+
+      {/* Cost Section */}
+      <StatRow title="Cost" values={[]} isSection />
+      <StatRow
+        title="Estimated (USD)"
+        isSubtle
+        values={activeModels.map(([name, metrics]) => {
+          const cost = calculateModelCost(name, metrics);
+          return cost === undefined ? '-' : formatCost(cost);
+        })}
+      />
+
+      {activeRoles.length > 0 && (
+        <>
+          <Box height={1} />
+
+          {/* Roles Section */}
+          <StatRow title="Roles (requests · tokens)" values={[]} isSection />
+          <StatRow
+            title="Main Chat"
+            isSubtle
+            values={getModelValues(getChatUsage)}
+          />
+          {activeRoles.map((role) => (
+            <StatRow
+              key={role}
+              title={ROLE_TITLES[role]}
+              isSubtle
+              values={getModelValues((m) =>
+                formatRoleUsage(
+                  m.roles?.[role]?.totalRequests ?? 0,
+                  m.roles?.[role]?.totalTokens ?? 0,
+                ),
+              )}
+            />
+          ))}
+        </>
+      )}
     </Box>
   );
 };
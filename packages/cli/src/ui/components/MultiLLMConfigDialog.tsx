@@ -8,47 +8,84 @@ import React, { useState } from 'react';
 import { Box, Text, useInput } from 'ink';
 import { Colors } from '../colors.js';
 import { LoadedSettings, SettingScope } from '../../config/settings.js';
-import { AuthType } from '@google/gemini-cli-core';
-import * as fs from 'fs';
-import * as path from 'path';
+import {
+  AuthType,
+  LLMProviderType,
+  ProviderProfile,
+  getErrorMessage,
+  parseLLMProviderType,
+} from '@google/gemini-cli-core';
 
 interface MultiLLMConfigDialogProps {
   onSelect: (authMethod: AuthType | undefined, scope: SettingScope) => void;
   settings: LoadedSettings;
 }
 
+type Field = 'name' | 'type' | 'url' | 'key' | 'model';
+
+const FIELDS: Field[] = ['name', 'type', 'url', 'key', 'model'];
+
+const DEFAULT_PROFILE_NAME = 'default';
+
+/**
+ * Collects the details of an LLM provider and saves them as a provider
+ * profile in the user settings file, selected as the default provider.
+ */
 export function MultiLLMConfigDialog({
   onSelect,
   settings,
 }: MultiLLMConfigDialogProps): React.JSX.Element {
-  const [llmApiUrl, setLlmApiUrl] = useState<string>(process.env.LLM_API_URL || '');
-  const [llmApiKey, setLlmApiKey] = useState<string>(process.env.LLM_API_KEY || '');
-  const [llmModel, setLlmModel] = useState<string>(process.env.LLM_MODEL || '');
-  const [currentField, setCurrentField] = useState<'url' | 'key' | 'model'>('url');
+  const initialName = settings.merged.defaultProvider || DEFAULT_PROFILE_NAME;
+  const initialProfile = settings.merged.providers?.[initialName];
+
+  const [values, setValues] = useState<Record<Field, string>>({
+    name: initialName,
+    type: initialProfile?.type || LLMProviderType.OPENAI_COMPATIBLE,
+    url: initialProfile?.baseUrl || '',
+    key: initialProfile?.apiKeyEnv
+      ? `$${initialProfile.apiKeyEnv}`
+      : initialProfile?.apiKey || '',
+    model: initialProfile?.model || '',
+  });
+  const [currentField, setCurrentField] = useState<Field>('name');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
   const handleSave = () => {
-    if (!llmApiUrl || !llmApiKey || !llmModel) {
-      setErrorMessage('All fields are required to configure Multi-LLM provider.');
+    const name = values.name.trim();
+    const baseUrl = values.url.trim();
+    const apiKey = values.key.trim();
+    const model = values.model.trim();
+    if (!name || !baseUrl || !model) {
+      setErrorMessage('Name, API URL and model are required.');
       return;
     }
-
-    // Set the environment variables
-    process.env.LLM_API_URL = llmApiUrl;
-    process.env.LLM_API_KEY = llmApiKey;
-    process.env.LLM_MODEL = llmModel;
-
-    // Save the environment variables to a .env file
+    if (!baseUrl.startsWith('http://') && !baseUrl.startsWith('https://')) {
+      setErrorMessage('API URL must start with "http://" or "https://".');
+      return;
+    }
+    let type: LLMProviderType | undefined;
     try {
-      const envContent = `LLM_API_URL="${llmApiUrl}"\nLLM_API_KEY="${llmApiKey}"\nLLM_MODEL="${llmModel}"\n`;
-      const envPath = path.join(process.cwd(), '.env');
-      fs.writeFileSync(envPath, envContent);
+      type = parseLLMProviderType(values.type.trim());
     } catch (error) {
-      console.error('Error saving .env file:', error);
-      setErrorMessage('Failed to save configuration to .env file. Configuration will only persist for this session.');
+      setErrorMessage(getErrorMessage(error));
+      return;
+    }
+
+    const profile: ProviderProfile = { type, baseUrl, model };
+    // A key written as $NAME is read from that environment variable, so it
+    // never has to be stored in the settings file.
+    if (apiKey.startsWith('$')) {
+      profile.apiKeyEnv = apiKey.slice(1);
+    } else if (apiKey) {
+      profile.apiKey = apiKey;
     }
 
-    // Return to the main auth dialog with the multi-LLM auth type
+    settings.setValue(SettingScope.User, 'providers', {
+      ...settings.user.settings.providers,
+      [name]: profile,
+    });
+    settings.setValue(SettingScope.User, 'defaultProvider', name);
+
     onSelect(AuthType.USE_MULTI_LLM, SettingScope.User);
   };
 
@@ -56,6 +93,10 @@ export function MultiLLMConfigDialog({
     onSelect(undefined, SettingScope.User);
   };
 
+  const moveToNextField = () => {
+    setCurrentField(FIELDS[(FIELDS.indexOf(currentField) + 1) % FIELDS.length]);
+  };
+
   useInput((input, key) => {
     if (key.escape) {
       handleCancel();
@@ -63,14 +104,7 @@ export function MultiLLMConfigDialog({
     }
 
     if (key.tab) {
-      // Cycle through fields
-      if (currentField === 'url') {
-        setCurrentField('key');
-      } else if (currentField === 'key') {
-        setCurrentField('model');
-      } else {
-        setCurrentField('url');
-      }
+      moveToNextField();
       return;
     }
 
@@ -78,41 +112,42 @@ export function MultiLLMConfigDialog({
       if (currentField === 'model') {
         handleSave();
       } else {
-        // Move to next field
-        if (currentField === 'url') {
-          setCurrentField('key');
-        } else if (currentField === 'key') {
-          setCurrentField('model');
-        }
+        moveToNextField();
       }
       return;
     }
 
     // Handle text input for the current field
-    if (currentField === 'url') {
-      if (key.backspace) {
-        setLlmApiUrl(prev => prev.slice(0, -1));
-      } else if (input.length > 0) {
-        // Handle both single character input and pasted text
-        setLlmApiUrl(prev => prev + input);
-      }
-    } else if (currentField === 'key') {
-      if (key.backspace) {
-        setLlmApiKey(prev => prev.slice(0, -1));
-      } else if (input.length > 0) {
-        // Handle both single character input and pasted text
-        setLlmApiKey(prev => prev + input);
-      }
-    } else if (currentField === 'model') {
-      if (key.backspace) {
-        setLlmModel(prev => prev.slice(0, -1));
-      } else if (input.length > 0) {
-        // Handle both single character input and pasted text
-        setLlmModel(prev => prev + input);
-      }
+    if (key.backspace || key.delete) {
+      setValues((prev) => ({
+        ...prev,
+        [currentField]: prev[currentField].slice(0, -1),
+      }));
+    } else if (input.length > 0) {
+      // Handle both single character input and pasted text
+      setValues((prev) => ({
+        ...prev,
+        [currentField]: prev[currentField] + input,
+      }));
     }
   });
 
+  const renderField = (field: Field, label: string, value: string) => (
+    <Box marginTop={1} flexDirection="column">
+      <Text>
+        {label} {currentField === field ? '(*)' : ''}:
+      </Text>
+      <Box marginTop={1}>
+        <Text>{value || '(empty)'}</Text>
+      </Box>
+    </Box>
+  );
+
+  const maskedKey =
+    values.key && !values.key.startsWith('$')
+      ? '*'.repeat(values.key.length)
+      : values.key;
+
   return (
     <Box
       borderStyle="round"
@@ -125,45 +160,35 @@ export function MultiLLMConfigDialog({
       <Box marginTop={1}>
         <Text>Enter the details for your LLM provider:</Text>
       </Box>
-      
-      <Box marginTop={1} flexDirection="column">
-        <Text>API URL {currentField === 'url' ? '(*)' : ''}:</Text>
-        <Box marginTop={1}>
-          <Text>{llmApiUrl || '(empty)'}</Text>
-        </Box>
-      </Box>
-      
-      <Box marginTop={1} flexDirection="column">
-        <Text>API Key {currentField === 'key' ? '(*)' : ''}:</Text>
-        <Box marginTop={1}>
-          <Text>{llmApiKey ? '*'.repeat(llmApiKey.length) : '(empty)'}</Text>
-        </Box>
-      </Box>
-      
-      <Box marginTop={1} flexDirection="column">
-        <Text>Model {currentField === 'model' ? '(*)' : ''}:</Text>
-        <Box marginTop={1}>
-          <Text>{llmModel || '(empty)'}</Text>
-        </Box>
-      </Box>
-      
+
+      {renderField('name', 'Profile name', values.name)}
+      {renderField(
+        'type',
+        `Type (${Object.values(LLMProviderType).join(', ')})`,
+        values.type,
+      )}
+      {renderField('url', 'API URL', values.url)}
+      {renderField('key', 'API Key', maskedKey)}
+      {renderField('model', 'Model', values.model)}
+
       {errorMessage && (
         <Box marginTop={1}>
           <Text color={Colors.AccentRed}>{errorMessage}</Text>
         </Box>
       )}
-      
+
       <Box marginTop={1}>
         <Text color={Colors.Gray}>
           (Use Tab to switch fields, Enter to confirm, Esc to cancel)
         </Text>
       </Box>
-      
+
       <Box marginTop={1}>
         <Text color={Colors.Gray}>
-          Supported providers: OpenAI, OpenRouter, Anthropic, local LLMs
+          The profile is saved to your user settings. Enter the key as
+          $VARIABLE_NAME to read it from the environment instead.
         </Text>
       </Box>
     </Box>
   );
-}
\ No newline at end of file
+}
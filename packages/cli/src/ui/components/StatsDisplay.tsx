@@ -8,7 +8,7 @@ import React from 'react';
 import { Box, Text } from 'ink';
 import Gradient from 'ink-gradient';
 import { Colors } from '../colors.js';
-import { formatDuration } from '../utils/formatters.js';
+import { formatCost, formatDuration } from '../utils/formatters.js';
 import { useSessionStats, ModelMetrics } from '../contexts/SessionContext.js';
 import {
   getStatusColor,
@@ -17,7 +17,10 @@ import {
   USER_AGREEMENT_RATE_HIGH,
   USER_AGREEMENT_RATE_MEDIUM,
 } from '../utils/displayUtils.js';
-import { computeSessionStats } from '../utils/computeStats.js';
+import {
+  calculateModelCost,
+  computeSessionStats,
+} from '../utils/computeStats.js';
 
 // A more flexible and powerful StatRow component
 interface StatRowProps {
@@ -73,6 +76,7 @@ const ModelUsageTable: React.FC<{
   const requestsWidth = 8;
   const inputTokensWidth = 15;
   const outputTokensWidth = 15;
+  const costWidth = 12;
 
   return (
     <Box flexDirection="column" marginTop={1}>
@@ -90,6 +94,9 @@ const ModelUsageTable: React.FC<{
         <Box width={outputTokensWidth} justifyContent="flex-end">
           <Text bold>Output Tokens</Text>
         </Box>
+        <Box width={costWidth} justifyContent="flex-end">
+          <Text bold>Cost</Text>
+        </Box>
       </Box>
       {/* Divider */}
       <Box
@@ -98,30 +105,44 @@ const ModelUsageTable: React.FC<{
         borderTop={false}
         borderLeft={false}
         borderRight={false}
-        width={nameWidth + requestsWidth + inputTokensWidth + outputTokensWidth}
+        width={
+          nameWidth +
+          requestsWidth +
+          inputTokensWidth +
+          outputTokensWidth +
+          costWidth
+        }
       ></Box>
 
       {/* Rows */}
-      {Object.entries(models).map(([name, modelMetrics]) => (
-        <Box key={name}>
-          <Box width={nameWidth}>
-            <Text>{name.replace('-001', '')}</Text>
-          </Box>
-          <Box width={requestsWidth} justifyContent="flex-end">
-            <Text>{modelMetrics.api.totalRequests}</Text>
-          </Box>
-          <Box width={inputTokensWidth} justifyContent="flex-end">
-            <Text color={Colors.AccentYellow}>
-              {modelMetrics.tokens.prompt.toLocaleString()}
-            </Text>
-          </Box>
-          <Box width={outputTokensWidth} justifyContent="flex-end">
-            <Text color={Colors.AccentYellow}>
-              {modelMetrics.tokens.candidates.toLocaleString()}
-            </Text>
+      {Object.entries(models).map(([name, modelMetrics]) => {
+        const cost = calculateModelCost(name, modelMetrics);
+        return (
+          <Box key={name}>
+            <Box width={nameWidth}>
+              <Text>{name.replace('-001', '')}</Text>
+            </Box>
+            <Box width={requestsWidth} justifyContent="flex-end">
+              <Text>{modelMetrics.api.totalRequests}</Text>
+            </Box>
+            <Box width={inputTokensWidth} justifyContent="flex-end">
+              <Text color={Colors.AccentYellow}>
+                {modelMetrics.tokens.prompt.toLocaleString()}
+              </Text>
+            </Box>
+            <Box width={outputTokensWidth} justifyContent="flex-end">
+              <Text color={Colors.AccentYellow}>
+                {modelMetrics.tokens.candidates.toLocaleString()}
+              </Text>
+            </Box>
+            <Box width={costWidth} justifyContent="flex-end">
+              <Text color={Colors.AccentYellow}>
+                {cost === undefined ? '-' : formatCost(cost)}
+              </Text>
+            </Box>
           </Box>
-        </Box>
-      ))}
+        );
+      })}
       {cacheEfficiency > 0 && (
         <Box flexDirection="column" marginTop={1}>
           <Text>
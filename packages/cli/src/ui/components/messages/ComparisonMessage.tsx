@@ -0,0 +1,93 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Box, Text } from 'ink';
+import Spinner from 'ink-spinner';
+import { ModelComparisonResult } from '@google/gemini-cli-core';
+import { ComparisonProps } from '../../types.js';
+import { Colors } from '../../colors.js';
+import { MarkdownDisplay } from '../../utils/MarkdownDisplay.js';
+import { formatComparisonUsage } from '../../utils/formatters.js';
+
+// Below this width, answers are shown one below the other instead.
+const MIN_COLUMN_WIDTH = 30;
+
+export interface ComparisonMessageProps {
+  comparison: ComparisonProps;
+  terminalWidth: number;
+}
+
+const ComparisonColumn: React.FC<{
+  result: ModelComparisonResult;
+  width: number;
+}> = ({ result, width }) => (
+  <Box
+    flexDirection="column"
+    width={width}
+    borderStyle="round"
+    borderColor={Colors.Gray}
+    paddingX={1}
+  >
+    <Text bold color={Colors.AccentPurple}>
+      {result.provider}/{result.model}
+    </Text>
+    <Text color={Colors.Gray}>{formatComparisonUsage(result)}</Text>
+    <Box marginTop={1} flexDirection="column">
+      {result.error !== undefined ? (
+        <Text color={Colors.AccentRed}>{result.error}</Text>
+      ) : result.text ? (
+        <MarkdownDisplay
+          text={result.text}
+          isPending={false}
+          // The border and padding take two columns on each side.
+          terminalWidth={width - 4}
+        />
+      ) : (
+        <Text color={Colors.Gray}>(empty response)</Text>
+      )}
+    </Box>
+  </Box>
+);
+
+/*
+ * Comparison messages appear when the /compare command is run, and show a
+ * loading spinner while the models answer, followed by their answers side by
+ * side.
+ */
+export const ComparisonMessage: React.FC<ComparisonMessageProps> = ({
+  comparison,
+  terminalWidth,
+}) => {
+  if (comparison.isPending) {
+    return (
+      <Box flexDirection="row">
+        <Box marginRight={1}>
+          <Spinner type="dots" />
+        </Box>
+        <Text color={Colors.AccentPurple}>
+          Asking {comparison.targets.join(', ')}
+        </Text>
+      </Box>
+    );
+  }
+
+  const columnWidth = Math.floor(
+    terminalWidth / Math.max(comparison.results.length, 1),
+  );
+  const sideBySide = columnWidth >= MIN_COLUMN_WIDTH;
+  return (
+    <Box flexDirection={sideBySide ? 'row' : 'column'}>
+      {comparison.results.map((result, index) => (
+        <ComparisonColumn
+          key={index}
+          result={result}
+          width={sideBySide ? columnWidth : terminalWidth}
+        />
+      ))}
+    </Box>
+  );
+};
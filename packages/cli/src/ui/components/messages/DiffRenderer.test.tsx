@@ -362,4 +362,39 @@ fileDiff Index: Dockerfile
 2 RUN npm install
 3 RUN npm run build`);
   });
+
+  it('should render the name of each file in a diff of several files', () => {
+    const multiFileDiff = `Index: a.ts
+===================================================================
+--- a.ts\tCurrent
++++ a.ts\tProposed
+@@ -1,1 +1,1 @@
+-const a = 1;
++const a = 2;
+Index: b.ts
+===================================================================
+--- b.ts\tCurrent
++++ b.ts\tProposed
+@@ -1,1 +1,1 @@
+-const b = 1;
++const b = 2;
+`;
+    const { lastFrame } = render(
+      <OverflowProvider>
+        <DiffRenderer
+          diffContent={multiFileDiff}
+          filename="2 files"
+          terminalWidth={80}
+        />
+      </OverflowProvider>,
+    );
+    const output = lastFrame();
+
+    expect(output).toEqual(`a.ts
+1 - const a = 1;
+1 + const a = 2;
+b.ts
+1 - const b = 1;
+1 + const b = 2;`);
+  });
 });
@@ -12,7 +12,7 @@ import { colorizeCode, colorizeLine } from '../../utils/CodeColorizer.js';
 import { MaxSizedBox } from '../shared/MaxSizedBox.js';
 
 interface DiffLine {
-  type: 'add' | 'del' | 'context' | 'hunk' | 'other';
+  type: 'add' | 'del' | 'context' | 'hunk' | 'file' | 'other';
   oldLine?: number;
   newLine?: number;
   content: string;
@@ -27,6 +27,12 @@ function parseDiffWithLineNumbers(diffContent: string): DiffLine[] {
   const hunkHeaderRegex = /^@@ -(\d+),?\d* \+(\d+),?\d* @@/;
 
   for (const line of lines) {
+    // Diffs of several files start each file with an index line.
+    if (line.startsWith('Index: ')) {
+      inHunk = false;
+      result.push({ type: 'file', content: line.substring(7).trim() });
+      continue;
+    }
     const hunkMatch = line.match(hunkHeaderRegex);
     if (hunkMatch) {
       currentOldLine = parseInt(hunkMatch[1], 10);
@@ -120,15 +126,20 @@ export const DiffRenderer: React.FC<DiffRendererProps> = ({
     );
   }
 
+  const fileCount = parsedLines.filter((line) => line.type === 'file').length;
+
   // Check if the diff represents a new file (only additions and header lines)
-  const isNewFile = parsedLines.every(
-    (line) =>
-      line.type === 'add' ||
-      line.type === 'hunk' ||
-      line.type === 'other' ||
-      line.content.startsWith('diff --git') ||
-      line.content.startsWith('new file mode'),
-  );
+  const isNewFile =
+    fileCount <= 1 &&
+    parsedLines.every(
+      (line) =>
+        line.type === 'add' ||
+        line.type === 'hunk' ||
+        line.type === 'file' ||
+        line.type === 'other' ||
+        line.content.startsWith('diff --git') ||
+        line.content.startsWith('new file mode'),
+    );
 
   let renderedOutput;
 
@@ -176,12 +187,19 @@ const renderDiffContent = (
     content: line.content.replace(/\t/g, ' '.repeat(tabWidth)),
   }));
 
+  // File names are only shown for diffs of several files.
+  const showFileNames =
+    normalizedLines.filter((l) => l.type === 'file').length > 1;
+
   // Filter out non-displayable lines (hunks, potentially 'other') using the normalized list
   const displayableLines = normalizedLines.filter(
-    (l) => l.type !== 'hunk' && l.type !== 'other',
+    (l) =>
+      l.type !== 'hunk' &&
+      l.type !== 'other' &&
+      (l.type !== 'file' || showFileNames),
   );
 
-  if (displayableLines.length === 0) {
+  if (displayableLines.every((l) => l.type === 'file')) {
     return (
       <Box borderStyle="round" borderColor={Colors.Gray} padding={1}>
         <Text dimColor>No changes detected.</Text>
@@ -196,16 +214,17 @@ const renderDiffContent = (
   );
   const gutterWidth = Math.max(1, maxLineNumber.toString().length);
 
-  const fileExtension = filename?.split('.').pop() || null;
-  const language = fileExtension
-    ? getLanguageFromExtension(fileExtension)
-    : null;
+  const getLanguage = (name: string | undefined) => {
+    const fileExtension = name?.split('.').pop() || null;
+    return fileExtension ? getLanguageFromExtension(fileExtension) : null;
+  };
+  let language = getLanguage(filename);
 
   // Calculate the minimum indentation across all displayable lines
   let baseIndentation = Infinity; // Start high to find the minimum
   for (const line of displayableLines) {
     // Only consider lines with actual content for indentation calculation
-    if (line.content.trim() === '') continue;
+    if (line.type === 'file' || line.content.trim() === '') continue;
 
     const firstCharIndex = line.content.search(/\S/); // Find index of first non-whitespace char
     const currentIndent = firstCharIndex === -1 ? 0 : firstCharIndex; // Indent is 0 if no non-whitespace found
@@ -230,6 +249,19 @@ const renderDiffContent = (
       key={key}
     >
       {displayableLines.reduce<React.ReactNode[]>((acc, line, index) => {
+        if (line.type === 'file') {
+          language = getLanguage(line.content);
+          lastLineNumber = null;
+          acc.push(
+            <Box key={`file-${index}`} marginTop={index > 0 ? 1 : 0}>
+              <Text bold wrap="truncate">
+                {line.content}
+              </Text>
+            </Box>,
+          );
+          return acc;
+        }
+
         // Determine the relevant line number for gap calculation based on type
         let relevantLineNumberForGapCalc: number | null = null;
         if (line.type === 'add' || line.type === 'context') {
@@ -209,6 +209,7 @@ export const useSlashCommandProcessor = (
     async (
       rawQuery: PartListUnion,
       oneTimeShellAllowlist?: Set<string>,
+      abortSignal?: AbortSignal,
     ): Promise<SlashCommandProcessorResult | false> => {
       setIsProcessing(true);
       try {
@@ -274,6 +275,7 @@ export const useSlashCommandProcessor = (
                 raw: trimmed,
                 name: commandToExecute.name,
                 args,
+                abortSignal,
               },
             };
 
@@ -403,6 +405,7 @@ export const useSlashCommandProcessor = (
                     result.originalInvocation.raw,
                     // Pass the approved commands as a one-time grant for this execution.
                     new Set(approvedCommands),
+                    abortSignal,
                   );
                 }
                 default: {
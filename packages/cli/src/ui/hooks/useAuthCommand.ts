@@ -38,6 +38,11 @@ export const useAuthCommand = (
 
       try {
         setIsAuthenticating(true);
+        // Pick up provider profiles added from the auth dialog.
+        config.setProviderProfiles(
+          settings.merged.providers ?? {},
+          settings.merged.defaultProvider,
+        );
         await config.refreshAuth(authType);
         console.log(`Authenticated via "${authType}".`);
       } catch (e) {
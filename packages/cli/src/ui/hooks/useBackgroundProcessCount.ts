@@ -0,0 +1,28 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect } from 'react';
+import { Config } from '@google/gemini-cli-core';
+
+/**
+ * Returns the number of background processes that the process tool started
+ * and that are still running.
+ */
+export function useBackgroundProcessCount(config: Config): number {
+  const service = config.getBackgroundProcessService();
+  const [count, setCount] = useState(() => service.getRunningCount());
+
+  useEffect(() => {
+    const handleChange = () => setCount(service.getRunningCount());
+    handleChange();
+    service.on('change', handleChange);
+    return () => {
+      service.off('change', handleChange);
+    };
+  }, [service]);
+
+  return count;
+}
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import {
+  Config,
+  ToolConfirmationOutcome,
+  getDailySpend,
+  uiTelemetryService,
+} from '@google/gemini-cli-core';
+import { SessionMetrics } from '../contexts/SessionContext.js';
+import { useBudget } from './useBudget.js';
+
+vi.mock('@google/gemini-cli-core', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('@google/gemini-cli-core')>();
+  return {
+    ...actual,
+    getDailySpend: vi.fn(() => 0),
+    uiTelemetryService: { getMetrics: vi.fn() },
+  };
+});
+
+// One million prompt tokens of gemini-2.5-pro cost $1.25.
+const sessionMetrics = (promptTokens: number): SessionMetrics => ({
+  models: {
+    'gemini-2.5-pro': {
+      api: { totalRequests: 1, totalErrors: 0, totalLatencyMs: 0 },
+      tokens: {
+        prompt: promptTokens,
+        candidates: 0,
+        total: promptTokens,
+        cached: 0,
+        thoughts: 0,
+        tool: 0,
+      },
+    },
+  },
+  tools: {
+    totalCalls: 0,
+    totalSuccess: 0,
+    totalFail: 0,
+    totalDurationMs: 0,
+    totalDecisions: { accept: 0, reject: 0, modify: 0 },
+    byName: {},
+  },
+});
+
+describe('useBudget', () => {
+  let budget: { session?: number; daily?: number };
+  const config = { getBudget: () => budget } as unknown as Config;
+  const telemetry = uiTelemetryService as unknown as { getMetrics: Mock };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    budget = {};
+    telemetry.getMetrics.mockReturnValue(sessionMetrics(0));
+  });
+
+  it('should not ask while under budget', async () => {
+    budget = { session: 5, daily: 10 };
+    telemetry.getMetrics.mockReturnValue(sessionMetrics(1_000_000));
+    (getDailySpend as Mock).mockReturnValue(9);
+    const { result } = renderHook(() => useBudget(config));
+
+    await expect(result.current.confirmBudget()).resolves.toBe(true);
+    expect(result.current.budgetConfirmationRequest).toBeNull();
+  });
+
+  it('should ask once the session budget is reached', async () => {
+    budget = { session: 1 };
+    telemetry.getMetrics.mockReturnValue(sessionMetrics(1_000_000));
+    const { result } = renderHook(() => useBudget(config));
+
+    let confirmed: Promise<boolean>;
+    act(() => {
+      confirmed = result.current.confirmBudget();
+    });
+    expect(result.current.budgetConfirmationRequest).toMatchObject({
+      limit: 'session',
+      budget: 1,
+      spent: 1.25,
+    });
+
+    act(() => {
+      result.current.budgetConfirmationRequest!.onConfirm(
+        ToolConfirmationOutcome.Cancel,
+      );
+    });
+    await expect(confirmed!).resolves.toBe(false);
+    expect(result.current.budgetConfirmationRequest).toBeNull();
+  });
+
+  it('should stop asking about a budget the user approved for the session', async () => {
+    budget = { daily: 10 };
+    (getDailySpend as Mock).mockReturnValue(12);
+    const { result } = renderHook(() => useBudget(config));
+
+    let confirmed: Promise<boolean>;
+    act(() => {
+      confirmed = result.current.confirmBudget();
+    });
+    expect(result.current.budgetConfirmationRequest?.limit).toBe('daily');
+    act(() => {
+      result.current.budgetConfirmationRequest!.onConfirm(
+        ToolConfirmationOutcome.ProceedAlways,
+      );
+    });
+    await expect(confirmed!).resolves.toBe(true);
+
+    await expect(result.current.confirmBudget()).resolves.toBe(true);
+    expect(result.current.budgetConfirmationRequest).toBeNull();
+  });
+});
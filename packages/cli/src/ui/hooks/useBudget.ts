@@ -0,0 +1,74 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useRef, useCallback } from 'react';
+import {
+  Config,
+  ToolConfirmationOutcome,
+  getDailySpend,
+  uiTelemetryService,
+} from '@google/gemini-cli-core';
+import { calculateSessionCost } from '../utils/computeStats.js';
+import { BudgetConfirmationRequest } from '../components/BudgetConfirmationDialog.js';
+
+type BudgetLimit = BudgetConfirmationRequest['limit'];
+
+/**
+ * Asks the user for confirmation before each request to the model once the
+ * session or daily budget has been reached.
+ */
+export const useBudget = (config: Config) => {
+  const [budgetConfirmationRequest, setBudgetConfirmationRequest] =
+    useState<BudgetConfirmationRequest | null>(null);
+  // The limits the user chose not to be asked about again.
+  const approvedLimitsRef = useRef(new Set<BudgetLimit>());
+
+  const getExceededLimit = useCallback(():
+    | Omit<BudgetConfirmationRequest, 'onConfirm'>
+    | undefined => {
+    const budget = config.getBudget();
+    const approved = approvedLimitsRef.current;
+    if (budget.session !== undefined && !approved.has('session')) {
+      const spent = calculateSessionCost(uiTelemetryService.getMetrics());
+      if (spent >= budget.session) {
+        return { limit: 'session', budget: budget.session, spent };
+      }
+    }
+    if (budget.daily !== undefined && !approved.has('daily')) {
+      const spent = getDailySpend();
+      if (spent >= budget.daily) {
+        return { limit: 'daily', budget: budget.daily, spent };
+      }
+    }
+    return undefined;
+  }, [config]);
+
+  /**
+   * Resolves to whether the next request to the model may be sent, asking
+   * the user first if a budget has been reached.
+   */
+  const confirmBudget = useCallback(async (): Promise<boolean> => {
+    const exceeded = getExceededLimit();
+    if (!exceeded) {
+      return true;
+    }
+    const outcome = await new Promise<ToolConfirmationOutcome>((resolve) => {
+      setBudgetConfirmationRequest({
+        ...exceeded,
+        onConfirm: (resolvedOutcome) => {
+          setBudgetConfirmationRequest(null); // Close the dialog
+          resolve(resolvedOutcome);
+        },
+      });
+    });
+    if (outcome === ToolConfirmationOutcome.ProceedAlways) {
+      approvedLimitsRef.current.add(exceeded.limit);
+    }
+    return outcome !== ToolConfirmationOutcome.Cancel;
+  }, [getExceededLimit]);
+
+  return { budgetConfirmationRequest, confirmBudget };
+};
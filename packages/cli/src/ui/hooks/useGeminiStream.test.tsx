@@ -319,6 +319,7 @@ describe('useGeminiStream', () => {
       },
       setQuotaErrorOccurred: vi.fn(),
       getQuotaErrorOccurred: vi.fn(() => false),
+      getBudget: vi.fn(() => ({})),
       getContentGeneratorConfig: vi
         .fn()
         .mockReturnValue(contentGeneratorConfig),
@@ -936,6 +937,31 @@ describe('useGeminiStream', () => {
       );
     });
 
+    it('should abort a running slash command when escape is pressed', async () => {
+      let commandSignal: AbortSignal | undefined;
+      let finishCommand: () => void;
+      mockHandleSlashCommand.mockImplementation(
+        (_cmd, _allowlist, abortSignal) => {
+          commandSignal = abortSignal;
+          return new Promise((resolve) => {
+            finishCommand = () => resolve({ type: 'handled' });
+          });
+        },
+      );
+      const { result } = renderTestHook();
+
+      await act(async () => {
+        result.current.submitQuery('/compare local openai Hi');
+      });
+      await waitFor(() => expect(commandSignal).toBeDefined());
+
+      simulateEscapeKeyPress();
+
+      expect(commandSignal?.aborted).toBe(true);
+      await act(async () => finishCommand());
+      expect(mockSendMessageStream).not.toHaveBeenCalled();
+    });
+
     it('should prevent further processing after cancellation', async () => {
       let continueStream: () => void;
       const streamPromise = new Promise<void>((resolve) => {
@@ -1053,7 +1079,11 @@ describe('useGeminiStream', () => {
       });
 
       await waitFor(() => {
-        expect(mockHandleSlashCommand).toHaveBeenCalledWith('/help');
+        expect(mockHandleSlashCommand).toHaveBeenCalledWith(
+          '/help',
+          undefined,
+          expect.any(AbortSignal),
+        );
         expect(mockScheduleToolCalls).not.toHaveBeenCalled();
         expect(mockSendMessageStream).not.toHaveBeenCalled(); // No LLM call made
       });
@@ -1076,6 +1106,8 @@ describe('useGeminiStream', () => {
       await waitFor(() => {
         expect(mockHandleSlashCommand).toHaveBeenCalledWith(
           '/my-custom-command',
+          undefined,
+          expect.any(AbortSignal),
         );
 
         expect(localMockSendMessageStream).not.toHaveBeenCalledWith(
@@ -1109,7 +1141,11 @@ describe('useGeminiStream', () => {
       });
 
       await waitFor(() => {
-        expect(mockHandleSlashCommand).toHaveBeenCalledWith('/emptycmd');
+        expect(mockHandleSlashCommand).toHaveBeenCalledWith(
+          '/emptycmd',
+          undefined,
+          expect.any(AbortSignal),
+        );
         expect(localMockSendMessageStream).toHaveBeenCalledWith(
           '',
           expect.any(AbortSignal),
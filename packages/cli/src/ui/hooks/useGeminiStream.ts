@@ -55,6 +55,7 @@ import {
   TrackedCancelledToolCall,
 } from './useReactToolScheduler.js';
 import { useSessionStats } from '../contexts/SessionContext.js';
+import { useBudget } from './useBudget.js';
 
 export function mergePartListUnions(list: PartListUnion[]): PartListUnion {
   const resultParts: PartListUnion = [];
@@ -87,6 +88,8 @@ export const useGeminiStream = (
   onDebugMessage: (message: string) => void,
   handleSlashCommand: (
     cmd: PartListUnion,
+    oneTimeShellAllowlist?: Set<string>,
+    abortSignal?: AbortSignal,
   ) => Promise<SlashCommandProcessorResult | false>,
   shellModeActive: boolean,
   getPreferredEditor: () => EditorType | undefined,
@@ -98,12 +101,14 @@ export const useGeminiStream = (
   const [initError, setInitError] = useState<string | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const turnCancelledRef = useRef(false);
+  const slashCommandRunningRef = useRef(false);
   const [isResponding, setIsResponding] = useState<boolean>(false);
   const [thought, setThought] = useState<ThoughtSummary | null>(null);
   const [pendingHistoryItemRef, setPendingHistoryItem] =
     useStateAndRef<HistoryItemWithoutId | null>(null);
   const processedMemoryToolsRef = useRef<Set<string>>(new Set());
   const { startNewPrompt, getPromptCount } = useSessionStats();
+  const { budgetConfirmationRequest, confirmBudget } = useBudget(config);
   const logger = useLogger();
   const gitService = useMemo(() => {
     if (!config.getProjectRoot()) {
@@ -159,7 +164,10 @@ export const useGeminiStream = (
   );
 
   const streamingState = useMemo(() => {
-    if (toolCalls.some((tc) => tc.status === 'awaiting_approval')) {
+    if (
+      budgetConfirmationRequest ||
+      toolCalls.some((tc) => tc.status === 'awaiting_approval')
+    ) {
       return StreamingState.WaitingForConfirmation;
     }
     if (
@@ -179,9 +187,15 @@ export const useGeminiStream = (
       return StreamingState.Responding;
     }
     return StreamingState.Idle;
-  }, [isResponding, toolCalls]);
+  }, [isResponding, toolCalls, budgetConfirmationRequest]);
 
   useInput((_input, key) => {
+    if (slashCommandRunningRef.current && key.escape) {
+      // Slash commands run before the turn starts responding, and report
+      // their own cancellation.
+      abortControllerRef.current?.abort();
+      return;
+    }
     if (streamingState === StreamingState.Responding && key.escape) {
       if (turnCancelledRef.current) {
         return;
@@ -237,7 +251,17 @@ export const useGeminiStream = (
         await logger?.logMessage(MessageSenderType.USER, trimmedQuery);
 
         // Handle UI-only commands first
-        const slashCommandResult = await handleSlashCommand(trimmedQuery);
+        slashCommandRunningRef.current = true;
+        let slashCommandResult: SlashCommandProcessorResult | false;
+        try {
+          slashCommandResult = await handleSlashCommand(
+            trimmedQuery,
+            undefined,
+            abortSignal,
+          );
+        } finally {
+          slashCommandRunningRef.current = false;
+        }
 
         if (slashCommandResult) {
           switch (slashCommandResult.type) {
@@ -635,6 +659,28 @@ export const useGeminiStream = (
         return;
       }
 
+      if (!(await confirmBudget())) {
+        if (options?.isContinuation) {
+          // The model is still waiting for the tool responses, so keep them
+          // in the history for the next prompt.
+          geminiClient.addHistory({
+            role: 'user',
+            parts: (Array.isArray(queryToSend)
+              ? queryToSend
+              : [queryToSend]
+            ).map((part) => (typeof part === 'string' ? { text: part } : part)),
+          });
+        }
+        addItem(
+          {
+            type: MessageType.INFO,
+            text: 'Request cancelled: the budget has been reached.',
+          },
+          userMessageTimestamp,
+        );
+        return;
+      }
+
       if (!options?.isContinuation) {
         startNewPrompt();
       }
@@ -693,6 +739,7 @@ export const useGeminiStream = (
       setShowHelp,
       setModelSwitchedFromQuotaError,
       prepareQueryForGemini,
+      confirmBudget,
       processGeminiStreamEvents,
       pendingHistoryItemRef,
       addItem,
@@ -950,5 +997,6 @@ export const useGeminiStream = (
     initError,
     pendingHistoryItems,
     thought,
+    budgetConfirmationRequest,
   };
 };
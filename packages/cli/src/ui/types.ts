@@ -5,6 +5,7 @@
  */
 
 import {
+  ModelComparisonResult,
   ToolCallConfirmationDetails,
   ToolResultDisplay,
 } from '@google/gemini-cli-core';
@@ -58,6 +59,14 @@ export interface CompressionProps {
   newTokenCount: number | null;
 }
 
+export interface ComparisonProps {
+  isPending: boolean;
+  prompt: string;
+  /** The `<provider>/<model>` targets asked. */
+  targets: string[];
+  results: ModelComparisonResult[];
+}
+
 export interface HistoryItemBase {
   text?: string; // Text content for user/gemini/info/error messages
 }
@@ -130,6 +139,11 @@ export type HistoryItemCompression = HistoryItemBase & {
   compression: CompressionProps;
 };
 
+export type HistoryItemComparison = HistoryItemBase & {
+  type: 'comparison';
+  comparison: ComparisonProps;
+};
+
 // Using Omit<HistoryItem, 'id'> seems to have some issues with typescript's
 // type inference e.g. historyItem.type === 'tool_group' isn't auto-inferring that
 // 'tools' in historyItem.
@@ -147,7 +161,8 @@ export type HistoryItemWithoutId =
   | HistoryItemModelStats
   | HistoryItemToolStats
   | HistoryItemQuit
-  | HistoryItemCompression;
+  | HistoryItemCompression
+  | HistoryItemComparison;
 
 export type HistoryItem = HistoryItemWithoutId & { id: number };
 
@@ -163,6 +178,7 @@ export enum MessageType {
   QUIT = 'quit',
   GEMINI = 'gemini',
   COMPRESSION = 'compression',
+  COMPARISON = 'comparison',
 }
 
 // Simplified message structure for internal feedback
@@ -9,6 +9,7 @@ import {
   calculateAverageLatency,
   calculateCacheHitRate,
   calculateErrorRate,
+  calculateSessionCost,
   computeSessionStats,
 } from './computeStats.js';
 import { ModelMetrics, SessionMetrics } from '../contexts/SessionContext.js';
@@ -245,3 +246,36 @@ describe('computeSessionStats', () => {
     expect(result.agreementRate).toBe(0);
   });
 });
+
+describe('calculateSessionCost', () => {
+  const modelMetrics = (prompt: number, candidates: number): ModelMetrics => ({
+    api: { totalRequests: 1, totalErrors: 0, totalLatencyMs: 0 },
+    tokens: {
+      prompt,
+      candidates,
+      total: prompt + candidates,
+      cached: 0,
+      thoughts: 0,
+      tool: 0,
+    },
+  });
+
+  it('should add up the cost of the models with a known price', () => {
+    const metrics: SessionMetrics = {
+      models: {
+        'gemini-2.5-pro': modelMetrics(1_000_000, 100_000),
+        'llama3.1:8b': modelMetrics(1_000_000, 1_000_000),
+      },
+      tools: {
+        totalCalls: 0,
+        totalSuccess: 0,
+        totalFail: 0,
+        totalDurationMs: 0,
+        totalDecisions: { accept: 0, reject: 0, modify: 0 },
+        byName: {},
+      },
+    };
+
+    expect(calculateSessionCost(metrics)).toBeCloseTo(1.25 + 1);
+  });
+});
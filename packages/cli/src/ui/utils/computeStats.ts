@@ -9,6 +9,7 @@ import {
   ComputedSessionStats,
   ModelMetrics,
 } from '../contexts/SessionContext.js';
+import { calculateCost } from '@google/gemini-cli-core';
 
 export function calculateErrorRate(metrics: ModelMetrics): number {
   if (metrics.api.totalRequests === 0) {
@@ -31,6 +32,29 @@ export function calculateCacheHitRate(metrics: ModelMetrics): number {
   return (metrics.tokens.cached / metrics.tokens.prompt) * 100;
 }
 
+/**
+ * The estimated cost of a model's usage in US dollars, or undefined if the
+ * model's price is not known.
+ */
+export function calculateModelCost(
+  model: string,
+  metrics: ModelMetrics,
+): number | undefined {
+  return calculateCost(model, metrics.tokens);
+}
+
+/**
+ * The estimated cost of the session in US dollars, counting only models
+ * whose price is known.
+ */
+export function calculateSessionCost(metrics: SessionMetrics): number {
+  return Object.entries(metrics.models).reduce(
+    (acc, [model, modelMetrics]) =>
+      acc + (calculateModelCost(model, modelMetrics) ?? 0),
+    0,
+  );
+}
+
 export const computeSessionStats = (
   metrics: SessionMetrics,
 ): ComputedSessionStats => {
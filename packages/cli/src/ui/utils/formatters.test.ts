@@ -5,7 +5,12 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { formatDuration, formatMemoryUsage } from './formatters.js';
+import {
+  formatComparisonUsage,
+  formatCost,
+  formatDuration,
+  formatMemoryUsage,
+} from './formatters.js';
 
 describe('formatters', () => {
   describe('formatMemoryUsage', () => {
@@ -69,4 +74,43 @@ describe('formatters', () => {
       expect(formatDuration(-100)).toBe('0s');
     });
   });
+
+  describe('formatCost', () => {
+    it('should format zero', () => {
+      expect(formatCost(0)).toBe('$0.00');
+    });
+
+    it('should keep four decimals below a dollar', () => {
+      expect(formatCost(0.00421)).toBe('$0.0042');
+    });
+
+    it('should round to cents from a dollar', () => {
+      expect(formatCost(12.3456)).toBe('$12.35');
+    });
+  });
+
+  describe('formatComparisonUsage', () => {
+    it('should show the latency of a failed request', () => {
+      expect(
+        formatComparisonUsage({
+          provider: 'local',
+          model: 'qwen3:8b',
+          error: 'Boom',
+          durationMs: 1500,
+        }),
+      ).toBe('1.5s');
+    });
+
+    it('should show tokens and the cost of a priced model', () => {
+      expect(
+        formatComparisonUsage({
+          provider: 'gemini',
+          model: 'gemini-2.5-pro',
+          text: 'Hi',
+          durationMs: 800,
+          usage: { promptTokenCount: 2000, candidatesTokenCount: 200 },
+        }),
+      ).toBe('800ms · 2,000 in · 200 out · $0.0045');
+    });
+  });
 });
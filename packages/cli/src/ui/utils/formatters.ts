@@ -4,6 +4,8 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { ModelComparisonResult, calculateCost } from '@google/gemini-cli-core';
+
 export const formatMemoryUsage = (bytes: number): string => {
   const gb = bytes / (1024 * 1024 * 1024);
   if (bytes < 1024 * 1024) {
@@ -61,3 +63,45 @@ export const formatDuration = (milliseconds: number): string => {
 
   return parts.join(' ');
 };
+
+/**
+ * Formats an amount in US dollars, with more precision below a dollar so that
+ * the cost of small requests stays visible (e.g., "$0.0042", "$1.25").
+ * @param usd The amount in US dollars.
+ * @returns A formatted string representing the amount.
+ */
+export const formatCost = (usd: number): string => {
+  if (usd === 0) {
+    return '$0.00';
+  }
+  return `$${usd.toFixed(usd < 1 ? 4 : 2)}`;
+};
+
+/**
+ * Summarizes the latency, token usage and, if the model's price is known,
+ * the cost of a `/compare` answer (e.g., "1.2s · 1,024 in · 256 out · $0.0042").
+ * @param result The answer of one model.
+ * @returns A formatted summary.
+ */
+export const formatComparisonUsage = (
+  result: ModelComparisonResult,
+): string => {
+  const parts = [formatDuration(result.durationMs)];
+  if (result.usage) {
+    const tokens = {
+      prompt: result.usage.promptTokenCount ?? 0,
+      candidates: result.usage.candidatesTokenCount ?? 0,
+      cached: result.usage.cachedContentTokenCount ?? 0,
+      thoughts: result.usage.thoughtsTokenCount ?? 0,
+    };
+    parts.push(
+      `${tokens.prompt.toLocaleString()} in`,
+      `${(tokens.candidates + tokens.thoughts).toLocaleString()} out`,
+    );
+    const cost = calculateCost(result.model, tokens);
+    if (cost !== undefined) {
+      parts.push(formatCost(cost));
+    }
+  }
+  return parts.join(' · ');
+};
@@ -6,7 +6,7 @@
 
 import { promises as fs } from 'fs';
 import { join } from 'path';
-import { getProjectTempDir } from '@google/gemini-cli-core';
+import { Config, getProjectTempDir } from '@google/gemini-cli-core';
 
 const cleanupFunctions: Array<() => void> = [];
 
@@ -34,3 +34,14 @@ export async function cleanupCheckpoints() {
     // Ignore errors if the directory doesn't exist or fails to delete.
   }
 }
+
+/**
+ * Stops the background processes started with the process tool when the CLI
+ * exits. Exiting with `process.exit()` skips the registered cleanup
+ * functions, so they are also stopped on the process's `exit` event.
+ */
+export function registerBackgroundProcessCleanup(config: Config) {
+  const stopProcesses = () => config.getBackgroundProcessService().killAll();
+  registerCleanup(stopProcesses);
+  process.on('exit', stopProcesses);
+}
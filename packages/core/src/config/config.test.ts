@@ -244,6 +244,64 @@ describe('Server Config (config.ts)', () => {
     expect(fileService).toBeDefined();
   });
 
+  describe('Embedding Settings', () => {
+    const providers = {
+      local: {
+        type: 'ollama',
+        baseUrl: 'http://localhost:11434',
+        model: 'qwen3:8b',
+        embeddingModel: 'nomic-embed-text',
+      },
+      openai: { baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o' },
+    };
+
+    it('should use the default Gemini embedding model without a provider', () => {
+      const config = new Config({ ...baseParams, embeddingModel: undefined });
+      expect(config.getEmbeddingProvider()).toBeUndefined();
+      expect(config.getEmbeddingModel()).toBe('gemini-embedding-001');
+    });
+
+    it("should use the embedding model of the active provider's profile", () => {
+      const config = new Config({
+        ...baseParams,
+        embeddingModel: undefined,
+        providers,
+        provider: 'local',
+      });
+      expect(config.getEmbeddingProvider()).toBe('local');
+      expect(config.getEmbeddingModel()).toBe('nomic-embed-text');
+    });
+
+    it('should use a separately configured embedding provider', () => {
+      const config = new Config({
+        ...baseParams,
+        embeddingModel: undefined,
+        providers,
+        provider: 'openai',
+        embeddingProvider: 'local',
+      });
+      expect(config.getEmbeddingProvider()).toBe('local');
+      expect(config.getEmbeddingModel()).toBe('nomic-embed-text');
+    });
+
+    it('should have no embedding model for a provider without one', () => {
+      const config = new Config({
+        ...baseParams,
+        embeddingModel: undefined,
+        providers,
+        provider: 'openai',
+      });
+      expect(config.getEmbeddingModel()).toBeUndefined();
+      expect(
+        new Config({
+          ...baseParams,
+          providers,
+          provider: 'openai',
+        }).getEmbeddingModel(),
+      ).toBe(EMBEDDING_MODEL);
+    });
+  });
+
   describe('Telemetry Settings', () => {
     it('should return default telemetry target if not provided', () => {
       const params: ConfigParameters = {
@@ -11,6 +11,17 @@ import {
   ContentGeneratorConfig,
   createContentGeneratorConfig,
 } from '../core/contentGenerator.js';
+import { LLMAuthScheme } from '../core/llmProvider.js';
+import type { TokenizerName } from '../providers/tokenizer.js';
+import type { ProviderFixture } from '../providers/fixture.js';
+import {
+  ModelCapabilityOverrides,
+  setModelCapabilityOverrides,
+} from '../core/modelCapabilities.js';
+import {
+  ModelPricing,
+  setModelPricingOverrides,
+} from '../core/modelPricing.js';
 import { PromptRegistry } from '../prompts/prompt-registry.js';
 import { ToolRegistry } from '../tools/tool-registry.js';
 import { LSTool } from '../tools/ls.js';
@@ -18,7 +29,9 @@ import { ReadFileTool } from '../tools/read-file.js';
 import { GrepTool } from '../tools/grep.js';
 import { GlobTool } from '../tools/glob.js';
 import { EditTool } from '../tools/edit.js';
+import { ApplyPatchTool } from '../tools/apply-patch.js';
 import { ShellTool } from '../tools/shell.js';
+import { ProcessTool } from '../tools/process.js';
 import { WriteFileTool } from '../tools/write-file.js';
 import { WebFetchTool } from '../tools/web-fetch.js';
 import { ReadManyFilesTool } from '../tools/read-many-files.js';
@@ -31,6 +44,7 @@ import { WebSearchTool } from '../tools/web-search.js';
 import { GeminiClient } from '../core/client.js';
 import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
 import { GitService } from '../services/gitService.js';
+import { BackgroundProcessService } from '../services/backgroundProcessService.js';
 import { getProjectTempDir } from '../utils/paths.js';
 import {
   initializeTelemetry,
@@ -38,6 +52,8 @@ import {
   DEFAULT_OTLP_ENDPOINT,
   TelemetryTarget,
   StartSessionEvent,
+  ProviderFailoverEvent,
+  logProviderFailover,
 } from '../telemetry/index.js';
 import {
   DEFAULT_GEMINI_EMBEDDING_MODEL,
@@ -47,6 +63,9 @@ import { ClearcutLogger } from '../telemetry/clearcut-logger/clearcut-logger.js'
 import { shouldAttemptBrowserLaunch } from '../utils/browser.js';
 import { MCPOAuthConfig } from '../mcp/oauth-provider.js';
 import { IdeClient } from '../ide/ide-client.js';
+import type { FailoverTarget } from '../providers/failover.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { getErrorStatus } from '../utils/retry.js';
 
 // Re-export OAuth config type
 export type { MCPOAuthConfig };
@@ -69,6 +88,50 @@ export interface SummarizeToolOutputSettings {
   tokenBudget?: number;
 }
 
+export interface LLMProviderSettings {
+  options?: Record<string, unknown>;
+  keepAlive?: string | number;
+}
+
+export interface ProviderModelSettings extends LLMProviderSettings {
+  headers?: Record<string, string>;
+  tokenizer?: TokenizerName;
+}
+
+export interface ProviderProfile extends ProviderModelSettings {
+  type?: string;
+  baseUrl: string;
+  authScheme?: LLMAuthScheme;
+  apiKey?: string;
+  apiKeyEnv?: string;
+  model?: string;
+  /** The model used for embeddings with this provider. */
+  embeddingModel?: string;
+  /** The longest a request may take before it fails with a timeout. */
+  timeoutSeconds?: number;
+  models?: Record<string, ProviderModelSettings>;
+}
+
+/**
+ * The LLM calls the CLI makes besides the main chat, each of which can be
+ * routed to its own model and provider.
+ */
+export type ModelRole =
+  | 'nextSpeaker'
+  | 'loopDetection'
+  | 'editCorrection'
+  | 'summarizer'
+  | 'compression';
+
+export interface ModelRoute {
+  /** A profile from `providers`. Defaults to the active provider. */
+  provider?: string;
+  /** Defaults to the model the role uses without a route, or to the default model of `provider`. */
+  model?: string;
+}
+
+export type ModelRouting = Partial<Record<ModelRole, ModelRoute>>;
+
 export interface TelemetrySettings {
   enabled?: boolean;
   target?: TelemetryTarget;
@@ -140,9 +203,67 @@ export type FlashFallbackHandler = (
   error?: unknown,
 ) => Promise<boolean | string | null>;
 
+/**
+ * Called when a request fails over from one provider profile to the next.
+ * The providers are given as `<profile>/<model>`.
+ */
+export type ProviderFailoverHandler = (
+  from: string,
+  to: string,
+  error: unknown,
+) => void;
+
+/**
+ * Spending limits in US dollars. Once a limit is reached, each further
+ * request to the model needs the user's confirmation.
+ */
+export interface BudgetSettings {
+  /** The limit for the current session. */
+  session?: number;
+  /** The limit across all sessions of the current day. */
+  daily?: number;
+}
+
+/**
+ * The service `google_web_search` searches with. Gemini answers with Google
+ * Search grounding; the others return search results, so that the tool also
+ * works with providers other than Gemini.
+ */
+export type WebSearchBackendType =
+  | 'gemini'
+  | 'searxng'
+  | 'brave'
+  | 'tavily'
+  | 'http';
+
+export interface WebSearchSettings {
+  /** Defaults to `gemini`. */
+  backend?: WebSearchBackendType;
+  /**
+   * The URL of the SearxNG instance or of the `http` endpoint. Overrides
+   * the API URL of Brave and Tavily.
+   */
+  url?: string;
+  apiKey?: string;
+  /** The environment variable to read the API key from. */
+  apiKeyEnv?: string;
+  /** The most results to return. Defaults to 5. */
+  maxResults?: number;
+  /** Extra headers, e.g. for the `http` endpoint's authentication. */
+  headers?: Record<string, string>;
+  /** The query parameter of the `http` endpoint. Defaults to `q`. */
+  queryParam?: string;
+  /**
+   * The dot-separated path to the array of results in the `http` endpoint's
+   * response. Defaults to `results`; empty if the response is the array.
+   */
+  resultsPath?: string;
+}
+
 export interface ConfigParameters {
   sessionId: string;
   embeddingModel?: string;
+  embeddingProvider?: string;
   sandbox?: SandboxConfig;
   targetDir: string;
   debugMode: boolean;
@@ -181,6 +302,19 @@ export interface ConfigParameters {
   blockedMcpServers?: Array<{ name: string; extensionName: string }>;
   noBrowser?: boolean;
   summarizeToolOutput?: Record<string, SummarizeToolOutputSettings>;
+  llmProvider?: LLMProviderSettings;
+  providers?: Record<string, ProviderProfile>;
+  defaultProvider?: string;
+  provider?: string;
+  fallbackProviders?: string[];
+  providerCooldownSeconds?: number;
+  modelCapabilities?: Record<string, ModelCapabilityOverrides>;
+  modelRouting?: ModelRouting;
+  modelPricing?: Record<string, ModelPricing>;
+  budget?: BudgetSettings;
+  promptCaching?: boolean;
+  providerFixture?: ProviderFixture;
+  webSearch?: WebSearchSettings;
   ideMode?: boolean;
   ideClient?: IdeClient;
 }
@@ -190,7 +324,8 @@ export class Config {
   private promptRegistry!: PromptRegistry;
   private readonly sessionId: string;
   private contentGeneratorConfig!: ContentGeneratorConfig;
-  private readonly embeddingModel: string;
+  private readonly embeddingModel: string | undefined;
+  private readonly embeddingProvider: string | undefined;
   private readonly sandbox: SandboxConfig | undefined;
   private readonly targetDir: string;
   private readonly debugMode: boolean;
@@ -217,6 +352,8 @@ export class Config {
   };
   private fileDiscoveryService: FileDiscoveryService | null = null;
   private gitService: GitService | undefined = undefined;
+  private backgroundProcessService: BackgroundProcessService | undefined =
+    undefined;
   private readonly checkpointing: boolean;
   private readonly proxy: string | undefined;
   private readonly cwd: string;
@@ -235,16 +372,28 @@ export class Config {
     extensionName: string;
   }>;
   flashFallbackHandler?: FlashFallbackHandler;
+  providerFailoverHandler?: ProviderFailoverHandler;
   private quotaErrorOccurred: boolean = false;
   private readonly summarizeToolOutput:
     | Record<string, SummarizeToolOutputSettings>
     | undefined;
   private readonly experimentalAcp: boolean = false;
+  private readonly llmProvider: LLMProviderSettings;
+  private providers: Record<string, ProviderProfile>;
+  private defaultProvider: string | undefined;
+  private provider: string | undefined;
+  private readonly fallbackProviders: string[];
+  private readonly providerCooldownSeconds: number | undefined;
+  private readonly modelRouting: ModelRouting;
+  private readonly budget: BudgetSettings;
+  private readonly promptCaching: boolean;
+  private readonly providerFixture: ProviderFixture | undefined;
+  private readonly webSearch: WebSearchSettings;
 
   constructor(params: ConfigParameters) {
     this.sessionId = params.sessionId;
-    this.embeddingModel =
-      params.embeddingModel ?? DEFAULT_GEMINI_EMBEDDING_MODEL;
+    this.embeddingModel = params.embeddingModel;
+    this.embeddingProvider = params.embeddingProvider;
     this.sandbox = params.sandbox;
     this.targetDir = path.resolve(params.targetDir);
     this.debugMode = params.debugMode;
@@ -290,12 +439,25 @@ export class Config {
     this._blockedMcpServers = params.blockedMcpServers ?? [];
     this.noBrowser = params.noBrowser ?? false;
     this.summarizeToolOutput = params.summarizeToolOutput;
+    this.llmProvider = params.llmProvider ?? {};
+    this.providers = params.providers ?? {};
+    this.defaultProvider = params.defaultProvider;
+    this.provider = params.provider;
+    this.fallbackProviders = params.fallbackProviders ?? [];
+    this.providerCooldownSeconds = params.providerCooldownSeconds;
+    this.modelRouting = params.modelRouting ?? {};
+    this.budget = params.budget ?? {};
+    this.promptCaching = params.promptCaching ?? true;
+    this.providerFixture = params.providerFixture;
+    this.webSearch = params.webSearch ?? {};
     this.ideMode = params.ideMode ?? false;
     this.ideClient = params.ideClient;
 
     if (params.contextFileName) {
       setGeminiMdFilename(params.contextFileName);
     }
+    setModelCapabilityOverrides(params.modelCapabilities);
+    setModelPricingOverrides(params.modelPricing);
 
     if (this.telemetrySettings.enabled) {
       initializeTelemetry(this);
@@ -352,6 +514,31 @@ export class Config {
     }
   }
 
+  /**
+   * Switches the session to another model, optionally served by another
+   * provider profile, keeping the conversation so far.
+   */
+  async switchModel(model: string, providerName?: string): Promise<void> {
+    const previousProvider = this.provider;
+    const previousConfig = this.contentGeneratorConfig;
+    if (providerName !== undefined) {
+      this.provider = providerName;
+    }
+    try {
+      this.contentGeneratorConfig = createContentGeneratorConfig(
+        this,
+        previousConfig?.authType,
+        model,
+      );
+      await this.geminiClient.reinitialize(this.contentGeneratorConfig);
+    } catch (error) {
+      this.provider = previousProvider;
+      this.contentGeneratorConfig = previousConfig;
+      throw error;
+    }
+    this.modelSwitchedDuringSession = true;
+  }
+
   isModelSwitchedDuringSession(): boolean {
     return this.modelSwitchedDuringSession;
   }
@@ -367,6 +554,37 @@ export class Config {
     this.flashFallbackHandler = handler;
   }
 
+  setProviderFailoverHandler(handler: ProviderFailoverHandler): void {
+    this.providerFailoverHandler = handler;
+  }
+
+  /**
+   * Records that a request was retried on another provider profile, and
+   * lets the UI know.
+   */
+  handleProviderFailover(
+    from: Pick<FailoverTarget, 'name' | 'model'>,
+    to: Pick<FailoverTarget, 'name' | 'model'>,
+    error: unknown,
+  ): void {
+    logProviderFailover(
+      this,
+      new ProviderFailoverEvent(
+        from.name,
+        from.model,
+        to.name,
+        to.model,
+        getErrorMessage(error),
+        getErrorStatus(error),
+      ),
+    );
+    this.providerFailoverHandler?.(
+      `${from.name}/${from.model}`,
+      `${to.name}/${to.model}`,
+      error,
+    );
+  }
+
   getMaxSessionTurns(): number {
     return this.maxSessionTurns;
   }
@@ -379,8 +597,28 @@ export class Config {
     return this.quotaErrorOccurred;
   }
 
-  getEmbeddingModel(): string {
-    return this.embeddingModel;
+  /**
+   * The model used for embeddings: the configured embedding model, else the
+   * `embeddingModel` of the embedding provider's profile. Without a provider
+   * profile, Gemini's default embedding model is used. Returns undefined if
+   * the provider has no embedding model.
+   */
+  getEmbeddingModel(): string | undefined {
+    if (this.embeddingModel) {
+      return this.embeddingModel;
+    }
+    const provider = this.getEmbeddingProvider();
+    return provider
+      ? this.providers[provider]?.embeddingModel
+      : DEFAULT_GEMINI_EMBEDDING_MODEL;
+  }
+
+  /**
+   * The provider profile used for embeddings. Defaults to the active
+   * provider, but can point at a different endpoint.
+   */
+  getEmbeddingProvider(): string | undefined {
+    return this.embeddingProvider ?? this.getActiveProviderName();
   }
 
   getSandbox(): SandboxConfig | undefined {
@@ -581,6 +819,69 @@ export class Config {
     return this.summarizeToolOutput;
   }
 
+  getLLMProviderSettings(): LLMProviderSettings {
+    return this.llmProvider;
+  }
+
+  getProviderProfiles(): Record<string, ProviderProfile> {
+    return this.providers;
+  }
+
+  /**
+   * Replaces the provider profiles, e.g. after one was added from the UI.
+   */
+  setProviderProfiles(
+    providers: Record<string, ProviderProfile>,
+    defaultProvider: string | undefined,
+  ): void {
+    this.providers = providers;
+    this.defaultProvider = defaultProvider;
+  }
+
+  /**
+   * The name of the provider profile to use: the one picked with
+   * `--provider` or `/model use`, otherwise the configured default.
+   */
+  getActiveProviderName(): string | undefined {
+    return this.provider ?? this.defaultProvider;
+  }
+
+  /**
+   * The provider profiles to fall back to, in order, when the active one is
+   * unavailable.
+   */
+  getFallbackProviders(): string[] {
+    return this.fallbackProviders;
+  }
+
+  getProviderCooldownSeconds(): number | undefined {
+    return this.providerCooldownSeconds;
+  }
+
+  getModelRoute(role: ModelRole): ModelRoute | undefined {
+    return this.modelRouting[role];
+  }
+
+  getBudget(): BudgetSettings {
+    return this.budget;
+  }
+
+  /**
+   * Whether the system prompt and the history are cached between requests
+   * on providers that need to be asked to.
+   */
+  getPromptCaching(): boolean {
+    return this.promptCaching;
+  }
+
+  getProviderFixture(): ProviderFixture | undefined {
+    return this.providerFixture;
+  }
+
+  getWebSearchSettings(): WebSearchSettings {
+    return this.webSearch;
+  }
+
   getIdeMode(): boolean {
     return this.ideMode;
   }
@@ -597,6 +898,13 @@ export class Config {
     return this.gitService;
   }
 
+  getBackgroundProcessService(): BackgroundProcessService {
+    if (!this.backgroundProcessService) {
+      this.backgroundProcessService = new BackgroundProcessService();
+    }
+    return this.backgroundProcessService;
+  }
+
   async createToolRegistry(): Promise<ToolRegistry> {
     const registry = new ToolRegistry(this);
 
@@ -638,10 +946,12 @@ export class Config {
     registerCoreTool(GrepTool, this);
     registerCoreTool(GlobTool, this);
     registerCoreTool(EditTool, this);
+    registerCoreTool(ApplyPatchTool, this);
     registerCoreTool(WriteFileTool, this);
     registerCoreTool(WebFetchTool, this);
     registerCoreTool(ReadManyFilesTool, this);
     registerCoreTool(ShellTool, this);
+    registerCoreTool(ProcessTool, this);
     registerCoreTool(MemoryTool);
     registerCoreTool(WebSearchTool, this);
 
@@ -185,6 +185,7 @@ describe('Gemini Client (client.ts)', () => {
       getToolRegistry: vi.fn().mockResolvedValue(mockToolRegistry),
       getModel: vi.fn().mockReturnValue('test-model'),
       getEmbeddingModel: vi.fn().mockReturnValue('test-embedding-model'),
+      getEmbeddingProvider: vi.fn(),
       getApiKey: vi.fn().mockReturnValue('test-key'),
       getVertexAI: vi.fn().mockReturnValue(false),
       getUserAgent: vi.fn().mockReturnValue('test-agent'),
@@ -201,6 +202,13 @@ describe('Gemini Client (client.ts)', () => {
       getUsageStatisticsEnabled: vi.fn().mockReturnValue(true),
       getIdeMode: vi.fn().mockReturnValue(false),
       getGeminiClient: vi.fn(),
+      getModelRoute: vi.fn(),
+      getActiveProviderName: vi.fn(),
+      getProviderProfiles: vi.fn().mockReturnValue({}),
+      getFallbackProviders: vi.fn().mockReturnValue([]),
+      getPromptCaching: vi.fn().mockReturnValue(false),
+      getProviderFixture: vi.fn(),
+      getDebugMode: vi.fn().mockReturnValue(false),
     };
     const MockedConfig = vi.mocked(Config, true);
     MockedConfig.mockImplementation(
@@ -331,6 +339,16 @@ describe('Gemini Client (client.ts)', () => {
         'API Failure',
       );
     });
+
+    it('should throw an error if the provider has no embedding model', async () => {
+      vi.mocked(client['config'].getEmbeddingModel).mockReturnValue(undefined);
+      vi.mocked(client['config'].getEmbeddingProvider).mockReturnValue('local');
+
+      await expect(client.generateEmbedding(texts)).rejects.toThrow(
+        'No embedding model is configured for provider "local".',
+      );
+      expect(mockEmbedContentFn).not.toHaveBeenCalled();
+    });
   });
 
   describe('generateContent', () => {
@@ -425,6 +443,82 @@ describe('Gemini Client (client.ts)', () => {
         contents,
       });
     });
+
+    it('should use the model that a role is routed to', async () => {
+      const contents = [{ role: 'user', parts: [{ text: 'hello' }] }];
+      const schema = { type: 'string' };
+      vi.mocked(client['config'].getModelRoute).mockReturnValue({
+        model: 'fast-model',
+      });
+
+      const mockGenerator: Partial<ContentGenerator> = {
+        generateContent: mockGenerateContentFn,
+      };
+      client['contentGenerator'] = mockGenerator as ContentGenerator;
+
+      await client.generateJson(
+        contents,
+        schema,
+        new AbortController().signal,
+        DEFAULT_GEMINI_FLASH_MODEL,
+        undefined,
+        'nextSpeaker',
+      );
+
+      expect(client['config'].getModelRoute).toHaveBeenCalledWith(
+        'nextSpeaker',
+      );
+      expect(mockGenerateContentFn).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'fast-model' }),
+      );
+    });
+
+    it('should send the model that a role is routed to on the active provider', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            choices: [{ message: { content: '"ok"' }, finish_reason: 'stop' }],
+          }),
+          { headers: { 'Content-Type': 'application/json' } },
+        ),
+      );
+      vi.stubGlobal('fetch', mockFetch);
+      vi.mocked(client['config'].getContentGeneratorConfig).mockReturnValue({
+        model: 'gpt-4o',
+        authType: AuthType.USE_MULTI_LLM,
+      });
+      vi.mocked(client['config'].getActiveProviderName).mockReturnValue(
+        'openai',
+      );
+      vi.mocked(client['config'].getProviderProfiles).mockReturnValue({
+        openai: {
+          type: 'openai',
+          baseUrl: 'https://api.example.com/v1/chat/completions',
+          apiKey: 'test-key',
+          model: 'gpt-4o',
+        },
+      });
+      vi.mocked(client['config'].getModelRoute).mockReturnValue({
+        model: 'gpt-4o-mini',
+      });
+
+      try {
+        await client.generateJson(
+          [{ role: 'user', parts: [{ text: 'hello' }] }],
+          { type: 'string' },
+          new AbortController().signal,
+          'gpt-4o',
+          undefined,
+          'nextSpeaker',
+        );
+      } finally {
+        vi.unstubAllGlobals();
+      }
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.model).toBe('gpt-4o-mini');
+    });
   });
 
   describe('addHistory', () => {
@@ -473,9 +567,29 @@ describe('Gemini Client (client.ts)', () => {
     });
   });
 
+  describe('reinitialize', () => {
+    it('should start a new chat that keeps the existing history', async () => {
+      const initialChat = client.getChat();
+      await client.addHistory({
+        role: 'user',
+        parts: [{ text: 'remember this' }],
+      });
+      const history = client.getHistory();
+
+      await client.reinitialize({
+        model: 'other-model',
+        apiKey: 'test-key',
+        authType: AuthType.USE_GEMINI,
+      });
+
+      expect(client.getChat()).not.toBe(initialChat);
+      expect(client.getHistory()).toEqual(history);
+    });
+  });
+
   describe('tryCompressChat', () => {
     const mockCountTokens = vi.fn();
-    const mockSendMessage = vi.fn();
+    const mockGenerateContent = vi.fn();
     const mockGetHistory = vi.fn();
 
     beforeEach(() => {
@@ -485,13 +599,13 @@ describe('Gemini Client (client.ts)', () => {
 
       client['contentGenerator'] = {
         countTokens: mockCountTokens,
+        generateContent: mockGenerateContent,
       } as unknown as ContentGenerator;
 
       client['chat'] = {
         getHistory: mockGetHistory,
         addHistory: vi.fn(),
         setHistory: vi.fn(),
-        sendMessage: mockSendMessage,
       } as unknown as GeminiChat;
     });
 
@@ -529,10 +643,9 @@ describe('Gemini Client (client.ts)', () => {
         .mockResolvedValueOnce({ totalTokens: originalTokenCount }) // First call for the check
         .mockResolvedValueOnce({ totalTokens: newTokenCount }); // Second call for the new history
 
-      // Mock the summary response from the chat
-      mockSendMessage.mockResolvedValue({
-        role: 'model',
-        parts: [{ text: 'This is a summary.' }],
+      // Mock the summary response
+      mockGenerateContent.mockResolvedValue({
+        candidates: [{ content: { parts: [{ text: 'This is a summary.' }] } }],
       });
 
       const initialChat = client.getChat();
@@ -540,7 +653,7 @@ describe('Gemini Client (client.ts)', () => {
       const newChat = client.getChat();
 
       expect(tokenLimit).toHaveBeenCalled();
-      expect(mockSendMessage).toHaveBeenCalled();
+      expect(mockGenerateContent).toHaveBeenCalled();
 
       // Assert that summarization happened and returned the correct stats
       expect(result).toEqual({
@@ -581,10 +694,9 @@ describe('Gemini Client (client.ts)', () => {
         .mockResolvedValueOnce({ totalTokens: originalTokenCount }) // First call for the check
         .mockResolvedValueOnce({ totalTokens: newTokenCount }); // Second call for the new history
 
-      // Mock the summary response from the chat
-      mockSendMessage.mockResolvedValue({
-        role: 'model',
-        parts: [{ text: 'This is a summary.' }],
+      // Mock the summary response
+      mockGenerateContent.mockResolvedValue({
+        candidates: [{ content: { parts: [{ text: 'This is a summary.' }] } }],
       });
 
       const initialChat = client.getChat();
@@ -592,7 +704,7 @@ describe('Gemini Client (client.ts)', () => {
       const newChat = client.getChat();
 
       expect(tokenLimit).toHaveBeenCalled();
-      expect(mockSendMessage).toHaveBeenCalled();
+      expect(mockGenerateContent).toHaveBeenCalled();
 
       // Assert that summarization happened and returned the correct stats
       expect(result).toEqual({
@@ -622,17 +734,16 @@ describe('Gemini Client (client.ts)', () => {
         .mockResolvedValueOnce({ totalTokens: originalTokenCount })
         .mockResolvedValueOnce({ totalTokens: newTokenCount });
 
-      // Mock the summary response from the chat
-      mockSendMessage.mockResolvedValue({
-        role: 'model',
-        parts: [{ text: 'This is a summary.' }],
+      // Mock the summary response
+      mockGenerateContent.mockResolvedValue({
+        candidates: [{ content: { parts: [{ text: 'This is a summary.' }] } }],
       });
 
       const initialChat = client.getChat();
       const result = await client.tryCompressChat('prompt-id-1', true); // force = true
       const newChat = client.getChat();
 
-      expect(mockSendMessage).toHaveBeenCalled();
+      expect(mockGenerateContent).toHaveBeenCalled();
 
       expect(result).toEqual({
         originalTokenCount,
@@ -1015,7 +1126,7 @@ Here are files the user has recently opened, with the most recent at the top:
   });
 
   describe('tryCompressChat', () => {
-    it('should use current model from config for token counting after sendMessage', async () => {
+    it('should use current model from config for token counting after summarizing', async () => {
       const initialModel = client['config'].getModel();
 
       const mockCountTokens = vi
@@ -1023,7 +1134,9 @@ Here are files the user has recently opened, with the most recent at the top:
         .mockResolvedValueOnce({ totalTokens: 100000 })
         .mockResolvedValueOnce({ totalTokens: 5000 });
 
-      const mockSendMessage = vi.fn().mockResolvedValue({ text: 'Summary' });
+      const mockGenerateContent = vi.fn().mockResolvedValue({
+        candidates: [{ content: { parts: [{ text: 'Summary' }] } }],
+      });
 
       const mockChatHistory = [
         { role: 'user', parts: [{ text: 'Long conversation' }] },
@@ -1033,11 +1146,11 @@ Here are files the user has recently opened, with the most recent at the top:
       const mockChat: Partial<GeminiChat> = {
         getHistory: vi.fn().mockReturnValue(mockChatHistory),
         setHistory: vi.fn(),
-        sendMessage: mockSendMessage,
       };
 
       const mockGenerator: Partial<ContentGenerator> = {
         countTokens: mockCountTokens,
+        generateContent: mockGenerateContent,
       };
 
       // mock the model has been changed between calls of `countTokens`
@@ -12,6 +12,7 @@ import {
   PartListUnion,
   Content,
   Tool,
+  GenerateContentParameters,
   GenerateContentResponse,
 } from '@google/genai';
 import { getFolderStructure } from '../utils/getFolderStructure.js';
@@ -21,7 +22,7 @@ import {
   GeminiEventType,
   ChatCompressionInfo,
 } from './turn.js';
-import { Config } from '../config/config.js';
+import { Config, ModelRole, ModelRoute } from '../config/config.js';
 import { UserTierId } from '../code_assist/types.js';
 import { getCoreSystemPrompt, getCompressionPrompt } from './prompts.js';
 import { ReadManyFilesTool } from '../tools/read-many-files.js';
@@ -29,27 +30,34 @@ import { getResponseText } from '../utils/generateContentResponseUtilities.js';
 import { checkNextSpeaker } from '../utils/nextSpeakerChecker.js';
 import { reportError } from '../utils/errorReporting.js';
 import { GeminiChat } from './geminiChat.js';
-import { retryWithBackoff } from '../utils/retry.js';
+import { getErrorStatus, retryWithBackoff } from '../utils/retry.js';
 import { getErrorMessage } from '../utils/errors.js';
 import { isFunctionResponse } from '../utils/messageInspectors.js';
 import { tokenLimit } from './tokenLimits.js';
+import { getModelCapabilities } from './modelCapabilities.js';
+import { parseJsonLeniently } from '../utils/jsonRepair.js';
 import {
   AuthType,
   ContentGenerator,
   ContentGeneratorConfig,
   createContentGenerator,
+  createContentGeneratorConfig,
+  createProviderContentGeneratorConfig,
 } from './contentGenerator.js';
 import { ProxyAgent, setGlobalDispatcher } from 'undici';
 import { DEFAULT_GEMINI_FLASH_MODEL } from '../config/models.js';
 import { LoopDetectionService } from '../services/loopDetectionService.js';
 import { ideContext } from '../ide/ideContext.js';
-import { logFlashDecidedToContinue } from '../telemetry/loggers.js';
-import { FlashDecidedToContinueEvent } from '../telemetry/types.js';
-
-function isThinkingSupported(model: string) {
-  if (model.startsWith('gemini-2.5')) return true;
-  return false;
-}
+import {
+  logApiError,
+  logApiResponse,
+  logFlashDecidedToContinue,
+} from '../telemetry/loggers.js';
+import {
+  ApiErrorEvent,
+  ApiResponseEvent,
+  FlashDecidedToContinueEvent,
+} from '../telemetry/types.js';
 
 /**
  * Returns the index of the content after the fraction of the total characters in the history.
@@ -87,7 +95,12 @@ export function findIndexAfterFraction(
 export class GeminiClient {
   private chat?: GeminiChat;
   private contentGenerator?: ContentGenerator;
-  private embeddingModel: string;
+  // The content generators of the providers and models that `modelRouting`
+  // routes roles to, by provider name and model.
+  private routedContentGenerators = new Map<
+    string,
+    Promise<ContentGenerator>
+  >();
   private generateContentConfig: GenerateContentConfig = {
     temperature: 0,
     topP: 1,
@@ -113,11 +126,11 @@ export class GeminiClient {
       setGlobalDispatcher(new ProxyAgent(config.getProxy() as string));
     }
 
-    this.embeddingModel = config.getEmbeddingModel();
     this.loopDetector = new LoopDetectionService(config);
   }
 
   async initialize(contentGeneratorConfig: ContentGeneratorConfig) {
+    this.routedContentGenerators.clear();
     this.contentGenerator = await createContentGenerator(
       contentGeneratorConfig,
       this.config,
@@ -126,6 +139,18 @@ export class GeminiClient {
     this.chat = await this.startChat();
   }
 
+  /**
+   * Re-creates the content generator, e.g. after switching provider or model,
+   * and carries the current conversation over to the new chat.
+   */
+  async reinitialize(contentGeneratorConfig: ContentGeneratorConfig) {
+    const history = this.chat ? this.getHistory() : undefined;
+    await this.initialize(contentGeneratorConfig);
+    if (history) {
+      this.setHistory(history);
+    }
+  }
+
   getContentGenerator(): ContentGenerator {
     if (!this.contentGenerator) {
       throw new Error('Content generator not initialized');
@@ -254,9 +279,8 @@ export class GeminiClient {
     try {
       const userMemory = this.config.getUserMemory();
       const systemInstruction = getCoreSystemPrompt(userMemory);
-      const generateContentConfigWithThinking = isThinkingSupported(
-        this.config.getModel(),
-      )
+      const capabilities = getModelCapabilities(this.config.getModel());
+      const generateContentConfigWithThinking = capabilities.supportsReasoning
         ? {
             ...this.generateContentConfig,
             thinkingConfig: {
@@ -270,7 +294,8 @@ export class GeminiClient {
         {
           systemInstruction,
           ...generateContentConfigWithThinking,
-          tools,
+          // Models without function calling reject requests that declare tools.
+          tools: capabilities.supportsTools ? tools : undefined,
         },
         history,
       );
@@ -413,10 +438,8 @@ export class GeminiClient {
     abortSignal: AbortSignal,
     model?: string,
     config: GenerateContentConfig = {},
+    role?: ModelRole,
   ): Promise<Record<string, unknown>> {
-    // Use current model from config instead of hardcoded Flash model
-    const modelToUse =
-      model || this.config.getModel() || DEFAULT_GEMINI_FLASH_MODEL;
     try {
       const userMemory = this.config.getUserMemory();
       const systemInstruction = getCoreSystemPrompt(userMemory);
@@ -426,9 +449,11 @@ export class GeminiClient {
         ...config,
       };
 
-      const apiCall = () =>
-        this.getContentGenerator().generateContent({
-          model: modelToUse,
+      const result = await this.generateForRole(
+        role,
+        // Use current model from config instead of hardcoded Flash model
+        model || this.config.getModel() || DEFAULT_GEMINI_FLASH_MODEL,
+        {
           config: {
             ...requestConfig,
             systemInstruction,
@@ -436,13 +461,8 @@ export class GeminiClient {
             responseMimeType: 'application/json',
           },
           contents,
-        });
-
-      const result = await retryWithBackoff(apiCall, {
-        onPersistent429: async (authType?: string, error?: unknown) =>
-          await this.handleFlashFallback(authType, error),
-        authType: this.config.getContentGeneratorConfig()?.authType,
-      });
+        },
+      );
 
       const text = getResponseText(result);
       if (!text) {
@@ -458,7 +478,9 @@ export class GeminiClient {
         throw error;
       }
       try {
-        return JSON.parse(text);
+        // Providers without structured output may wrap the JSON in prose or
+        // code fences, or return it slightly malformed.
+        return parseJsonLeniently(text) as Record<string, unknown>;
       } catch (parseError) {
         await reportError(
           parseError,
@@ -503,6 +525,7 @@ export class GeminiClient {
     generationConfig: GenerateContentConfig,
     abortSignal: AbortSignal,
     model?: string,
+    role?: ModelRole,
   ): Promise<GenerateContentResponse> {
     const modelToUse = model ?? this.config.getModel();
     const configToUse: GenerateContentConfig = {
@@ -520,19 +543,10 @@ export class GeminiClient {
         systemInstruction,
       };
 
-      const apiCall = () =>
-        this.getContentGenerator().generateContent({
-          model: modelToUse,
-          config: requestConfig,
-          contents,
-        });
-
-      const result = await retryWithBackoff(apiCall, {
-        onPersistent429: async (authType?: string, error?: unknown) =>
-          await this.handleFlashFallback(authType, error),
-        authType: this.config.getContentGeneratorConfig()?.authType,
+      return await this.generateForRole(role, modelToUse, {
+        config: requestConfig,
+        contents,
       });
-      return result;
     } catch (error: unknown) {
       if (abortSignal.aborted) {
         throw error;
@@ -557,13 +571,24 @@ export class GeminiClient {
     if (!texts || texts.length === 0) {
       return [];
     }
+    const embeddingModel = this.config.getEmbeddingModel();
+    const embeddingProvider = this.config.getEmbeddingProvider();
+    if (!embeddingModel) {
+      throw new Error(
+        `No embedding model is configured for provider "${embeddingProvider}". Set "embeddingModel" in its profile or in settings.json.`,
+      );
+    }
+    const route = await this.resolveRoute(
+      { provider: embeddingProvider, model: embeddingModel },
+      embeddingModel,
+    );
     const embedModelParams: EmbedContentParameters = {
-      model: this.embeddingModel,
+      model: route.model,
       contents: texts,
     };
 
     const embedContentResponse =
-      await this.getContentGenerator().embedContent(embedModelParams);
+      await route.contentGenerator.embedContent(embedModelParams);
     if (
       !embedContentResponse.embeddings ||
       embedContentResponse.embeddings.length === 0
@@ -635,19 +660,36 @@ export class GeminiClient {
     const historyToCompress = curatedHistory.slice(0, compressBeforeIndex);
     const historyToKeep = curatedHistory.slice(compressBeforeIndex);
 
-    this.getChat().setHistory(historyToCompress);
-
-    const { text: summary } = await this.getChat().sendMessage(
+    const capabilities = getModelCapabilities(model);
+    const toolRegistry = await this.config.getToolRegistry();
+    const summaryResponse = await this.generateForRole(
+      'compression',
+      model,
       {
-        message: {
-          text: 'First, reason in your scratchpad. Then, generate the <state_snapshot>.',
-        },
+        contents: [
+          ...historyToCompress,
+          {
+            role: 'user',
+            parts: [
+              {
+                text: 'First, reason in your scratchpad. Then, generate the <state_snapshot>.',
+              },
+            ],
+          },
+        ],
         config: {
+          ...this.generateContentConfig,
           systemInstruction: { text: getCompressionPrompt() },
+          // Some providers reject a history with function calls unless the
+          // functions are declared.
+          tools: capabilities.supportsTools
+            ? [{ functionDeclarations: toolRegistry.getFunctionDeclarations() }]
+            : undefined,
         },
       },
       prompt_id,
     );
+    const summary = getResponseText(summaryResponse) ?? '';
     this.chat = await this.startChat([
       {
         role: 'user',
@@ -677,6 +719,137 @@ export class GeminiClient {
     };
   }
 
+  /**
+   * Sends a request with retries, to the provider and model that `role` is
+   * routed to. Requests made for a role are logged so that `/stats` can
+   * attribute their usage.
+   */
+  private async generateForRole(
+    role: ModelRole | undefined,
+    model: string,
+    request: Omit<GenerateContentParameters, 'model'>,
+    promptId = this.lastPromptId ?? '',
+  ): Promise<GenerateContentResponse> {
+    const route = await this.resolveRoute(
+      role ? this.config.getModelRoute(role) : undefined,
+      model,
+    );
+    const apiCall = () =>
+      route.contentGenerator.generateContent({
+        ...request,
+        model: route.model,
+      });
+
+    const startTime = Date.now();
+    const authType = this.config.getContentGeneratorConfig()?.authType;
+    try {
+      const result = await retryWithBackoff(apiCall, {
+        onPersistent429: async (authType?: string, error?: unknown) =>
+          await this.handleFlashFallback(authType, error),
+        authType,
+      });
+      if (role) {
+        logApiResponse(
+          this.config,
+          new ApiResponseEvent(
+            route.model,
+            Date.now() - startTime,
+            promptId,
+            authType,
+            result.usageMetadata,
+            undefined,
+            undefined,
+            role,
+          ),
+        );
+      }
+      return result;
+    } catch (error) {
+      if (role) {
+        logApiError(
+          this.config,
+          new ApiErrorEvent(
+            route.model,
+            getErrorMessage(error),
+            Date.now() - startTime,
+            promptId,
+            authType,
+            error instanceof Error ? error.name : 'unknown',
+            getErrorStatus(error),
+            role,
+          ),
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the content generator and model for a request that may be
+   * routed, e.g. by `modelRouting`: those of the route's provider if it
+   * names one, otherwise the main content generator and `model`.
+   */
+  private async resolveRoute(
+    route: ModelRoute | undefined,
+    model: string,
+  ): Promise<{ contentGenerator: ContentGenerator; model: string }> {
+    const activeProvider = this.config.getActiveProviderName();
+    if (!route?.provider || route.provider === activeProvider) {
+      const mainConfig = this.config.getContentGeneratorConfig();
+      // Gemini generates with the model of each request, so only another
+      // model of an LLM provider needs its own content generator.
+      if (
+        !route?.model ||
+        mainConfig?.authType !== AuthType.USE_MULTI_LLM ||
+        route.model === mainConfig.model
+      ) {
+        return {
+          contentGenerator: this.getContentGenerator(),
+          model: route?.model ?? model,
+        };
+      }
+      return this.getRoutedContentGenerator(
+        createContentGeneratorConfig(
+          this.config,
+          AuthType.USE_MULTI_LLM,
+          route.model,
+        ),
+        activeProvider ?? '',
+      );
+    }
+
+    return this.getRoutedContentGenerator(
+      createProviderContentGeneratorConfig(
+        this.config,
+        route.provider,
+        route.model,
+      ),
+      route.provider,
+    );
+  }
+
+  private async getRoutedContentGenerator(
+    routedConfig: ContentGeneratorConfig,
+    providerName: string,
+  ): Promise<{ contentGenerator: ContentGenerator; model: string }> {
+    // Providers generate with the model they were created for, so each
+    // model gets its own content generator.
+    const key = `${providerName}/${routedConfig.model}`;
+    let contentGenerator = this.routedContentGenerators.get(key);
+    if (!contentGenerator) {
+      contentGenerator = createContentGenerator(
+        routedConfig,
+        this.config,
+        this.config.getSessionId(),
+      );
+      this.routedContentGenerators.set(key, contentGenerator);
+    }
+    return {
+      contentGenerator: await contentGenerator,
+      model: routedConfig.model,
+    };
+  }
+
   /**
    * Handles falling back to Flash model when persistent 429 errors occur for OAuth users.
    * Uses a fallback handler if provided by the config; otherwise, returns null.
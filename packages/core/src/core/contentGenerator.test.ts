@@ -9,10 +9,12 @@ import {
   createContentGenerator,
   AuthType,
   createContentGeneratorConfig,
+  createProviderContentGeneratorConfig,
 } from './contentGenerator.js';
 import { createCodeAssistContentGenerator } from '../code_assist/codeAssist.js';
 import { GoogleGenAI } from '@google/genai';
 import { Config } from '../config/config.js';
+import { LLMProviderType } from './llmProvider.js';
 
 vi.mock('../code_assist/codeAssist.js');
 vi.mock('@google/genai');
@@ -69,6 +71,12 @@ describe('createContentGeneratorConfig', () => {
     setModel: vi.fn(),
     flashFallbackHandler: vi.fn(),
     getProxy: vi.fn(),
+    getActiveProviderName: vi.fn(),
+    getProviderProfiles: vi.fn().mockReturnValue({}),
+    getFallbackProviders: vi.fn().mockReturnValue([]),
+    getLLMProviderSettings: vi.fn().mockReturnValue({}),
+    getPromptCaching: vi.fn().mockReturnValue(true),
+    getProviderFixture: vi.fn(),
   } as unknown as Config;
 
   beforeEach(() => {
@@ -136,4 +144,162 @@ describe('createContentGeneratorConfig', () => {
     expect(config.apiKey).toBeUndefined();
     expect(config.vertexai).toBeUndefined();
   });
+
+  describe('provider profiles', () => {
+    const profiles = {
+      local: {
+        type: 'ollama',
+        baseUrl: 'http://localhost:11434',
+        model: 'qwen3:8b',
+        options: { num_ctx: 8192 },
+        models: {
+          'qwen3:8b': { options: { temperature: 0.6 }, keepAlive: '1h' },
+        },
+      },
+      openai: {
+        baseUrl: 'https://api.openai.com/v1/chat/completions',
+        apiKeyEnv: 'TEST_OPENAI_KEY',
+        authScheme: 'bearer' as const,
+        model: 'gpt-4o',
+        headers: { 'X-Team': 'cli' },
+      },
+    };
+
+    beforeEach(() => {
+      vi.mocked(mockConfig.getProviderProfiles).mockReturnValue(profiles);
+    });
+
+    it('should build the provider config from the active profile', () => {
+      vi.mocked(mockConfig.getActiveProviderName).mockReturnValue('local');
+      const config = createContentGeneratorConfig(
+        mockConfig,
+        AuthType.USE_GEMINI,
+      );
+      expect(config.authType).toBe(AuthType.USE_MULTI_LLM);
+      expect(config.model).toBe('qwen3:8b');
+      expect(config.llmProvider).toEqual({
+        providerType: LLMProviderType.OLLAMA,
+        apiUrl: 'http://localhost:11434',
+        apiKey: undefined,
+        authScheme: undefined,
+        model: 'qwen3:8b',
+        headers: {},
+        options: { num_ctx: 8192, temperature: 0.6 },
+        keepAlive: '1h',
+      });
+    });
+
+    it('should read the API key from the referenced environment variable', () => {
+      process.env.TEST_OPENAI_KEY = 'sk-test';
+      vi.mocked(mockConfig.getActiveProviderName).mockReturnValue('openai');
+      const config = createContentGeneratorConfig(mockConfig, undefined);
+      expect(config.llmProvider).toMatchObject({
+        providerType: undefined,
+        apiKey: 'sk-test',
+        authScheme: 'bearer',
+        headers: { 'X-Team': 'cli' },
+      });
+    });
+
+    it('should fail when the referenced key is not set', () => {
+      delete process.env.TEST_OPENAI_KEY;
+      vi.mocked(mockConfig.getActiveProviderName).mockReturnValue('openai');
+      expect(() => createContentGeneratorConfig(mockConfig, undefined)).toThrow(
+        /TEST_OPENAI_KEY/,
+      );
+    });
+
+    it('should apply the overrides of an explicitly chosen model', () => {
+      vi.mocked(mockConfig.getActiveProviderName).mockReturnValue('local');
+      const config = createContentGeneratorConfig(
+        mockConfig,
+        undefined,
+        'llama3.2',
+      );
+      expect(config.model).toBe('llama3.2');
+      expect(config.llmProvider).toMatchObject({
+        model: 'llama3.2',
+        options: { num_ctx: 8192 },
+        keepAlive: undefined,
+      });
+    });
+
+    it('should fail for an unknown provider name', () => {
+      vi.mocked(mockConfig.getActiveProviderName).mockReturnValue('missing');
+      expect(() => createContentGeneratorConfig(mockConfig, undefined)).toThrow(
+        'Unknown provider "missing". Configured providers: local, openai.',
+      );
+    });
+
+    it('should prefer a provider profile over LLM_* environment variables', () => {
+      process.env.LLM_API_URL = 'http://localhost:8080/v1/chat/completions';
+      process.env.LLM_API_KEY = 'env-key';
+      process.env.LLM_MODEL = 'env-model';
+      vi.mocked(mockConfig.getActiveProviderName).mockReturnValue('local');
+      const config = createContentGeneratorConfig(mockConfig, undefined);
+      expect(config.model).toBe('qwen3:8b');
+    });
+
+    it('should resolve the fallback providers with their default models', () => {
+      process.env.TEST_OPENAI_KEY = 'sk-test';
+      vi.mocked(mockConfig.getActiveProviderName).mockReturnValue('local');
+      vi.mocked(mockConfig.getFallbackProviders).mockReturnValueOnce([
+        'local',
+        'openai',
+      ]);
+      const config = createContentGeneratorConfig(
+        mockConfig,
+        undefined,
+        'llama3.2',
+      );
+      expect(config.fallbackProviders).toEqual([
+        {
+          name: 'openai',
+          llmProvider: expect.objectContaining({
+            apiKey: 'sk-test',
+            model: 'gpt-4o',
+          }),
+        },
+      ]);
+    });
+
+    it('should fail for an unknown fallback provider', () => {
+      vi.mocked(mockConfig.getActiveProviderName).mockReturnValue('local');
+      vi.mocked(mockConfig.getFallbackProviders).mockReturnValueOnce([
+        'missing',
+      ]);
+      expect(() => createContentGeneratorConfig(mockConfig, undefined)).toThrow(
+        'Unknown fallback provider "missing". Configured providers: local, openai.',
+      );
+    });
+
+    it('should build the config of a provider other than the active one', () => {
+      vi.mocked(mockConfig.getActiveProviderName).mockReturnValue('openai');
+      const config = createProviderContentGeneratorConfig(
+        mockConfig,
+        'local',
+        'qwen3:0.6b',
+      );
+      expect(config.authType).toBe(AuthType.USE_MULTI_LLM);
+      expect(config.model).toBe('qwen3:0.6b');
+      expect(config.llmProvider).toMatchObject({
+        providerType: LLMProviderType.OLLAMA,
+        model: 'qwen3:0.6b',
+      });
+    });
+
+    it('should fall back to LLM_* environment variables', () => {
+      process.env.LLM_API_URL = 'http://localhost:8080/v1/chat/completions';
+      process.env.LLM_API_KEY = 'env-key';
+      process.env.LLM_MODEL = 'env-model';
+      vi.mocked(mockConfig.getActiveProviderName).mockReturnValue(undefined);
+      const config = createContentGeneratorConfig(mockConfig, undefined);
+      expect(config.authType).toBe(AuthType.USE_MULTI_LLM);
+      expect(config.llmProvider).toMatchObject({
+        apiUrl: 'http://localhost:8080/v1/chat/completions',
+        apiKey: 'env-key',
+        model: 'env-model',
+      });
+    });
+  });
 });
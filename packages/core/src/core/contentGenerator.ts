@@ -15,10 +15,23 @@ import {
 } from '@google/genai';
 import { createCodeAssistContentGenerator } from '../code_assist/codeAssist.js';
 import { DEFAULT_GEMINI_MODEL } from '../config/models.js';
-import { Config } from '../config/config.js';
+import { Config, ProviderProfile } from '../config/config.js';
 import { getEffectiveModel } from './modelCheck.js';
 import { UserTierId } from '../code_assist/types.js';
-import { LLMProvider, LLMProviderConfig, createLLMProvider } from './llmProvider.js';
+import {
+  LLMProvider,
+  LLMProviderConfig,
+  createLLMProvider,
+  parseLLMProviderType,
+} from './llmProvider.js';
+import { registerSecret } from '../utils/redaction.js';
+import { FailoverProvider, FailoverTarget } from '../providers/failover.js';
+import {
+  ProviderFixture,
+  RecordingProvider,
+  ReplayProvider,
+} from '../providers/fixture.js';
+import { GeminiPromptCache } from './geminiPromptCache.js';
 
 /**
  * Interface abstracting the core functionalities for generating content and counting tokens.
@@ -44,24 +57,30 @@ export interface ContentGenerator extends LLMProvider {
  */
 export class GoogleGenAIWrapper implements ContentGenerator {
   models: any;
+  private readonly promptCache?: GeminiPromptCache;
 
-  constructor(googleGenAI: GoogleGenAI) {
+  constructor(googleGenAI: GoogleGenAI, promptCaching = false) {
     this.models = googleGenAI.models;
+    if (promptCaching) {
+      this.promptCache = new GeminiPromptCache(googleGenAI.caches);
+    }
   }
 
   async generateContent(
     request: GenerateContentParameters,
   ): Promise<GenerateContentResponse> {
-    return this.models.generateContent(request);
+    return this.models.generateContent(await this.useCache(request));
   }
 
   async generateContentStream(
     request: GenerateContentParameters,
   ): Promise<AsyncGenerator<GenerateContentResponse>> {
-    return this.models.generateContentStream(request);
+    return this.models.generateContentStream(await this.useCache(request));
   }
 
-  async countTokens(request: CountTokensParameters): Promise<CountTokensResponse> {
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
     return this.models.countTokens(request);
   }
 
@@ -74,6 +93,12 @@ export class GoogleGenAIWrapper implements ContentGenerator {
   getProviderName(): string {
     return 'GoogleGenAI';
   }
+
+  private async useCache(
+    request: GenerateContentParameters,
+  ): Promise<GenerateContentParameters> {
+    return this.promptCache ? this.promptCache.apply(request) : request;
+  }
 }
 
 export enum AuthType {
@@ -90,26 +115,45 @@ export type ContentGeneratorConfig = {
   vertexai?: boolean;
   authType?: AuthType | undefined;
   proxy?: string | undefined;
+  llmProvider?: LLMProviderConfig;
+  /** The provider profiles to fail over to, in order. */
+  fallbackProviders?: FallbackProviderConfig[];
+  /** Whether to cache the system prompt and history where it must be asked for. */
+  promptCaching?: boolean;
+  /** Records the model calls to, or replays them from, a fixture file. */
+  fixture?: ProviderFixture;
+};
+
+export type FallbackProviderConfig = {
+  name: string;
+  llmProvider: LLMProviderConfig;
 };
 
+// The name under which the provider configured by the LLM_* environment
+// variables appears in failover messages.
+const ENV_PROVIDER_NAME = 'LLM_API_URL';
+
 export function createContentGeneratorConfig(
   config: Config,
   authType: AuthType | undefined,
+  model?: string,
 ): ContentGeneratorConfig {
-  // Check for LLM provider environment variables first
-  const llmApiUrl = process.env.LLM_API_URL;
-  const llmApiKey = process.env.LLM_API_KEY;
-  const llmModel = process.env.LLM_MODEL;
-
-  // If LLM provider variables are set, use them
-  if (llmApiUrl && llmApiKey && llmModel) {
-    // Create a special auth type for custom LLM providers
+  // A provider profile or the LLM_* environment variables take precedence
+  // over the Gemini auth methods.
+  const llmProvider = resolveLLMProviderConfig(config, model);
+  if (llmProvider) {
     const contentGeneratorConfig: ContentGeneratorConfig = {
-      model: llmModel,
-      apiKey: llmApiKey,
+      model: llmProvider.model,
       authType: AuthType.USE_MULTI_LLM,
       proxy: config?.getProxy(),
+      llmProvider,
+      promptCaching: config.getPromptCaching(),
+      fixture: config.getProviderFixture(),
     };
+    const fallbackProviders = resolveFallbackProviders(config);
+    if (fallbackProviders.length > 0) {
+      contentGeneratorConfig.fallbackProviders = fallbackProviders;
+    }
     return contentGeneratorConfig;
   }
 
@@ -119,12 +163,14 @@ export function createContentGeneratorConfig(
   const googleCloudLocation = process.env.GOOGLE_CLOUD_LOCATION || undefined;
 
   // Use runtime model from config if available; otherwise, fall back to parameter or default
-  const effectiveModel = config.getModel() || DEFAULT_GEMINI_MODEL;
+  const effectiveModel = model || config.getModel() || DEFAULT_GEMINI_MODEL;
 
   const contentGeneratorConfig: ContentGeneratorConfig = {
     model: effectiveModel,
     authType,
     proxy: config?.getProxy(),
+    promptCaching: config.getPromptCaching(),
+    fixture: config.getProviderFixture(),
   };
 
   // If we are using Google auth or we are in Cloud Shell, there is nothing else to validate for now
@@ -160,10 +206,48 @@ export function createContentGeneratorConfig(
   return contentGeneratorConfig;
 }
 
+/**
+ * Builds the content generator configuration for a provider profile other
+ * than the active one, e.g. one that a `modelRouting` role is routed to.
+ */
+export function createProviderContentGeneratorConfig(
+  config: Config,
+  providerName: string,
+  model?: string,
+): ContentGeneratorConfig {
+  const llmProvider = resolveProviderProfile(config, providerName, model);
+  return {
+    model: llmProvider.model,
+    authType: AuthType.USE_MULTI_LLM,
+    proxy: config.getProxy(),
+    llmProvider,
+    promptCaching: config.getPromptCaching(),
+    fixture: config.getProviderFixture(),
+  };
+}
+
 export async function createContentGenerator(
   config: ContentGeneratorConfig,
   gcConfig: Config,
   sessionId?: string,
+): Promise<ContentGenerator> {
+  if (config.fixture?.mode === 'replay') {
+    return ReplayProvider.open(config.fixture.path, config.fixture.lenient);
+  }
+  const generator = await createModelContentGenerator(
+    config,
+    gcConfig,
+    sessionId,
+  );
+  return config.fixture?.mode === 'record'
+    ? new RecordingProvider(generator, config.fixture.path)
+    : generator;
+}
+
+async function createModelContentGenerator(
+  config: ContentGeneratorConfig,
+  gcConfig: Config,
+  sessionId?: string,
 ): Promise<ContentGenerator> {
   const version = process.env.CLI_VERSION || process.version;
   const httpOptions = {
@@ -172,40 +256,6 @@ export async function createContentGenerator(
     },
   };
 
-  // Check if we're using custom LLM provider environment variables
-  const llmApiUrl = process.env.LLM_API_URL;
-  const llmApiKey = process.env.LLM_API_KEY;
-  const llmModel = process.env.LLM_MODEL;
-
-  if (llmApiUrl && llmApiKey && llmModel) {
-    // Validate that all required environment variables are set
-    if (!llmApiUrl) {
-      throw new Error('LLM_API_URL environment variable is required for multi-LLM provider');
-    }
-    if (!llmApiKey) {
-      throw new Error('LLM_API_KEY environment variable is required for multi-LLM provider');
-    }
-    if (!llmModel) {
-      throw new Error('LLM_MODEL environment variable is required for multi-LLM provider');
-    }
-    
-    // Validate that the URL starts with http:// or https://
-    if (!llmApiUrl.startsWith('http://') && !llmApiUrl.startsWith('https://')) {
-      throw new Error('LLM_API_URL must start with "http://" or "https://"');
-    }
-    
-    // Use the LLM provider abstraction
-    const llmProviderConfig: LLMProviderConfig = {
-      apiUrl: llmApiUrl,
-      apiKey: llmApiKey,
-      model: llmModel,
-      headers: httpOptions.headers,
-      proxy: config.proxy,
-    };
-    
-    return createLLMProvider(llmProviderConfig);
-  }
-
   if (
     config.authType === AuthType.LOGIN_WITH_GOOGLE ||
     config.authType === AuthType.CLOUD_SHELL
@@ -219,52 +269,183 @@ export async function createContentGenerator(
   }
 
   if (config.authType === AuthType.USE_MULTI_LLM) {
-    // Validate that all required environment variables are set
-    const llmApiUrl = process.env.LLM_API_URL;
-    const llmApiKey = process.env.LLM_API_KEY;
-    const llmModel = process.env.LLM_MODEL;
-    
-    if (!llmApiUrl) {
-      throw new Error('LLM_API_URL environment variable is required for multi-LLM provider');
+    if (!config.llmProvider) {
+      throw new Error(
+        'No LLM provider is configured. Add a profile to "providers" in settings.json and select it with "defaultProvider" or --provider.',
+      );
     }
-    if (!llmApiKey) {
-      throw new Error('LLM_API_KEY environment variable is required for multi-LLM provider');
-    }
-    if (!llmModel) {
-      throw new Error('LLM_MODEL environment variable is required for multi-LLM provider');
+    const createProvider = (llmProvider: LLMProviderConfig) =>
+      createLLMProvider({
+        ...llmProvider,
+        headers: { ...httpOptions.headers, ...llmProvider.headers },
+        proxy: config.proxy,
+        debugMode: gcConfig.getDebugMode(),
+        promptCaching: config.promptCaching,
+      });
+    // The model may have been switched since the config was resolved.
+    const provider = await createProvider({
+      ...config.llmProvider,
+      model: config.model,
+    });
+    if (!config.fallbackProviders?.length) {
+      return provider;
     }
-    
-    // Validate that the URL starts with http:// or https://
-    if (!llmApiUrl.startsWith('http://') && !llmApiUrl.startsWith('https://')) {
-      throw new Error('LLM_API_URL must start with "http://" or "https://"');
+
+    const targets: FailoverTarget[] = [
+      {
+        name: gcConfig.getActiveProviderName() ?? ENV_PROVIDER_NAME,
+        model: config.model,
+        provider,
+      },
+    ];
+    for (const { name, llmProvider } of config.fallbackProviders) {
+      targets.push({
+        name,
+        model: llmProvider.model,
+        provider: await createProvider(llmProvider),
+      });
     }
-    
-    // Use the LLM provider abstraction
-    const llmProviderConfig: LLMProviderConfig = {
-      apiUrl: llmApiUrl,
-      apiKey: llmApiKey,
-      model: llmModel,
-      headers: httpOptions.headers,
-      proxy: config.proxy,
-    };
-    
-    return createLLMProvider(llmProviderConfig);
+    return new FailoverProvider(
+      targets,
+      gcConfig.getProviderCooldownSeconds(),
+      (from, to, error) => gcConfig.handleProviderFailover(from, to, error),
+    );
   }
 
   if (
     config.authType === AuthType.USE_GEMINI ||
     config.authType === AuthType.USE_VERTEX_AI
   ) {
+    registerSecret(config.apiKey);
     const googleGenAI = new GoogleGenAI({
       apiKey: config.apiKey === '' ? undefined : config.apiKey,
       vertexai: config.vertexai,
       httpOptions,
     });
 
-    return new GoogleGenAIWrapper(googleGenAI);
+    return new GoogleGenAIWrapper(googleGenAI, config.promptCaching);
   }
 
   throw new Error(
     `Error creating contentGenerator: Unsupported authType: ${config.authType}`,
   );
 }
+
+/**
+ * Builds the LLM provider configuration from the active provider profile,
+ * falling back to the legacy `LLM_API_URL`, `LLM_API_KEY` and `LLM_MODEL`
+ * environment variables. Returns undefined when neither is configured.
+ */
+function resolveLLMProviderConfig(
+  config: Config,
+  model: string | undefined,
+): LLMProviderConfig | undefined {
+  const providerName = config.getActiveProviderName();
+  if (providerName) {
+    return resolveProviderProfile(config, providerName, model);
+  }
+
+  const llmApiUrl = process.env.LLM_API_URL;
+  const llmApiKey = process.env.LLM_API_KEY;
+  const llmModel = process.env.LLM_MODEL;
+  if (!llmApiUrl || !llmApiKey || !llmModel) {
+    return undefined;
+  }
+  validateApiUrl(llmApiUrl, 'LLM_API_URL');
+  return {
+    providerType: parseLLMProviderType(process.env.LLM_PROVIDER),
+    apiUrl: llmApiUrl,
+    apiKey: llmApiKey,
+    model: model || llmModel,
+    options: config.getLLMProviderSettings().options,
+    keepAlive: config.getLLMProviderSettings().keepAlive,
+  };
+}
+
+function resolveProviderProfile(
+  config: Config,
+  providerName: string,
+  model: string | undefined,
+): LLMProviderConfig {
+  const profiles = config.getProviderProfiles();
+  const profile = profiles[providerName];
+  if (!profile) {
+    const available = Object.keys(profiles);
+    throw new Error(
+      `Unknown provider "${providerName}". ${
+        available.length > 0
+          ? `Configured providers: ${available.join(', ')}.`
+          : 'No providers are configured in settings.json.'
+      }`,
+    );
+  }
+  return profileToLLMProviderConfig(providerName, profile, model);
+}
+
+/**
+ * Builds the configurations of the `fallbackProviders` profiles, skipping
+ * the active provider. Each fallback uses the default model of its profile.
+ */
+function resolveFallbackProviders(config: Config): FallbackProviderConfig[] {
+  const activeProvider = config.getActiveProviderName();
+  const profiles = config.getProviderProfiles();
+  return config
+    .getFallbackProviders()
+    .filter((name) => name !== activeProvider)
+    .map((name) => {
+      const profile = profiles[name];
+      if (!profile) {
+        throw new Error(
+          `Unknown fallback provider "${name}". Configured providers: ${Object.keys(profiles).join(', ') || 'none'}.`,
+        );
+      }
+      return { name, llmProvider: profileToLLMProviderConfig(name, profile) };
+    });
+}
+
+function profileToLLMProviderConfig(
+  name: string,
+  profile: ProviderProfile,
+  model = profile.model,
+): LLMProviderConfig {
+  if (!profile.baseUrl) {
+    throw new Error(`Provider "${name}" is missing "baseUrl".`);
+  }
+  validateApiUrl(profile.baseUrl, `The baseUrl of provider "${name}"`);
+  if (!model) {
+    throw new Error(`Provider "${name}" is missing a default "model".`);
+  }
+
+  let apiKey = profile.apiKey;
+  if (profile.apiKeyEnv) {
+    apiKey = process.env[profile.apiKeyEnv];
+    if (!apiKey) {
+      throw new Error(
+        `Provider "${name}" reads its API key from ${profile.apiKeyEnv}, but that environment variable is not set.`,
+      );
+    }
+  }
+
+  const modelSettings = profile.models?.[model] ?? {};
+  return {
+    providerType: parseLLMProviderType(profile.type),
+    apiUrl: profile.baseUrl,
+    apiKey,
+    authScheme: profile.authScheme,
+    model,
+    headers: { ...profile.headers, ...modelSettings.headers },
+    options:
+      profile.options || modelSettings.options
+        ? { ...profile.options, ...modelSettings.options }
+        : undefined,
+    keepAlive: modelSettings.keepAlive ?? profile.keepAlive,
+    tokenizer: modelSettings.tokenizer ?? profile.tokenizer,
+    timeoutSeconds: profile.timeoutSeconds,
+  };
+}
+
+function validateApiUrl(url: string, description: string): void {
+  if (!url.startsWith('http://') && !url.startsWith('https://')) {
+    throw new Error(`${description} must start with "http://" or "https://"`);
+  }
+}
@@ -528,6 +528,9 @@ export class GeminiChat {
             }
             outputContent.push(content);
           }
+        } else if (chunk.usageMetadata) {
+          // Some providers report usage in a trailing chunk without content.
+          chunks.push(chunk);
         }
         yield chunk;
       }
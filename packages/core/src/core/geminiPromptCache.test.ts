@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Caches, GenerateContentParameters } from '@google/genai';
+import { GeminiPromptCache } from './geminiPromptCache.js';
+
+const request: GenerateContentParameters = {
+  model: 'gemini-2.5-pro',
+  contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+  config: {
+    systemInstruction: 'You are a coding agent.',
+    tools: [{ functionDeclarations: [{ name: 'read_file' }] }],
+    temperature: 0,
+  },
+};
+
+describe('GeminiPromptCache', () => {
+  let now: number;
+  let create: ReturnType<typeof vi.fn>;
+  let cache: GeminiPromptCache;
+
+  beforeEach(() => {
+    now = Date.parse('2025-08-01T12:00:00Z');
+    let count = 0;
+    create = vi.fn(async () => ({
+      name: `cachedContents/${++count}`,
+      expireTime: new Date(now + 600_000).toISOString(),
+    }));
+    cache = new GeminiPromptCache({ create } as unknown as Caches, () => now);
+  });
+
+  it('should send the system instruction and tools as cached content', async () => {
+    const cached = await cache.apply(request);
+
+    expect(create).toHaveBeenCalledWith({
+      model: 'gemini-2.5-pro',
+      config: {
+        systemInstruction: 'You are a coding agent.',
+        tools: [{ functionDeclarations: [{ name: 'read_file' }] }],
+        toolConfig: undefined,
+        ttl: '600s',
+      },
+    });
+    expect(cached).toEqual({
+      ...request,
+      config: { temperature: 0, cachedContent: 'cachedContents/1' },
+    });
+  });
+
+  it('should reuse a cache until it is about to expire', async () => {
+    await cache.apply(request);
+    now += 300_000;
+    expect((await cache.apply(request)).config?.cachedContent).toBe(
+      'cachedContents/1',
+    );
+
+    now += 250_000;
+    expect((await cache.apply(request)).config?.cachedContent).toBe(
+      'cachedContents/2',
+    );
+  });
+
+  it('should create a cache per system instruction', async () => {
+    await cache.apply(request);
+    const other = await cache.apply({
+      ...request,
+      config: { ...request.config, systemInstruction: 'Summarize.' },
+    });
+
+    expect(other.config?.cachedContent).toBe('cachedContents/2');
+  });
+
+  it('should send content that cannot be cached uncached from then on', async () => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+    create.mockRejectedValue(new Error('Cached content is too small.'));
+
+    expect(await cache.apply(request)).toBe(request);
+    expect(await cache.apply(request)).toBe(request);
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it('should leave requests without a system instruction alone', async () => {
+    const plain = { ...request, config: { temperature: 0 } };
+
+    expect(await cache.apply(plain)).toBe(plain);
+    expect(create).not.toHaveBeenCalled();
+  });
+});
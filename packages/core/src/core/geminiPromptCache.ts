@@ -0,0 +1,99 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHash } from 'node:crypto';
+import { Caches, GenerateContentParameters, Tool } from '@google/genai';
+
+// Short-lived, so that a cache left behind by a changed system prompt costs
+// little storage. Each cache is recreated once it has expired.
+const CACHE_TTL_SECONDS = 600;
+// A cache about to expire is not used, so that it cannot expire in flight.
+const EXPIRY_MARGIN_MS = 60_000;
+
+interface CacheEntry {
+  name: string;
+  expiresAt: number;
+}
+
+/**
+ * Caches the system instruction and tools of Gemini API requests in
+ * `cachedContents`, which are billed at a lower rate than prompt tokens, and
+ * sends requests with a reference to the cache instead.
+ *
+ * Content that cannot be cached, for example because it is shorter than the
+ * model's minimum, is remembered and sent uncached.
+ */
+export class GeminiPromptCache {
+  private readonly entries = new Map<string, Promise<CacheEntry | undefined>>();
+
+  constructor(
+    private readonly caches: Caches,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async apply(
+    request: GenerateContentParameters,
+  ): Promise<GenerateContentParameters> {
+    const { systemInstruction, tools, toolConfig, cachedContent, ...config } =
+      request.config ?? {};
+    if (!systemInstruction || cachedContent) {
+      return request;
+    }
+
+    const key = createHash('sha256')
+      .update(
+        JSON.stringify([request.model, systemInstruction, tools, toolConfig]),
+      )
+      .digest('hex');
+    let entry = await this.entries.get(key);
+    if (entry && entry.expiresAt - EXPIRY_MARGIN_MS <= this.now()) {
+      entry = undefined;
+      this.entries.delete(key);
+    }
+    if (!this.entries.has(key)) {
+      const created = this.create(request);
+      this.entries.set(key, created);
+      entry = await created;
+    }
+    if (!entry) {
+      return request;
+    }
+    return {
+      ...request,
+      config: { ...config, cachedContent: entry.name },
+    };
+  }
+
+  private async create(
+    request: GenerateContentParameters,
+  ): Promise<CacheEntry | undefined> {
+    const { systemInstruction, tools, toolConfig } = request.config ?? {};
+    try {
+      const cache = await this.caches.create({
+        model: request.model,
+        config: {
+          systemInstruction,
+          tools: tools as Tool[] | undefined,
+          toolConfig,
+          ttl: `${CACHE_TTL_SECONDS}s`,
+        },
+      });
+      if (!cache.name) {
+        return undefined;
+      }
+      const expireTime = cache.expireTime ? Date.parse(cache.expireTime) : NaN;
+      return {
+        name: cache.name,
+        expiresAt: Number.isNaN(expireTime)
+          ? this.now() + CACHE_TTL_SECONDS * 1000
+          : expireTime,
+      };
+    } catch (error) {
+      console.debug('Could not cache the prompt, sending it uncached.', error);
+      return undefined;
+    }
+  }
+}
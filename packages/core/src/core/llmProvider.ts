@@ -12,6 +12,10 @@ import {
   EmbedContentResponse,
   EmbedContentParameters,
 } from '@google/genai';
+import { OpenAICompatibleProvider } from '../providers/openaiCompatible.js';
+import { AnthropicProvider } from '../providers/anthropic.js';
+import { OllamaProvider } from '../providers/ollama.js';
+import type { TokenizerName } from '../providers/tokenizer.js';
 
 /**
  * Interface for LLM providers that abstracts the core functionalities for generating content,
@@ -55,12 +59,102 @@ export interface LLMProvider {
    * @returns The name of the provider.
    */
   getProviderName(): string;
+
+  /**
+   * List the models the provider can serve, for providers that support
+   * discovery.
+   * @returns A promise that resolves to the available models.
+   */
+  listModels?(): Promise<LLMModelInfo[]>;
+}
+
+/**
+ * A model reported by a provider's model discovery endpoint.
+ */
+export interface LLMModelInfo {
+  /**
+   * The model name to pass as `model` in requests.
+   */
+  name: string;
+
+  /**
+   * The context window in tokens, if the provider reports it.
+   */
+  contextLength?: number;
 }
 
+/**
+ * The wire protocols an LLM provider can speak.
+ */
+export enum LLMProviderType {
+  OPENAI_COMPATIBLE = 'openai',
+  ANTHROPIC = 'anthropic',
+  OLLAMA = 'ollama',
+}
+
+/**
+ * Sends the credential in a custom header, e.g. `api-key` for Azure OpenAI.
+ */
+export interface LLMHeaderAuthScheme {
+  type: 'header';
+  name: string;
+  /**
+   * Text placed before the credential, e.g. `Bearer `. Defaults to none.
+   */
+  prefix?: string;
+}
+
+/**
+ * Sends the credential as a URL query parameter, e.g. `?key=...`.
+ */
+export interface LLMQueryAuthScheme {
+  type: 'query';
+  name: string;
+}
+
+/**
+ * Obtains a short-lived token by running a shell command and sends it in a
+ * header instead of the API key. The token is cached for `ttlSeconds`.
+ */
+export interface LLMCommandAuthScheme {
+  type: 'command';
+  command: string;
+  /**
+   * Defaults to `Authorization`.
+   */
+  header?: string;
+  /**
+   * Defaults to `Bearer ` when the header is `Authorization`, else to none.
+   */
+  prefix?: string;
+  /**
+   * Defaults to 300 seconds.
+   */
+  ttlSeconds?: number;
+}
+
+/**
+ * How a provider authenticates its requests. The string forms send the API
+ * key as an `Authorization: Bearer` header, as an `X-API-Key` header, or not
+ * at all.
+ */
+export type LLMAuthScheme =
+  | 'bearer'
+  | 'x-api-key'
+  | 'none'
+  | LLMHeaderAuthScheme
+  | LLMQueryAuthScheme
+  | LLMCommandAuthScheme;
+
 /**
  * Configuration for LLM providers.
  */
 export interface LLMProviderConfig {
+  /**
+   * The API the endpoint speaks. Defaults to OpenAI-compatible.
+   */
+  providerType?: LLMProviderType;
+
   /**
    * The API endpoint URL.
    */
@@ -71,11 +165,29 @@ export interface LLMProviderConfig {
    */
   apiKey?: string;
 
+  /**
+   * How to send the API key. When omitted, each provider uses the scheme its
+   * API expects.
+   */
+  authScheme?: LLMAuthScheme;
+
   /**
    * The model name to use.
    */
   model: string;
 
+  /**
+   * The local tokenizer used to count tokens. Defaults to the one that
+   * matches the model.
+   */
+  tokenizer?: TokenizerName;
+
+  /**
+   * Logs requests and responses, with secrets redacted. Mirrors
+   * `Config.getDebugMode()`.
+   */
+  debugMode?: boolean;
+
   /**
    * Additional headers to include in requests.
    */
@@ -85,6 +197,30 @@ export interface LLMProviderConfig {
    * Proxy URL if needed.
    */
   proxy?: string;
+
+  /**
+   * The longest a request may take, including streaming the response, before
+   * it fails with a timeout. Defaults to no limit.
+   */
+  timeoutSeconds?: number;
+
+  /**
+   * Provider-specific model options, such as Ollama's `num_ctx`. These take
+   * precedence over the sampling parameters of individual requests.
+   */
+  options?: Record<string, unknown>;
+
+  /**
+   * How long the provider should keep the model loaded after a request,
+   * for providers that support it (e.g. `"10m"`, or `-1` for forever).
+   */
+  keepAlive?: string | number;
+
+  /**
+   * Marks the system prompt and the history as cacheable, for providers
+   * that only cache what they are asked to.
+   */
+  promptCaching?: boolean;
 }
 
 /**
@@ -95,291 +231,36 @@ export interface LLMProviderConfig {
 export async function createLLMProvider(
   config: LLMProviderConfig,
 ): Promise<LLMProvider> {
-  // For now, we'll implement a basic provider that works with OpenAI-compatible APIs
-  // In the future, we can add more specific providers for different APIs
-  return new OpenAICompatibleProvider(config);
+  switch (config.providerType) {
+    case LLMProviderType.ANTHROPIC:
+      return new AnthropicProvider(config);
+    case LLMProviderType.OLLAMA:
+      return new OllamaProvider(config);
+    case LLMProviderType.OPENAI_COMPATIBLE:
+    case undefined:
+      return new OpenAICompatibleProvider(config);
+    default:
+      throw new Error(`Unsupported LLM provider type: ${config.providerType}`);
+  }
 }
 
 /**
- * A basic provider that works with OpenAI-compatible APIs.
+ * Parses a provider type name such as the value of `LLM_PROVIDER`.
+ * @throws Error if the name is not a known provider type.
  */
-class OpenAICompatibleProvider implements LLMProvider {
-  private config: LLMProviderConfig;
-
-  constructor(config: LLMProviderConfig) {
-    this.config = config;
+export function parseLLMProviderType(
+  value: string | undefined,
+): LLMProviderType | undefined {
+  if (!value) {
+    return undefined;
   }
-
-  async generateContent(
-    request: GenerateContentParameters,
-  ): Promise<GenerateContentResponse> {
-    // Determine if this is a chat completion endpoint based on the URL
-    const isChatCompletion = this.config.apiUrl.includes('chat/completions');
-    
-    // Prepare the request body based on the API format
-    const requestBody = this.prepareGenerateContentRequest(request, isChatCompletion);
-    
-    // Make the API call
-    const response = await this.makeApiRequest(this.config.apiUrl, requestBody);
-    
-    // Parse the response
-    return this.parseGenerateContentResponse(response, isChatCompletion);
+  const providerType = Object.values(LLMProviderType).find(
+    (type) => type === value.toLowerCase(),
+  );
+  if (!providerType) {
+    throw new Error(
+      `Unknown LLM provider "${value}". Expected one of: ${Object.values(LLMProviderType).join(', ')}`,
+    );
   }
-
-  async generateContentStream(
-    request: GenerateContentParameters,
-  ): Promise<AsyncGenerator<GenerateContentResponse>> {
-    // For simplicity, we'll implement this as a regular generateContent call
-    // A full implementation would need to handle streaming properly
-    const response = await this.generateContent(request);
-    return (async function* () {
-      yield response;
-    })();
-  }
-
-  async countTokens(
-    request: CountTokensParameters,
-  ): Promise<CountTokensResponse> {
-    // Token counting is not standardized across APIs
-    // For now, we'll return a placeholder response
-    return {
-      totalTokens: 0,
-    };
-  }
-
-  async embedContent(
-    request: EmbedContentParameters,
-  ): Promise<EmbedContentResponse> {
-    // Embedding is not standardized across APIs
-    // For now, we'll throw an error
-    throw new Error('Embedding not supported for this provider');
-  }
-
-  getProviderName(): string {
-    return 'OpenAICompatible';
-  }
-
-  private prepareGenerateContentRequest(
-    request: GenerateContentParameters,
-    isChatCompletion: boolean,
-  ): Record<string, unknown> {
-    if (isChatCompletion) {
-      // OpenAI chat completion format
-      return {
-        model: this.config.model,
-        messages: this.convertContentsToMessages(request.contents),
-        ...this.convertConfigToOpenAIParams(request.config),
-      };
-    } else {
-      // Assume it's a completion endpoint
-      return {
-        model: this.config.model,
-        prompt: this.convertContentsToPrompt(request.contents),
-        ...this.convertConfigToOpenAIParams(request.config),
-      };
-    }
-  }
-
-  private convertContentsToMessages(contents: any): any[] {
-    // Convert Gemini-style contents to OpenAI messages
-    // Handle different types of content inputs
-    const contentArray = Array.isArray(contents) ? contents : [contents];
-    
-    return contentArray.map((content) => {
-      if (typeof content === 'string') {
-        return { role: 'user', content: content };
-      }
-      if (content.role && content.parts) {
-        const textParts = content.parts.filter((part: any) => part.text);
-        return {
-          role: content.role === 'model' ? 'assistant' : content.role,
-          content: textParts.map((part: any) => part.text).join('\n'),
-        };
-      }
-      return { role: 'user', content: JSON.stringify(content) };
-    });
-  }
-
-  private convertContentsToPrompt(contents: any): string {
-    // Convert contents to a single prompt string
-    const contentArray = Array.isArray(contents) ? contents : [contents];
-    
-    return contentArray
-      .map((content) => {
-        if (typeof content === 'string') {
-          return content;
-        }
-        if (content.parts) {
-          return content.parts
-            .map((part: any) => (part.text ? part.text : JSON.stringify(part)))
-            .join('\n');
-        }
-        return JSON.stringify(content);
-      })
-      .join('\n\n');
-  }
-
-  private convertConfigToOpenAIParams(config: any = {}): Record<string, unknown> {
-    const openAIParams: Record<string, unknown> = {};
-    
-    if (config.temperature !== undefined) {
-      openAIParams.temperature = config.temperature;
-    }
-    if (config.maxOutputTokens !== undefined) {
-      openAIParams.max_tokens = config.maxOutputTokens;
-    }
-    if (config.topP !== undefined) {
-      openAIParams.top_p = config.topP;
-    }
-    if (config.stopSequences !== undefined) {
-      openAIParams.stop = config.stopSequences;
-    }
-    
-    return openAIParams;
-  }
-
-  private async makeApiRequest(
-    url: string,
-    body: Record<string, unknown>,
-  ): Promise<any> {
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      ...this.config.headers,
-    };
-    
-    // Add API key if provided
-    if (this.config.apiKey) {
-      // Check if it's an OpenAI-style API (using Bearer token)
-      if (url.includes('openai.com') || url.includes('api.openai.com')) {
-        headers['Authorization'] = `Bearer ${this.config.apiKey}`;
-      } else if (url.includes('openrouter.ai')) {
-        // OpenRouter uses Authorization header
-        headers['Authorization'] = `Bearer ${this.config.apiKey}`;
-      } else {
-        // Default to X-API-Key header for other providers
-        headers['X-API-Key'] = this.config.apiKey;
-      }
-    }
-    
-    // Log the request for debugging
-    console.log(`Making API request to: ${url}`);
-    console.log(`Request headers: ${JSON.stringify(headers)}`);
-    console.log(`Request body: ${JSON.stringify(body)}`);
-    
-    let response: Response;
-    try {
-      response = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(body),
-      });
-    } catch (error) {
-      throw new Error(`Network error when making API request: ${(error as Error).message}`);
-    }
-    
-    console.log(`API response status: ${response.status}`);
-    
-    if (!response.ok) {
-      // Try to get the error response as text
-      let errorText: string;
-      try {
-        errorText = await response.text();
-      } catch (error) {
-        errorText = `Failed to read error response: ${(error as Error).message}`;
-      }
-      
-      console.log(`API error response: ${errorText.substring(0, 200)}${errorText.length > 200 ? '...' : ''}`);
-      
-      // Check if the error response is JSON
-      if (errorText.trim().startsWith('{') || errorText.trim().startsWith('[')) {
-        try {
-          const errorJson = JSON.parse(errorText);
-          throw new Error(`API request failed with status ${response.status}: ${JSON.stringify(errorJson)}`);
-        } catch (jsonError) {
-          // If parsing fails, use the raw text
-          throw new Error(`API request failed with status ${response.status}: ${errorText}`);
-        }
-      } else {
-        // If it's not JSON, it's likely an HTML error page
-        throw new Error(`API request failed with status ${response.status}. Server returned: ${errorText.substring(0, 200)}${errorText.length > 200 ? '...' : ''}`);
-      }
-    }
-    
-    // Try to parse the response as JSON
-    let responseText: string;
-    try {
-      responseText = await response.text();
-    } catch (error) {
-      throw new Error(`Failed to read response: ${(error as Error).message}`);
-    }
-    
-    console.log(`API response: ${responseText.substring(0, 200)}${responseText.length > 200 ? '...' : ''}`);
-    
-    // Check if the response is JSON
-    if (responseText.trim().startsWith('{') || responseText.trim().startsWith('[')) {
-      try {
-        return JSON.parse(responseText);
-      } catch (error) {
-        throw new Error(`Failed to parse JSON response: ${(error as Error).message}. Response text: ${responseText.substring(0, 200)}${responseText.length > 200 ? '...' : ''}`);
-      }
-    } else {
-      // If it's not JSON, it's likely an HTML error page
-      throw new Error(`API returned non-JSON response. Response starts with: ${responseText.substring(0, 200)}${responseText.length > 200 ? '...' : ''}`);
-    }
-  }
-
-  private parseGenerateContentResponse(
-    response: any,
-    isChatCompletion: boolean,
-  ): GenerateContentResponse {
-    // Create a new GenerateContentResponse
-    const generateContentResponse = new GenerateContentResponse();
-    
-    if (isChatCompletion) {
-      // Parse OpenAI chat completion response
-      if (response.choices && response.choices.length > 0) {
-        const choice = response.choices[0];
-        generateContentResponse.candidates = [
-          {
-            content: {
-              role: 'model',
-              parts: [
-                {
-                  text: choice.message?.content || '',
-                },
-              ],
-            },
-          },
-        ];
-      }
-    } else {
-      // Parse completion response
-      if (response.choices && response.choices.length > 0) {
-        const choice = response.choices[0];
-        generateContentResponse.candidates = [
-          {
-            content: {
-              role: 'model',
-              parts: [
-                {
-                  text: choice.text || '',
-                },
-              ],
-            },
-          },
-        ];
-      }
-    }
-    
-    // Add usage metadata if available
-    if (response.usage) {
-      generateContentResponse.usageMetadata = {
-        promptTokenCount: response.usage.prompt_tokens,
-        candidatesTokenCount: response.usage.completion_tokens,
-        totalTokenCount: response.usage.total_tokens,
-      };
-    }
-    
-    return generateContentResponse;
-  }
-}
\ No newline at end of file
+  return providerType;
+}
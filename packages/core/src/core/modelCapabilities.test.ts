@@ -0,0 +1,77 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  DEFAULT_MODEL_CAPABILITIES,
+  getModelCapabilities,
+  reportModelCapabilities,
+  setModelCapabilityOverrides,
+} from './modelCapabilities.js';
+import { tokenLimit } from './tokenLimits.js';
+
+describe('getModelCapabilities', () => {
+  afterEach(() => {
+    setModelCapabilityOverrides(undefined);
+  });
+
+  it('should know the Gemini models', () => {
+    expect(getModelCapabilities('gemini-1.5-pro').contextWindow).toBe(
+      2_097_152,
+    );
+    expect(getModelCapabilities('gemini-2.5-pro')).toMatchObject({
+      contextWindow: 1_048_576,
+      supportsReasoning: true,
+    });
+    expect(getModelCapabilities('gemini-2.0-flash').supportsReasoning).toBe(
+      false,
+    );
+  });
+
+  it('should match model families regardless of vendor prefix and tag', () => {
+    expect(getModelCapabilities('openai/gpt-4o-mini')).toMatchObject({
+      contextWindow: 128_000,
+      maxOutputTokens: 16_384,
+      supportsJsonSchema: true,
+    });
+    expect(getModelCapabilities('claude-3-5-sonnet-latest')).toMatchObject({
+      contextWindow: 200_000,
+      supportsReasoning: false,
+    });
+    expect(getModelCapabilities('claude-sonnet-4-20250514')).toMatchObject({
+      supportsReasoning: true,
+    });
+    expect(getModelCapabilities('qwen3:8b')).toMatchObject({
+      contextWindow: 40_960,
+      supportsReasoning: true,
+      supportsVision: false,
+    });
+    expect(getModelCapabilities('Llama3.1:70b').contextWindow).toBe(131_072);
+    expect(getModelCapabilities('mistral-large-latest').contextWindow).toBe(
+      131_072,
+    );
+  });
+
+  it('should fall back to conservative defaults for unknown models', () => {
+    expect(getModelCapabilities('my-finetune')).toEqual(
+      DEFAULT_MODEL_CAPABILITIES,
+    );
+  });
+
+  it('should prefer settings over reported and built-in capabilities', () => {
+    reportModelCapabilities('gpt-4o', { contextWindow: 64_000 });
+    expect(tokenLimit('gpt-4o')).toBe(64_000);
+
+    setModelCapabilityOverrides({
+      'GPT-4o': { contextWindow: 32_000, supportsTools: false },
+    });
+    expect(getModelCapabilities('openai/gpt-4o')).toMatchObject({
+      contextWindow: 32_000,
+      supportsTools: false,
+      supportsJsonSchema: true,
+    });
+  });
+});
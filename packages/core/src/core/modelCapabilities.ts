@@ -0,0 +1,302 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * What a model can do, as far as the CLI needs to know when building
+ * requests and managing the context window.
+ */
+export interface ModelCapabilities {
+  /** The context window in tokens, prompt and output included. */
+  contextWindow: number;
+  /** The most tokens the model can generate in one response, if known. */
+  maxOutputTokens?: number;
+  supportsTools: boolean;
+  supportsVision: boolean;
+  /** Whether the model can think before answering. */
+  supportsReasoning: boolean;
+  /**
+   * How an OpenAI-compatible server limits the model's reasoning: with
+   * `reasoning_effort` or with `max_reasoning_tokens`. Unset if it cannot.
+   */
+  reasoningControl?: 'effort' | 'tokens';
+  /** Whether the model can be constrained to a JSON schema. */
+  supportsJsonSchema: boolean;
+}
+
+/**
+ * Capabilities of models that are not in the built-in table. The context
+ * window is deliberately modest, so that chats with unknown models are
+ * compressed before they overflow rather than after.
+ */
+export const DEFAULT_MODEL_CAPABILITIES: ModelCapabilities = {
+  contextWindow: 131_072,
+  supportsTools: true,
+  supportsVision: true,
+  supportsReasoning: false,
+  supportsJsonSchema: false,
+};
+
+export type ModelCapabilityOverrides = Partial<ModelCapabilities>;
+
+// Matched in order against the lower-cased model id without any vendor
+// prefix (`openai/gpt-4o` is looked up as `gpt-4o`), so more specific
+// patterns come first. Local model tags such as `qwen3:8b` match by family.
+const BUILT_IN_CAPABILITIES: Array<[RegExp, ModelCapabilityOverrides]> = [
+  // Gemini, from https://ai.google.dev/gemini-api/docs/models
+  [
+    /^gemini-2\.0-flash-preview-image-generation/,
+    { contextWindow: 32_000, supportsTools: false },
+  ],
+  [
+    /^gemini-1\.5-pro/,
+    {
+      contextWindow: 2_097_152,
+      maxOutputTokens: 8_192,
+      supportsJsonSchema: true,
+    },
+  ],
+  [
+    /^gemini-2\.5/,
+    {
+      contextWindow: 1_048_576,
+      maxOutputTokens: 65_536,
+      supportsReasoning: true,
+      supportsJsonSchema: true,
+    },
+  ],
+  [
+    /^gemini-/,
+    {
+      contextWindow: 1_048_576,
+      maxOutputTokens: 8_192,
+      supportsJsonSchema: true,
+    },
+  ],
+
+  // OpenAI
+  [
+    /^gpt-5/,
+    {
+      contextWindow: 400_000,
+      maxOutputTokens: 128_000,
+      supportsReasoning: true,
+      reasoningControl: 'effort',
+      supportsJsonSchema: true,
+    },
+  ],
+  [
+    /^gpt-4\.1/,
+    {
+      contextWindow: 1_047_576,
+      maxOutputTokens: 32_768,
+      supportsJsonSchema: true,
+    },
+  ],
+  [
+    /^(gpt-4o|chatgpt-4o)/,
+    {
+      contextWindow: 128_000,
+      maxOutputTokens: 16_384,
+      supportsJsonSchema: true,
+    },
+  ],
+  [/^gpt-4-turbo/, { contextWindow: 128_000, maxOutputTokens: 4_096 }],
+  [
+    /^gpt-4-32k/,
+    { contextWindow: 32_768, maxOutputTokens: 4_096, supportsVision: false },
+  ],
+  [
+    /^gpt-4/,
+    { contextWindow: 8_192, maxOutputTokens: 4_096, supportsVision: false },
+  ],
+  [
+    /^gpt-3\.5-turbo/,
+    { contextWindow: 16_385, maxOutputTokens: 4_096, supportsVision: false },
+  ],
+  [
+    /^o1-mini/,
+    {
+      contextWindow: 128_000,
+      maxOutputTokens: 65_536,
+      supportsTools: false,
+      supportsVision: false,
+      supportsReasoning: true,
+    },
+  ],
+  [
+    /^o3-mini/,
+    {
+      contextWindow: 200_000,
+      maxOutputTokens: 100_000,
+      supportsVision: false,
+      supportsReasoning: true,
+      reasoningControl: 'effort',
+      supportsJsonSchema: true,
+    },
+  ],
+  [
+    /^o\d/,
+    {
+      contextWindow: 200_000,
+      maxOutputTokens: 100_000,
+      supportsReasoning: true,
+      reasoningControl: 'effort',
+      supportsJsonSchema: true,
+    },
+  ],
+
+  // Anthropic
+  [
+    /^claude-3-7-sonnet/,
+    {
+      contextWindow: 200_000,
+      maxOutputTokens: 64_000,
+      supportsReasoning: true,
+    },
+  ],
+  [/^claude-3-5/, { contextWindow: 200_000, maxOutputTokens: 8_192 }],
+  [/^claude-3/, { contextWindow: 200_000, maxOutputTokens: 4_096 }],
+  [
+    /^claude-opus/,
+    {
+      contextWindow: 200_000,
+      maxOutputTokens: 32_000,
+      supportsReasoning: true,
+    },
+  ],
+  [
+    /^claude-/,
+    {
+      contextWindow: 200_000,
+      maxOutputTokens: 64_000,
+      supportsReasoning: true,
+    },
+  ],
+
+  // Llama
+  [/^llama-?4/, { contextWindow: 1_048_576, maxOutputTokens: 16_384 }],
+  [/^llama-?3\.2.*vision/, { contextWindow: 131_072, supportsTools: false }],
+  [/^llama-?3\.[123]/, { contextWindow: 131_072, supportsVision: false }],
+  [
+    /^(meta-)?llama-?3/,
+    { contextWindow: 8_192, supportsTools: false, supportsVision: false },
+  ],
+  [
+    /^(meta-)?llama-?2/,
+    { contextWindow: 4_096, supportsTools: false, supportsVision: false },
+  ],
+
+  // Qwen
+  [
+    /^qwen3-coder/,
+    { contextWindow: 262_144, maxOutputTokens: 65_536, supportsVision: false },
+  ],
+  [
+    /^qwen3/,
+    {
+      contextWindow: 40_960,
+      maxOutputTokens: 32_768,
+      supportsVision: false,
+      supportsReasoning: true,
+    },
+  ],
+  [
+    /^qwq/,
+    {
+      contextWindow: 131_072,
+      supportsVision: false,
+      supportsReasoning: true,
+    },
+  ],
+  [/^qwen2\.5-?vl/, { contextWindow: 128_000, supportsTools: false }],
+  [/^qwen/, { contextWindow: 32_768, supportsVision: false }],
+
+  // Mistral
+  [
+    /^magistral/,
+    {
+      contextWindow: 40_000,
+      supportsVision: false,
+      supportsReasoning: true,
+    },
+  ],
+  [/^codestral/, { contextWindow: 262_144, supportsVision: false }],
+  [/^(pixtral|mistral-(small|medium))/, { contextWindow: 131_072 }],
+  [
+    /^(mistral-large|mistral-nemo|devstral|ministral)/,
+    { contextWindow: 131_072, supportsVision: false },
+  ],
+  [/^(mistral|mixtral)/, { contextWindow: 32_768, supportsVision: false }],
+
+  // DeepSeek
+  [
+    /^deepseek-(r1|reasoner)/,
+    {
+      contextWindow: 65_536,
+      supportsTools: false,
+      supportsVision: false,
+      supportsReasoning: true,
+    },
+  ],
+  [/^deepseek/, { contextWindow: 65_536, supportsVision: false }],
+];
+
+// Context windows reported by providers, e.g. Ollama's configured `num_ctx`.
+const reportedCapabilities = new Map<string, ModelCapabilityOverrides>();
+
+// Overrides from the `modelCapabilities` setting, keyed by model id.
+let configuredCapabilities: Record<string, ModelCapabilityOverrides> = {};
+
+/**
+ * Returns the capabilities of a model: the built-in defaults for its
+ * family, overridden by what its provider reported, overridden in turn by
+ * the `modelCapabilities` setting.
+ */
+export function getModelCapabilities(model: string): ModelCapabilities {
+  const name = normalizeModelId(model);
+  const builtIn = BUILT_IN_CAPABILITIES.find(([pattern]) =>
+    pattern.test(name),
+  )?.[1];
+  return {
+    ...DEFAULT_MODEL_CAPABILITIES,
+    ...builtIn,
+    ...reportedCapabilities.get(model),
+    ...configuredCapabilities[name],
+    ...configuredCapabilities[model.toLowerCase()],
+  };
+}
+
+/**
+ * Records capabilities a provider reported for a model at runtime.
+ */
+export function reportModelCapabilities(
+  model: string,
+  capabilities: ModelCapabilityOverrides,
+): void {
+  reportedCapabilities.set(model, {
+    ...reportedCapabilities.get(model),
+    ...capabilities,
+  });
+}
+
+/**
+ * Replaces the capability overrides from settings. Keys are model ids, with
+ * or without a vendor prefix.
+ */
+export function setModelCapabilityOverrides(
+  overrides: Record<string, ModelCapabilityOverrides> | undefined,
+): void {
+  configuredCapabilities = Object.fromEntries(
+    Object.entries(overrides ?? {}).map(([model, capabilities]) => [
+      model.toLowerCase(),
+      capabilities,
+    ]),
+  );
+}
+
+function normalizeModelId(model: string): string {
+  return model.toLowerCase().split('/').pop() ?? '';
+}
@@ -0,0 +1,186 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  FunctionCallingConfigMode,
+  GenerateContentResponse,
+} from '@google/genai';
+import { Config } from '../config/config.js';
+import {
+  ContentGenerator,
+  createContentGenerator,
+} from './contentGenerator.js';
+import {
+  compareModels,
+  countDistinctTargets,
+  resolveComparisonTarget,
+} from './modelComparison.js';
+
+vi.mock('./contentGenerator.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./contentGenerator.js')>();
+  return {
+    ...actual,
+    createContentGenerator: vi.fn(),
+    createProviderContentGeneratorConfig: vi.fn(
+      (_config: Config, provider: string, model: string) => ({
+        model,
+        llmProvider: { provider },
+      }),
+    ),
+  };
+});
+vi.mock('./prompts.js', () => ({
+  getCoreSystemPrompt: () => 'You are a coding agent.',
+}));
+vi.mock('../telemetry/loggers.js', () => ({ logApiResponse: vi.fn() }));
+
+function textResponse(text: string): GenerateContentResponse {
+  return Object.assign(new GenerateContentResponse(), {
+    candidates: [{ content: { role: 'model', parts: [{ text }] } }],
+    usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 3 },
+  });
+}
+
+describe('modelComparison', () => {
+  const history = [
+    { role: 'user', parts: [{ text: 'Read main.ts' }] },
+    { role: 'model', parts: [{ text: 'Done.' }] },
+  ];
+  let config: Config;
+
+  beforeEach(() => {
+    vi.mocked(createContentGenerator).mockReset();
+    config = {
+      getProviderProfiles: () => ({
+        local: { baseUrl: 'http://localhost:11434', model: 'qwen3:8b' },
+        bare: { baseUrl: 'http://localhost:8080' },
+      }),
+      getGeminiClient: () => ({
+        getChat: () => ({ getHistory: () => history }),
+      }),
+      getUserMemory: () => '',
+      getToolRegistry: async () => ({
+        getFunctionDeclarations: () => [{ name: 'read_file' }],
+      }),
+      getSessionId: () => 'session',
+    } as unknown as Config;
+  });
+
+  describe('resolveComparisonTarget', () => {
+    it('should resolve a provider to its default model', () => {
+      expect(resolveComparisonTarget(config, 'local')).toEqual({
+        provider: 'local',
+        model: 'qwen3:8b',
+      });
+    });
+
+    it('should resolve a provider and model', () => {
+      expect(resolveComparisonTarget(config, 'bare/llama3:70b')).toEqual({
+        provider: 'bare',
+        model: 'llama3:70b',
+      });
+    });
+
+    it('should reject unknown providers and providers without a model', () => {
+      expect(resolveComparisonTarget(config, 'missing')).toBeUndefined();
+      expect(resolveComparisonTarget(config, 'bare')).toBeUndefined();
+    });
+  });
+
+  describe('countDistinctTargets', () => {
+    it('should count each provider and model once', () => {
+      expect(
+        countDistinctTargets([
+          { provider: 'local', model: 'qwen3:8b' },
+          { provider: 'local', model: 'qwen3:8b' },
+          { provider: 'local', model: 'llama3:70b' },
+          { provider: 'bare', model: 'llama3:70b' },
+        ]),
+      ).toBe(3);
+    });
+  });
+
+  describe('compareModels', () => {
+    it('should send the history and prompt to each model without tool use', async () => {
+      const generateContent = vi.fn(async () => textResponse('Answer'));
+      vi.mocked(createContentGenerator).mockResolvedValue({
+        generateContent,
+      } as unknown as ContentGenerator);
+
+      const results = await compareModels(
+        config,
+        [
+          { provider: 'local', model: 'qwen3:8b' },
+          { provider: 'openai', model: 'gpt-4o' },
+        ],
+        'Explain it',
+        new AbortController().signal,
+      );
+
+      expect(results).toEqual([
+        {
+          provider: 'local',
+          model: 'qwen3:8b',
+          text: 'Answer',
+          durationMs: expect.any(Number),
+          usage: { promptTokenCount: 12, candidatesTokenCount: 3 },
+        },
+        {
+          provider: 'openai',
+          model: 'gpt-4o',
+          text: 'Answer',
+          durationMs: expect.any(Number),
+          usage: { promptTokenCount: 12, candidatesTokenCount: 3 },
+        },
+      ]);
+      expect(generateContent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          model: 'gpt-4o',
+          contents: [
+            ...history,
+            { role: 'user', parts: [{ text: 'Explain it' }] },
+          ],
+          config: expect.objectContaining({
+            systemInstruction: 'You are a coding agent.',
+            tools: [{ functionDeclarations: [{ name: 'read_file' }] }],
+            toolConfig: {
+              functionCallingConfig: { mode: FunctionCallingConfigMode.NONE },
+            },
+          }),
+        }),
+      );
+    });
+
+    it('should report a failed model without failing the others', async () => {
+      vi.mocked(createContentGenerator)
+        .mockRejectedValueOnce(
+          new Error('Provider "bad" is missing "baseUrl".'),
+        )
+        .mockResolvedValueOnce({
+          generateContent: async () => textResponse('Answer'),
+        } as unknown as ContentGenerator);
+
+      const results = await compareModels(
+        config,
+        [
+          { provider: 'bad', model: 'x' },
+          { provider: 'local', model: 'qwen3:8b' },
+        ],
+        'Explain it',
+        new AbortController().signal,
+      );
+
+      expect(results[0]).toEqual({
+        provider: 'bad',
+        model: 'x',
+        error: 'Provider "bad" is missing "baseUrl".',
+        durationMs: expect.any(Number),
+      });
+      expect(results[1].text).toBe('Answer');
+    });
+  });
+});
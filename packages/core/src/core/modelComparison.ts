@@ -0,0 +1,153 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  Content,
+  FunctionCallingConfigMode,
+  GenerateContentConfig,
+  GenerateContentResponseUsageMetadata,
+} from '@google/genai';
+import { Config } from '../config/config.js';
+import {
+  createContentGenerator,
+  createProviderContentGeneratorConfig,
+} from './contentGenerator.js';
+import { getCoreSystemPrompt } from './prompts.js';
+import { getModelCapabilities } from './modelCapabilities.js';
+import { getResponseText } from '../utils/generateContentResponseUtilities.js';
+import { retryWithBackoff } from '../utils/retry.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { logApiResponse } from '../telemetry/loggers.js';
+import { ApiResponseEvent } from '../telemetry/types.js';
+
+/** A provider profile and the model of it to ask. */
+export interface ComparisonTarget {
+  provider: string;
+  model: string;
+}
+
+export interface ModelComparisonResult extends ComparisonTarget {
+  /** The answer, if the request succeeded. */
+  text?: string;
+  /** Why the request failed, if it did. */
+  error?: string;
+  durationMs: number;
+  usage?: GenerateContentResponseUsageMetadata;
+}
+
+/**
+ * Resolves `<provider>` (the default model of the profile) or
+ * `<provider>/<model>` to a comparison target. Returns undefined if no
+ * provider profile of that name exists or it has no default model.
+ */
+export function resolveComparisonTarget(
+  config: Config,
+  arg: string,
+): ComparisonTarget | undefined {
+  const profiles = config.getProviderProfiles();
+  const slash = arg.indexOf('/');
+  const provider = slash > 0 ? arg.slice(0, slash) : arg;
+  const profile = profiles[provider];
+  if (!profile) {
+    return undefined;
+  }
+  const model = (slash > 0 ? arg.slice(slash + 1) : '') || profile.model;
+  return model ? { provider, model } : undefined;
+}
+
+/**
+ * Counts the different provider and model pairs in `targets`, since
+ * comparing a model with itself is not a comparison.
+ */
+export function countDistinctTargets(targets: ComparisonTarget[]): number {
+  return new Set(targets.map(({ provider, model }) => `${provider}/${model}`))
+    .size;
+}
+
+/**
+ * Sends the curated history of the current chat and `prompt` to each target
+ * in parallel and collects the answers. Tools are declared so that the
+ * history stays valid, but the models may not call them, so nothing is run
+ * and the chat itself is left untouched.
+ */
+export async function compareModels(
+  config: Config,
+  targets: ComparisonTarget[],
+  prompt: string,
+  abortSignal: AbortSignal,
+): Promise<ModelComparisonResult[]> {
+  const history = config.getGeminiClient().getChat().getHistory(true);
+  const contents: Content[] = [
+    ...history,
+    { role: 'user', parts: [{ text: prompt }] },
+  ];
+  const systemInstruction = getCoreSystemPrompt(config.getUserMemory());
+  const functionDeclarations = (
+    await config.getToolRegistry()
+  ).getFunctionDeclarations();
+  const promptId = `compare-${Date.now()}`;
+
+  return Promise.all(
+    targets.map(async (target): Promise<ModelComparisonResult> => {
+      const requestConfig: GenerateContentConfig = {
+        temperature: 0,
+        topP: 1,
+        abortSignal,
+        systemInstruction,
+      };
+      if (getModelCapabilities(target.model).supportsTools) {
+        requestConfig.tools = [{ functionDeclarations }];
+        requestConfig.toolConfig = {
+          functionCallingConfig: { mode: FunctionCallingConfigMode.NONE },
+        };
+      }
+
+      const startTime = Date.now();
+      try {
+        const contentGeneratorConfig = createProviderContentGeneratorConfig(
+          config,
+          target.provider,
+          target.model,
+        );
+        const contentGenerator = await createContentGenerator(
+          contentGeneratorConfig,
+          config,
+          config.getSessionId(),
+        );
+        const response = await retryWithBackoff(() =>
+          contentGenerator.generateContent({
+            model: target.model,
+            contents,
+            config: requestConfig,
+          }),
+        );
+        const durationMs = Date.now() - startTime;
+        logApiResponse(
+          config,
+          new ApiResponseEvent(
+            target.model,
+            durationMs,
+            promptId,
+            contentGeneratorConfig.authType,
+            response.usageMetadata,
+          ),
+        );
+        return {
+          ...target,
+          text: getResponseText(response) ?? '',
+          durationMs,
+          usage: response.usageMetadata,
+        };
+      } catch (error) {
+        return {
+          ...target,
+          error: getErrorMessage(error),
+          durationMs: Date.now() - startTime,
+        };
+      }
+    }),
+  );
+}
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  calculateCost,
+  getModelPricing,
+  setModelPricingOverrides,
+} from './modelPricing.js';
+
+describe('getModelPricing', () => {
+  afterEach(() => {
+    setModelPricingOverrides(undefined);
+  });
+
+  it('should return the list price of known models', () => {
+    expect(getModelPricing('gemini-2.5-pro')).toEqual({
+      input: 1.25,
+      output: 10,
+      cached: 0.31,
+    });
+    expect(getModelPricing('gpt-4o-mini-2024-07-18')?.input).toBe(0.15);
+    expect(getModelPricing('openai/GPT-4o')?.input).toBe(2.5);
+  });
+
+  it('should return undefined for unknown models', () => {
+    expect(getModelPricing('llama3.1:8b')).toBeUndefined();
+  });
+
+  it('should prefer prices from settings', () => {
+    setModelPricingOverrides({
+      'GPT-4o': { input: 2, output: 8 },
+      'openrouter/llama3.1': { input: 0.1, output: 0.2 },
+    });
+
+    expect(getModelPricing('gpt-4o')).toEqual({ input: 2, output: 8 });
+    expect(getModelPricing('openrouter/llama3.1')).toEqual({
+      input: 0.1,
+      output: 0.2,
+    });
+    expect(getModelPricing('llama3.1')).toBeUndefined();
+  });
+});
+
+describe('calculateCost', () => {
+  afterEach(() => {
+    setModelPricingOverrides(undefined);
+  });
+
+  it('should bill cached prompt tokens at the cached rate', () => {
+    setModelPricingOverrides({
+      'test-model': { input: 2, output: 10, cached: 0.5 },
+    });
+
+    expect(
+      calculateCost('test-model', {
+        prompt: 1_000_000,
+        cached: 400_000,
+        candidates: 100_000,
+        thoughts: 100_000,
+      }),
+    ).toBeCloseTo(1.2 + 0.2 + 2);
+  });
+
+  it('should bill cached tokens at the input rate without a cached rate', () => {
+    setModelPricingOverrides({ 'test-model': { input: 1, output: 1 } });
+
+    expect(
+      calculateCost('test-model', {
+        prompt: 500_000,
+        cached: 500_000,
+        candidates: 0,
+        thoughts: 0,
+      }),
+    ).toBeCloseTo(0.5);
+  });
+
+  it('should return undefined for models without a price', () => {
+    expect(
+      calculateCost('unknown-model', {
+        prompt: 1,
+        cached: 0,
+        candidates: 1,
+        thoughts: 0,
+      }),
+    ).toBeUndefined();
+  });
+});
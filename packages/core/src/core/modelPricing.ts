@@ -0,0 +1,123 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * The price of a model in US dollars per million tokens.
+ */
+export interface ModelPricing {
+  /** Prompt tokens that were not served from a cache. */
+  input: number;
+  /** Output tokens, thinking included. */
+  output: number;
+  /** Prompt tokens served from a cache. Defaults to `input`. */
+  cached?: number;
+}
+
+/**
+ * The token counts that a request is billed by, as tracked per model in the
+ * session metrics. `prompt` includes the `cached` tokens.
+ */
+export interface BilledTokens {
+  prompt: number;
+  candidates: number;
+  cached: number;
+  thoughts: number;
+}
+
+// Matched in order against the lower-cased model id without any vendor
+// prefix, like the capability table, so more specific patterns come first.
+// List prices for prompts within the standard context tier.
+const BUILT_IN_PRICING: Array<[RegExp, ModelPricing]> = [
+  // Gemini, from https://ai.google.dev/gemini-api/docs/pricing
+  [/^gemini-2\.5-pro/, { input: 1.25, output: 10, cached: 0.31 }],
+  [/^gemini-2\.5-flash-lite/, { input: 0.1, output: 0.4, cached: 0.025 }],
+  [/^gemini-2\.5-flash/, { input: 0.3, output: 2.5, cached: 0.075 }],
+  [/^gemini-2\.0-flash-lite/, { input: 0.075, output: 0.3 }],
+  [/^gemini-2\.0-flash/, { input: 0.1, output: 0.4, cached: 0.025 }],
+  [/^gemini-1\.5-pro/, { input: 1.25, output: 5, cached: 0.3125 }],
+  [/^gemini-1\.5-flash/, { input: 0.075, output: 0.3, cached: 0.01875 }],
+
+  // OpenAI, from https://openai.com/api/pricing
+  [/^gpt-5-nano/, { input: 0.05, output: 0.4, cached: 0.005 }],
+  [/^gpt-5-mini/, { input: 0.25, output: 2, cached: 0.025 }],
+  [/^gpt-5/, { input: 1.25, output: 10, cached: 0.125 }],
+  [/^gpt-4\.1-nano/, { input: 0.1, output: 0.4, cached: 0.025 }],
+  [/^gpt-4\.1-mini/, { input: 0.4, output: 1.6, cached: 0.1 }],
+  [/^gpt-4\.1/, { input: 2, output: 8, cached: 0.5 }],
+  [/^gpt-4o-mini/, { input: 0.15, output: 0.6, cached: 0.075 }],
+  [/^(gpt-4o|chatgpt-4o)/, { input: 2.5, output: 10, cached: 1.25 }],
+  [/^gpt-4-turbo/, { input: 10, output: 30 }],
+  [/^gpt-4/, { input: 30, output: 60 }],
+  [/^gpt-3\.5-turbo/, { input: 0.5, output: 1.5 }],
+  [/^o4-mini/, { input: 1.1, output: 4.4, cached: 0.275 }],
+  [/^o3-mini|^o1-mini/, { input: 1.1, output: 4.4, cached: 0.55 }],
+  [/^o3/, { input: 2, output: 8, cached: 0.5 }],
+  [/^o1/, { input: 15, output: 60, cached: 7.5 }],
+
+  // Anthropic, from https://www.anthropic.com/pricing
+  [/^claude-(opus|3-opus)/, { input: 15, output: 75, cached: 1.5 }],
+  [/^claude-3-5-haiku/, { input: 0.8, output: 4, cached: 0.08 }],
+  [/^claude-3-haiku/, { input: 0.25, output: 1.25, cached: 0.03 }],
+  [/^claude-/, { input: 3, output: 15, cached: 0.3 }],
+
+  // DeepSeek, from https://api-docs.deepseek.com/quick_start/pricing
+  [/^deepseek-(r1|reasoner)/, { input: 0.55, output: 2.19, cached: 0.14 }],
+  [/^deepseek-(chat|v3)/, { input: 0.27, output: 1.1, cached: 0.07 }],
+];
+
+// Prices from the `modelPricing` setting, keyed by lower-cased model id.
+let configuredPricing: Record<string, ModelPricing> = {};
+
+/**
+ * Returns the price of a model: the `modelPricing` setting if it has an
+ * entry for the model, otherwise the built-in list price. Returns undefined
+ * for models whose price is not known, such as local models.
+ */
+export function getModelPricing(model: string): ModelPricing | undefined {
+  const id = model.toLowerCase();
+  const name = id.split('/').pop() ?? '';
+  return (
+    configuredPricing[id] ??
+    configuredPricing[name] ??
+    BUILT_IN_PRICING.find(([pattern]) => pattern.test(name))?.[1]
+  );
+}
+
+/**
+ * Replaces the prices from settings. Keys are model ids, with or without a
+ * vendor prefix.
+ */
+export function setModelPricingOverrides(
+  overrides: Record<string, ModelPricing> | undefined,
+): void {
+  configuredPricing = Object.fromEntries(
+    Object.entries(overrides ?? {}).map(([model, pricing]) => [
+      model.toLowerCase(),
+      pricing,
+    ]),
+  );
+}
+
+/**
+ * Returns the cost in US dollars of the given token usage of a model, or
+ * undefined if its price is not known.
+ */
+export function calculateCost(
+  model: string,
+  tokens: BilledTokens,
+): number | undefined {
+  const pricing = getModelPricing(model);
+  if (!pricing) {
+    return undefined;
+  }
+  const uncached = Math.max(0, tokens.prompt - tokens.cached);
+  return (
+    (uncached * pricing.input +
+      tokens.cached * (pricing.cached ?? pricing.input) +
+      (tokens.candidates + tokens.thoughts) * pricing.output) /
+    1_000_000
+  );
+}
@@ -107,6 +107,86 @@ describe('Turn', () => {
       expect(turn.getDebugResponses().length).toBe(2);
     });
 
+    it('should yield thought events with the subject of a summary', async () => {
+      const mockResponseStream = (async function* () {
+        yield {
+          candidates: [
+            {
+              content: {
+                parts: [
+                  {
+                    text: '**Reading the code** I will look at main.ts.',
+                    thought: true,
+                  },
+                ],
+              },
+            },
+          ],
+        } as unknown as GenerateContentResponse;
+      })();
+      mockSendMessageStream.mockResolvedValue(mockResponseStream);
+
+      const events = [];
+      for await (const event of turn.run(
+        [{ text: 'Hi' }],
+        new AbortController().signal,
+      )) {
+        events.push(event);
+      }
+
+      expect(events).toEqual([
+        {
+          type: GeminiEventType.Thought,
+          value: {
+            subject: 'Reading the code',
+            description: 'I will look at main.ts.',
+          },
+        },
+      ]);
+    });
+
+    it('should take the subject of raw reasoning from its sentences', async () => {
+      const reasoning = [
+        'The user wants',
+        ' a fix. Let me',
+        ' check.\n\nFirst, open',
+        ' the file. Then',
+      ];
+      const mockResponseStream = (async function* () {
+        for (const text of reasoning) {
+          yield {
+            candidates: [{ content: { parts: [{ text, thought: true }] } }],
+          } as unknown as GenerateContentResponse;
+        }
+      })();
+      mockSendMessageStream.mockResolvedValue(mockResponseStream);
+
+      const events = [];
+      for await (const event of turn.run(
+        [{ text: 'Hi' }],
+        new AbortController().signal,
+      )) {
+        events.push(event);
+      }
+
+      expect(events).toEqual([
+        {
+          type: GeminiEventType.Thought,
+          value: {
+            subject: 'The user wants a fix',
+            description: 'The user wants a fix. Let me',
+          },
+        },
+        {
+          type: GeminiEventType.Thought,
+          value: {
+            subject: 'First, open the file',
+            description: 'First, open the file. Then',
+          },
+        },
+      ]);
+    });
+
     it('should yield tool_call_request events for function calls', async () => {
       const mockResponseStream = (async function* () {
         yield {
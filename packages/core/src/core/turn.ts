@@ -176,6 +176,8 @@ export class Turn {
     req: PartListUnion,
     signal: AbortSignal,
   ): AsyncGenerator<ServerGeminiStreamEvent> {
+    let reasoning = '';
+    let reasoningSubject = '';
     try {
       const responseStream = await this.chat.sendMessageStream(
         {
@@ -201,6 +203,16 @@ export class Turn {
           // (e.g., **Subject**). The rest of the string is considered the description.
           const rawText = thoughtPart.text ?? '';
           const subjectStringMatches = rawText.match(/\*\*(.*?)\*\*/s);
+          if (!subjectStringMatches) {
+            // Other providers stream raw reasoning without a subject.
+            reasoning += rawText;
+            const thought = summarizeReasoning(reasoning);
+            if (thought && thought.subject !== reasoningSubject) {
+              reasoningSubject = thought.subject;
+              yield { type: GeminiEventType.Thought, value: thought };
+            }
+            continue;
+          }
           const subject = subjectStringMatches
             ? subjectStringMatches[1].trim()
             : '';
@@ -302,3 +314,31 @@ export class Turn {
     return this.debugResponses;
   }
 }
+
+const MAX_REASONING_SUBJECT_LENGTH = 80;
+
+/**
+ * Summarizes raw reasoning by the opening sentence of the paragraph the
+ * model is working on, once that sentence is complete. Returns undefined
+ * until there is one.
+ */
+function summarizeReasoning(reasoning: string): ThoughtSummary | undefined {
+  const paragraphs = reasoning.split(/\n\s*\n/);
+  for (let i = paragraphs.length - 1; i >= 0; i--) {
+    // Only a finished paragraph ends in a finished sentence.
+    const paragraph =
+      paragraphs[i].trim() + (i < paragraphs.length - 1 ? '\n' : '');
+    const match = paragraph.match(/^(.+?)(?:[.!?:]\s|\n)/s);
+    if (!match) {
+      continue;
+    }
+    let subject = match[1].replace(/[*#`]/g, '').replace(/\s+/g, ' ').trim();
+    if (subject.length > MAX_REASONING_SUBJECT_LENGTH) {
+      subject = subject.slice(0, MAX_REASONING_SUBJECT_LENGTH - 3) + '...';
+    }
+    if (subject) {
+      return { subject, description: paragraph.trim() };
+    }
+  }
+  return undefined;
+}
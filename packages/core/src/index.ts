@@ -10,14 +10,19 @@ export * from './config/config.js';
 // Export Core Logic
 export * from './core/client.js';
 export * from './core/contentGenerator.js';
+export * from './core/llmProvider.js';
 export * from './core/geminiChat.js';
 export * from './core/logger.js';
 export * from './core/prompts.js';
 export * from './core/tokenLimits.js';
+export * from './core/modelCapabilities.js';
+export * from './core/modelPricing.js';
+export * from './core/modelComparison.js';
 export * from './core/turn.js';
 export * from './core/geminiRequest.js';
 export * from './core/coreToolScheduler.js';
 export * from './core/nonInteractiveToolExecutor.js';
+export * from './providers/fixture.js';
 
 export * from './code_assist/codeAssist.js';
 export * from './code_assist/oauth2.js';
@@ -26,6 +31,7 @@ export * from './code_assist/types.js';
 
 // Export utilities
 export * from './utils/paths.js';
+export * from './utils/dailySpend.js';
 export * from './utils/schemaValidator.js';
 export * from './utils/errors.js';
 export * from './utils/getFolderStructure.js';
@@ -39,6 +45,7 @@ export * from './utils/shell-utils.js';
 export * from './utils/systemEncoding.js';
 export * from './utils/textUtils.js';
 export * from './utils/formatters.js';
+export * from './utils/redaction.js';
 
 // Export services
 export * from './services/fileDiscoveryService.js';
@@ -50,6 +57,7 @@ export * from './ide/ideContext.js';
 
 // Export Shell Execution Service
 export * from './services/shellExecutionService.js';
+export * from './services/backgroundProcessService.js';
 
 // Export base tool definitions
 export * from './tools/tools.js';
@@ -64,11 +72,14 @@ export * from './tools/ls.js';
 export * from './tools/grep.js';
 export * from './tools/glob.js';
 export * from './tools/edit.js';
+export * from './tools/apply-patch.js';
 export * from './tools/write-file.js';
 export * from './tools/web-fetch.js';
 export * from './tools/memoryTool.js';
 export * from './tools/shell.js';
+export * from './tools/process.js';
 export * from './tools/web-search.js';
+export * from './tools/web-search-backends.js';
 export * from './tools/read-many-files.js';
 export * from './tools/mcp-client.js';
 export * from './tools/mcp-tool.js';
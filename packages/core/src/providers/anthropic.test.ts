@@ -0,0 +1,586 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  FinishReason,
+  FunctionCallingConfigMode,
+  GenerateContentResponse,
+  Type,
+} from '@google/genai';
+import { AnthropicProvider, ANTHROPIC_VERSION } from './anthropic.js';
+import { UnsupportedContentError } from '../utils/errors.js';
+
+const mockFetch = vi.fn();
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function eventStreamResponse(
+  events: Array<{ type: string; [key: string]: unknown }>,
+): Response {
+  const body = events
+    .map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+    .join('');
+  return new Response(body, {
+    status: 200,
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+}
+
+function lastRequest(): { url: string; init: RequestInit } {
+  const [url, init] = mockFetch.mock.calls[mockFetch.mock.calls.length - 1];
+  return { url, init };
+}
+
+function lastRequestBody(): Record<string, unknown> {
+  return JSON.parse(lastRequest().init.body as string);
+}
+
+async function collect(
+  stream: AsyncGenerator<GenerateContentResponse>,
+): Promise<GenerateContentResponse[]> {
+  const chunks: GenerateContentResponse[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('AnthropicProvider', () => {
+  let provider: AnthropicProvider;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubGlobal('fetch', mockFetch);
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async () =>
+      jsonResponse({
+        content: [{ type: 'text', text: 'ok' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 10, output_tokens: 2 },
+      }),
+    );
+    provider = new AnthropicProvider({
+      apiUrl: 'https://api.anthropic.com',
+      apiKey: 'test-key',
+      model: 'claude-test',
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should post to the messages endpoint with Anthropic headers', async () => {
+    const response = await provider.generateContent({
+      model: 'claude-test',
+      contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+      config: { systemInstruction: 'Be brief.', temperature: 0.2 },
+    });
+
+    const { url, init } = lastRequest();
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect(init.headers).toMatchObject({
+      'x-api-key': 'test-key',
+      'anthropic-version': ANTHROPIC_VERSION,
+    });
+    expect(lastRequestBody()).toEqual({
+      model: 'claude-test',
+      system: 'Be brief.',
+      messages: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+      max_tokens: 8192,
+      temperature: 0.2,
+    });
+    expect(response.text).toBe('ok');
+    expect(response.candidates?.[0]?.finishReason).toBe(FinishReason.STOP);
+    expect(response.usageMetadata).toEqual({
+      promptTokenCount: 10,
+      candidatesTokenCount: 2,
+      totalTokenCount: 12,
+    });
+  });
+
+  it('should send tools and pair tool results with tool use ids', async () => {
+    await provider.generateContent({
+      model: 'claude-test',
+      contents: [
+        { role: 'user', parts: [{ text: 'List files' }] },
+        {
+          role: 'model',
+          parts: [
+            { text: 'Looking.' },
+            {
+              functionCall: { id: 'toolu_1', name: 'ls', args: { path: '.' } },
+            },
+          ],
+        },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                id: 'toolu_1',
+                name: 'ls',
+                response: { error: 'permission denied' },
+              },
+            },
+          ],
+        },
+        { role: 'user', parts: [{ text: 'Try again' }] },
+      ],
+      config: {
+        tools: [
+          {
+            functionDeclarations: [
+              {
+                name: 'ls',
+                description: 'Lists files',
+                parameters: {
+                  type: Type.OBJECT,
+                  properties: { path: { type: Type.STRING } },
+                  required: ['path'],
+                },
+              },
+            ],
+          },
+        ],
+        toolConfig: {
+          functionCallingConfig: {
+            mode: FunctionCallingConfigMode.ANY,
+            allowedFunctionNames: ['ls'],
+          },
+        },
+      },
+    });
+
+    const body = lastRequestBody();
+    expect(body.tools).toEqual([
+      {
+        name: 'ls',
+        description: 'Lists files',
+        input_schema: {
+          type: 'object',
+          properties: { path: { type: 'string' } },
+          required: ['path'],
+        },
+      },
+    ]);
+    expect(body.tool_choice).toEqual({ type: 'tool', name: 'ls' });
+    expect(body.messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'List files' }] },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Looking.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'ls', input: { path: '.' } },
+        ],
+      },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: 'toolu_1',
+            content: '{"error":"permission denied"}',
+            is_error: true,
+          },
+          { type: 'text', text: 'Try again' },
+        ],
+      },
+    ]);
+  });
+
+  it('should send images and PDFs and reject unsupported media', async () => {
+    await provider.generateContent({
+      model: 'claude-test',
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            { inlineData: { mimeType: 'image/png', data: 'aW1n' } },
+            { inlineData: { mimeType: 'application/pdf', data: 'cGRm' } },
+          ],
+        },
+      ],
+    });
+
+    expect(lastRequestBody().messages).toEqual([
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'image',
+            source: { type: 'base64', media_type: 'image/png', data: 'aW1n' },
+          },
+          {
+            type: 'document',
+            source: {
+              type: 'base64',
+              media_type: 'application/pdf',
+              data: 'cGRm',
+            },
+          },
+        ],
+      },
+    ]);
+
+    await expect(
+      provider.generateContent({
+        model: 'claude-test',
+        contents: [
+          {
+            role: 'user',
+            parts: [{ inlineData: { mimeType: 'audio/mpeg', data: 'AAAA' } }],
+          },
+        ],
+      }),
+    ).rejects.toThrow(UnsupportedContentError);
+  });
+
+  it('should enable thinking and replay thinking blocks before tool use', async () => {
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
+        content: [
+          { type: 'thinking', thinking: 'Need files.', signature: 'sig' },
+          { type: 'tool_use', id: 'toolu_2', name: 'ls', input: {} },
+        ],
+        stop_reason: 'tool_use',
+      }),
+    );
+
+    const response = await provider.generateContent({
+      model: 'claude-test',
+      contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+      config: {
+        temperature: 0.5,
+        thinkingConfig: { includeThoughts: true, thinkingBudget: 2048 },
+      },
+    });
+
+    const body = lastRequestBody();
+    expect(body.thinking).toEqual({ type: 'enabled', budget_tokens: 2048 });
+    expect(body.temperature).toBeUndefined();
+
+    const parts = response.candidates?.[0]?.content?.parts ?? [];
+    expect(parts[0]).toEqual({ text: 'Need files.', thought: true });
+    expect(parts[1].functionCall).toEqual({
+      id: 'toolu_2',
+      name: 'ls',
+      args: {},
+    });
+
+    await provider.generateContent({
+      model: 'claude-test',
+      contents: [
+        { role: 'user', parts: [{ text: 'Hi' }] },
+        { role: 'model', parts },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                id: 'toolu_2',
+                name: 'ls',
+                response: { output: 'a.txt' },
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect((lastRequestBody().messages as unknown[])[1]).toEqual({
+      role: 'assistant',
+      content: [
+        { type: 'thinking', thinking: 'Need files.', signature: 'sig' },
+        { type: 'tool_use', id: 'toolu_2', name: 'ls', input: {} },
+      ],
+    });
+  });
+
+  it('should force a tool call to return JSON', async () => {
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
+        content: [
+          {
+            type: 'tool_use',
+            id: 'toolu_1',
+            name: 'json_response',
+            input: { next_speaker: 'user' },
+          },
+        ],
+        stop_reason: 'tool_use',
+      }),
+    );
+
+    const response = await provider.generateContent({
+      model: 'claude-test',
+      contents: [{ role: 'user', parts: [{ text: 'Who speaks next?' }] }],
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: { next_speaker: { type: Type.STRING } },
+        },
+        thinkingConfig: { includeThoughts: true },
+      },
+    });
+
+    const body = lastRequestBody();
+    expect(body.tools).toEqual([
+      {
+        name: 'json_response',
+        description: 'Returns the response as JSON.',
+        input_schema: {
+          type: 'object',
+          properties: { next_speaker: { type: 'string' } },
+        },
+      },
+    ]);
+    expect(body.tool_choice).toEqual({ type: 'tool', name: 'json_response' });
+    expect(body.thinking).toBeUndefined();
+    expect(response.text).toBe('{"next_speaker":"user"}');
+  });
+
+  it('should respect the limits of the configured model', async () => {
+    provider = new AnthropicProvider({
+      apiUrl: 'https://api.anthropic.com',
+      apiKey: 'test-key',
+      model: 'claude-3-5-haiku-latest',
+    });
+
+    await provider.generateContent({
+      model: 'claude-3-5-haiku-latest',
+      contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+      config: {
+        maxOutputTokens: 100_000,
+        thinkingConfig: { includeThoughts: true },
+      },
+    });
+
+    const body = lastRequestBody();
+    expect(body.thinking).toBeUndefined();
+    expect(body.max_tokens).toBe(8_192);
+  });
+  it('should mark the system prompt and latest user turns for caching', async () => {
+    provider = new AnthropicProvider({
+      apiUrl: 'https://api.anthropic.com',
+      model: 'claude-test',
+      promptCaching: true,
+    });
+    mockFetch.mockImplementation(async () =>
+      jsonResponse({
+        content: [{ type: 'text', text: 'ok' }],
+        stop_reason: 'end_turn',
+        usage: {
+          input_tokens: 5,
+          cache_creation_input_tokens: 20,
+          cache_read_input_tokens: 1000,
+          output_tokens: 2,
+        },
+      }),
+    );
+
+    const response = await provider.generateContent({
+      model: 'claude-test',
+      contents: [
+        { role: 'user', parts: [{ text: 'First' }] },
+        { role: 'model', parts: [{ text: 'One' }] },
+        { role: 'user', parts: [{ text: 'Second' }] },
+        { role: 'model', parts: [{ text: 'Two' }] },
+        { role: 'user', parts: [{ text: 'Third' }] },
+      ],
+      config: { systemInstruction: 'Be brief.' },
+    });
+
+    const body = lastRequestBody();
+    expect(body.system).toEqual([
+      {
+        type: 'text',
+        text: 'Be brief.',
+        cache_control: { type: 'ephemeral' },
+      },
+    ]);
+    expect(
+      (body.messages as Array<{ content: Array<Record<string, unknown>> }>).map(
+        (message) => message.content[0].cache_control,
+      ),
+    ).toEqual([
+      undefined,
+      undefined,
+      { type: 'ephemeral' },
+      undefined,
+      { type: 'ephemeral' },
+    ]);
+    expect(response.usageMetadata).toEqual({
+      promptTokenCount: 1025,
+      candidatesTokenCount: 2,
+      cachedContentTokenCount: 1000,
+      totalTokenCount: 1027,
+    });
+  });
+
+  it('should use an explicit messages URL as-is', async () => {
+    provider = new AnthropicProvider({
+      apiUrl: 'https://proxy.example.com/anthropic/v1/messages',
+      model: 'claude-test',
+    });
+
+    await provider.generateContent({
+      model: 'claude-test',
+      contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+    });
+
+    expect(lastRequest().url).toBe(
+      'https://proxy.example.com/anthropic/v1/messages',
+    );
+  });
+
+  it('should list models from the models endpoint', async () => {
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
+        data: [
+          { id: 'claude-a', display_name: 'Claude A' },
+          { id: 'claude-b' },
+        ],
+      }),
+    );
+
+    await expect(provider.listModels()).resolves.toEqual([
+      { name: 'claude-a' },
+      { name: 'claude-b' },
+    ]);
+    const { url, init } = lastRequest();
+    expect(url).toBe('https://api.anthropic.com/v1/models');
+    expect(init.method).toBe('GET');
+    expect(init.headers).toMatchObject({ 'x-api-key': 'test-key' });
+  });
+
+  describe('generateContentStream', () => {
+    it('should yield text, thoughts, tool calls and usage', async () => {
+      mockFetch.mockResolvedValueOnce(
+        eventStreamResponse([
+          {
+            type: 'message_start',
+            message: { usage: { input_tokens: 7, output_tokens: 1 } },
+          },
+          {
+            type: 'content_block_start',
+            index: 0,
+            content_block: { type: 'thinking', thinking: '', signature: '' },
+          },
+          {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'thinking_delta', thinking: 'Hmm.' },
+          },
+          {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'signature_delta', signature: 'sig' },
+          },
+          { type: 'content_block_stop', index: 0 },
+          {
+            type: 'content_block_start',
+            index: 1,
+            content_block: { type: 'text', text: '' },
+          },
+          {
+            type: 'content_block_delta',
+            index: 1,
+            delta: { type: 'text_delta', text: 'Hel' },
+          },
+          {
+            type: 'content_block_delta',
+            index: 1,
+            delta: { type: 'text_delta', text: 'lo' },
+          },
+          { type: 'content_block_stop', index: 1 },
+          {
+            type: 'content_block_start',
+            index: 2,
+            content_block: {
+              type: 'tool_use',
+              id: 'toolu_3',
+              name: 'ls',
+              input: {},
+            },
+          },
+          {
+            type: 'content_block_delta',
+            index: 2,
+            delta: { type: 'input_json_delta', partial_json: '{"path":' },
+          },
+          {
+            type: 'content_block_delta',
+            index: 2,
+            delta: { type: 'input_json_delta', partial_json: '"."}' },
+          },
+          { type: 'content_block_stop', index: 2 },
+          {
+            type: 'message_delta',
+            delta: { stop_reason: 'tool_use' },
+            usage: { output_tokens: 12 },
+          },
+          { type: 'message_stop' },
+        ]),
+      );
+
+      const chunks = await collect(
+        await provider.generateContentStream({
+          model: 'claude-test',
+          contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+        }),
+      );
+
+      expect(lastRequestBody().stream).toBe(true);
+      const parts = chunks.flatMap(
+        (chunk) => chunk.candidates?.[0]?.content?.parts ?? [],
+      );
+      expect(parts[0]).toEqual({ text: 'Hmm.', thought: true });
+      expect(parts[1]).toEqual({ text: 'Hel' });
+      expect(parts[2]).toEqual({ text: 'lo' });
+      expect(parts[3].functionCall).toEqual({
+        id: 'toolu_3',
+        name: 'ls',
+        args: { path: '.' },
+      });
+      expect(parts[3].thoughtSignature).toBeDefined();
+
+      const last = chunks[chunks.length - 1];
+      expect(last.candidates?.[0]?.finishReason).toBe(FinishReason.STOP);
+      expect(last.usageMetadata).toEqual({
+        promptTokenCount: 7,
+        candidatesTokenCount: 12,
+        totalTokenCount: 19,
+      });
+    });
+
+    it('should throw on an error event', async () => {
+      mockFetch.mockResolvedValueOnce(
+        eventStreamResponse([
+          {
+            type: 'error',
+            error: { type: 'overloaded_error', message: 'Overloaded' },
+          },
+        ]),
+      );
+
+      const stream = await provider.generateContentStream({
+        model: 'claude-test',
+        contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+      });
+
+      await expect(collect(stream)).rejects.toThrow(/Overloaded/);
+    });
+  });
+});
@@ -0,0 +1,772 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  ContentListUnion,
+  ContentUnion,
+  FinishReason,
+  FunctionCallingConfigMode,
+  GenerateContentConfig,
+  GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
+  GenerateContentParameters,
+  CountTokensResponse,
+  CountTokensParameters,
+  EmbedContentResponse,
+  EmbedContentParameters,
+  Part,
+} from '@google/genai';
+import {
+  LLMModelInfo,
+  LLMProvider,
+  LLMProviderConfig,
+} from '../core/llmProvider.js';
+import { getModelCapabilities } from '../core/modelCapabilities.js';
+import { UnsupportedContentError } from '../utils/errors.js';
+import { parseServerSentEvents } from '../utils/sse.js';
+import {
+  JSON_RESPONSE_TOOL,
+  UnansweredToolCall,
+  canForceJsonToolCall,
+  contentToText,
+  functionResponseToString,
+  getFunctionDeclarations,
+  getJsonResponseInstruction,
+  getParametersJsonSchema,
+  getResponseJsonSchema,
+  jsonToolCallToText,
+  omitImages,
+  parseToolArguments,
+  takeToolCallId,
+  toContent,
+  toContents,
+} from './converter.js';
+import { AuthorizedRequest, withAuthorization } from './auth.js';
+import { TokenCounter } from './tokenizer.js';
+import { HttpOptions, getJson, postJson, readJsonResponse } from './http.js';
+
+export const ANTHROPIC_VERSION = '2023-06-01';
+
+const DEFAULT_MAX_TOKENS = 8192;
+const DEFAULT_THINKING_BUDGET = 4096;
+
+const SUPPORTED_IMAGE_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+];
+
+type AnthropicThinkingBlock =
+  | { type: 'thinking'; thinking: string; signature: string }
+  | { type: 'redacted_thinking'; data: string };
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | {
+      type: 'image' | 'document';
+      source: { type: 'base64'; media_type: string; data: string };
+    }
+  | {
+      type: 'tool_use';
+      id: string;
+      name: string;
+      input: Record<string, unknown>;
+    }
+  | {
+      type: 'tool_result';
+      tool_use_id: string;
+      content: string;
+      is_error?: boolean;
+    }
+  | AnthropicThinkingBlock;
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
+const EPHEMERAL_CACHE = { type: 'ephemeral' } as const;
+
+type CacheableBlock = AnthropicContentBlock & {
+  cache_control?: typeof EPHEMERAL_CACHE;
+};
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+interface AnthropicResponse {
+  content?: AnthropicContentBlock[];
+  stop_reason?: string | null;
+  usage?: AnthropicUsage;
+}
+
+interface AnthropicModelList {
+  data?: Array<{ id: string }>;
+}
+
+type AnthropicStreamEvent =
+  | { type: 'message_start'; message: { usage?: AnthropicUsage } }
+  | {
+      type: 'content_block_start';
+      index: number;
+      content_block: AnthropicContentBlock;
+    }
+  | {
+      type: 'content_block_delta';
+      index: number;
+      delta:
+        | { type: 'text_delta'; text: string }
+        | { type: 'input_json_delta'; partial_json: string }
+        | { type: 'thinking_delta'; thinking: string }
+        | { type: 'signature_delta'; signature: string };
+    }
+  | { type: 'content_block_stop'; index: number }
+  | {
+      type: 'message_delta';
+      delta: { stop_reason?: string | null };
+      usage?: AnthropicUsage;
+    }
+  | { type: 'message_stop' }
+  | { type: 'ping' }
+  | { type: 'error'; error: { type?: string; message?: string } };
+
+/**
+ * A provider that speaks the Anthropic Messages API (`/v1/messages`).
+ *
+ * Thinking blocks are surfaced as `thought` parts. Because the API requires
+ * the thinking that preceded a tool call to be sent back with it, those
+ * blocks are also serialized into the `thoughtSignature` of the first
+ * `functionCall` part so they survive in the chat history.
+ */
+export class AnthropicProvider implements LLMProvider {
+  private readonly tokenCounter: TokenCounter;
+
+  constructor(private readonly config: LLMProviderConfig) {
+    this.tokenCounter = new TokenCounter(config.tokenizer);
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+  ): Promise<GenerateContentResponse> {
+    const response = await this.sendRequest(
+      this.prepareRequest(request),
+      request.config?.abortSignal,
+    );
+    const message = await readJsonResponse<AnthropicResponse>(
+      response,
+      this.httpOptions(),
+    );
+    const result = jsonToolCallToText(this.parseResponse(message));
+    await this.calibrate(request, result);
+    return result;
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const response = await this.sendRequest(
+      { ...this.prepareRequest(request), stream: true },
+      request.config?.abortSignal,
+    );
+    if (!response.body) {
+      throw new Error('API returned an empty streaming response.');
+    }
+    return this.tokenCounter.calibrateFromStream(
+      request.model,
+      request.contents,
+      request.config,
+      this.parseStream(response.body),
+    );
+  }
+
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
+    return {
+      totalTokens: await this.tokenCounter.countTokens(
+        request.model,
+        request.contents,
+      ),
+    };
+  }
+
+  async embedContent(
+    _request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    throw new Error(
+      'Anthropic has no embeddings API. Set "embeddingProvider" to a provider that has one.',
+    );
+  }
+
+  getProviderName(): string {
+    return 'Anthropic';
+  }
+
+  /**
+   * Lists the models available to the configured API key.
+   */
+  async listModels(): Promise<LLMModelInfo[]> {
+    const response = await this.withAuthorization(
+      this.getMessagesUrl().replace(/\/messages$/, '/models'),
+      (authorized) =>
+        getJson(authorized.url, authorized.headers, this.httpOptions()),
+    );
+    const models = await readJsonResponse<AnthropicModelList>(
+      response,
+      this.httpOptions(),
+    );
+    return (models.data ?? []).map((model) => ({ name: model.id }));
+  }
+
+  private getMessagesUrl(): string {
+    const url = this.config.apiUrl.replace(/\/+$/, '');
+    return url.endsWith('/messages') ? url : `${url}/v1/messages`;
+  }
+
+  private async sendRequest(
+    body: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    return this.withAuthorization(this.getMessagesUrl(), (authorized) =>
+      postJson(
+        authorized.url,
+        authorized.headers,
+        body,
+        this.httpOptions(signal),
+      ),
+    );
+  }
+
+  private calibrate(
+    request: GenerateContentParameters,
+    response: GenerateContentResponse,
+  ): Promise<void> {
+    return this.tokenCounter.calibrate(
+      request.model,
+      request.contents,
+      request.config,
+      response.usageMetadata?.promptTokenCount,
+    );
+  }
+
+  private httpOptions(signal?: AbortSignal): HttpOptions {
+    return {
+      signal,
+      debugMode: this.config.debugMode,
+      timeoutMs:
+        this.config.timeoutSeconds !== undefined
+          ? this.config.timeoutSeconds * 1000
+          : undefined,
+    };
+  }
+
+  private withAuthorization(
+    url: string,
+    send: (authorized: AuthorizedRequest) => Promise<Response>,
+  ): Promise<Response> {
+    return withAuthorization(
+      url,
+      { ...this.config.headers, 'anthropic-version': ANTHROPIC_VERSION },
+      this.config.apiKey,
+      this.config.authScheme ?? { type: 'header', name: 'x-api-key' },
+      send,
+    );
+  }
+
+  private prepareRequest(
+    request: GenerateContentParameters,
+  ): Record<string, unknown> {
+    const config: GenerateContentConfig = request.config ?? {};
+    const capabilities = getModelCapabilities(this.config.model);
+    const messages = this.convertContentsToMessages(
+      capabilities.supportsVision
+        ? request.contents
+        : omitImages(request.contents, this.config.model),
+    );
+    if (this.config.promptCaching) {
+      addCacheBreakpoints(messages);
+    }
+    const body: Record<string, unknown> = {
+      model: this.config.model,
+      messages,
+    };
+
+    // Anthropic has no structured output mode, so JSON is requested by
+    // forcing a tool call, or failing that in the system prompt.
+    const responseSchema = getResponseJsonSchema(config);
+    const forceJsonTool =
+      responseSchema !== undefined &&
+      capabilities.supportsTools &&
+      canForceJsonToolCall(responseSchema);
+    const system = [
+      this.convertSystemInstruction(config.systemInstruction),
+      responseSchema && !forceJsonTool
+        ? getJsonResponseInstruction(responseSchema)
+        : undefined,
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+    if (system) {
+      // Tools come before the system prompt, so this caches both.
+      body.system = this.config.promptCaching
+        ? [{ type: 'text', text: system, cache_control: EPHEMERAL_CACHE }]
+        : system;
+    }
+
+    const outputLimit = capabilities.maxOutputTokens ?? Infinity;
+    // Thinking cannot be combined with a forced tool call.
+    const thinkingBudget =
+      capabilities.supportsReasoning && !forceJsonTool
+        ? getThinkingBudget(config)
+        : undefined;
+    let maxTokens = Math.min(
+      config.maxOutputTokens ?? DEFAULT_MAX_TOKENS,
+      outputLimit,
+    );
+    if (thinkingBudget) {
+      // The budget counts towards max_tokens and must be smaller than it.
+      if (maxTokens <= thinkingBudget) {
+        maxTokens = Math.min(thinkingBudget + DEFAULT_MAX_TOKENS, outputLimit);
+      }
+      body.thinking = {
+        type: 'enabled',
+        budget_tokens: Math.min(thinkingBudget, maxTokens - 1),
+      };
+    } else {
+      // Sampling parameters cannot be changed while thinking is enabled.
+      if (config.temperature !== undefined) {
+        body.temperature = config.temperature;
+      }
+      if (config.topP !== undefined) {
+        body.top_p = config.topP;
+      }
+      if (config.topK !== undefined) {
+        body.top_k = config.topK;
+      }
+    }
+    body.max_tokens = maxTokens;
+    if (config.stopSequences !== undefined) {
+      body.stop_sequences = config.stopSequences;
+    }
+
+    if (forceJsonTool) {
+      body.tools = [
+        {
+          name: JSON_RESPONSE_TOOL,
+          description: 'Returns the response as JSON.',
+          input_schema: responseSchema,
+        },
+      ];
+      body.tool_choice = { type: 'tool', name: JSON_RESPONSE_TOOL };
+      return body;
+    }
+
+    const declarations = capabilities.supportsTools
+      ? getFunctionDeclarations(config.tools)
+      : [];
+    const tools = declarations.map((declaration) => ({
+      name: declaration.name ?? '',
+      description: declaration.description,
+      input_schema: getParametersJsonSchema(declaration),
+    }));
+    if (tools.length > 0) {
+      body.tools = tools;
+      const functionCallingConfig = config.toolConfig?.functionCallingConfig;
+      switch (functionCallingConfig?.mode) {
+        case FunctionCallingConfigMode.NONE:
+          body.tool_choice = { type: 'none' };
+          break;
+        case FunctionCallingConfigMode.ANY: {
+          const allowed = functionCallingConfig.allowedFunctionNames ?? [];
+          body.tool_choice =
+            allowed.length === 1
+              ? { type: 'tool', name: allowed[0] }
+              : { type: 'any' };
+          break;
+        }
+        default:
+          break;
+      }
+    }
+
+    return body;
+  }
+
+  private convertSystemInstruction(
+    systemInstruction: ContentUnion | undefined,
+  ): string | undefined {
+    if (!systemInstruction) {
+      return undefined;
+    }
+    return contentToText(toContent(systemInstruction)) || undefined;
+  }
+
+  /**
+   * Converts Gemini-style contents to Anthropic messages. Consecutive
+   * contents with the same role are merged because the API requires
+   * alternating roles.
+   */
+  private convertContentsToMessages(
+    contents: ContentListUnion,
+  ): AnthropicMessage[] {
+    const messages: AnthropicMessage[] = [];
+    const unansweredCalls: UnansweredToolCall[] = [];
+    let generatedIdCount = 0;
+
+    for (const content of toContents(contents)) {
+      const parts = content.parts ?? [];
+      let blocks: AnthropicContentBlock[];
+      let role: AnthropicMessage['role'];
+
+      if (content.role === 'model') {
+        role = 'assistant';
+        const thinkingBlocks: AnthropicContentBlock[] = [];
+        const otherBlocks: AnthropicContentBlock[] = [];
+        for (const part of parts) {
+          if (part.thought) {
+            continue;
+          }
+          if (part.functionCall) {
+            const id = part.functionCall.id ?? `toolu_${generatedIdCount++}`;
+            const name = part.functionCall.name ?? '';
+            unansweredCalls.push({ id, name });
+            thinkingBlocks.push(...decodeThinking(part.thoughtSignature));
+            otherBlocks.push({
+              type: 'tool_use',
+              id,
+              name,
+              input: part.functionCall.args ?? {},
+            });
+          } else if (part.text) {
+            otherBlocks.push({ type: 'text', text: part.text });
+          }
+        }
+        // Thinking blocks must open the assistant message.
+        blocks = [...thinkingBlocks, ...otherBlocks];
+      } else {
+        role = 'user';
+        const toolResults: AnthropicContentBlock[] = [];
+        const otherBlocks: AnthropicContentBlock[] = [];
+        for (const part of parts) {
+          if (part.functionResponse) {
+            const response = part.functionResponse.response ?? {};
+            toolResults.push({
+              type: 'tool_result',
+              tool_use_id: takeToolCallId(
+                unansweredCalls,
+                part.functionResponse,
+              ),
+              content: functionResponseToString(part.functionResponse),
+              ...('error' in response ? { is_error: true } : {}),
+            });
+          } else {
+            const block = this.convertPartToBlock(part);
+            if (block) {
+              otherBlocks.push(block);
+            }
+          }
+        }
+        // Tool results must come before any other user content.
+        blocks = [...toolResults, ...otherBlocks];
+      }
+
+      if (blocks.length === 0) {
+        continue;
+      }
+      const previous = messages[messages.length - 1];
+      if (previous?.role === role) {
+        previous.content.push(...blocks);
+      } else {
+        messages.push({ role, content: blocks });
+      }
+    }
+
+    return messages;
+  }
+
+  private convertPartToBlock(part: Part): AnthropicContentBlock | undefined {
+    if (part.text) {
+      return { type: 'text', text: part.text };
+    }
+    const mimeType = part.inlineData?.mimeType ?? part.fileData?.mimeType;
+    if (part.inlineData) {
+      const resolvedMimeType = mimeType ?? 'application/octet-stream';
+      const data = part.inlineData.data ?? '';
+      if (SUPPORTED_IMAGE_MIME_TYPES.includes(resolvedMimeType)) {
+        return {
+          type: 'image',
+          source: { type: 'base64', media_type: resolvedMimeType, data },
+        };
+      }
+      if (resolvedMimeType === 'application/pdf') {
+        return {
+          type: 'document',
+          source: { type: 'base64', media_type: resolvedMimeType, data },
+        };
+      }
+      if (resolvedMimeType.startsWith('text/')) {
+        return {
+          type: 'text',
+          text: Buffer.from(data, 'base64').toString('utf-8'),
+        };
+      }
+    }
+    if (mimeType || part.fileData) {
+      throw new UnsupportedContentError(
+        this.getProviderName(),
+        mimeType ?? 'application/octet-stream',
+      );
+    }
+    return undefined;
+  }
+
+  private parseResponse(message: AnthropicResponse): GenerateContentResponse {
+    const parts: Part[] = [];
+    let pendingThinking: AnthropicThinkingBlock[] = [];
+    for (const block of message.content ?? []) {
+      switch (block.type) {
+        case 'text':
+          parts.push({ text: block.text });
+          break;
+        case 'thinking':
+          parts.push({ text: block.thinking, thought: true });
+          pendingThinking.push(block);
+          break;
+        case 'redacted_thinking':
+          pendingThinking.push(block);
+          break;
+        case 'tool_use':
+          parts.push(toFunctionCallPart(block, pendingThinking));
+          pendingThinking = [];
+          break;
+        default:
+          break;
+      }
+    }
+    if (parts.length === 0) {
+      parts.push({ text: '' });
+    }
+
+    const response = new GenerateContentResponse();
+    response.candidates = [
+      {
+        content: { role: 'model', parts },
+        finishReason: toFinishReason(message.stop_reason),
+      },
+    ];
+    if (message.usage) {
+      response.usageMetadata = toUsageMetadata(message.usage);
+    }
+    return response;
+  }
+
+  /**
+   * Converts the Messages API event stream into incremental responses. Text
+   * is yielded as it arrives; thinking and tool use blocks are yielded whole
+   * when their `content_block_stop` event arrives.
+   */
+  private async *parseStream(
+    body: ReadableStream<Uint8Array>,
+  ): AsyncGenerator<GenerateContentResponse> {
+    const blocks = new Map<number, AnthropicContentBlock>();
+    const toolInputs = new Map<number, string>();
+    let pendingThinking: AnthropicThinkingBlock[] = [];
+    const usage: AnthropicUsage = {};
+
+    const toResponse = (
+      parts: Part[],
+      finishReason?: FinishReason,
+    ): GenerateContentResponse => {
+      const response = new GenerateContentResponse();
+      response.candidates = [
+        { content: { role: 'model', parts }, finishReason },
+      ];
+      return response;
+    };
+
+    for await (const sse of parseServerSentEvents(body)) {
+      let event: AnthropicStreamEvent;
+      try {
+        event = JSON.parse(sse.data) as AnthropicStreamEvent;
+      } catch (error) {
+        throw new Error(
+          `Failed to parse stream event: ${(error as Error).message}. Event: ${sse.data.substring(0, 200)}`,
+        );
+      }
+
+      switch (event.type) {
+        case 'message_start':
+          Object.assign(usage, event.message.usage);
+          break;
+        case 'content_block_start':
+          blocks.set(event.index, { ...event.content_block });
+          if (event.content_block.type === 'text' && event.content_block.text) {
+            yield toResponse([{ text: event.content_block.text }]);
+          }
+          break;
+        case 'content_block_delta': {
+          const block = blocks.get(event.index);
+          const delta = event.delta;
+          if (delta.type === 'text_delta') {
+            yield toResponse([{ text: delta.text }]);
+          } else if (delta.type === 'input_json_delta') {
+            toolInputs.set(
+              event.index,
+              (toolInputs.get(event.index) ?? '') + delta.partial_json,
+            );
+          } else if (block?.type === 'thinking') {
+            if (delta.type === 'thinking_delta') {
+              block.thinking += delta.thinking;
+            } else if (delta.type === 'signature_delta') {
+              block.signature = (block.signature ?? '') + delta.signature;
+            }
+          }
+          break;
+        }
+        case 'content_block_stop': {
+          const block = blocks.get(event.index);
+          if (block?.type === 'thinking') {
+            pendingThinking.push(block);
+            yield toResponse([{ text: block.thinking, thought: true }]);
+          } else if (block?.type === 'redacted_thinking') {
+            pendingThinking.push(block);
+          } else if (block?.type === 'tool_use') {
+            const json = toolInputs.get(event.index);
+            const input = json ? parseToolArguments(json) : block.input;
+            yield toResponse([
+              toFunctionCallPart({ ...block, input }, pendingThinking),
+            ]);
+            pendingThinking = [];
+          }
+          break;
+        }
+        case 'message_delta': {
+          Object.assign(usage, event.usage);
+          const response = toResponse(
+            [],
+            toFinishReason(event.delta.stop_reason),
+          );
+          response.usageMetadata = toUsageMetadata(usage);
+          yield response;
+          break;
+        }
+        case 'error':
+          throw new Error(
+            `API stream returned an error: ${event.error.message ?? JSON.stringify(event.error)}`,
+          );
+        default:
+          break;
+      }
+    }
+  }
+}
+
+function getThinkingBudget(config: GenerateContentConfig): number | undefined {
+  const thinkingConfig = config.thinkingConfig;
+  if (!thinkingConfig) {
+    return undefined;
+  }
+  const budget = thinkingConfig.thinkingBudget;
+  if (budget === 0) {
+    return undefined;
+  }
+  if (budget !== undefined && budget > 0) {
+    return budget;
+  }
+  // A budget of -1 asks for dynamic thinking; use a fixed default instead.
+  return thinkingConfig.includeThoughts || budget === -1
+    ? DEFAULT_THINKING_BUDGET
+    : undefined;
+}
+
+function toFunctionCallPart(
+  block: Extract<AnthropicContentBlock, { type: 'tool_use' }>,
+  thinking: AnthropicThinkingBlock[],
+): Part {
+  const part: Part = {
+    functionCall: { id: block.id, name: block.name, args: block.input },
+  };
+  if (thinking.length > 0) {
+    part.thoughtSignature = encodeThinking(thinking);
+  }
+  return part;
+}
+
+const THINKING_SIGNATURE_PREFIX = 'anthropic-thinking:';
+
+function encodeThinking(blocks: AnthropicThinkingBlock[]): string {
+  return THINKING_SIGNATURE_PREFIX + JSON.stringify(blocks);
+}
+
+function decodeThinking(
+  signature: string | undefined,
+): AnthropicThinkingBlock[] {
+  if (!signature?.startsWith(THINKING_SIGNATURE_PREFIX)) {
+    return [];
+  }
+  try {
+    return JSON.parse(
+      signature.slice(THINKING_SIGNATURE_PREFIX.length),
+    ) as AnthropicThinkingBlock[];
+  } catch (_e) {
+    return [];
+  }
+}
+
+/**
+ * Marks the ends of the last two user messages as cache breakpoints. The
+ * last one caches the conversation so far for the next request, which reads
+ * it back through the one before.
+ */
+function addCacheBreakpoints(messages: AnthropicMessage[]): void {
+  const userMessages = messages.filter(
+    (message) => message.role === 'user' && message.content.length > 0,
+  );
+  for (const message of userMessages.slice(-2)) {
+    const lastBlock: CacheableBlock =
+      message.content[message.content.length - 1];
+    lastBlock.cache_control = EPHEMERAL_CACHE;
+  }
+}
+
+function toUsageMetadata(
+  usage: AnthropicUsage,
+): GenerateContentResponseUsageMetadata {
+  const promptTokenCount =
+    (usage.input_tokens ?? 0) +
+    (usage.cache_creation_input_tokens ?? 0) +
+    (usage.cache_read_input_tokens ?? 0);
+  const candidatesTokenCount = usage.output_tokens ?? 0;
+  return {
+    promptTokenCount,
+    candidatesTokenCount,
+    cachedContentTokenCount: usage.cache_read_input_tokens || undefined,
+    totalTokenCount: promptTokenCount + candidatesTokenCount,
+  };
+}
+
+function toFinishReason(
+  stopReason: string | null | undefined,
+): FinishReason | undefined {
+  switch (stopReason) {
+    case 'end_turn':
+    case 'tool_use':
+    case 'stop_sequence':
+    case 'pause_turn':
+      return FinishReason.STOP;
+    case 'max_tokens':
+      return FinishReason.MAX_TOKENS;
+    case 'refusal':
+      return FinishReason.SAFETY;
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  authorizeRequest,
+  clearAuthTokenCache,
+  withAuthorization,
+} from './auth.js';
+import { ProviderHttpError } from './http.js';
+
+const URL = 'https://api.example.com/v1/chat/completions';
+
+describe('authorizeRequest', () => {
+  it('should apply the string shorthands', async () => {
+    await expect(
+      authorizeRequest(URL, { 'X-Team': 'cli' }, 'k', 'bearer'),
+    ).resolves.toEqual({
+      url: URL,
+      headers: { 'X-Team': 'cli', Authorization: 'Bearer k' },
+    });
+    await expect(authorizeRequest(URL, {}, 'k', 'x-api-key')).resolves.toEqual({
+      url: URL,
+      headers: { 'X-API-Key': 'k' },
+    });
+    await expect(authorizeRequest(URL, {}, 'k', 'none')).resolves.toEqual({
+      url: URL,
+      headers: {},
+    });
+  });
+
+  it('should send the key in a custom header', async () => {
+    await expect(
+      authorizeRequest(URL, {}, 'k', { type: 'header', name: 'api-key' }),
+    ).resolves.toEqual({ url: URL, headers: { 'api-key': 'k' } });
+    await expect(
+      authorizeRequest(URL, {}, 'k', {
+        type: 'header',
+        name: 'Authorization',
+        prefix: 'Token ',
+      }),
+    ).resolves.toEqual({ url: URL, headers: { Authorization: 'Token k' } });
+  });
+
+  it('should send the key as a query parameter', async () => {
+    const request = await authorizeRequest(
+      'https://api.example.com/v1/models?api-version=2024-10-21',
+      {},
+      'k&1',
+      { type: 'query', name: 'key' },
+    );
+    expect(request).toEqual({
+      url: 'https://api.example.com/v1/models?api-version=2024-10-21&key=k%261',
+      headers: {},
+    });
+  });
+
+  it('should not send anything without a key', async () => {
+    await expect(
+      authorizeRequest(URL, {}, undefined, { type: 'query', name: 'key' }),
+    ).resolves.toEqual({ url: URL, headers: {} });
+  });
+
+  describe.skipIf(process.platform === 'win32')('command', () => {
+    let tempDir: string;
+    let counterFile: string;
+
+    beforeEach(() => {
+      clearAuthTokenCache();
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-test-'));
+      counterFile = path.join(tempDir, 'runs');
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should run the command once and cache the token', async () => {
+      // Prints how often the command has run, e.g. "token-1".
+      const command = `echo run >> "${counterFile}" && echo "token-$(wc -l < "${counterFile}" | tr -d ' ')"`;
+      const scheme = { type: 'command' as const, command, ttlSeconds: 60 };
+
+      const [first, second] = await Promise.all([
+        authorizeRequest(URL, {}, undefined, scheme),
+        authorizeRequest(URL, {}, undefined, scheme),
+      ]);
+      expect(first.headers).toEqual({ Authorization: 'Bearer token-1' });
+      expect(second.headers).toEqual({ Authorization: 'Bearer token-1' });
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.now() + 61_000);
+      const refreshed = await authorizeRequest(URL, {}, undefined, scheme);
+      expect(refreshed.headers).toEqual({ Authorization: 'Bearer token-2' });
+    });
+
+    it('should fetch a new token once when the cached one is rejected', async () => {
+      const command = `echo run >> "${counterFile}" && echo "token-$(wc -l < "${counterFile}" | tr -d ' ')"`;
+      const scheme = { type: 'command' as const, command, ttlSeconds: 60 };
+      await authorizeRequest(URL, {}, undefined, scheme);
+      const send = vi.fn(
+        async ({ headers }: { headers: Record<string, string> }) => {
+          if (headers['Authorization'] !== 'Bearer token-2') {
+            throw new ProviderHttpError('Unauthorized', 401);
+          }
+          return new Response('ok');
+        },
+      );
+
+      const response = await withAuthorization(
+        URL,
+        {},
+        undefined,
+        scheme,
+        send,
+      );
+
+      expect(await response.text()).toBe('ok');
+      expect(send).toHaveBeenCalledTimes(2);
+      await expect(
+        authorizeRequest(URL, {}, undefined, scheme),
+      ).resolves.toMatchObject({
+        headers: { Authorization: 'Bearer token-2' },
+      });
+    });
+
+    it('should not retry requests rejected for other reasons', async () => {
+      const send = vi
+        .fn()
+        .mockRejectedValue(new ProviderHttpError('Forbidden', 403));
+
+      await expect(
+        withAuthorization(
+          URL,
+          {},
+          undefined,
+          { type: 'command', command: 'echo secret' },
+          send,
+        ),
+      ).rejects.toThrow('Forbidden');
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use a custom header without the Bearer prefix', async () => {
+      const request = await authorizeRequest(URL, {}, 'ignored', {
+        type: 'command',
+        command: 'echo secret',
+        header: 'api-key',
+      });
+      expect(request.headers).toEqual({ 'api-key': 'secret' });
+    });
+
+    it('should report failing commands and retry them', async () => {
+      const scheme = {
+        type: 'command' as const,
+        command: `test -f "${counterFile}" && echo ok`,
+      };
+      await expect(
+        authorizeRequest(URL, {}, undefined, scheme),
+      ).rejects.toThrow(/Auth command .* failed/);
+
+      fs.writeFileSync(counterFile, '');
+      await expect(
+        authorizeRequest(URL, {}, undefined, scheme),
+      ).resolves.toMatchObject({ headers: { Authorization: 'Bearer ok' } });
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
+import { LLMAuthScheme, LLMCommandAuthScheme } from '../core/llmProvider.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { registerSecret } from '../utils/redaction.js';
+import { ProviderHttpError } from './http.js';
+
+const execAsync = promisify(exec);
+
+const DEFAULT_TOKEN_TTL_SECONDS = 300;
+const TOKEN_COMMAND_TIMEOUT_MS = 30_000;
+
+interface CachedToken {
+  token: Promise<string>;
+  expiresAt: number;
+}
+
+const tokenCache = new Map<string, CachedToken>();
+
+/**
+ * A request URL and its headers with the credentials applied.
+ */
+export interface AuthorizedRequest {
+  url: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Applies `scheme` to a request. The API key is only sent if one is
+ * configured; the command scheme fetches its own token instead.
+ */
+export async function authorizeRequest(
+  url: string,
+  headers: Record<string, string>,
+  apiKey: string | undefined,
+  scheme: LLMAuthScheme,
+): Promise<AuthorizedRequest> {
+  registerSecret(apiKey);
+  if (typeof scheme === 'string') {
+    switch (scheme) {
+      case 'bearer':
+        return withHeader(url, headers, 'Authorization', 'Bearer ', apiKey);
+      case 'x-api-key':
+        return withHeader(url, headers, 'X-API-Key', '', apiKey);
+      default:
+        return { url, headers };
+    }
+  }
+
+  switch (scheme.type) {
+    case 'header':
+      return withHeader(url, headers, scheme.name, scheme.prefix, apiKey);
+    case 'query': {
+      if (!apiKey) {
+        return { url, headers };
+      }
+      const authorizedUrl = new URL(url);
+      authorizedUrl.searchParams.set(scheme.name, apiKey);
+      return { url: authorizedUrl.toString(), headers };
+    }
+    case 'command': {
+      const header = scheme.header ?? 'Authorization';
+      const prefix =
+        scheme.prefix ?? (header === 'Authorization' ? 'Bearer ' : '');
+      const token = await getCommandToken(scheme);
+      return withHeader(url, headers, header, prefix, token);
+    }
+    default:
+      throw new Error(
+        `Unknown auth scheme: ${JSON.stringify(scheme as unknown)}`,
+      );
+  }
+}
+
+/**
+ * Applies `scheme` to a request and sends it with `send`. A token fetched by
+ * an auth command may be revoked before its time to live has passed, so if
+ * the server rejects it with a 401 the command is run again and the request
+ * is sent once more.
+ */
+export async function withAuthorization(
+  url: string,
+  headers: Record<string, string>,
+  apiKey: string | undefined,
+  scheme: LLMAuthScheme,
+  send: (request: AuthorizedRequest) => Promise<Response>,
+): Promise<Response> {
+  const request = await authorizeRequest(url, headers, apiKey, scheme);
+  try {
+    return await send(request);
+  } catch (error) {
+    if (
+      typeof scheme === 'string' ||
+      scheme.type !== 'command' ||
+      !(error instanceof ProviderHttpError) ||
+      error.status !== 401
+    ) {
+      throw error;
+    }
+    tokenCache.delete(scheme.command);
+    return send(await authorizeRequest(url, headers, apiKey, scheme));
+  }
+}
+
+/**
+ * Forgets the tokens fetched by command auth schemes, so that the next
+ * request runs the command again.
+ */
+export function clearAuthTokenCache(): void {
+  tokenCache.clear();
+}
+
+function withHeader(
+  url: string,
+  headers: Record<string, string>,
+  name: string,
+  prefix: string | undefined,
+  credential: string | undefined,
+): AuthorizedRequest {
+  if (!credential) {
+    return { url, headers };
+  }
+  return {
+    url,
+    headers: { ...headers, [name]: `${prefix ?? ''}${credential}` },
+  };
+}
+
+function getCommandToken(scheme: LLMCommandAuthScheme): Promise<string> {
+  const cached = tokenCache.get(scheme.command);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.token;
+  }
+
+  const token = runTokenCommand(scheme.command);
+  tokenCache.set(scheme.command, {
+    token,
+    expiresAt:
+      Date.now() + (scheme.ttlSeconds ?? DEFAULT_TOKEN_TTL_SECONDS) * 1000,
+  });
+  // Do not cache failures, so that the next request retries the command.
+  token.catch(() => tokenCache.delete(scheme.command));
+  return token;
+}
+
+async function runTokenCommand(command: string): Promise<string> {
+  let stdout: string;
+  try {
+    ({ stdout } = await execAsync(command, {
+      timeout: TOKEN_COMMAND_TIMEOUT_MS,
+    }));
+  } catch (error) {
+    throw new Error(
+      `Auth command "${command}" failed: ${getErrorMessage(error)}`,
+    );
+  }
+  const token = stdout.trim();
+  if (!token) {
+    throw new Error(`Auth command "${command}" did not print a token.`);
+  }
+  registerSecret(token);
+  return token;
+}
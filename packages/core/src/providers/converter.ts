@@ -0,0 +1,409 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  Content,
+  ContentListUnion,
+  ContentUnion,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  FunctionDeclaration,
+  FunctionResponse,
+  GenerateContentConfig,
+  GenerateContentResponse,
+  Part,
+  PartUnion,
+  Schema,
+  ToolListUnion,
+} from '@google/genai';
+
+/**
+ * The tool that providers without native structured output are forced to
+ * call to return a JSON response.
+ */
+export const JSON_RESPONSE_TOOL = 'json_response';
+
+/**
+ * A function call that has been sent to a provider but whose response has
+ * not been seen yet while converting history.
+ */
+export interface UnansweredToolCall {
+  id: string;
+  name: string;
+}
+
+export function toContents(contents: ContentListUnion): Content[] {
+  if (Array.isArray(contents)) {
+    // it's a Content[] or a PartsUnion[]
+    return contents.map(toContent);
+  }
+  // it's a Content or a PartsUnion
+  return [toContent(contents)];
+}
+
+export function toContent(content: ContentUnion): Content {
+  if (Array.isArray(content)) {
+    // it's a PartsUnion[]
+    return {
+      role: 'user',
+      parts: content.map(toPart),
+    };
+  }
+  if (typeof content === 'string') {
+    return {
+      role: 'user',
+      parts: [{ text: content }],
+    };
+  }
+  if ('parts' in content) {
+    // it's a Content
+    return content;
+  }
+  // it's a Part
+  return {
+    role: 'user',
+    parts: [content as Part],
+  };
+}
+
+function toPart(part: PartUnion): Part {
+  return typeof part === 'string' ? { text: part } : part;
+}
+
+/**
+ * Replaces image attachments with a short note for models that cannot see
+ * them, so that a screenshot read by a tool does not fail the whole request.
+ */
+export function omitImages(
+  contents: ContentListUnion,
+  model: string,
+): Content[] {
+  return toContents(contents).map((content) => ({
+    ...content,
+    parts: content.parts?.map((part) => {
+      const mimeType = part.inlineData?.mimeType ?? part.fileData?.mimeType;
+      return mimeType?.startsWith('image/')
+        ? { text: `[${mimeType} omitted: ${model} does not accept images]` }
+        : part;
+    }),
+  }));
+}
+
+export function contentToText(content: Content): string {
+  return (content.parts ?? [])
+    .map((part) => part.text)
+    .filter((text): text is string => !!text)
+    .join('\n');
+}
+
+/**
+ * Embeds the texts of an embedding request in batches of at most
+ * `batchSize`, sent one after another, and returns the embeddings in the
+ * order of the request. Each content is embedded as one text.
+ */
+export async function embedInBatches(
+  request: EmbedContentParameters,
+  batchSize: number,
+  embedBatch: (texts: string[]) => Promise<number[][]>,
+): Promise<EmbedContentResponse> {
+  const texts = toContents(request.contents).map(contentToText);
+  const embeddings: number[][] = [];
+  for (let start = 0; start < texts.length; start += batchSize) {
+    const batch = texts.slice(start, start + batchSize);
+    const vectors = await embedBatch(batch);
+    if (vectors.length !== batch.length) {
+      throw new Error(
+        `API returned a mismatched number of embeddings. Expected ${batch.length}, got ${vectors.length}.`,
+      );
+    }
+    embeddings.push(...vectors);
+  }
+  return { embeddings: embeddings.map((values) => ({ values })) };
+}
+
+/**
+ * Returns the id of the call a function response answers and marks that call
+ * as answered. Responses without an id are paired with the oldest unanswered
+ * call of the same name.
+ */
+export function takeToolCallId(
+  unansweredCalls: UnansweredToolCall[],
+  functionResponse: FunctionResponse,
+): string {
+  const index = functionResponse.id
+    ? unansweredCalls.findIndex((call) => call.id === functionResponse.id)
+    : unansweredCalls.findIndex((call) => call.name === functionResponse.name);
+  if (index === -1) {
+    return functionResponse.id ?? functionResponse.name ?? '';
+  }
+  return unansweredCalls.splice(index, 1)[0].id;
+}
+
+export function functionResponseToString(
+  functionResponse: FunctionResponse,
+): string {
+  const response = functionResponse.response ?? {};
+  if (
+    typeof response.output === 'string' &&
+    Object.keys(response).length === 1
+  ) {
+    return response.output;
+  }
+  return JSON.stringify(response);
+}
+
+export function getFunctionDeclarations(
+  tools: ToolListUnion | undefined,
+): FunctionDeclaration[] {
+  const declarations: FunctionDeclaration[] = [];
+  for (const tool of tools ?? []) {
+    if ('functionDeclarations' in tool) {
+      declarations.push(...(tool.functionDeclarations ?? []));
+    }
+  }
+  return declarations;
+}
+
+/**
+ * Returns the declaration's parameters as JSON Schema. MCP tools already
+ * carry JSON Schema; built-in tools use the Gemini schema dialect.
+ */
+export function getParametersJsonSchema(
+  declaration: FunctionDeclaration,
+): Record<string, unknown> {
+  if (declaration.parametersJsonSchema) {
+    return declaration.parametersJsonSchema as Record<string, unknown>;
+  }
+  return declaration.parameters
+    ? toJsonSchema(declaration.parameters)
+    : { type: 'object', properties: {} };
+}
+
+/**
+ * Returns the JSON Schema that the response must match if the request asks
+ * for JSON output, `{}` if it asks for JSON without a schema, and undefined
+ * if it does not ask for JSON.
+ */
+export function getResponseJsonSchema(
+  config: GenerateContentConfig,
+): Record<string, unknown> | undefined {
+  if (config.responseJsonSchema) {
+    return config.responseJsonSchema as Record<string, unknown>;
+  }
+  if (config.responseSchema) {
+    return toJsonSchema(config.responseSchema as Schema);
+  }
+  return config.responseMimeType === 'application/json' ? {} : undefined;
+}
+
+/**
+ * Whether a JSON response can be requested by forcing a call to
+ * {@link JSON_RESPONSE_TOOL}. Tool parameters must be objects.
+ */
+export function canForceJsonToolCall(schema: Record<string, unknown>): boolean {
+  return schema.type === 'object';
+}
+
+/**
+ * The instruction added to the system prompt for providers that can only be
+ * asked for JSON in the prompt itself.
+ */
+export function getJsonResponseInstruction(
+  schema: Record<string, unknown>,
+): string {
+  return Object.keys(schema).length > 0
+    ? `Respond with only a JSON value that matches this JSON Schema, without any other text:\n${JSON.stringify(schema)}`
+    : 'Respond with only a JSON value, without any other text.';
+}
+
+/**
+ * Replaces a forced call to {@link JSON_RESPONSE_TOOL} with its arguments as
+ * JSON text, which is the response the caller asked for.
+ */
+export function jsonToolCallToText(
+  response: GenerateContentResponse,
+): GenerateContentResponse {
+  for (const candidate of response.candidates ?? []) {
+    if (candidate.content?.parts) {
+      candidate.content.parts = candidate.content.parts.map((part) =>
+        part.functionCall?.name === JSON_RESPONSE_TOOL
+          ? { text: JSON.stringify(part.functionCall.args ?? {}) }
+          : part,
+      );
+    }
+  }
+  return response;
+}
+
+/**
+ * Converts @google/genai's Schema to plain JSON Schema. The Gemini schema
+ * uses UPPERCASE type names and encodes some numeric limits as strings.
+ */
+export function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const jsonSchema: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (value === undefined || key === 'propertyOrdering') {
+      continue;
+    }
+    switch (key) {
+      case 'type':
+        jsonSchema.type = String(value).toLowerCase();
+        break;
+      case 'items':
+        jsonSchema.items = toJsonSchema(value as Schema);
+        break;
+      case 'anyOf':
+        jsonSchema.anyOf = (value as Schema[]).map(toJsonSchema);
+        break;
+      case 'properties': {
+        const properties: Record<string, unknown> = {};
+        for (const [name, property] of Object.entries(
+          value as Record<string, Schema>,
+        )) {
+          properties[name] = toJsonSchema(property);
+        }
+        jsonSchema.properties = properties;
+        break;
+      }
+      case 'minItems':
+      case 'maxItems':
+      case 'minLength':
+      case 'maxLength':
+      case 'minProperties':
+      case 'maxProperties':
+        jsonSchema[key] = Number(value);
+        break;
+      default:
+        jsonSchema[key] = value;
+    }
+  }
+  return jsonSchema;
+}
+
+/**
+ * Parses streamed or returned tool arguments. Malformed JSON yields empty
+ * args so the tool's parameter validation reports the problem back to the
+ * model instead of failing the whole turn.
+ */
+export function parseToolArguments(json: string): Record<string, unknown> {
+  if (!json) {
+    return {};
+  }
+  try {
+    const args = JSON.parse(json) as unknown;
+    return args && typeof args === 'object' && !Array.isArray(args)
+      ? (args as Record<string, unknown>)
+      : {};
+  } catch (_e) {
+    return {};
+  }
+}
+
+const THINK_OPEN_TAG = '<think>';
+const THINK_CLOSE_TAG = '</think>';
+
+/**
+ * Splits model text into thought and answer parts at `<think>...</think>`
+ * tags, which reasoning models such as DeepSeek-R1 and QwQ put in their
+ * content when the server does not separate the reasoning itself. Streamed
+ * text is pushed as it arrives; a tag split across chunks is held back
+ * until the next chunk shows whether it is one.
+ *
+ * Other models may write the tags as part of their answer, so a parser that
+ * is not `enabled` passes all text through as answer parts.
+ */
+export class ThinkTagParser {
+  private inThought = false;
+  private afterThought = false;
+  private pending = '';
+
+  constructor(private readonly enabled = true) {}
+
+  push(text: string): Part[] {
+    if (!this.enabled) {
+      return text ? [{ text }] : [];
+    }
+    let buffer = this.pending + text;
+    this.pending = '';
+    const parts: Part[] = [];
+    for (;;) {
+      const tag = this.inThought ? THINK_CLOSE_TAG : THINK_OPEN_TAG;
+      const index = buffer.indexOf(tag);
+      if (index === -1) {
+        const held = partialTagLength(buffer, tag);
+        this.pending = buffer.slice(buffer.length - held);
+        this.emit(buffer.slice(0, buffer.length - held), parts);
+        return parts;
+      }
+      this.emit(buffer.slice(0, index), parts);
+      buffer = buffer.slice(index + tag.length);
+      this.afterThought = this.inThought;
+      this.inThought = !this.inThought;
+    }
+  }
+
+  /** Returns any text held back once the stream has ended. */
+  flush(): Part[] {
+    const parts: Part[] = [];
+    this.emit(this.pending, parts);
+    this.pending = '';
+    return parts;
+  }
+
+  private emit(text: string, parts: Part[]): void {
+    if (!this.inThought && this.afterThought) {
+      // Drop the blank lines models put between the reasoning and answer.
+      text = text.replace(/^\s+/, '');
+      this.afterThought = text === '';
+    }
+    if (text) {
+      parts.push(this.inThought ? { text, thought: true } : { text });
+    }
+  }
+}
+
+function partialTagLength(text: string, tag: string): number {
+  for (let length = tag.length - 1; length > 0; length--) {
+    if (text.endsWith(tag.slice(0, length))) {
+      return length;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Splits complete text at `<think>...</think>` tags into thought and answer
+ * parts. See {@link ThinkTagParser}.
+ */
+export function splitThinkTags(text: string, enabled = true): Part[] {
+  const parser = new ThinkTagParser(enabled);
+  return [...parser.push(text), ...parser.flush()];
+}
+
+/**
+ * Splits a streamed response whose parts mix reasoning and answer into a
+ * response with only the thought parts followed by one with the rest, since
+ * a chunk that starts with a thought is handled as a thought as a whole.
+ */
+export function separateThoughts(
+  response: GenerateContentResponse,
+): GenerateContentResponse[] {
+  const candidate = response.candidates?.[0];
+  const parts = candidate?.content?.parts ?? [];
+  const thoughts = parts.filter((part) => part.thought);
+  if (!candidate || thoughts.length === 0 || thoughts.length === parts.length) {
+    return [response];
+  }
+  const thoughtResponse = new GenerateContentResponse();
+  thoughtResponse.candidates = [
+    { content: { role: 'model', parts: thoughts } },
+  ];
+  candidate.content = {
+    ...candidate.content,
+    parts: parts.filter((part) => !part.thought),
+  };
+  return [thoughtResponse, response];
+}
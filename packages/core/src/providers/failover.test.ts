@@ -0,0 +1,201 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { GenerateContentResponse } from '@google/genai';
+import { LLMProvider } from '../core/llmProvider.js';
+import { ProviderHttpError, postJson } from './http.js';
+import {
+  FailoverProvider,
+  FailoverTarget,
+  clearProviderHealth,
+  isFailoverError,
+} from './failover.js';
+
+function createProvider(name: string): LLMProvider {
+  return {
+    generateContent: vi.fn().mockResolvedValue({
+      text: name,
+    } as unknown as GenerateContentResponse),
+    generateContentStream: vi.fn(),
+    countTokens: vi.fn().mockResolvedValue({ totalTokens: 1 }),
+    embedContent: vi.fn(),
+    getProviderName: () => name,
+  };
+}
+
+async function listen(server: http.Server): Promise<string> {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+const request = {
+  model: 'primary-model',
+  contents: [{ role: 'user', parts: [{ text: 'hi' }] }],
+};
+
+describe('isFailoverError', () => {
+  it.each([408, 429, 500, 503])('should fail over on HTTP %i', (status) => {
+    expect(isFailoverError(new ProviderHttpError('error', status))).toBe(true);
+  });
+
+  it.each([400, 401, 404])('should not fail over on HTTP %i', (status) => {
+    expect(isFailoverError(new ProviderHttpError('error', status))).toBe(false);
+  });
+
+  it('should fail over when the endpoint cannot be reached', async () => {
+    const server = http.createServer();
+    const url = await listen(server);
+    await new Promise((resolve) => server.close(resolve));
+
+    const error = await postJson(url, {}, {}).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(isFailoverError(error)).toBe(true);
+  });
+
+  it('should fail over when a request times out', async () => {
+    // Never answers, so that only the timeout ends the request.
+    const server = http.createServer(() => {});
+    const url = await listen(server);
+    try {
+      const error = await postJson(url, {}, {}, { timeoutMs: 50 }).catch(
+        (e: unknown) => e,
+      );
+
+      expect((error as Error).name).toBe('TimeoutError');
+      expect(isFailoverError(error)).toBe(true);
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it('should not fail over on other errors', () => {
+    expect(isFailoverError(new Error('invalid response'))).toBe(false);
+  });
+});
+
+describe('FailoverProvider', () => {
+  let primary: LLMProvider;
+  let fallback: LLMProvider;
+  let targets: FailoverTarget[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    clearProviderHealth();
+    primary = createProvider('primary');
+    fallback = createProvider('fallback');
+    targets = [
+      { name: 'primary', model: 'primary-model', provider: primary },
+      { name: 'fallback', model: 'fallback-model', provider: fallback },
+    ];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should use the primary provider while it is healthy', async () => {
+    const provider = new FailoverProvider(targets);
+    await expect(provider.generateContent(request)).resolves.toEqual({
+      text: 'primary',
+    });
+    expect(fallback.generateContent).not.toHaveBeenCalled();
+  });
+
+  it('should retry on the next provider with its own model', async () => {
+    const error = new ProviderHttpError('Too Many Requests', 429);
+    vi.mocked(primary.generateContent).mockRejectedValue(error);
+    const onFailover = vi.fn();
+    const provider = new FailoverProvider(targets, 60, onFailover);
+
+    await expect(provider.generateContent(request)).resolves.toEqual({
+      text: 'fallback',
+    });
+    expect(fallback.generateContent).toHaveBeenCalledWith({
+      ...request,
+      model: 'fallback-model',
+    });
+    expect(onFailover).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'primary', model: 'primary-model' }),
+      expect.objectContaining({ name: 'fallback', model: 'fallback-model' }),
+      error,
+    );
+  });
+
+  it('should not fail over on client errors', async () => {
+    const error = new ProviderHttpError('Bad Request', 400);
+    vi.mocked(primary.generateContent).mockRejectedValue(error);
+    const provider = new FailoverProvider(targets);
+
+    await expect(provider.generateContent(request)).rejects.toBe(error);
+    expect(fallback.generateContent).not.toHaveBeenCalled();
+  });
+
+  it('should not fail over when the request was aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    vi.mocked(primary.generateContent).mockRejectedValue(
+      new ProviderHttpError('Service unavailable', 503),
+    );
+    const provider = new FailoverProvider(targets);
+
+    await expect(
+      provider.generateContent({
+        ...request,
+        config: { abortSignal: controller.signal },
+      }),
+    ).rejects.toThrow('Service unavailable');
+    expect(fallback.generateContent).not.toHaveBeenCalled();
+  });
+
+  it('should throw the last error when every provider fails', async () => {
+    vi.mocked(primary.generateContent).mockRejectedValue(
+      new ProviderHttpError('Service Unavailable', 503),
+    );
+    vi.mocked(fallback.generateContent).mockRejectedValue(
+      new ProviderHttpError('Bad Gateway', 502),
+    );
+    const provider = new FailoverProvider(targets);
+
+    await expect(provider.generateContent(request)).rejects.toThrow(
+      'Bad Gateway',
+    );
+  });
+
+  it('should skip a failed provider until its cool-down has passed', async () => {
+    vi.mocked(primary.generateContent).mockRejectedValueOnce(
+      new ProviderHttpError('Internal Server Error', 500),
+    );
+    const provider = new FailoverProvider(targets, 60);
+    await provider.generateContent(request);
+
+    await provider.generateContent(request);
+    expect(primary.generateContent).toHaveBeenCalledTimes(1);
+    expect(fallback.generateContent).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(60_000);
+    await expect(provider.generateContent(request)).resolves.toEqual({
+      text: 'primary',
+    });
+  });
+
+  it('should share provider health across chains', async () => {
+    vi.mocked(primary.generateContent).mockRejectedValueOnce(
+      new ProviderHttpError('Internal Server Error', 500),
+    );
+    await new FailoverProvider(targets).generateContent(request);
+
+    await new FailoverProvider(targets).countTokens(request);
+    expect(fallback.countTokens).toHaveBeenCalledWith({
+      ...request,
+      model: 'fallback-model',
+    });
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from '@google/genai';
+import { LLMModelInfo, LLMProvider } from '../core/llmProvider.js';
+import { getErrorStatus } from '../utils/retry.js';
+
+export const DEFAULT_PROVIDER_COOLDOWN_SECONDS = 300;
+
+// Network failures that mean the endpoint is unreachable rather than that
+// the request was wrong.
+const UNREACHABLE_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EHOSTUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_SOCKET',
+]);
+
+/**
+ * A provider profile in a failover chain.
+ */
+export interface FailoverTarget {
+  /** The name of the provider profile. */
+  name: string;
+  model: string;
+  provider: LLMProvider;
+}
+
+/**
+ * Called when a request that failed on `from` is retried on `to`.
+ */
+export type FailoverListener = (
+  from: FailoverTarget,
+  to: FailoverTarget,
+  error: unknown,
+) => void;
+
+// When each provider profile that failed may be tried first again. Shared
+// by all chains, so that switching models does not forget an outage.
+const unhealthyUntil = new Map<string, number>();
+
+/**
+ * Forgets which providers failed recently.
+ */
+export function clearProviderHealth(): void {
+  unhealthyUntil.clear();
+}
+
+/**
+ * Whether an error means the provider is unavailable, so that the request
+ * should be retried on the next provider: rate limits, server errors,
+ * timeouts and unreachable endpoints.
+ */
+export function isFailoverError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  // Network errors wrap the error that says why, e.g. `fetch failed`, which
+  // in turn wraps the system error with the code.
+  let cause: unknown = error;
+  for (let depth = 0; depth < 5 && typeof cause === 'object'; depth++) {
+    const { name, code } = (cause ?? {}) as { name?: unknown; code?: unknown };
+    if (name === 'TimeoutError') {
+      return true;
+    }
+    if (typeof code === 'string' && UNREACHABLE_ERROR_CODES.has(code)) {
+      return true;
+    }
+    cause = (cause as { cause?: unknown } | null)?.cause;
+  }
+  return false;
+}
+
+/**
+ * Sends each request to the first healthy provider of an ordered chain,
+ * and retries it on the next one when a provider is unavailable. A provider
+ * that failed is tried last until its cool-down has passed.
+ */
+export class FailoverProvider implements LLMProvider {
+  readonly listModels?: () => Promise<LLMModelInfo[]>;
+
+  constructor(
+    private readonly targets: FailoverTarget[],
+    private readonly cooldownSeconds = DEFAULT_PROVIDER_COOLDOWN_SECONDS,
+    private readonly onFailover?: FailoverListener,
+  ) {
+    // Model discovery and the other metadata come from the primary provider.
+    const primary = targets[0].provider;
+    const listModels = primary.listModels;
+    if (listModels) {
+      this.listModels = () => listModels.call(primary);
+    }
+  }
+
+  generateContent(
+    request: GenerateContentParameters,
+  ): Promise<GenerateContentResponse> {
+    return this.withFailover(request, (provider, model) =>
+      provider.generateContent({ ...request, model }),
+    );
+  }
+
+  generateContentStream(
+    request: GenerateContentParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    // Only errors before the first chunk fail over; a stream that breaks
+    // off midway is left to the caller's retry logic.
+    return this.withFailover(request, (provider, model) =>
+      provider.generateContentStream({ ...request, model }),
+    );
+  }
+
+  countTokens(request: CountTokensParameters): Promise<CountTokensResponse> {
+    const [target] = this.getOrderedTargets();
+    return target.provider.countTokens({
+      ...request,
+      model: this.getModel(target, request.model),
+    });
+  }
+
+  embedContent(request: EmbedContentParameters): Promise<EmbedContentResponse> {
+    return this.withFailover(request, (provider, model) =>
+      provider.embedContent({ ...request, model }),
+    );
+  }
+
+  getProviderName(): string {
+    return this.targets[0].provider.getProviderName();
+  }
+
+  private async withFailover<T>(
+    request: { model: string; config?: { abortSignal?: AbortSignal } },
+    send: (provider: LLMProvider, model: string) => Promise<T>,
+  ): Promise<T> {
+    const targets = this.getOrderedTargets();
+    for (let i = 0; ; i++) {
+      const target = targets[i];
+      const model = this.getModel(target, request.model);
+      try {
+        const result = await send(target.provider, model);
+        unhealthyUntil.delete(target.name);
+        return result;
+      } catch (error) {
+        if (request.config?.abortSignal?.aborted || !isFailoverError(error)) {
+          throw error;
+        }
+        unhealthyUntil.set(
+          target.name,
+          Date.now() + this.cooldownSeconds * 1000,
+        );
+        const next = targets[i + 1];
+        if (!next) {
+          throw error;
+        }
+        this.onFailover?.(
+          { ...target, model },
+          { ...next, model: this.getModel(next, request.model) },
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * The primary uses the model of the request, which follows model switches
+   * made after the chain was built; fallbacks use their own model.
+   */
+  private getModel(target: FailoverTarget, requestModel: string): string {
+    return target === this.targets[0] ? requestModel : target.model;
+  }
+
+  /**
+   * The healthy providers in chain order, followed by those still cooling
+   * down as a last resort.
+   */
+  private getOrderedTargets(): FailoverTarget[] {
+    const now = Date.now();
+    const isHealthy = (target: FailoverTarget) =>
+      (unhealthyUntil.get(target.name) ?? 0) <= now;
+    return [
+      ...this.targets.filter(isHealthy),
+      ...this.targets.filter((target) => !isHealthy(target)),
+    ];
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { GenerateContentResponse } from '@google/genai';
+import { LLMProvider } from '../core/llmProvider.js';
+import {
+  RecordingProvider,
+  ReplayProvider,
+  clearProviderFixtures,
+} from './fixture.js';
+
+function textResponse(text: string): GenerateContentResponse {
+  return Object.assign(new GenerateContentResponse(), {
+    candidates: [{ content: { role: 'model', parts: [{ text }] } }],
+  });
+}
+
+function createProvider(): LLMProvider {
+  return {
+    generateContent: vi.fn(async () => textResponse('Hello')),
+    generateContentStream: vi.fn(async () =>
+      (async function* () {
+        yield textResponse('Hel');
+        yield textResponse('lo');
+      })(),
+    ),
+    countTokens: vi.fn(async () => ({ totalTokens: 7 })),
+    embedContent: vi.fn(async () => ({ embeddings: [{ values: [1, 2] }] })),
+    getProviderName: () => 'live',
+  };
+}
+
+async function collectText(
+  stream: AsyncGenerator<GenerateContentResponse>,
+): Promise<string[]> {
+  const texts: string[] = [];
+  for await (const chunk of stream) {
+    texts.push(chunk.text ?? '');
+  }
+  return texts;
+}
+
+const request = (text: string) => ({
+  model: 'test-model',
+  contents: [{ role: 'user', parts: [{ text }] }],
+  config: { abortSignal: new AbortController().signal },
+});
+
+describe('provider fixtures', () => {
+  let tempDir: string;
+  let fixturePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fixture-test-'));
+    fixturePath = path.join(tempDir, 'session.jsonl');
+    clearProviderFixtures();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should replay recorded calls, streams included', async () => {
+    const recorder = new RecordingProvider(createProvider(), fixturePath);
+    await recorder.generateContent(request('Hi'));
+    expect(
+      await collectText(await recorder.generateContentStream(request('Go'))),
+    ).toEqual(['Hel', 'lo']);
+    await recorder.countTokens(request('Count'));
+    await recorder.embedContent({ model: 'embed', contents: ['text'] });
+
+    const replay = await ReplayProvider.open(fixturePath);
+    expect(
+      await collectText(await replay.generateContentStream(request('Go'))),
+    ).toEqual(['Hel', 'lo']);
+    expect((await replay.generateContent(request('Hi'))).text).toBe('Hello');
+    expect(await replay.countTokens(request('Count'))).toEqual({
+      totalTokens: 7,
+    });
+    expect(
+      await replay.embedContent({ model: 'embed', contents: ['text'] }),
+    ).toEqual({ embeddings: [{ values: [1, 2] }] });
+  });
+
+  it('should start a new recording over and share it between providers', async () => {
+    fs.writeFileSync(fixturePath, 'stale\n');
+    const main = new RecordingProvider(createProvider(), fixturePath);
+    const routed = new RecordingProvider(createProvider(), fixturePath);
+    await main.generateContent(request('First'));
+    await routed.generateContent(request('Second'));
+
+    const lines = fs.readFileSync(fixturePath, 'utf-8').trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).method)).toEqual([
+      'generateContent',
+      'generateContent',
+    ]);
+  });
+
+  it('should report requests that are not in the fixture', async () => {
+    const recorder = new RecordingProvider(createProvider(), fixturePath);
+    await recorder.generateContent(request('Today is Monday'));
+    const recordedKey = JSON.parse(fs.readFileSync(fixturePath, 'utf-8')).key;
+
+    const replay = await ReplayProvider.open(fixturePath);
+    const error = await replay
+      .generateContent(request('Today is Tuesday'))
+      .catch((e: Error) => e);
+
+    expect((error as Error).message).toMatch(
+      new RegExp(
+        `no generateContent call with request hash [0-9a-f]{64}; the next recorded one has request hash ${recordedKey}\\.`,
+      ),
+    );
+  });
+
+  it('should replay calls in order when replaying leniently', async () => {
+    const provider = createProvider();
+    vi.mocked(provider.generateContent)
+      .mockResolvedValueOnce(textResponse('one'))
+      .mockResolvedValueOnce(textResponse('two'));
+    const recorder = new RecordingProvider(provider, fixturePath);
+    await recorder.generateContent(request('Today is Monday'));
+    await recorder.generateContent(request('Go on'));
+
+    const replay = await ReplayProvider.open(fixturePath, true);
+    expect(
+      (await replay.generateContent(request('Today is Tuesday'))).text,
+    ).toBe('one');
+    expect((await replay.generateContent(request('Go on'))).text).toBe('two');
+    await expect(replay.generateContent(request('More'))).rejects.toThrow(
+      'has no more recorded generateContent calls',
+    );
+  });
+
+  it('should keep recording after a write fails', async () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+    vi.spyOn(fs.promises, 'appendFile').mockRejectedValueOnce(
+      new Error('ENOSPC: no space left on device'),
+    );
+    const recorder = new RecordingProvider(createProvider(), fixturePath);
+
+    expect((await recorder.generateContent(request('First'))).text).toBe(
+      'Hello',
+    );
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      `Failed to record to the provider fixture ${fixturePath}: ENOSPC: no space left on device`,
+    );
+    await recorder.generateContent(request('Second'));
+
+    const lines = fs.readFileSync(fixturePath, 'utf-8').trim().split('\n');
+    expect(lines).toHaveLength(1);
+  });
+
+  it('should not record streams that were not read to the end', async () => {
+    const recorder = new RecordingProvider(createProvider(), fixturePath);
+    const stream = await recorder.generateContentStream(request('Go'));
+    await stream.next();
+    await stream.return(undefined);
+
+    expect(fs.existsSync(fixturePath)).toBe(false);
+  });
+
+  it('should report a missing fixture file', async () => {
+    await expect(
+      ReplayProvider.open(path.join(tempDir, 'missing.jsonl')),
+    ).rejects.toThrow('Could not read the provider fixture');
+  });
+});
@@ -0,0 +1,352 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHash } from 'node:crypto';
+import { promises as fsp } from 'node:fs';
+import path from 'node:path';
+import {
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from '@google/genai';
+import type { LLMProvider } from '../core/llmProvider.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+/**
+ * Records the model calls of a session to a fixture file, or replays them
+ * from one instead of calling the model.
+ */
+export interface ProviderFixture {
+  mode: 'record' | 'replay';
+  /** The fixture file, one JSON interaction per line. */
+  path: string;
+  /**
+   * When replaying, serves calls whose request is not in the fixture with
+   * the next recorded call of the same kind instead of failing.
+   */
+  lenient?: boolean;
+}
+
+type FixtureMethod =
+  | 'generateContent'
+  | 'generateContentStream'
+  | 'countTokens'
+  | 'embedContent';
+
+/**
+ * A recorded call: the hash of its request and what the model returned.
+ * Streams are recorded as their chunks.
+ */
+interface FixtureInteraction {
+  method: FixtureMethod;
+  key: string;
+  model: string;
+  response?: unknown;
+  chunks?: unknown[];
+}
+
+/**
+ * Hashes the parts of a request that determine the response, leaving out
+ * the abort signal and HTTP options, which differ on every call.
+ */
+function getRequestKey(
+  method: FixtureMethod,
+  request:
+    | GenerateContentParameters
+    | CountTokensParameters
+    | EmbedContentParameters,
+): string {
+  const {
+    abortSignal: _abortSignal,
+    httpOptions: _httpOptions,
+    ...config
+  } = request.config ?? {};
+  return createHash('sha256')
+    .update(JSON.stringify([method, request.model, request.contents, config]))
+    .digest('hex');
+}
+
+function toGenerateContentResponse(data: unknown): GenerateContentResponse {
+  return Object.assign(new GenerateContentResponse(), data);
+}
+
+// Shared by all providers recording to the same file, such as the providers
+// of routed model roles, so that they append to one fixture.
+const recorders = new Map<string, Promise<void>>();
+
+/**
+ * Appends an interaction to a fixture file. The first write of the process
+ * to a file starts it over.
+ */
+function appendInteraction(
+  filePath: string,
+  interaction: FixtureInteraction,
+): Promise<void> {
+  let previous = recorders.get(filePath);
+  if (!previous) {
+    previous = fsp
+      .mkdir(path.dirname(filePath), { recursive: true })
+      .then(() => fsp.writeFile(filePath, '', 'utf-8'));
+    // Allow a later write to start the file over.
+    previous.catch(() => recorders.delete(filePath));
+  }
+  const next = previous.then(() =>
+    fsp.appendFile(filePath, JSON.stringify(interaction) + '\n', 'utf-8'),
+  );
+  // Later writes wait for this one, but do not fail if it fails.
+  recorders.set(
+    filePath,
+    next.catch(() => {}),
+  );
+  return next;
+}
+
+/**
+ * Passes calls through to another provider and records each completed call
+ * to a fixture file for {@link ReplayProvider}. Failed calls and streams
+ * that were not read to the end are not recorded. Calls do not fail when
+ * they cannot be recorded.
+ */
+export class RecordingProvider implements LLMProvider {
+  constructor(
+    private readonly provider: LLMProvider,
+    private readonly filePath: string,
+  ) {}
+
+  async generateContent(
+    request: GenerateContentParameters,
+  ): Promise<GenerateContentResponse> {
+    const response = await this.provider.generateContent(request);
+    await this.record('generateContent', request, { response });
+    return response;
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const stream = await this.provider.generateContentStream(request);
+    return this.recordStream(request, stream);
+  }
+
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
+    const response = await this.provider.countTokens(request);
+    await this.record('countTokens', request, { response });
+    return response;
+  }
+
+  async embedContent(
+    request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    const response = await this.provider.embedContent(request);
+    await this.record('embedContent', request, { response });
+    return response;
+  }
+
+  getProviderName(): string {
+    return this.provider.getProviderName();
+  }
+
+  private async *recordStream(
+    request: GenerateContentParameters,
+    stream: AsyncGenerator<GenerateContentResponse>,
+  ): AsyncGenerator<GenerateContentResponse> {
+    const chunks: GenerateContentResponse[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+    await this.record('generateContentStream', request, { chunks });
+  }
+
+  private async record(
+    method: FixtureMethod,
+    request:
+      | GenerateContentParameters
+      | CountTokensParameters
+      | EmbedContentParameters,
+    result: Pick<FixtureInteraction, 'response' | 'chunks'>,
+  ): Promise<void> {
+    try {
+      await appendInteraction(this.filePath, {
+        method,
+        key: getRequestKey(method, request),
+        model: request.model,
+        ...result,
+      });
+    } catch (error) {
+      console.error(
+        `Failed to record to the provider fixture ${this.filePath}: ${getErrorMessage(error)}`,
+      );
+    }
+  }
+}
+
+/**
+ * The interactions of a fixture file that have not been replayed yet.
+ */
+class FixtureReplayer {
+  private readonly remaining: FixtureInteraction[];
+
+  constructor(
+    interactions: FixtureInteraction[],
+    private readonly filePath: string,
+  ) {
+    this.remaining = [...interactions];
+  }
+
+  /**
+   * Takes the first remaining interaction whose request matches. Requests
+   * that embed the date or the directory listing do not match on another
+   * day or machine, so if `lenient`, failing that it takes the next
+   * remaining interaction of the same method, which is the one a
+   * deterministic session makes next.
+   */
+  take(
+    method: FixtureMethod,
+    key: string,
+    lenient: boolean,
+  ): FixtureInteraction {
+    const matching = this.remaining.findIndex(
+      (interaction) => interaction.method === method && interaction.key === key,
+    );
+    if (matching !== -1) {
+      return this.remaining.splice(matching, 1)[0];
+    }
+    const next = this.remaining.findIndex(
+      (interaction) => interaction.method === method,
+    );
+    if (next === -1) {
+      throw new Error(
+        `The provider fixture ${this.filePath} has no more recorded ${method} calls.`,
+      );
+    }
+    if (!lenient) {
+      throw new Error(
+        `The provider fixture ${this.filePath} has no ${method} call with request hash ${key}; the next recorded one has request hash ${this.remaining[next].key}. Record the fixture again, or replay it leniently to use the next recorded call anyway.`,
+      );
+    }
+    return this.remaining.splice(next, 1)[0];
+  }
+}
+
+// Shared by all providers replaying the same file, so that each recorded
+// call is replayed once, whichever provider makes it.
+const replayers = new Map<string, Promise<FixtureReplayer>>();
+
+async function loadReplayer(filePath: string): Promise<FixtureReplayer> {
+  let content: string;
+  try {
+    content = await fsp.readFile(filePath, 'utf-8');
+  } catch (error) {
+    throw new Error(
+      `Could not read the provider fixture ${filePath}: ${(error as Error).message}`,
+    );
+  }
+  const interactions: FixtureInteraction[] = [];
+  content.split('\n').forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    try {
+      interactions.push(JSON.parse(line) as FixtureInteraction);
+    } catch (error) {
+      throw new Error(
+        `Invalid provider fixture ${filePath} at line ${index + 1}: ${(error as Error).message}`,
+      );
+    }
+  });
+  return new FixtureReplayer(interactions, filePath);
+}
+
+/**
+ * Serves the calls recorded by {@link RecordingProvider} without calling a
+ * model, so that sessions with tool calls can be re-run offline.
+ */
+export class ReplayProvider implements LLMProvider {
+  private constructor(
+    private readonly replayer: FixtureReplayer,
+    private readonly lenient: boolean,
+  ) {}
+
+  /**
+   * Opens a fixture file. Providers opened on the same file share which of
+   * its calls have been replayed. See {@link ProviderFixture.lenient}.
+   */
+  static async open(
+    filePath: string,
+    lenient = false,
+  ): Promise<ReplayProvider> {
+    let replayer = replayers.get(filePath);
+    if (!replayer) {
+      replayer = loadReplayer(filePath);
+      replayers.set(filePath, replayer);
+      // Allow a later attempt to read the file again.
+      replayer.catch(() => replayers.delete(filePath));
+    }
+    return new ReplayProvider(await replayer, lenient);
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+  ): Promise<GenerateContentResponse> {
+    const { response } = this.take('generateContent', request);
+    return toGenerateContentResponse(response);
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const { chunks } = this.take('generateContentStream', request);
+    return (async function* () {
+      for (const chunk of chunks ?? []) {
+        yield toGenerateContentResponse(chunk);
+      }
+    })();
+  }
+
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
+    return this.take('countTokens', request).response as CountTokensResponse;
+  }
+
+  async embedContent(
+    request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    return this.take('embedContent', request).response as EmbedContentResponse;
+  }
+
+  getProviderName(): string {
+    return 'replay';
+  }
+
+  private take(
+    method: FixtureMethod,
+    request:
+      | GenerateContentParameters
+      | CountTokensParameters
+      | EmbedContentParameters,
+  ): FixtureInteraction {
+    return this.replayer.take(
+      method,
+      getRequestKey(method, request),
+      this.lenient,
+    );
+  }
+}
+
+/**
+ * Forgets the fixture files recorded to and replayed in this process.
+ */
+export function clearProviderFixtures(): void {
+  recorders.clear();
+  replayers.clear();
+}
@@ -0,0 +1,202 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { redactHeaders, redactSecrets } from '../utils/redaction.js';
+
+const MAX_LOGGED_LENGTH = 200;
+
+/**
+ * Per-request options for the helpers in this module.
+ */
+export interface HttpOptions {
+  signal?: AbortSignal;
+  /**
+   * Aborts the request, including reading a streamed response, with a
+   * `TimeoutError` after this many milliseconds.
+   */
+  timeoutMs?: number;
+  /**
+   * Logs requests and responses to the console, with secrets redacted.
+   * Mirrors `Config.getDebugMode()`.
+   */
+  debugMode?: boolean;
+}
+
+/**
+ * Thrown when a provider endpoint answers with a non-2xx status. The status
+ * is exposed so that retry and fallback logic can inspect it.
+ */
+export class ProviderHttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'ProviderHttpError';
+  }
+}
+
+/**
+ * Thrown when a provider endpoint cannot be reached. The original error,
+ * whose own cause usually has a system error code such as `ECONNREFUSED`,
+ * is kept so that fallback logic can inspect it.
+ */
+export class ProviderNetworkError extends Error {
+  constructor(
+    message: string,
+    readonly cause: unknown,
+  ) {
+    super(message);
+    this.name = 'ProviderNetworkError';
+  }
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_LOGGED_LENGTH
+    ? `${text.substring(0, MAX_LOGGED_LENGTH)}...`
+    : text;
+}
+
+function debugLog(options: HttpOptions, message: string): void {
+  if (options.debugMode) {
+    console.log(redactSecrets(message));
+  }
+}
+
+/**
+ * POSTs a JSON body and returns the raw response, throwing on network
+ * failures and non-2xx statuses.
+ */
+export async function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  options: HttpOptions = {},
+): Promise<Response> {
+  const requestHeaders: Record<string, string> = {
+    'Content-Type': 'application/json',
+    ...headers,
+  };
+
+  debugLog(options, `Making API request to: ${url}`);
+  debugLog(
+    options,
+    `Request headers: ${JSON.stringify(redactHeaders(requestHeaders))}`,
+  );
+  debugLog(options, `Request body: ${JSON.stringify(body)}`);
+
+  return send(
+    url,
+    { method: 'POST', headers: requestHeaders, body: JSON.stringify(body) },
+    options,
+  );
+}
+
+/**
+ * Sends a GET request and returns the raw response, throwing on network
+ * failures and non-2xx statuses.
+ */
+export async function getJson(
+  url: string,
+  headers: Record<string, string>,
+  options: HttpOptions = {},
+): Promise<Response> {
+  debugLog(options, `Making API request to: ${url}`);
+  return send(
+    url,
+    { method: 'GET', headers: { Accept: 'application/json', ...headers } },
+    options,
+  );
+}
+
+async function send(
+  url: string,
+  init: RequestInit,
+  options: HttpOptions,
+): Promise<Response> {
+  const timeout =
+    options.timeoutMs !== undefined
+      ? AbortSignal.timeout(options.timeoutMs)
+      : undefined;
+  const signals = [options.signal, timeout].filter(
+    (signal): signal is AbortSignal => signal !== undefined,
+  );
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0],
+    });
+  } catch (error) {
+    if (options.signal?.aborted || timeout?.aborted) {
+      throw error;
+    }
+    throw new ProviderNetworkError(
+      `Network error when making API request: ${redactSecrets((error as Error).message)}`,
+      error,
+    );
+  }
+
+  debugLog(options, `API response status: ${response.status}`);
+
+  if (!response.ok) {
+    // Try to get the error response as text
+    let errorText: string;
+    try {
+      errorText = await response.text();
+    } catch (error) {
+      errorText = `Failed to read error response: ${(error as Error).message}`;
+    }
+
+    errorText = redactSecrets(errorText);
+    debugLog(options, `API error response: ${truncate(errorText)}`);
+
+    // If it's not JSON, it's likely an HTML error page
+    const trimmed = errorText.trim();
+    const isJson = trimmed.startsWith('{') || trimmed.startsWith('[');
+    throw new ProviderHttpError(
+      isJson
+        ? `API request failed with status ${response.status}: ${trimmed}`
+        : `API request failed with status ${response.status}. Server returned: ${truncate(errorText)}`,
+      response.status,
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Reads a response body as JSON, with readable errors for the HTML pages
+ * that misconfigured gateways tend to return.
+ */
+export async function readJsonResponse<T>(
+  response: Response,
+  options: HttpOptions = {},
+): Promise<T> {
+  let responseText: string;
+  try {
+    responseText = await response.text();
+  } catch (error) {
+    throw new Error(`Failed to read response: ${(error as Error).message}`);
+  }
+
+  debugLog(options, `API response: ${truncate(responseText)}`);
+
+  const trimmed = responseText.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    // If it's not JSON, it's likely an HTML error page
+    throw new Error(
+      `API returned non-JSON response. Response starts with: ${truncate(responseText)}`,
+    );
+  }
+  try {
+    return JSON.parse(responseText) as T;
+  } catch (error) {
+    throw new Error(
+      `Failed to parse JSON response: ${(error as Error).message}. Response text: ${truncate(responseText)}`,
+    );
+  }
+}
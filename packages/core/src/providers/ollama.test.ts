@@ -0,0 +1,482 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  FinishReason,
+  FunctionCallingConfigMode,
+  GenerateContentResponse,
+  Type,
+} from '@google/genai';
+import { OllamaProvider } from './ollama.js';
+import { tokenLimit } from '../core/tokenLimits.js';
+import { UnsupportedContentError } from '../utils/errors.js';
+
+const mockFetch = vi.fn();
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function ndjsonResponse(lines: unknown[]): Response {
+  return new Response(lines.map((line) => JSON.stringify(line)).join('\n'), {
+    status: 200,
+    headers: { 'Content-Type': 'application/x-ndjson' },
+  });
+}
+
+function requestsTo(path: string): Array<Record<string, unknown>> {
+  return mockFetch.mock.calls
+    .filter(([url]) => (url as string).endsWith(path))
+    .map(([, init]) => JSON.parse((init as RequestInit).body as string));
+}
+
+async function collect(
+  stream: AsyncGenerator<GenerateContentResponse>,
+): Promise<GenerateContentResponse[]> {
+  const chunks: GenerateContentResponse[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('OllamaProvider', () => {
+  let chatResponse: () => Response;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubGlobal('fetch', mockFetch);
+    mockFetch.mockReset();
+    chatResponse = () =>
+      jsonResponse({
+        message: { role: 'assistant', content: 'ok' },
+        done: true,
+        done_reason: 'stop',
+        prompt_eval_count: 5,
+        eval_count: 1,
+      });
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.endsWith('/api/show')) {
+        return jsonResponse({
+          parameters: 'stop "<|eot|>"\nnum_ctx 16384',
+          model_info: { 'llama.context_length': 131072 },
+        });
+      }
+      if (url.endsWith('/api/tags')) {
+        return jsonResponse({
+          models: [{ name: 'llama3.2:latest', model: 'llama3.2:latest' }],
+        });
+      }
+      return chatResponse();
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should send chat requests with settings options and keep_alive', async () => {
+    const provider = new OllamaProvider({
+      apiUrl: 'http://localhost:11434/api/chat',
+      model: 'qwen3:8b',
+      options: { num_ctx: 32768, temperature: 0.7 },
+      keepAlive: '30m',
+    });
+
+    const response = await provider.generateContent({
+      model: 'qwen3:8b',
+      contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+      config: { systemInstruction: 'Be brief.', temperature: 0, topP: 1 },
+    });
+
+    expect(mockFetch.mock.calls[0][0]).toBe('http://localhost:11434/api/chat');
+    expect(requestsTo('/api/chat')[0]).toEqual({
+      model: 'qwen3:8b',
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Hi' },
+      ],
+      options: { temperature: 0.7, top_p: 1, num_ctx: 32768 },
+      keep_alive: '30m',
+      stream: false,
+    });
+    expect(response.text).toBe('ok');
+    expect(response.usageMetadata?.totalTokenCount).toBe(6);
+    // The configured num_ctx is used without asking the server.
+    expect(requestsTo('/api/show')).toEqual([]);
+    expect(tokenLimit('qwen3:8b')).toBe(32768);
+  });
+
+  it("should read the model's num_ctx into the token limit", async () => {
+    const provider = new OllamaProvider({
+      apiUrl: 'http://localhost:11434',
+      model: 'llama3.2:latest',
+    });
+
+    await provider.generateContent({
+      model: 'llama3.2:latest',
+      contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+    });
+    await provider.generateContent({
+      model: 'llama3.2:latest',
+      contents: [{ role: 'user', parts: [{ text: 'Again' }] }],
+    });
+
+    expect(requestsTo('/api/show')).toEqual([{ model: 'llama3.2:latest' }]);
+    expect(tokenLimit('llama3.2:latest')).toBe(16384);
+  });
+
+  it('should list installed models with their context length', async () => {
+    const provider = new OllamaProvider({
+      apiUrl: 'http://localhost:11434/',
+      model: 'llama3.2:latest',
+    });
+
+    await expect(provider.listModels()).resolves.toEqual([
+      { name: 'llama3.2:latest', contextLength: 16384 },
+    ]);
+    expect(mockFetch.mock.calls[0][0]).toBe('http://localhost:11434/api/tags');
+  });
+
+  it('should embed contents with /api/embed', async () => {
+    mockFetch.mockImplementation(async () =>
+      jsonResponse({
+        embeddings: [
+          [0.1, 0.2],
+          [0.3, 0.4],
+        ],
+      }),
+    );
+    const provider = new OllamaProvider({
+      apiUrl: 'http://localhost:11434/api/chat',
+      model: 'llama3.2:latest',
+      keepAlive: '10m',
+    });
+
+    const response = await provider.embedContent({
+      model: 'nomic-embed-text',
+      contents: ['first', 'second'],
+    });
+
+    expect(response.embeddings).toEqual([
+      { values: [0.1, 0.2] },
+      { values: [0.3, 0.4] },
+    ]);
+    expect(requestsTo('/api/embed')).toEqual([
+      {
+        model: 'nomic-embed-text',
+        input: ['first', 'second'],
+        keep_alive: '10m',
+      },
+    ]);
+  });
+
+  it('should convert tools, tool calls, tool results and images', async () => {
+    chatResponse = () =>
+      jsonResponse({
+        message: {
+          role: 'assistant',
+          content: '',
+          tool_calls: [
+            { function: { name: 'read_file', arguments: { path: 'b.txt' } } },
+          ],
+        },
+        done: true,
+        done_reason: 'stop',
+      });
+    const provider = new OllamaProvider({
+      apiUrl: 'http://localhost:11434',
+      model: 'llava',
+    });
+
+    const response = await provider.generateContent({
+      model: 'llava',
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            { text: 'Describe' },
+            { inlineData: { mimeType: 'image/png', data: 'aW1n' } },
+          ],
+        },
+        {
+          role: 'model',
+          parts: [
+            { functionCall: { name: 'read_file', args: { path: 'a.txt' } } },
+          ],
+        },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                name: 'read_file',
+                response: { output: 'hello' },
+              },
+            },
+          ],
+        },
+      ],
+      config: {
+        tools: [
+          {
+            functionDeclarations: [
+              {
+                name: 'read_file',
+                description: 'Reads a file',
+                parameters: {
+                  type: Type.OBJECT,
+                  properties: { path: { type: Type.STRING } },
+                },
+              },
+            ],
+          },
+        ],
+      },
+    });
+
+    const body = requestsTo('/api/chat')[0];
+    expect(body.tools).toEqual([
+      {
+        type: 'function',
+        function: {
+          name: 'read_file',
+          description: 'Reads a file',
+          parameters: {
+            type: 'object',
+            properties: { path: { type: 'string' } },
+          },
+        },
+      },
+    ]);
+    expect(body.messages).toEqual([
+      { role: 'user', content: 'Describe', images: ['aW1n'] },
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+          { function: { name: 'read_file', arguments: { path: 'a.txt' } } },
+        ],
+      },
+      { role: 'tool', content: 'hello', tool_name: 'read_file' },
+    ]);
+    expect(response.functionCalls).toEqual([
+      { name: 'read_file', args: { path: 'b.txt' } },
+    ]);
+  });
+
+  it('should adapt requests to what the model supports', async () => {
+    const provider = new OllamaProvider({
+      apiUrl: 'http://localhost:11434',
+      model: 'deepseek-r1:8b',
+    });
+
+    await provider.generateContent({
+      model: 'deepseek-r1:8b',
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            { text: 'Describe' },
+            { inlineData: { mimeType: 'image/png', data: 'aW1n' } },
+          ],
+        },
+      ],
+      config: {
+        tools: [{ functionDeclarations: [{ name: 'ls' }] }],
+        thinkingConfig: { includeThoughts: true },
+      },
+    });
+
+    const body = requestsTo('/api/chat')[0];
+    expect(body.tools).toBeUndefined();
+    expect(body.think).toBe(true);
+    expect(body.messages).toEqual([
+      {
+        role: 'user',
+        content:
+          'Describe\n[image/png omitted: deepseek-r1:8b does not accept images]',
+      },
+    ]);
+  });
+
+  it('should pass the response schema as the output format', async () => {
+    const provider = new OllamaProvider({
+      apiUrl: 'http://localhost:11434',
+      model: 'llama3.1:8b',
+    });
+
+    await provider.generateContent({
+      model: 'llama3.1:8b',
+      contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: { answer: { type: Type.STRING } },
+        },
+      },
+    });
+    await provider.generateContent({
+      model: 'llama3.1:8b',
+      contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+      config: { responseMimeType: 'application/json' },
+    });
+
+    const [withSchema, withoutSchema] = requestsTo('/api/chat');
+    expect(withSchema.format).toEqual({
+      type: 'object',
+      properties: { answer: { type: 'string' } },
+    });
+    expect(withoutSchema.format).toBe('json');
+  });
+
+  it('should not ask models that cannot think to think', async () => {
+    const provider = new OllamaProvider({
+      apiUrl: 'http://localhost:11434',
+      model: 'llama3.1:8b',
+    });
+
+    await provider.generateContent({
+      model: 'llama3.1:8b',
+      contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+      config: { thinkingConfig: { includeThoughts: true } },
+    });
+
+    expect(requestsTo('/api/chat')[0].think).toBeUndefined();
+  });
+
+  it('should withhold tools when function calling is disabled', async () => {
+    const provider = new OllamaProvider({
+      apiUrl: 'http://localhost:11434',
+      model: 'llama3.2:latest',
+    });
+
+    await provider.generateContent({
+      model: 'llama3.2:latest',
+      contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+      config: {
+        tools: [{ functionDeclarations: [{ name: 'ls' }] }],
+        toolConfig: {
+          functionCallingConfig: { mode: FunctionCallingConfigMode.NONE },
+        },
+      },
+    });
+
+    expect(requestsTo('/api/chat')[0].tools).toBeUndefined();
+  });
+
+  it('should reject unsupported attachments', async () => {
+    const provider = new OllamaProvider({
+      apiUrl: 'http://localhost:11434',
+      model: 'llama3.2:latest',
+    });
+
+    await expect(
+      provider.generateContent({
+        model: 'llama3.2:latest',
+        contents: [
+          {
+            role: 'user',
+            parts: [{ inlineData: { mimeType: 'application/pdf', data: 'x' } }],
+          },
+        ],
+      }),
+    ).rejects.toThrow(UnsupportedContentError);
+  });
+
+  describe('generateContentStream', () => {
+    it('should yield NDJSON deltas and final usage', async () => {
+      chatResponse = () =>
+        ndjsonResponse([
+          { message: { role: 'assistant', thinking: 'Hmm.', content: '' } },
+          { message: { role: 'assistant', content: 'Hel' } },
+          { message: { role: 'assistant', content: 'lo' } },
+          {
+            message: { role: 'assistant', content: '' },
+            done: true,
+            done_reason: 'length',
+            prompt_eval_count: 4,
+            eval_count: 2,
+          },
+        ]);
+      const provider = new OllamaProvider({
+        apiUrl: 'http://localhost:11434',
+        model: 'llama3.2:latest',
+      });
+
+      const chunks = await collect(
+        await provider.generateContentStream({
+          model: 'llama3.2:latest',
+          contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+        }),
+      );
+
+      expect(requestsTo('/api/chat')[0].stream).toBe(true);
+      expect(chunks.map((c) => c.candidates?.[0]?.content?.parts)).toEqual([
+        [{ text: 'Hmm.', thought: true }],
+        [{ text: 'Hel' }],
+        [{ text: 'lo' }],
+        [],
+      ]);
+      const last = chunks[chunks.length - 1];
+      expect(last.candidates?.[0]?.finishReason).toBe(FinishReason.MAX_TOKENS);
+      expect(last.usageMetadata?.totalTokenCount).toBe(6);
+    });
+
+    it('should separate thinking and <think> blocks from the answer', async () => {
+      chatResponse = () =>
+        ndjsonResponse([
+          {
+            message: { role: 'assistant', thinking: 'Hmm.', content: 'Hi' },
+          },
+          { message: { role: 'assistant', content: ' <think>Wait.</th' } },
+          { message: { role: 'assistant', content: 'ink>there' } },
+          { message: { role: 'assistant', content: '' }, done: true },
+        ]);
+      const provider = new OllamaProvider({
+        apiUrl: 'http://localhost:11434',
+        model: 'qwen3:8b',
+      });
+
+      const chunks = await collect(
+        await provider.generateContentStream({
+          model: 'qwen3:8b',
+          contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+        }),
+      );
+
+      expect(chunks.map((c) => c.candidates?.[0]?.content?.parts)).toEqual([
+        [{ text: 'Hmm.', thought: true }],
+        [{ text: 'Hi' }],
+        [{ text: 'Wait.', thought: true }],
+        [{ text: ' ' }],
+        [{ text: 'there' }],
+        [],
+      ]);
+    });
+
+    it('should throw on an error line', async () => {
+      chatResponse = () => ndjsonResponse([{ error: 'model not found' }]);
+      const provider = new OllamaProvider({
+        apiUrl: 'http://localhost:11434',
+        model: 'missing',
+      });
+
+      const stream = await provider.generateContentStream({
+        model: 'missing',
+        contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+      });
+
+      await expect(collect(stream)).rejects.toThrow(/model not found/);
+    });
+  });
+});
@@ -0,0 +1,567 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  ContentListUnion,
+  ContentUnion,
+  FinishReason,
+  FunctionCallingConfigMode,
+  GenerateContentConfig,
+  GenerateContentResponse,
+  GenerateContentParameters,
+  CountTokensResponse,
+  CountTokensParameters,
+  EmbedContentResponse,
+  EmbedContentParameters,
+  Part,
+} from '@google/genai';
+import {
+  LLMModelInfo,
+  LLMProvider,
+  LLMProviderConfig,
+} from '../core/llmProvider.js';
+import { getModelCapabilities } from '../core/modelCapabilities.js';
+import { setTokenLimit } from '../core/tokenLimits.js';
+import { UnsupportedContentError } from '../utils/errors.js';
+import { parseNdjson } from '../utils/ndjson.js';
+import {
+  ThinkTagParser,
+  contentToText,
+  embedInBatches,
+  functionResponseToString,
+  getFunctionDeclarations,
+  getParametersJsonSchema,
+  getResponseJsonSchema,
+  omitImages,
+  separateThoughts,
+  toContent,
+  toContents,
+} from './converter.js';
+import { AuthorizedRequest, withAuthorization } from './auth.js';
+import { TokenCounter } from './tokenizer.js';
+import { HttpOptions, getJson, postJson, readJsonResponse } from './http.js';
+
+interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments?: Record<string, unknown>;
+  };
+}
+
+interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  images?: string[];
+  thinking?: string;
+  tool_calls?: OllamaToolCall[];
+  tool_name?: string;
+}
+
+interface OllamaChatResponse {
+  message?: OllamaMessage;
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+interface OllamaTagsResponse {
+  models?: Array<{ name: string; model?: string }>;
+}
+
+interface OllamaShowResponse {
+  parameters?: string;
+  model_info?: Record<string, unknown>;
+}
+
+interface OllamaEmbedResponse {
+  embeddings?: number[][];
+  error?: string;
+}
+
+// Bounds the size of each request; Ollama embeds a batch in one pass.
+const EMBEDDING_BATCH_SIZE = 100;
+
+/**
+ * A provider that speaks Ollama's native API. Unlike Ollama's
+ * OpenAI-compatible endpoint, this exposes model discovery (`/api/tags`,
+ * `/api/show`), the model's configured context length, `options` such as
+ * `num_ctx`, and `keep_alive`.
+ */
+export class OllamaProvider implements LLMProvider {
+  private contextLengthDiscovery?: Promise<void>;
+  private readonly tokenCounter: TokenCounter;
+
+  constructor(private readonly config: LLMProviderConfig) {
+    this.tokenCounter = new TokenCounter(config.tokenizer);
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+  ): Promise<GenerateContentResponse> {
+    await this.discoverContextLength();
+    const response = await this.withAuthorization('/api/chat', (authorized) =>
+      postJson(
+        authorized.url,
+        authorized.headers,
+        { ...this.prepareRequest(request), stream: false },
+        this.httpOptions(request.config?.abortSignal),
+      ),
+    );
+    const chat = await readJsonResponse<OllamaChatResponse>(
+      response,
+      this.httpOptions(),
+    );
+    if (chat.error) {
+      throw new Error(`API returned an error: ${chat.error}`);
+    }
+    return toResponse(chat, new ThinkTagParser(this.splitsThinkTags()));
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    await this.discoverContextLength();
+    const response = await this.withAuthorization('/api/chat', (authorized) =>
+      postJson(
+        authorized.url,
+        authorized.headers,
+        { ...this.prepareRequest(request), stream: true },
+        this.httpOptions(request.config?.abortSignal),
+      ),
+    );
+    if (!response.body) {
+      throw new Error('API returned an empty streaming response.');
+    }
+    return this.parseStream(response.body);
+  }
+
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
+    // Not calibrated: prompt_eval_count leaves out the prompt prefix that
+    // Ollama reuses from its cache, so it undercounts on every later turn.
+    return {
+      totalTokens: await this.tokenCounter.countTokens(
+        request.model,
+        request.contents,
+      ),
+    };
+  }
+
+  /**
+   * Embeds the contents with `/api/embed`, using the model of the request.
+   */
+  async embedContent(
+    request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    const dimensions = request.config?.outputDimensionality;
+    return embedInBatches(request, EMBEDDING_BATCH_SIZE, async (input) => {
+      const response = await this.withAuthorization(
+        '/api/embed',
+        (authorized) =>
+          postJson(
+            authorized.url,
+            authorized.headers,
+            {
+              model: request.model,
+              input,
+              ...(dimensions !== undefined ? { dimensions } : {}),
+              ...(this.config.keepAlive !== undefined
+                ? { keep_alive: this.config.keepAlive }
+                : {}),
+            },
+            this.httpOptions(request.config?.abortSignal),
+          ),
+      );
+      const embed = await readJsonResponse<OllamaEmbedResponse>(
+        response,
+        this.httpOptions(),
+      );
+      if (embed.error) {
+        throw new Error(`API returned an error: ${embed.error}`);
+      }
+      return embed.embeddings ?? [];
+    });
+  }
+
+  getProviderName(): string {
+    return 'Ollama';
+  }
+
+  /**
+   * Lists the locally installed models along with their context length.
+   */
+  async listModels(): Promise<LLMModelInfo[]> {
+    const response = await this.withAuthorization('/api/tags', (authorized) =>
+      getJson(authorized.url, authorized.headers, this.httpOptions()),
+    );
+    const tags = await readJsonResponse<OllamaTagsResponse>(
+      response,
+      this.httpOptions(),
+    );
+    return Promise.all(
+      (tags.models ?? []).map(async (model) => {
+        const name = model.model ?? model.name;
+        const contextLength = await this.getContextLength(name).catch(
+          () => undefined,
+        );
+        return { name, contextLength };
+      }),
+    );
+  }
+
+  /**
+   * Accepts the server root as well as a full endpoint URL such as
+   * `http://localhost:11434/api/chat`.
+   */
+  private getBaseUrl(): string {
+    return this.config.apiUrl
+      .replace(/\/+$/, '')
+      .replace(/\/(api|v1)(\/.*)?$/, '');
+  }
+
+  private httpOptions(signal?: AbortSignal): HttpOptions {
+    return {
+      signal,
+      debugMode: this.config.debugMode,
+      timeoutMs:
+        this.config.timeoutSeconds !== undefined
+          ? this.config.timeoutSeconds * 1000
+          : undefined,
+    };
+  }
+
+  private withAuthorization(
+    path: string,
+    send: (authorized: AuthorizedRequest) => Promise<Response>,
+  ): Promise<Response> {
+    // Ollama ignores credentials, but reverse proxies in front of it may not.
+    return withAuthorization(
+      `${this.getBaseUrl()}${path}`,
+      { ...this.config.headers },
+      this.config.apiKey,
+      this.config.authScheme ?? 'bearer',
+      send,
+    );
+  }
+
+  /**
+   * Reads the context length of the configured model once and records it
+   * as the model's token limit. Discovery is best-effort: if the server
+   * cannot describe the model, the default limit stays in place.
+   */
+  private discoverContextLength(): Promise<void> {
+    this.contextLengthDiscovery ??= this.getContextLength(this.config.model)
+      .then((contextLength) => {
+        if (contextLength) {
+          setTokenLimit(this.config.model, contextLength);
+        }
+      })
+      .catch(() => {});
+    return this.contextLengthDiscovery;
+  }
+
+  /**
+   * Resolves the context length a model runs with: `num_ctx` from the
+   * configured options, then the model's own `num_ctx` parameter, then the
+   * context length the model was trained with.
+   */
+  private async getContextLength(model: string): Promise<number | undefined> {
+    const configured = toPositiveInteger(this.config.options?.['num_ctx']);
+    if (configured) {
+      return configured;
+    }
+
+    const response = await this.withAuthorization('/api/show', (authorized) =>
+      postJson(
+        authorized.url,
+        authorized.headers,
+        { model },
+        this.httpOptions(),
+      ),
+    );
+    const show = await readJsonResponse<OllamaShowResponse>(
+      response,
+      this.httpOptions(),
+    );
+
+    const numCtx = show.parameters?.match(/^\s*num_ctx\s+(\d+)/m);
+    if (numCtx) {
+      return Number(numCtx[1]);
+    }
+    for (const [key, value] of Object.entries(show.model_info ?? {})) {
+      if (key.endsWith('.context_length')) {
+        return toPositiveInteger(value);
+      }
+    }
+    return undefined;
+  }
+
+  private prepareRequest(
+    request: GenerateContentParameters,
+  ): Record<string, unknown> {
+    const config: GenerateContentConfig = request.config ?? {};
+    const capabilities = getModelCapabilities(this.config.model);
+    const body: Record<string, unknown> = {
+      model: this.config.model,
+      messages: [
+        ...this.convertSystemInstruction(config.systemInstruction),
+        ...this.convertContentsToMessages(
+          capabilities.supportsVision
+            ? request.contents
+            : omitImages(request.contents, this.config.model),
+        ),
+      ],
+    };
+
+    const declarations = capabilities.supportsTools
+      ? getFunctionDeclarations(config.tools)
+      : [];
+    const toolsDisabled =
+      config.toolConfig?.functionCallingConfig?.mode ===
+      FunctionCallingConfigMode.NONE;
+    // Ollama has no tool_choice; withholding the tools is the only way to
+    // prevent tool calls.
+    if (declarations.length > 0 && !toolsDisabled) {
+      body.tools = declarations.map((declaration) => ({
+        type: 'function',
+        function: {
+          name: declaration.name ?? '',
+          description: declaration.description,
+          parameters: getParametersJsonSchema(declaration),
+        },
+      }));
+    }
+
+    const responseSchema = getResponseJsonSchema(config);
+    if (responseSchema) {
+      body.format =
+        Object.keys(responseSchema).length > 0 ? responseSchema : 'json';
+    }
+
+    // Ollama rejects `think` for models that cannot think.
+    const thinkingConfig = config.thinkingConfig;
+    if (
+      capabilities.supportsReasoning &&
+      thinkingConfig &&
+      (thinkingConfig.includeThoughts ||
+        (thinkingConfig.thinkingBudget ?? 0) !== 0)
+    ) {
+      body.think = true;
+    }
+
+    const options: Record<string, unknown> = {};
+    if (config.temperature !== undefined) {
+      options.temperature = config.temperature;
+    }
+    if (config.topP !== undefined) {
+      options.top_p = config.topP;
+    }
+    if (config.topK !== undefined) {
+      options.top_k = config.topK;
+    }
+    if (config.maxOutputTokens !== undefined) {
+      options.num_predict = Math.min(
+        config.maxOutputTokens,
+        capabilities.maxOutputTokens ?? config.maxOutputTokens,
+      );
+    }
+    if (config.stopSequences !== undefined) {
+      options.stop = config.stopSequences;
+    }
+    if (config.seed !== undefined) {
+      options.seed = config.seed;
+    }
+    // Options from settings win over the CLI's per-request defaults.
+    Object.assign(options, this.config.options);
+    if (Object.keys(options).length > 0) {
+      body.options = options;
+    }
+
+    if (this.config.keepAlive !== undefined) {
+      body.keep_alive = this.config.keepAlive;
+    }
+
+    return body;
+  }
+
+  private convertSystemInstruction(
+    systemInstruction: ContentUnion | undefined,
+  ): OllamaMessage[] {
+    if (!systemInstruction) {
+      return [];
+    }
+    const text = contentToText(toContent(systemInstruction));
+    return text ? [{ role: 'system', content: text }] : [];
+  }
+
+  private convertContentsToMessages(
+    contents: ContentListUnion,
+  ): OllamaMessage[] {
+    const messages: OllamaMessage[] = [];
+
+    for (const content of toContents(contents)) {
+      const parts = content.parts ?? [];
+
+      if (content.role === 'model') {
+        const text = parts
+          .filter((part) => !part.thought && part.text)
+          .map((part) => part.text)
+          .join('');
+        const toolCalls: OllamaToolCall[] = parts
+          .filter((part) => part.functionCall)
+          .map((part) => ({
+            function: {
+              name: part.functionCall!.name ?? '',
+              arguments: part.functionCall!.args ?? {},
+            },
+          }));
+        if (!text && toolCalls.length === 0) {
+          continue;
+        }
+        messages.push({
+          role: 'assistant',
+          content: text,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        });
+        continue;
+      }
+
+      // Tool results must directly follow the assistant message that
+      // requested them, so they are emitted before any other user content.
+      const texts: string[] = [];
+      const images: string[] = [];
+      for (const part of parts) {
+        if (part.functionResponse) {
+          messages.push({
+            role: 'tool',
+            content: functionResponseToString(part.functionResponse),
+            tool_name: part.functionResponse.name,
+          });
+        } else {
+          this.convertPart(part, texts, images);
+        }
+      }
+      if (texts.length > 0 || images.length > 0) {
+        messages.push({
+          role: 'user',
+          content: texts.join('\n'),
+          ...(images.length > 0 ? { images } : {}),
+        });
+      }
+    }
+
+    return messages;
+  }
+
+  private convertPart(part: Part, texts: string[], images: string[]): void {
+    if (part.text) {
+      texts.push(part.text);
+      return;
+    }
+    const mimeType = part.inlineData?.mimeType ?? part.fileData?.mimeType;
+    if (part.inlineData?.data && mimeType?.startsWith('image/')) {
+      images.push(part.inlineData.data);
+      return;
+    }
+    if (part.inlineData?.data && mimeType?.startsWith('text/')) {
+      texts.push(Buffer.from(part.inlineData.data, 'base64').toString('utf-8'));
+      return;
+    }
+    if (mimeType || part.fileData) {
+      throw new UnsupportedContentError(
+        this.getProviderName(),
+        mimeType ?? 'application/octet-stream',
+      );
+    }
+  }
+
+  /** Only reasoning models put their reasoning in `<think>` tags. */
+  private splitsThinkTags(): boolean {
+    return getModelCapabilities(this.config.model).supportsReasoning;
+  }
+
+  private async *parseStream(
+    body: ReadableStream<Uint8Array>,
+  ): AsyncGenerator<GenerateContentResponse> {
+    const thinkTags = new ThinkTagParser(this.splitsThinkTags());
+    for await (const chunk of parseNdjson<OllamaChatResponse>(body)) {
+      if (chunk.error) {
+        throw new Error(`API stream returned an error: ${chunk.error}`);
+      }
+      const response = toResponse(chunk, thinkTags);
+      // Skip the empty keep-alive chunks Ollama sends between tokens.
+      if (
+        chunk.done ||
+        response.candidates?.[0]?.content?.parts?.some(
+          (part) => part.text || part.functionCall,
+        )
+      ) {
+        yield* separateThoughts(response);
+      }
+    }
+  }
+}
+
+/**
+ * Converts a chat response, or one chunk of a streamed one. Models that are
+ * not run with `think` may still reason in `<think>` tags in their content.
+ */
+function toResponse(
+  chat: OllamaChatResponse,
+  thinkTags: ThinkTagParser,
+): GenerateContentResponse {
+  const parts: Part[] = [];
+  const message = chat.message;
+  if (message?.thinking) {
+    parts.push({ text: message.thinking, thought: true });
+  }
+  if (message?.content) {
+    parts.push(...thinkTags.push(message.content));
+  }
+  if (chat.done) {
+    parts.push(...thinkTags.flush());
+  }
+  for (const toolCall of message?.tool_calls ?? []) {
+    parts.push({
+      functionCall: {
+        name: toolCall.function.name,
+        args: toolCall.function.arguments ?? {},
+      },
+    });
+  }
+
+  const response = new GenerateContentResponse();
+  response.candidates = [
+    {
+      content: { role: 'model', parts },
+      finishReason: chat.done ? toFinishReason(chat.done_reason) : undefined,
+    },
+  ];
+  if (chat.done) {
+    const promptTokenCount = chat.prompt_eval_count ?? 0;
+    const candidatesTokenCount = chat.eval_count ?? 0;
+    response.usageMetadata = {
+      promptTokenCount,
+      candidatesTokenCount,
+      totalTokenCount: promptTokenCount + candidatesTokenCount,
+    };
+  }
+  return response;
+}
+
+function toFinishReason(doneReason: string | undefined): FinishReason {
+  return doneReason === 'length' ? FinishReason.MAX_TOKENS : FinishReason.STOP;
+}
+
+function toPositiveInteger(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isInteger(number) && number > 0
+    ? number
+    : undefined;
+}
@@ -0,0 +1,1164 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import {
+  FinishReason,
+  FunctionCallingConfigMode,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  Type,
+} from '@google/genai';
+import { OpenAICompatibleProvider } from './openaiCompatible.js';
+import { clearTokenCalibrations } from './tokenizer.js';
+import { setModelCapabilityOverrides } from '../core/modelCapabilities.js';
+import { UnsupportedContentError } from '../utils/errors.js';
+
+const mockFetch = vi.fn();
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function lastRequestBody(): Record<string, unknown> {
+  const [, init] = mockFetch.mock.calls[mockFetch.mock.calls.length - 1];
+  return JSON.parse((init as RequestInit).body as string);
+}
+
+describe('OpenAICompatibleProvider', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('tool calling', () => {
+    let provider: OpenAICompatibleProvider;
+
+    beforeEach(() => {
+      vi.stubGlobal('fetch', mockFetch);
+      mockFetch.mockResolvedValue(
+        jsonResponse({
+          choices: [{ message: { content: 'ok' }, finish_reason: 'stop' }],
+        }),
+      );
+      provider = new OpenAICompatibleProvider({
+        apiUrl: 'https://api.example.com/v1/chat/completions',
+        apiKey: 'test-key',
+        model: 'test-model',
+      });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      mockFetch.mockReset();
+    });
+
+    const request: GenerateContentParameters = {
+      model: 'test-model',
+      contents: [{ role: 'user', parts: [{ text: 'read it' }] }],
+      config: {
+        tools: [
+          {
+            functionDeclarations: [
+              {
+                name: 'read_file',
+                description: 'Reads a file',
+                parameters: {
+                  type: Type.OBJECT,
+                  properties: {
+                    absolute_path: { type: Type.STRING, minLength: '1' },
+                    limit: { type: Type.NUMBER },
+                  },
+                  required: ['absolute_path'],
+                },
+              },
+              {
+                name: 'mcp_tool',
+                parametersJsonSchema: {
+                  type: 'object',
+                  properties: { query: { type: 'string' } },
+                },
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    it('should translate function declarations to OpenAI tools', async () => {
+      await provider.generateContent(request);
+
+      const body = lastRequestBody();
+      expect(body.tool_choice).toBe('auto');
+      expect(body.tools).toEqual([
+        {
+          type: 'function',
+          function: {
+            name: 'read_file',
+            description: 'Reads a file',
+            parameters: {
+              type: 'object',
+              properties: {
+                absolute_path: { type: 'string', minLength: 1 },
+                limit: { type: 'number' },
+              },
+              required: ['absolute_path'],
+            },
+          },
+        },
+        {
+          type: 'function',
+          function: {
+            name: 'mcp_tool',
+            parameters: {
+              type: 'object',
+              properties: { query: { type: 'string' } },
+            },
+          },
+        },
+      ]);
+    });
+
+    it('should map the function calling mode to tool_choice', async () => {
+      await provider.generateContent({
+        ...request,
+        config: {
+          ...request.config,
+          toolConfig: {
+            functionCallingConfig: {
+              mode: FunctionCallingConfigMode.ANY,
+              allowedFunctionNames: ['read_file'],
+            },
+          },
+        },
+      });
+
+      expect(lastRequestBody().tool_choice).toEqual({
+        type: 'function',
+        function: { name: 'read_file' },
+      });
+    });
+
+    it('should not send tools when none are declared', async () => {
+      await provider.generateContent({
+        model: 'test-model',
+        contents: 'hello',
+      });
+
+      const body = lastRequestBody();
+      expect(body.tools).toBeUndefined();
+      expect(body.tool_choice).toBeUndefined();
+    });
+
+    it('should map returned tool_calls to functionCall parts', async () => {
+      mockFetch.mockResolvedValue(
+        jsonResponse({
+          choices: [
+            {
+              finish_reason: 'tool_calls',
+              message: {
+                content: null,
+                tool_calls: [
+                  {
+                    id: 'call_abc',
+                    type: 'function',
+                    function: {
+                      name: 'read_file',
+                      arguments: '{"absolute_path":"/tmp/a.txt"}',
+                    },
+                  },
+                ],
+              },
+            },
+          ],
+        }),
+      );
+
+      const response = await provider.generateContent(request);
+
+      expect(response.functionCalls).toEqual([
+        {
+          id: 'call_abc',
+          name: 'read_file',
+          args: { absolute_path: '/tmp/a.txt' },
+        },
+      ]);
+      expect(response.candidates?.[0]?.finishReason).toBe(FinishReason.STOP);
+    });
+
+    it('should send functionResponse parts back as tool messages', async () => {
+      await provider.generateContent({
+        model: 'test-model',
+        contents: [
+          { role: 'user', parts: [{ text: 'read it' }] },
+          {
+            role: 'model',
+            parts: [
+              { text: 'Reading.' },
+              {
+                functionCall: {
+                  id: 'call_abc',
+                  name: 'read_file',
+                  args: { absolute_path: '/tmp/a.txt' },
+                },
+              },
+            ],
+          },
+          {
+            role: 'user',
+            parts: [
+              {
+                functionResponse: {
+                  id: 'call_abc',
+                  name: 'read_file',
+                  response: { output: 'file contents' },
+                },
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(lastRequestBody().messages).toEqual([
+        { role: 'user', content: 'read it' },
+        {
+          role: 'assistant',
+          content: 'Reading.',
+          tool_calls: [
+            {
+              id: 'call_abc',
+              type: 'function',
+              function: {
+                name: 'read_file',
+                arguments: '{"absolute_path":"/tmp/a.txt"}',
+              },
+            },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'call_abc', content: 'file contents' },
+      ]);
+    });
+
+    it('should pair calls and responses without ids by name', async () => {
+      await provider.generateContent({
+        model: 'test-model',
+        contents: [
+          {
+            role: 'model',
+            parts: [
+              { functionCall: { name: 'ls', args: {} } },
+              { functionCall: { name: 'read_file', args: {} } },
+            ],
+          },
+          {
+            role: 'user',
+            parts: [
+              {
+                functionResponse: {
+                  name: 'read_file',
+                  response: { error: 'not found' },
+                },
+              },
+              { functionResponse: { name: 'ls', response: { output: 'a' } } },
+            ],
+          },
+        ],
+      });
+
+      const messages = lastRequestBody().messages as Array<
+        Record<string, unknown>
+      >;
+      expect(messages[1]).toEqual({
+        role: 'tool',
+        tool_call_id: 'call_1',
+        content: '{"error":"not found"}',
+      });
+      expect(messages[2]).toEqual({
+        role: 'tool',
+        tool_call_id: 'call_0',
+        content: 'a',
+      });
+    });
+  });
+
+  describe('system instructions and multimodal parts', () => {
+    let provider: OpenAICompatibleProvider;
+
+    beforeEach(() => {
+      vi.stubGlobal('fetch', mockFetch);
+      mockFetch.mockResolvedValue(
+        jsonResponse({ choices: [{ message: { content: 'ok' } }] }),
+      );
+      provider = new OpenAICompatibleProvider({
+        apiUrl: 'https://api.example.com/v1/chat/completions',
+        model: 'test-model',
+      });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      mockFetch.mockReset();
+    });
+
+    it('should send the system instruction as a system message', async () => {
+      await provider.generateContent({
+        model: 'test-model',
+        contents: 'hi',
+        config: { systemInstruction: { text: 'You are a CLI agent.' } },
+      });
+
+      expect(lastRequestBody().messages).toEqual([
+        { role: 'system', content: 'You are a CLI agent.' },
+        { role: 'user', content: 'hi' },
+      ]);
+    });
+
+    it('should map inline images to image_url data URIs', async () => {
+      await provider.generateContent({
+        model: 'test-model',
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              { text: 'What is in this image?' },
+              { inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } },
+            ],
+          },
+        ],
+      });
+
+      expect(lastRequestBody().messages).toEqual([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is in this image?' },
+            {
+              type: 'image_url',
+              image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' },
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should send media from tool results after the tool message', async () => {
+      await provider.generateContent({
+        model: 'test-model',
+        contents: [
+          {
+            role: 'model',
+            parts: [
+              { functionCall: { id: 'c1', name: 'read_file', args: {} } },
+            ],
+          },
+          {
+            role: 'user',
+            parts: [
+              {
+                functionResponse: {
+                  id: 'c1',
+                  name: 'read_file',
+                  response: { output: 'Binary content of type image/jpeg.' },
+                },
+              },
+              { inlineData: { mimeType: 'image/jpeg', data: 'AAAA' } },
+            ],
+          },
+        ],
+      });
+
+      const messages = lastRequestBody().messages as Array<
+        Record<string, unknown>
+      >;
+      expect(messages.map((message) => message.role)).toEqual([
+        'assistant',
+        'tool',
+        'user',
+      ]);
+      expect(messages[2].content).toEqual([
+        {
+          type: 'image_url',
+          image_url: { url: 'data:image/jpeg;base64,AAAA' },
+        },
+      ]);
+    });
+
+    it('should reject content types the provider cannot represent', async () => {
+      await expect(
+        provider.generateContent({
+          model: 'test-model',
+          contents: [
+            {
+              role: 'user',
+              parts: [
+                { inlineData: { mimeType: 'application/pdf', data: 'JVBE' } },
+              ],
+            },
+          ],
+        }),
+      ).rejects.toThrow(UnsupportedContentError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('debug output', () => {
+    beforeEach(() => {
+      vi.stubGlobal('fetch', mockFetch);
+      mockFetch.mockImplementation(async () =>
+        jsonResponse({ choices: [{ message: { content: 'ok' } }] }),
+      );
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      mockFetch.mockReset();
+    });
+
+    const request: GenerateContentParameters = {
+      model: 'test-model',
+      contents: [{ role: 'user', parts: [{ text: 'hi' }] }],
+    };
+
+    it('should not log requests outside debug mode', async () => {
+      const provider = new OpenAICompatibleProvider({
+        apiUrl: 'https://api.openai.com/v1/chat/completions',
+        apiKey: 'sk-secret-key-value',
+        model: 'test-model',
+      });
+
+      await provider.generateContent(request);
+      expect(console.log).not.toHaveBeenCalled();
+    });
+
+    it('should redact credentials from debug logs', async () => {
+      const provider = new OpenAICompatibleProvider({
+        apiUrl: 'https://api.openai.com/v1/chat/completions',
+        apiKey: 'custom-secret-value',
+        authScheme: { type: 'header', name: 'X-Custom-Auth' },
+        model: 'test-model',
+        debugMode: true,
+      });
+
+      await provider.generateContent(request);
+      const logged = vi
+        .mocked(console.log)
+        .mock.calls.map((args) => args.join(' '))
+        .join('\n');
+      expect(logged).toContain('Request headers');
+      expect(logged).not.toContain('custom-secret-value');
+    });
+  });
+
+  describe('listModels', () => {
+    beforeEach(() => {
+      vi.stubGlobal('fetch', mockFetch);
+      mockFetch.mockImplementation(async () =>
+        jsonResponse({
+          object: 'list',
+          data: [{ id: 'gpt-4o' }, { id: 'gpt-4o-mini' }],
+        }),
+      );
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      mockFetch.mockReset();
+    });
+
+    it('should query the models endpoint next to the completions URL', async () => {
+      const provider = new OpenAICompatibleProvider({
+        apiUrl: 'https://api.openai.com/v1/chat/completions',
+        apiKey: 'sk-test',
+        model: 'gpt-4o',
+      });
+
+      await expect(provider.listModels()).resolves.toEqual([
+        { name: 'gpt-4o' },
+        { name: 'gpt-4o-mini' },
+      ]);
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe('https://api.openai.com/v1/models');
+      expect(init.headers).toMatchObject({ Authorization: 'Bearer sk-test' });
+    });
+
+    it('should honour an explicit auth scheme', async () => {
+      const provider = new OpenAICompatibleProvider({
+        apiUrl: 'https://example.openai.azure.com/openai/v1/chat/completions',
+        apiKey: 'azure-key',
+        authScheme: { type: 'header', name: 'api-key' },
+        model: 'gpt-4o',
+      });
+
+      await provider.listModels();
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.headers['api-key']).toBe('azure-key');
+      expect(init.headers).not.toHaveProperty('X-API-Key');
+    });
+
+    it('should append /models to a base URL', async () => {
+      const provider = new OpenAICompatibleProvider({
+        apiUrl: 'http://localhost:8080/v1/',
+        model: 'local',
+      });
+
+      await provider.listModels();
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'http://localhost:8080/v1/models',
+      );
+    });
+  });
+
+  describe('embedContent', () => {
+    beforeEach(() => {
+      vi.stubGlobal('fetch', mockFetch);
+      mockFetch.mockImplementation(async (_url, init: RequestInit) => {
+        const { input } = JSON.parse(init.body as string) as {
+          input: string[];
+        };
+        // Returned out of order, as the API allows.
+        return jsonResponse({
+          data: input
+            .map((text, index) => ({ embedding: [text.length], index }))
+            .reverse(),
+        });
+      });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      mockFetch.mockReset();
+    });
+
+    it('should embed each content with the embeddings endpoint', async () => {
+      const provider = new OpenAICompatibleProvider({
+        apiUrl: 'https://api.openai.com/v1/chat/completions',
+        apiKey: 'sk-test',
+        model: 'gpt-4o',
+      });
+
+      const response = await provider.embedContent({
+        model: 'text-embedding-3-small',
+        contents: ['a', 'bb', 'ccc'],
+        config: { outputDimensionality: 256 },
+      });
+
+      expect(response.embeddings).toEqual([
+        { values: [1] },
+        { values: [2] },
+        { values: [3] },
+      ]);
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://api.openai.com/v1/embeddings',
+      );
+      expect(lastRequestBody()).toEqual({
+        model: 'text-embedding-3-small',
+        input: ['a', 'bb', 'ccc'],
+        dimensions: 256,
+      });
+    });
+
+    it('should send large requests in batches', async () => {
+      const provider = new OpenAICompatibleProvider({
+        apiUrl: 'http://localhost:8080/v1',
+        model: 'local',
+      });
+      const texts = Array.from({ length: 250 }, (_, i) => 'x'.repeat(i + 1));
+
+      const response = await provider.embedContent({
+        model: 'embedder',
+        contents: texts,
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(lastRequestBody().input).toHaveLength(50);
+      expect(response.embeddings?.map((e) => e.values?.[0])).toEqual(
+        texts.map((text) => text.length),
+      );
+    });
+
+    it('should reject a response with a missing embedding', async () => {
+      mockFetch.mockImplementation(async () =>
+        jsonResponse({ data: [{ embedding: [1], index: 0 }] }),
+      );
+      const provider = new OpenAICompatibleProvider({
+        apiUrl: 'http://localhost:8080/v1',
+        model: 'local',
+      });
+
+      await expect(
+        provider.embedContent({ model: 'embedder', contents: ['a', 'b'] }),
+      ).rejects.toThrow(
+        'API returned a mismatched number of embeddings. Expected 2, got 1.',
+      );
+    });
+  });
+
+  describe('structured output', () => {
+    const schema = {
+      type: Type.OBJECT,
+      properties: { next_speaker: { type: Type.STRING } },
+      required: ['next_speaker'],
+    };
+    const jsonSchema = {
+      type: 'object',
+      properties: { next_speaker: { type: 'string' } },
+      required: ['next_speaker'],
+    };
+
+    function requestJson(model: string) {
+      return new OpenAICompatibleProvider({
+        apiUrl: 'https://api.example.com/v1/chat/completions',
+        model,
+      }).generateContent({
+        model,
+        contents: [{ role: 'user', parts: [{ text: 'Who speaks next?' }] }],
+        config: {
+          responseSchema: schema,
+          responseMimeType: 'application/json',
+        },
+      });
+    }
+
+    beforeEach(() => {
+      vi.stubGlobal('fetch', mockFetch);
+      mockFetch.mockImplementation(async () =>
+        jsonResponse({
+          choices: [
+            {
+              message: { content: '{"next_speaker":"user"}' },
+              finish_reason: 'stop',
+            },
+          ],
+        }),
+      );
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      mockFetch.mockReset();
+    });
+
+    it('should use a JSON schema response format when the model supports it', async () => {
+      const response = await requestJson('gpt-4o');
+
+      expect(lastRequestBody().response_format).toEqual({
+        type: 'json_schema',
+        json_schema: { name: 'json_response', schema: jsonSchema },
+      });
+      expect(lastRequestBody().tools).toBeUndefined();
+      expect(response.text).toBe('{"next_speaker":"user"}');
+    });
+
+    it('should force a tool call for models without structured output', async () => {
+      mockFetch.mockImplementation(async () =>
+        jsonResponse({
+          choices: [
+            {
+              message: {
+                content: null,
+                tool_calls: [
+                  {
+                    id: 'call_1',
+                    type: 'function',
+                    function: {
+                      name: 'json_response',
+                      arguments: '{"next_speaker":"model"}',
+                    },
+                  },
+                ],
+              },
+              finish_reason: 'tool_calls',
+            },
+          ],
+        }),
+      );
+
+      const response = await requestJson('llama3.1:8b');
+
+      const body = lastRequestBody();
+      expect(body.response_format).toBeUndefined();
+      expect(body.tools).toEqual([
+        {
+          type: 'function',
+          function: {
+            name: 'json_response',
+            description: 'Returns the response as JSON.',
+            parameters: jsonSchema,
+          },
+        },
+      ]);
+      expect(body.tool_choice).toEqual({
+        type: 'function',
+        function: { name: 'json_response' },
+      });
+      expect(response.functionCalls).toBeUndefined();
+      expect(response.text).toBe('{"next_speaker":"model"}');
+    });
+
+    it('should ask for JSON in the prompt when neither is supported', async () => {
+      await requestJson('o1-mini');
+
+      const body = lastRequestBody();
+      expect(body.response_format).toBeUndefined();
+      expect(body.tools).toBeUndefined();
+      const messages = body.messages as Array<{
+        role: string;
+        content: string;
+      }>;
+      expect(messages[0].role).toBe('system');
+      expect(messages[0].content).toContain(JSON.stringify(jsonSchema));
+    });
+  });
+
+  describe('reasoning', () => {
+    function generate(
+      model: string,
+      thinkingBudget?: number,
+    ): Promise<GenerateContentResponse> {
+      return new OpenAICompatibleProvider({
+        apiUrl: 'https://api.example.com/v1/chat/completions',
+        model,
+      }).generateContent({
+        model,
+        contents: 'Why is the sky blue?',
+        config: { thinkingConfig: { thinkingBudget } },
+      });
+    }
+
+    function respondWith(message: Record<string, unknown>) {
+      mockFetch.mockImplementation(async () =>
+        jsonResponse({ choices: [{ message, finish_reason: 'stop' }] }),
+      );
+    }
+
+    beforeEach(() => {
+      vi.stubGlobal('fetch', mockFetch);
+      respondWith({ content: 'ok' });
+    });
+
+    it('should return reasoning_content as a thought before the answer', async () => {
+      respondWith({
+        reasoning_content: 'Rayleigh scattering.',
+        content: 'Because of scattering.',
+      });
+
+      const response = await generate('deepseek-reasoner');
+
+      expect(response.candidates?.[0]?.content?.parts).toEqual([
+        { text: 'Rayleigh scattering.', thought: true },
+        { text: 'Because of scattering.' },
+      ]);
+    });
+
+    it('should split <think> blocks out of the content', async () => {
+      respondWith({
+        content:
+          '<think>Rayleigh scattering.</think>\n\nBecause of scattering.',
+      });
+
+      const response = await generate('qwq-32b');
+
+      expect(response.candidates?.[0]?.content?.parts).toEqual([
+        { text: 'Rayleigh scattering.', thought: true },
+        { text: 'Because of scattering.' },
+      ]);
+    });
+
+    it('should keep <think> tags in the answer of other models', async () => {
+      const content = 'Wrap it in <think>...</think> tags.';
+      respondWith({ content });
+
+      const response = await generate('gpt-4o');
+
+      expect(response.candidates?.[0]?.content?.parts).toEqual([
+        { text: content },
+      ]);
+    });
+
+    it('should report reasoning tokens as thought tokens', async () => {
+      mockFetch.mockResolvedValue(
+        jsonResponse({
+          choices: [{ message: { content: 'ok' }, finish_reason: 'stop' }],
+          usage: {
+            prompt_tokens: 10,
+            completion_tokens: 50,
+            total_tokens: 60,
+            completion_tokens_details: { reasoning_tokens: 40 },
+          },
+        }),
+      );
+
+      const response = await generate('o3');
+
+      expect(response.usageMetadata).toEqual({
+        promptTokenCount: 10,
+        candidatesTokenCount: 10,
+        thoughtsTokenCount: 40,
+        totalTokenCount: 60,
+      });
+    });
+
+    it.each([
+      [0, 'low'],
+      [1024, 'low'],
+      [8192, 'medium'],
+      [24576, 'high'],
+    ])(
+      'should send a thinking budget of %i as reasoning_effort %s',
+      async (thinkingBudget, effort) => {
+        await generate('o3', thinkingBudget);
+        expect(lastRequestBody().reasoning_effort).toBe(effort);
+      },
+    );
+
+    it('should leave the reasoning effort to the server by default', async () => {
+      await generate('o3', -1);
+      expect(lastRequestBody()).not.toHaveProperty('reasoning_effort');
+
+      await generate('gpt-4o', 1024);
+      expect(lastRequestBody()).not.toHaveProperty('reasoning_effort');
+    });
+
+    it('should send max_reasoning_tokens for models limited by tokens', async () => {
+      setModelCapabilityOverrides({
+        'my-reasoner': { supportsReasoning: true, reasoningControl: 'tokens' },
+      });
+      try {
+        await generate('my-reasoner', 2048);
+      } finally {
+        setModelCapabilityOverrides(undefined);
+      }
+
+      expect(lastRequestBody().max_reasoning_tokens).toBe(2048);
+      expect(lastRequestBody()).not.toHaveProperty('reasoning_effort');
+    });
+  });
+
+  describe('usage', () => {
+    beforeEach(() => {
+      vi.stubGlobal('fetch', mockFetch);
+    });
+
+    it('should report cached prompt tokens', async () => {
+      mockFetch.mockResolvedValue(
+        jsonResponse({
+          choices: [{ message: { content: 'ok' }, finish_reason: 'stop' }],
+          usage: {
+            prompt_tokens: 2000,
+            completion_tokens: 5,
+            total_tokens: 2005,
+            prompt_tokens_details: { cached_tokens: 1536 },
+          },
+        }),
+      );
+      const provider = new OpenAICompatibleProvider({
+        apiUrl: 'https://api.example.com/v1/chat/completions',
+        model: 'gpt-4o',
+      });
+
+      const response = await provider.generateContent({
+        model: 'gpt-4o',
+        contents: 'Hi',
+      });
+
+      expect(response.usageMetadata).toEqual({
+        promptTokenCount: 2000,
+        candidatesTokenCount: 5,
+        cachedContentTokenCount: 1536,
+        totalTokenCount: 2005,
+      });
+    });
+  });
+
+  describe('countTokens', () => {
+    beforeEach(() => {
+      vi.stubGlobal('fetch', mockFetch);
+      clearTokenCalibrations();
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      mockFetch.mockReset();
+    });
+
+    it('should count tokens locally and calibrate from reported usage', async () => {
+      const provider = new OpenAICompatibleProvider({
+        apiUrl: 'https://api.example.com/v1/chat/completions',
+        model: 'local-model',
+      });
+      const contents = [{ role: 'user', parts: [{ text: 'a'.repeat(400) }] }];
+
+      await expect(
+        provider.countTokens({ model: 'local-model', contents }),
+      ).resolves.toEqual({ totalTokens: 100 });
+
+      mockFetch.mockResolvedValue(
+        jsonResponse({
+          choices: [{ message: { content: 'ok' }, finish_reason: 'stop' }],
+          usage: {
+            prompt_tokens: 120,
+            completion_tokens: 1,
+            total_tokens: 121,
+          },
+        }),
+      );
+      await provider.generateContent({ model: 'local-model', contents });
+
+      await expect(
+        provider.countTokens({ model: 'local-model', contents }),
+      ).resolves.toEqual({ totalTokens: 120 });
+    });
+
+    it('should use the configured tokenizer', async () => {
+      const provider = new OpenAICompatibleProvider({
+        apiUrl: 'https://api.example.com/v1/chat/completions',
+        model: 'gpt-4o',
+        tokenizer: 'heuristic',
+      });
+
+      await expect(
+        provider.countTokens({
+          model: 'gpt-4o',
+          contents: [{ role: 'user', parts: [{ text: 'hello world' }] }],
+        }),
+      ).resolves.toEqual({ totalTokens: 3 });
+    });
+  });
+
+  describe('generateContentStream', () => {
+    let server: http.Server;
+    let provider: OpenAICompatibleProvider;
+    let requestBodies: Array<Record<string, unknown>>;
+    let respond: (res: http.ServerResponse) => void;
+
+    function writeEvents(res: http.ServerResponse, events: unknown[]) {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      for (const event of events) {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+      }
+      res.end('data: [DONE]\n\n');
+    }
+
+    async function collect(
+      stream: AsyncGenerator<GenerateContentResponse>,
+    ): Promise<GenerateContentResponse[]> {
+      const chunks: GenerateContentResponse[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    }
+
+    beforeEach(async () => {
+      requestBodies = [];
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (data) => (body += data));
+        req.on('end', () => {
+          requestBodies.push(JSON.parse(body));
+          respond(res);
+        });
+      });
+      await new Promise<void>((resolve) =>
+        server.listen(0, '127.0.0.1', resolve),
+      );
+      const { port } = server.address() as AddressInfo;
+      provider = new OpenAICompatibleProvider({
+        apiUrl: `http://127.0.0.1:${port}/v1/chat/completions`,
+        model: 'test-model',
+      });
+    });
+
+    afterEach(async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should request a stream with usage and yield text deltas', async () => {
+      respond = (res) =>
+        writeEvents(res, [
+          { choices: [{ delta: { role: 'assistant', content: 'Hel' } }] },
+          { choices: [{ delta: { content: 'lo' } }] },
+          { choices: [{ delta: {}, finish_reason: 'stop' }] },
+          {
+            choices: [],
+            usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+          },
+        ]);
+
+      const chunks = await collect(
+        await provider.generateContentStream({
+          model: 'test-model',
+          contents: 'Say hello',
+        }),
+      );
+
+      expect(requestBodies[0]).toMatchObject({
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+      expect(chunks.map((chunk) => chunk.text)).toEqual([
+        'Hel',
+        'lo',
+        undefined,
+        undefined,
+      ]);
+      expect(chunks[2].candidates?.[0]?.finishReason).toBe(FinishReason.STOP);
+      expect(chunks[3].usageMetadata).toEqual({
+        promptTokenCount: 3,
+        candidatesTokenCount: 2,
+        totalTokenCount: 5,
+      });
+    });
+
+    it('should accumulate tool call argument deltas', async () => {
+      respond = (res) =>
+        writeEvents(res, [
+          {
+            choices: [
+              {
+                delta: {
+                  tool_calls: [
+                    {
+                      index: 0,
+                      id: 'call_1',
+                      type: 'function',
+                      function: { name: 'read_file', arguments: '{"absolute_' },
+                    },
+                  ],
+                },
+              },
+            ],
+          },
+          {
+            choices: [
+              {
+                delta: {
+                  tool_calls: [
+                    { index: 0, function: { arguments: 'path":"/a.txt"}' } },
+                  ],
+                },
+              },
+            ],
+          },
+          { choices: [{ delta: {}, finish_reason: 'tool_calls' }] },
+        ]);
+
+      const chunks = await collect(
+        await provider.generateContentStream({
+          model: 'test-model',
+          contents: 'Read a.txt',
+        }),
+      );
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].functionCalls).toEqual([
+        { id: 'call_1', name: 'read_file', args: { absolute_path: '/a.txt' } },
+      ]);
+    });
+
+    it('should yield reasoning deltas as thoughts of their own', async () => {
+      respond = (res) =>
+        writeEvents(res, [
+          { choices: [{ delta: { reasoning_content: 'Think' } }] },
+          {
+            choices: [{ delta: { reasoning_content: 'ing.', content: 'An' } }],
+          },
+          { choices: [{ delta: { content: 'swer' }, finish_reason: 'stop' }] },
+        ]);
+
+      const chunks = await collect(
+        await provider.generateContentStream({
+          model: 'test-model',
+          contents: 'hi',
+        }),
+      );
+
+      expect(
+        chunks.map((chunk) => chunk.candidates?.[0]?.content?.parts),
+      ).toEqual([
+        [{ text: 'Think', thought: true }],
+        [{ text: 'ing.', thought: true }],
+        [{ text: 'An' }],
+        [{ text: 'swer' }],
+      ]);
+    });
+
+    it('should split <think> tags that span deltas', async () => {
+      const { port } = server.address() as AddressInfo;
+      provider = new OpenAICompatibleProvider({
+        apiUrl: `http://127.0.0.1:${port}/v1/chat/completions`,
+        model: 'qwq-32b',
+      });
+      respond = (res) =>
+        writeEvents(res, [
+          { choices: [{ delta: { content: '<thi' } }] },
+          { choices: [{ delta: { content: 'nk>Hmm.</th' } }] },
+          { choices: [{ delta: { content: 'ink>\n\nDone <' } }] },
+          { choices: [{ delta: {}, finish_reason: 'stop' }] },
+        ]);
+
+      const chunks = await collect(
+        await provider.generateContentStream({
+          model: 'qwq-32b',
+          contents: 'hi',
+        }),
+      );
+
+      expect(
+        chunks.flatMap((chunk) => chunk.candidates?.[0]?.content?.parts ?? []),
+      ).toEqual([
+        { text: 'Hmm.', thought: true },
+        { text: 'Done ' },
+        { text: '<' },
+      ]);
+    });
+
+    it('should surface HTTP errors before streaming starts', async () => {
+      respond = (res) => {
+        res.writeHead(429, { 'Content-Type': 'application/json' });
+        res.end('{"error":{"message":"rate limited"}}');
+      };
+
+      await expect(
+        provider.generateContentStream({
+          model: 'test-model',
+          contents: 'hi',
+        }),
+      ).rejects.toThrow(/status 429/);
+    });
+
+    it('should stop reading when the abort signal fires', async () => {
+      respond = (res) => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(
+          `data: ${JSON.stringify({ choices: [{ delta: { content: 'partial' } }] })}\n\n`,
+        );
+        // Never end the response; the client must abort.
+      };
+      const controller = new AbortController();
+
+      const stream = await provider.generateContentStream({
+        model: 'test-model',
+        contents: 'hi',
+        config: { abortSignal: controller.signal },
+      });
+      const first = await stream.next();
+      expect(first.value?.text).toBe('partial');
+
+      controller.abort();
+      await expect(stream.next()).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,964 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  ContentListUnion,
+  ContentUnion,
+  FinishReason,
+  FunctionCall,
+  FunctionCallingConfigMode,
+  GenerateContentConfig,
+  GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
+  GenerateContentParameters,
+  CountTokensResponse,
+  CountTokensParameters,
+  EmbedContentResponse,
+  EmbedContentParameters,
+  Part,
+  ToolListUnion,
+} from '@google/genai';
+import {
+  LLMAuthScheme,
+  LLMModelInfo,
+  LLMProvider,
+  LLMProviderConfig,
+} from '../core/llmProvider.js';
+import {
+  ModelCapabilities,
+  getModelCapabilities,
+} from '../core/modelCapabilities.js';
+import { UnsupportedContentError } from '../utils/errors.js';
+import { parseServerSentEvents } from '../utils/sse.js';
+import {
+  JSON_RESPONSE_TOOL,
+  ThinkTagParser,
+  UnansweredToolCall,
+  canForceJsonToolCall,
+  contentToText,
+  embedInBatches,
+  functionResponseToString,
+  getFunctionDeclarations,
+  getJsonResponseInstruction,
+  getParametersJsonSchema,
+  getResponseJsonSchema,
+  jsonToolCallToText,
+  omitImages,
+  parseToolArguments,
+  separateThoughts,
+  splitThinkTags,
+  takeToolCallId,
+  toContent,
+  toContents,
+} from './converter.js';
+import { AuthorizedRequest, withAuthorization } from './auth.js';
+import { TokenCounter } from './tokenizer.js';
+import { HttpOptions, getJson, postJson, readJsonResponse } from './http.js';
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | OpenAIContentPart[] | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+interface OpenAITool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+type OpenAIToolChoice =
+  | 'auto'
+  | 'none'
+  | 'required'
+  | { type: 'function'; function: { name: string } };
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  completion_tokens_details?: {
+    reasoning_tokens?: number;
+  };
+  prompt_tokens_details?: {
+    cached_tokens?: number;
+  };
+  /** DeepSeek's count of prompt tokens read from its cache. */
+  prompt_cache_hit_tokens?: number;
+}
+
+/**
+ * The reasoning of a model, which servers return as `reasoning_content`
+ * (DeepSeek, vLLM, LM Studio) or `reasoning` (OpenRouter, Ollama).
+ */
+interface OpenAIReasoning {
+  reasoning_content?: string | null;
+  reasoning?: string | null;
+}
+
+interface OpenAIResponse {
+  choices?: Array<{
+    text?: string;
+    finish_reason?: string | null;
+    message?: OpenAIReasoning & {
+      content?: string | null;
+      tool_calls?: OpenAIToolCall[];
+    };
+  }>;
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+interface OpenAIStreamChunk {
+  choices?: Array<{
+    text?: string;
+    finish_reason?: string | null;
+    delta?: OpenAIReasoning & {
+      content?: string | null;
+      tool_calls?: OpenAIToolCallDelta[];
+    };
+  }>;
+  usage?: OpenAIUsage | null;
+  error?: unknown;
+}
+
+interface OpenAIModelList {
+  data?: Array<{ id: string }>;
+}
+
+interface OpenAIEmbeddingResponse {
+  data?: Array<{ embedding: number[]; index: number }>;
+}
+
+// OpenAI accepts up to 2048 inputs per request, but many compatible servers
+// accept far fewer.
+const EMBEDDING_BATCH_SIZE = 100;
+
+const SUPPORTED_IMAGE_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+];
+
+/**
+ * A basic provider that works with OpenAI-compatible APIs.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  private config: LLMProviderConfig;
+  private readonly tokenCounter: TokenCounter;
+
+  constructor(config: LLMProviderConfig) {
+    this.config = config;
+    this.tokenCounter = new TokenCounter(config.tokenizer);
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+  ): Promise<GenerateContentResponse> {
+    // Determine if this is a chat completion endpoint based on the URL
+    const isChatCompletion = this.config.apiUrl.includes('chat/completions');
+
+    // Prepare the request body based on the API format
+    const requestBody = this.prepareGenerateContentRequest(
+      request,
+      isChatCompletion,
+    );
+
+    // Make the API call
+    const response = await this.makeApiRequest(
+      this.config.apiUrl,
+      requestBody,
+      request.config?.abortSignal,
+    );
+
+    // Parse the response
+    const result = jsonToolCallToText(
+      this.parseGenerateContentResponse(response, isChatCompletion),
+    );
+    await this.calibrate(request, result);
+    return result;
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const isChatCompletion = this.config.apiUrl.includes('chat/completions');
+    const requestBody = {
+      ...this.prepareGenerateContentRequest(request, isChatCompletion),
+      stream: true,
+      stream_options: { include_usage: true },
+    };
+
+    // Awaiting the initial response here means HTTP errors surface from this
+    // call, where GeminiChat's retry logic can see them.
+    const response = await this.sendRequest(
+      this.config.apiUrl,
+      requestBody,
+      request.config?.abortSignal,
+    );
+    if (!response.body) {
+      throw new Error('API returned an empty streaming response.');
+    }
+    return this.tokenCounter.calibrateFromStream(
+      request.model,
+      request.contents,
+      request.config,
+      this.parseGenerateContentStream(response.body, isChatCompletion),
+    );
+  }
+
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
+    // OpenAI-compatible APIs have no token counting endpoint, so count
+    // locally.
+    return {
+      totalTokens: await this.tokenCounter.countTokens(
+        request.model,
+        request.contents,
+      ),
+    };
+  }
+
+  /**
+   * Embeds the contents with the `/embeddings` endpoint next to the
+   * configured completions URL. Unlike generation, this uses the model of
+   * the request, since embedding models differ from chat models.
+   */
+  async embedContent(
+    request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    const url = getEndpointUrl(this.config.apiUrl, 'embeddings');
+    const dimensions = request.config?.outputDimensionality;
+    return embedInBatches(request, EMBEDDING_BATCH_SIZE, async (input) => {
+      const response = await this.sendRequest(
+        url,
+        {
+          model: request.model,
+          input,
+          ...(dimensions !== undefined ? { dimensions } : {}),
+        },
+        request.config?.abortSignal,
+      );
+      const embeddings = await readJsonResponse<OpenAIEmbeddingResponse>(
+        response,
+        this.httpOptions(),
+      );
+      return [...(embeddings.data ?? [])]
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+    });
+  }
+
+  getProviderName(): string {
+    return 'OpenAICompatible';
+  }
+
+  /**
+   * Lists the models served by the `/models` endpoint next to the configured
+   * completions URL.
+   */
+  async listModels(): Promise<LLMModelInfo[]> {
+    const response = await this.withAuthorization(
+      getEndpointUrl(this.config.apiUrl, 'models'),
+      (authorized) =>
+        getJson(authorized.url, authorized.headers, this.httpOptions()),
+    );
+    const models = await readJsonResponse<OpenAIModelList>(
+      response,
+      this.httpOptions(),
+    );
+    return (models.data ?? []).map((model) => ({ name: model.id }));
+  }
+
+  private prepareGenerateContentRequest(
+    request: GenerateContentParameters,
+    isChatCompletion: boolean,
+  ): Record<string, unknown> {
+    const capabilities = getModelCapabilities(this.config.model);
+    const responseSchema = getResponseJsonSchema(request.config ?? {});
+    if (isChatCompletion) {
+      const responseFormat =
+        responseSchema &&
+        this.convertResponseSchemaToOpenAIParams(responseSchema, capabilities);
+      // OpenAI chat completion format
+      return {
+        model: this.config.model,
+        messages: [
+          ...this.convertSystemInstructionToMessages(
+            request.config?.systemInstruction,
+          ),
+          ...(responseSchema && !responseFormat
+            ? this.convertSystemInstructionToMessages(
+                getJsonResponseInstruction(responseSchema),
+              )
+            : []),
+          ...this.convertContentsToMessages(
+            capabilities.supportsVision
+              ? request.contents
+              : omitImages(request.contents, this.config.model),
+          ),
+        ],
+        ...this.convertConfigToOpenAIParams(capabilities, request.config),
+        ...(capabilities.supportsTools
+          ? this.convertToolsToOpenAIParams(request.config)
+          : {}),
+        ...responseFormat,
+      };
+    } else {
+      // Assume it's a completion endpoint
+      const prompt = this.convertContentsToPrompt(
+        request.contents,
+        request.config?.systemInstruction,
+      );
+      return {
+        model: this.config.model,
+        prompt: responseSchema
+          ? `${prompt}\n\n${getJsonResponseInstruction(responseSchema)}`
+          : prompt,
+        ...this.convertConfigToOpenAIParams(capabilities, request.config),
+      };
+    }
+  }
+
+  /**
+   * Asks for a JSON response with `response_format` if the model supports
+   * structured output, and otherwise by forcing a call to a tool whose
+   * parameters are the schema. Returns undefined if neither is possible, in
+   * which case the schema is given in the prompt instead.
+   */
+  private convertResponseSchemaToOpenAIParams(
+    schema: Record<string, unknown>,
+    capabilities: ModelCapabilities,
+  ): Record<string, unknown> | undefined {
+    if (capabilities.supportsJsonSchema) {
+      return {
+        response_format:
+          Object.keys(schema).length > 0
+            ? {
+                type: 'json_schema',
+                json_schema: { name: JSON_RESPONSE_TOOL, schema },
+              }
+            : { type: 'json_object' },
+      };
+    }
+    if (capabilities.supportsTools && canForceJsonToolCall(schema)) {
+      const tool: OpenAITool = {
+        type: 'function',
+        function: {
+          name: JSON_RESPONSE_TOOL,
+          description: 'Returns the response as JSON.',
+          parameters: schema,
+        },
+      };
+      const toolChoice: OpenAIToolChoice = {
+        type: 'function',
+        function: { name: JSON_RESPONSE_TOOL },
+      };
+      return { tools: [tool], tool_choice: toolChoice };
+    }
+    return undefined;
+  }
+
+  private convertSystemInstructionToMessages(
+    systemInstruction: ContentUnion | undefined,
+  ): OpenAIChatMessage[] {
+    const text = systemInstruction
+      ? contentToText(toContent(systemInstruction))
+      : '';
+    return text ? [{ role: 'system', content: text }] : [];
+  }
+
+  /**
+   * Converts Gemini-style contents to OpenAI chat messages.
+   *
+   * `functionCall` parts become `tool_calls` on an assistant message and
+   * `functionResponse` parts become `tool` messages. Calls that arrive
+   * without an id (e.g. history recorded from a Gemini backend) are given
+   * one, and the matching response is paired with it by name in order.
+   */
+  private convertContentsToMessages(
+    contents: ContentListUnion,
+  ): OpenAIChatMessage[] {
+    const messages: OpenAIChatMessage[] = [];
+    const unansweredCalls: UnansweredToolCall[] = [];
+    let generatedIdCount = 0;
+
+    for (const content of toContents(contents)) {
+      const parts = content.parts ?? [];
+
+      if (content.role === 'model') {
+        const textParts: string[] = [];
+        const toolCalls: OpenAIToolCall[] = [];
+        for (const part of parts) {
+          if (part.thought) {
+            continue;
+          }
+          if (part.functionCall) {
+            const id = part.functionCall.id ?? `call_${generatedIdCount++}`;
+            const name = part.functionCall.name ?? '';
+            unansweredCalls.push({ id, name });
+            toolCalls.push({
+              id,
+              type: 'function',
+              function: {
+                name,
+                arguments: JSON.stringify(part.functionCall.args ?? {}),
+              },
+            });
+          } else if (part.text) {
+            textParts.push(part.text);
+          }
+        }
+        if (textParts.length === 0 && toolCalls.length === 0) {
+          continue;
+        }
+        const message: OpenAIChatMessage = {
+          role: 'assistant',
+          content: textParts.length > 0 ? textParts.join('\n') : null,
+        };
+        if (toolCalls.length > 0) {
+          message.tool_calls = toolCalls;
+        }
+        messages.push(message);
+        continue;
+      }
+
+      // Tool messages must directly follow the assistant's tool calls, so
+      // any text or media sent alongside the responses goes in a user
+      // message after them.
+      const userParts: OpenAIContentPart[] = [];
+      for (const part of parts) {
+        if (part.functionResponse) {
+          messages.push({
+            role: 'tool',
+            tool_call_id: takeToolCallId(
+              unansweredCalls,
+              part.functionResponse,
+            ),
+            content: functionResponseToString(part.functionResponse),
+          });
+        } else {
+          const contentPart = this.convertPartToContentPart(part);
+          if (contentPart) {
+            userParts.push(contentPart);
+          }
+        }
+      }
+      if (userParts.length > 0) {
+        messages.push({ role: 'user', content: toMessageContent(userParts) });
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Maps a user part to an OpenAI content part. Images become `image_url`
+   * data URIs and textual attachments are inlined; anything else cannot be
+   * represented and raises an {@link UnsupportedContentError}.
+   */
+  private convertPartToContentPart(part: Part): OpenAIContentPart | undefined {
+    if (part.text) {
+      return { type: 'text', text: part.text };
+    }
+    if (part.inlineData) {
+      const mimeType = part.inlineData.mimeType ?? 'application/octet-stream';
+      const data = part.inlineData.data ?? '';
+      if (SUPPORTED_IMAGE_MIME_TYPES.includes(mimeType)) {
+        return {
+          type: 'image_url',
+          image_url: { url: `data:${mimeType};base64,${data}` },
+        };
+      }
+      if (mimeType.startsWith('text/')) {
+        return {
+          type: 'text',
+          text: Buffer.from(data, 'base64').toString('utf-8'),
+        };
+      }
+      throw new UnsupportedContentError(this.getProviderName(), mimeType);
+    }
+    if (part.fileData) {
+      const mimeType = part.fileData.mimeType ?? 'application/octet-stream';
+      const fileUri = part.fileData.fileUri ?? '';
+      if (
+        SUPPORTED_IMAGE_MIME_TYPES.includes(mimeType) &&
+        /^https?:\/\//.test(fileUri)
+      ) {
+        return { type: 'image_url', image_url: { url: fileUri } };
+      }
+      throw new UnsupportedContentError(this.getProviderName(), mimeType);
+    }
+    return undefined;
+  }
+
+  private convertContentsToPrompt(
+    contents: ContentListUnion,
+    systemInstruction?: ContentUnion,
+  ): string {
+    // Convert contents to a single prompt string
+    const allContents = systemInstruction
+      ? [toContent(systemInstruction), ...toContents(contents)]
+      : toContents(contents);
+    return allContents
+      .map((content) =>
+        (content.parts ?? [])
+          .map((part) => {
+            const mimeType =
+              part.inlineData?.mimeType ?? part.fileData?.mimeType;
+            if (mimeType) {
+              throw new UnsupportedContentError(
+                this.getProviderName(),
+                mimeType,
+              );
+            }
+            return part.text ? part.text : JSON.stringify(part);
+          })
+          .join('\n'),
+      )
+      .join('\n\n');
+  }
+
+  private convertConfigToOpenAIParams(
+    capabilities: ModelCapabilities,
+    config: GenerateContentConfig = {},
+  ): Record<string, unknown> {
+    const openAIParams: Record<string, unknown> = {};
+
+    if (config.temperature !== undefined) {
+      openAIParams.temperature = config.temperature;
+    }
+    if (config.maxOutputTokens !== undefined) {
+      openAIParams.max_tokens = Math.min(
+        config.maxOutputTokens,
+        capabilities.maxOutputTokens ?? config.maxOutputTokens,
+      );
+    }
+    if (config.topP !== undefined) {
+      openAIParams.top_p = config.topP;
+    }
+    if (config.stopSequences !== undefined) {
+      openAIParams.stop = config.stopSequences;
+    }
+    // A budget of -1 lets the model decide, which is the server's default.
+    const thinkingBudget = config.thinkingConfig?.thinkingBudget;
+    if (thinkingBudget !== undefined && thinkingBudget >= 0) {
+      if (capabilities.reasoningControl === 'effort') {
+        openAIParams.reasoning_effort = toReasoningEffort(thinkingBudget);
+      } else if (capabilities.reasoningControl === 'tokens') {
+        openAIParams.max_reasoning_tokens = thinkingBudget;
+      }
+    }
+
+    return openAIParams;
+  }
+
+  /**
+   * Translates the Gemini `tools` and `toolConfig` settings into the OpenAI
+   * `tools` and `tool_choice` request parameters.
+   */
+  private convertToolsToOpenAIParams(
+    config: GenerateContentConfig = {},
+  ): Record<string, unknown> {
+    const tools = toOpenAITools(config.tools);
+    if (tools.length === 0) {
+      return {};
+    }
+
+    let toolChoice: OpenAIToolChoice = 'auto';
+    const functionCallingConfig = config.toolConfig?.functionCallingConfig;
+    switch (functionCallingConfig?.mode) {
+      case FunctionCallingConfigMode.NONE:
+        toolChoice = 'none';
+        break;
+      case FunctionCallingConfigMode.ANY: {
+        const allowed = functionCallingConfig.allowedFunctionNames ?? [];
+        toolChoice =
+          allowed.length === 1
+            ? { type: 'function', function: { name: allowed[0] } }
+            : 'required';
+        break;
+      }
+      default:
+        break;
+    }
+
+    return { tools, tool_choice: toolChoice };
+  }
+
+  /**
+   * Sends the request and returns the raw response, throwing on network
+   * failures and non-2xx statuses.
+   */
+  private async sendRequest(
+    url: string,
+    body: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    return this.withAuthorization(url, (authorized) =>
+      postJson(
+        authorized.url,
+        authorized.headers,
+        body,
+        this.httpOptions(signal),
+      ),
+    );
+  }
+
+  private calibrate(
+    request: GenerateContentParameters,
+    response: GenerateContentResponse,
+  ): Promise<void> {
+    return this.tokenCounter.calibrate(
+      request.model,
+      request.contents,
+      request.config,
+      response.usageMetadata?.promptTokenCount,
+    );
+  }
+
+  private httpOptions(signal?: AbortSignal): HttpOptions {
+    return {
+      signal,
+      debugMode: this.config.debugMode,
+      timeoutMs:
+        this.config.timeoutSeconds !== undefined
+          ? this.config.timeoutSeconds * 1000
+          : undefined,
+    };
+  }
+
+  private withAuthorization(
+    url: string,
+    send: (authorized: AuthorizedRequest) => Promise<Response>,
+  ): Promise<Response> {
+    return withAuthorization(
+      url,
+      { ...this.config.headers },
+      this.config.apiKey,
+      this.config.authScheme ?? guessAuthScheme(url),
+      send,
+    );
+  }
+
+  private async makeApiRequest(
+    url: string,
+    body: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<OpenAIResponse> {
+    const response = await this.sendRequest(url, body, signal);
+    return readJsonResponse<OpenAIResponse>(response, this.httpOptions());
+  }
+
+  /** Only reasoning models put their reasoning in `<think>` tags. */
+  private splitsThinkTags(): boolean {
+    return getModelCapabilities(this.config.model).supportsReasoning;
+  }
+
+  private parseGenerateContentResponse(
+    response: OpenAIResponse,
+    isChatCompletion: boolean,
+  ): GenerateContentResponse {
+    // Create a new GenerateContentResponse
+    const generateContentResponse = new GenerateContentResponse();
+
+    if (response.choices && response.choices.length > 0) {
+      const choice = response.choices[0];
+      const parts: Part[] = [];
+
+      if (isChatCompletion) {
+        // Parse OpenAI chat completion response
+        const reasoning = getReasoning(choice.message);
+        if (reasoning) {
+          parts.push({ text: reasoning, thought: true });
+        }
+        const content = choice.message?.content;
+        if (content) {
+          parts.push(...splitThinkTags(content, this.splitsThinkTags()));
+        }
+        for (const toolCall of choice.message?.tool_calls ?? []) {
+          parts.push({ functionCall: fromOpenAIToolCall(toolCall) });
+        }
+        if (parts.length === 0) {
+          parts.push({ text: '' });
+        }
+      } else {
+        // Parse completion response
+        parts.push(
+          ...splitThinkTags(choice.text || '', this.splitsThinkTags()),
+        );
+        if (parts.length === 0) {
+          parts.push({ text: '' });
+        }
+      }
+
+      generateContentResponse.candidates = [
+        {
+          content: {
+            role: 'model',
+            parts,
+          },
+          finishReason: toFinishReason(choice.finish_reason),
+        },
+      ];
+    }
+
+    // Add usage metadata if available
+    if (response.usage) {
+      generateContentResponse.usageMetadata = toUsageMetadata(response.usage);
+    }
+
+    return generateContentResponse;
+  }
+
+  /**
+   * Converts an OpenAI server-sent-events stream into incremental responses.
+   *
+   * Text deltas are yielded as they arrive, with reasoning in responses of
+   * their own. Tool call fragments are accumulated by index and emitted as
+   * complete `functionCall` parts once the choice finishes, since their
+   * arguments are only valid JSON when whole.
+   */
+  private async *parseGenerateContentStream(
+    body: ReadableStream<Uint8Array>,
+    isChatCompletion: boolean,
+  ): AsyncGenerator<GenerateContentResponse> {
+    const pendingToolCalls = new Map<number, OpenAIToolCall>();
+    const thinkTags = new ThinkTagParser(this.splitsThinkTags());
+
+    const flushToolCalls = (): Part[] => {
+      const parts = [...pendingToolCalls.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, toolCall]) => ({
+          functionCall: fromOpenAIToolCall(toolCall),
+        }));
+      pendingToolCalls.clear();
+      return parts;
+    };
+
+    for await (const event of parseServerSentEvents(body)) {
+      if (event.data === '[DONE]') {
+        break;
+      }
+
+      let chunk: OpenAIStreamChunk;
+      try {
+        chunk = JSON.parse(event.data) as OpenAIStreamChunk;
+      } catch (error) {
+        throw new Error(
+          `Failed to parse stream chunk: ${(error as Error).message}. Chunk: ${event.data.substring(0, 200)}`,
+        );
+      }
+      if (chunk.error) {
+        throw new Error(
+          `API stream returned an error: ${JSON.stringify(chunk.error)}`,
+        );
+      }
+
+      const parts: Part[] = [];
+      const choice = chunk.choices?.[0];
+      let finishReason: FinishReason | undefined;
+      if (choice) {
+        const reasoning = getReasoning(choice.delta);
+        if (reasoning) {
+          parts.push({ text: reasoning, thought: true });
+        }
+        const text = isChatCompletion ? choice.delta?.content : choice.text;
+        if (text) {
+          parts.push(...thinkTags.push(text));
+        }
+        for (const delta of choice.delta?.tool_calls ?? []) {
+          const toolCall = pendingToolCalls.get(delta.index) ?? {
+            id: '',
+            type: 'function',
+            function: { name: '', arguments: '' },
+          };
+          toolCall.id = delta.id ?? toolCall.id;
+          toolCall.function.name += delta.function?.name ?? '';
+          toolCall.function.arguments += delta.function?.arguments ?? '';
+          pendingToolCalls.set(delta.index, toolCall);
+        }
+        if (choice.finish_reason) {
+          parts.push(...thinkTags.flush(), ...flushToolCalls());
+          finishReason = toFinishReason(choice.finish_reason);
+        }
+      }
+
+      if (parts.length === 0 && !finishReason && !chunk.usage) {
+        continue;
+      }
+
+      const response = new GenerateContentResponse();
+      if (parts.length > 0 || finishReason) {
+        response.candidates = [
+          {
+            content: { role: 'model', parts },
+            finishReason,
+          },
+        ];
+      }
+      if (chunk.usage) {
+        response.usageMetadata = toUsageMetadata(chunk.usage);
+      }
+      yield* separateThoughts(response);
+    }
+
+    // Some servers end the stream without a finish_reason.
+    const remainingParts = [...thinkTags.flush(), ...flushToolCalls()];
+    if (remainingParts.length > 0) {
+      const response = new GenerateContentResponse();
+      response.candidates = [
+        {
+          content: { role: 'model', parts: remainingParts },
+          finishReason: FinishReason.STOP,
+        },
+      ];
+      yield* separateThoughts(response);
+    }
+  }
+}
+
+/**
+ * Returns the URL of another endpoint of the API, such as `models`, next to
+ * the configured completions URL.
+ */
+function getEndpointUrl(apiUrl: string, path: string): string {
+  const url = apiUrl.replace(/\/+$/, '');
+  const endpoint = url.match(/\/(chat\/)?completions$/);
+  return endpoint
+    ? `${url.slice(0, endpoint.index)}/${path}`
+    : `${url}/${path}`;
+}
+
+/**
+ * Picks the auth header for profiles that do not set an auth scheme.
+ */
+function guessAuthScheme(url: string): LLMAuthScheme {
+  // OpenAI and OpenRouter use a Bearer token; default to X-API-Key for
+  // other providers.
+  return url.includes('openai.com') || url.includes('openrouter.ai')
+    ? 'bearer'
+    : 'x-api-key';
+}
+
+/**
+ * Plain text is sent as a string so that backends without support for
+ * content part arrays keep working.
+ */
+function toMessageContent(
+  parts: OpenAIContentPart[],
+): OpenAIChatMessage['content'] {
+  if (parts.every((part) => part.type === 'text')) {
+    return parts
+      .map((part) => (part.type === 'text' ? part.text : ''))
+      .join('\n');
+  }
+  return parts;
+}
+
+function toOpenAITools(tools: ToolListUnion | undefined): OpenAITool[] {
+  return getFunctionDeclarations(tools).map((declaration) => ({
+    type: 'function',
+    function: {
+      name: declaration.name ?? '',
+      description: declaration.description,
+      parameters: getParametersJsonSchema(declaration),
+    },
+  }));
+}
+
+function fromOpenAIToolCall(toolCall: OpenAIToolCall): FunctionCall {
+  return {
+    id: toolCall.id,
+    name: toolCall.function.name,
+    args: parseToolArguments(toolCall.function.arguments),
+  };
+}
+
+/**
+ * Maps a thinking budget in tokens to the nearest OpenAI reasoning effort.
+ * Reasoning models cannot turn reasoning off, so a budget of 0 is `low`.
+ */
+function toReasoningEffort(thinkingBudget: number): 'low' | 'medium' | 'high' {
+  if (thinkingBudget <= 1_024) {
+    return 'low';
+  }
+  return thinkingBudget <= 8_192 ? 'medium' : 'high';
+}
+
+function getReasoning(message: OpenAIReasoning | undefined): string {
+  return message?.reasoning_content || message?.reasoning || '';
+}
+
+/**
+ * OpenAI counts reasoning tokens within the completion tokens, while Gemini
+ * reports them separately as thought tokens. Cached tokens are counted
+ * within the prompt tokens by both.
+ */
+function toUsageMetadata(
+  usage: OpenAIUsage,
+): GenerateContentResponseUsageMetadata {
+  const thoughtsTokenCount =
+    usage.completion_tokens_details?.reasoning_tokens || undefined;
+  return {
+    promptTokenCount: usage.prompt_tokens,
+    candidatesTokenCount:
+      usage.completion_tokens !== undefined && thoughtsTokenCount
+        ? usage.completion_tokens - thoughtsTokenCount
+        : usage.completion_tokens,
+    thoughtsTokenCount,
+    cachedContentTokenCount:
+      usage.prompt_tokens_details?.cached_tokens ||
+      usage.prompt_cache_hit_tokens ||
+      undefined,
+    totalTokenCount: usage.total_tokens,
+  };
+}
+
+function toFinishReason(
+  finishReason: string | null | undefined,
+): FinishReason | undefined {
+  switch (finishReason) {
+    case 'stop':
+    case 'tool_calls':
+    case 'function_call':
+      return FinishReason.STOP;
+    case 'length':
+      return FinishReason.MAX_TOKENS;
+    case 'content_filter':
+      return FinishReason.SAFETY;
+    default:
+      return undefined;
+  }
+}
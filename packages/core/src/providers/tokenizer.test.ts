@@ -0,0 +1,129 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GenerateContentResponse } from '@google/genai';
+import {
+  TokenCounter,
+  clearTokenCalibrations,
+  getTokenizer,
+  tokenizerForModel,
+} from './tokenizer.js';
+
+describe('tokenizerForModel', () => {
+  it('should pick the BPE encoding of OpenAI models', () => {
+    expect(tokenizerForModel('gpt-4o-mini')).toBe('o200k_base');
+    expect(tokenizerForModel('openai/gpt-4.1')).toBe('o200k_base');
+    expect(tokenizerForModel('o3-mini')).toBe('o200k_base');
+    expect(tokenizerForModel('gpt-4-turbo')).toBe('cl100k_base');
+    expect(tokenizerForModel('gpt-3.5-turbo')).toBe('cl100k_base');
+  });
+
+  it('should fall back to the heuristic for other models', () => {
+    expect(tokenizerForModel('claude-sonnet-4-20250514')).toBe('heuristic');
+    expect(tokenizerForModel('llama3.1:8b')).toBe('heuristic');
+  });
+});
+
+describe('getTokenizer', () => {
+  it('should count BPE tokens offline', async () => {
+    const tokenizer = await getTokenizer('o200k_base');
+    expect(tokenizer.name).toBe('o200k_base');
+    expect(tokenizer.countTokens('hello world')).toBe(2);
+    expect(tokenizer.countTokens('<|endoftext|>')).toBeGreaterThan(1);
+  });
+
+  it('should estimate four characters per token with the heuristic', async () => {
+    const tokenizer = await getTokenizer('heuristic');
+    expect(tokenizer.countTokens('abcdefghi')).toBe(3);
+  });
+});
+
+describe('TokenCounter', () => {
+  const contents = [{ role: 'user', parts: [{ text: 'a'.repeat(400) }] }];
+
+  beforeEach(() => {
+    clearTokenCalibrations();
+  });
+
+  it('should count text, function calls and attachments', async () => {
+    const counter = new TokenCounter('heuristic');
+    const total = await counter.countTokens('any-model', [
+      { role: 'user', parts: [{ text: 'a'.repeat(40) }] },
+      {
+        role: 'model',
+        parts: [{ functionCall: { name: 'ls', args: { path: '/' } } }],
+      },
+      {
+        role: 'user',
+        parts: [{ inlineData: { mimeType: 'image/png', data: 'AAAA' } }],
+      },
+    ]);
+    // 10 for the text, 4 for `ls{"path":"/"}` and 258 for the image.
+    expect(total).toBe(272);
+  });
+
+  it('should use the tokenizer configured for the provider', async () => {
+    const counter = new TokenCounter('heuristic');
+    expect(
+      await counter.countTokens('gpt-4o', [
+        { role: 'user', parts: [{ text: 'hello world' }] },
+      ]),
+    ).toBe(3);
+  });
+
+  it('should scale counts by the prompt tokens the server reported', async () => {
+    const counter = new TokenCounter('heuristic');
+    expect(await counter.countTokens('model-a', contents)).toBe(100);
+
+    await counter.calibrate('model-a', contents, undefined, 150);
+    expect(await counter.countTokens('model-a', contents)).toBe(150);
+
+    await counter.calibrate('model-a', contents, undefined, 250);
+    expect(await counter.countTokens('model-a', contents)).toBe(200);
+
+    expect(await counter.countTokens('model-b', contents)).toBe(100);
+  });
+
+  it('should include the system instruction when calibrating', async () => {
+    const counter = new TokenCounter('heuristic');
+    await counter.calibrate(
+      'model-a',
+      contents,
+      { systemInstruction: 'b'.repeat(400) },
+      200,
+    );
+    expect(await counter.countTokens('model-a', contents)).toBe(100);
+  });
+
+  it('should bound the calibration factor', async () => {
+    const counter = new TokenCounter('heuristic');
+    await counter.calibrate('model-a', contents, undefined, 100_000);
+    expect(await counter.countTokens('model-a', contents)).toBe(400);
+  });
+
+  it('should calibrate from the usage reported at the end of a stream', async () => {
+    const counter = new TokenCounter('heuristic');
+    async function* stream() {
+      yield { text: 'hi' } as GenerateContentResponse;
+      yield {
+        usageMetadata: { promptTokenCount: 300 },
+      } as GenerateContentResponse;
+    }
+
+    const chunks = [];
+    for await (const chunk of counter.calibrateFromStream(
+      'model-a',
+      contents,
+      undefined,
+      stream(),
+    )) {
+      chunks.push(chunk);
+    }
+    expect(chunks).toHaveLength(2);
+    expect(await counter.countTokens('model-a', contents)).toBe(300);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  Content,
+  ContentListUnion,
+  GenerateContentConfig,
+  GenerateContentResponse,
+  Part,
+} from '@google/genai';
+import { getFunctionDeclarations, toContent, toContents } from './converter.js';
+
+/**
+ * The local tokenizers: the BPE encodings used by OpenAI models, and a
+ * characters-divided-by-four heuristic for everything else.
+ */
+export type TokenizerName = 'o200k_base' | 'cl100k_base' | 'heuristic';
+
+export interface Tokenizer {
+  readonly name: TokenizerName;
+  countTokens(text: string): number;
+}
+
+const CHARS_PER_TOKEN = 4;
+
+// A flat per-attachment estimate. Providers bill images by size or tiles,
+// but the exact cost does not matter for deciding when to compress.
+const ATTACHMENT_TOKEN_ESTIMATE = 258;
+
+// How much each new server report moves the calibration factor, and the
+// bounds that keep one odd report from skewing every later count.
+const CALIBRATION_WEIGHT = 0.5;
+const MIN_CALIBRATION = 0.25;
+const MAX_CALIBRATION = 4;
+
+const heuristicTokenizer: Tokenizer = {
+  name: 'heuristic',
+  countTokens: (text) => Math.ceil(text.length / CHARS_PER_TOKEN),
+};
+
+const bpeTokenizers = new Map<TokenizerName, Promise<Tokenizer>>();
+
+// Server-reported prompt tokens divided by the local estimate, per model.
+const calibrations = new Map<string, number>();
+
+/**
+ * Picks the tokenizer for a model id, including ids with a vendor prefix
+ * such as `openai/gpt-4o`.
+ */
+export function tokenizerForModel(model: string): TokenizerName {
+  const name = model.toLowerCase().split('/').pop() ?? '';
+  if (/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt-4o|o\d)/.test(name)) {
+    return 'o200k_base';
+  }
+  if (/^(gpt-4|gpt-3\.5|text-embedding-3|text-embedding-ada)/.test(name)) {
+    return 'cl100k_base';
+  }
+  return 'heuristic';
+}
+
+/**
+ * Loads a tokenizer. The BPE ranks are large, so they are only imported on
+ * first use; if that fails, the heuristic is used instead.
+ */
+export function getTokenizer(name: TokenizerName): Promise<Tokenizer> {
+  if (name === 'heuristic') {
+    return Promise.resolve(heuristicTokenizer);
+  }
+  let tokenizer = bpeTokenizers.get(name);
+  if (!tokenizer) {
+    tokenizer = loadBpeTokenizer(name).catch(() => heuristicTokenizer);
+    bpeTokenizers.set(name, tokenizer);
+  }
+  return tokenizer;
+}
+
+async function loadBpeTokenizer(
+  name: Exclude<TokenizerName, 'heuristic'>,
+): Promise<Tokenizer> {
+  const [{ Tiktoken }, ranks] = await Promise.all([
+    import('js-tiktoken/lite'),
+    name === 'o200k_base'
+      ? import('js-tiktoken/ranks/o200k_base')
+      : import('js-tiktoken/ranks/cl100k_base'),
+  ]);
+  const encoder = new Tiktoken(ranks.default);
+  return {
+    name,
+    // Special tokens in user text are counted as ordinary text.
+    countTokens: (text) => encoder.encode(text, [], []).length,
+  };
+}
+
+/**
+ * Forgets the calibration learned from server-reported token counts.
+ */
+export function clearTokenCalibrations(): void {
+  calibrations.clear();
+}
+
+/**
+ * Counts tokens locally for providers without a token counting endpoint,
+ * scaled by how far earlier estimates were from the prompt token counts the
+ * server reported.
+ */
+export class TokenCounter {
+  constructor(private readonly tokenizer?: TokenizerName) {}
+
+  async countTokens(
+    model: string,
+    contents: ContentListUnion,
+  ): Promise<number> {
+    const estimate = await this.estimate(model, toContents(contents));
+    return Math.round(estimate * (calibrations.get(model) ?? 1));
+  }
+
+  /**
+   * Compares the server's prompt token count for a request with the local
+   * estimate of the same request, and adjusts later counts accordingly.
+   */
+  async calibrate(
+    model: string,
+    contents: ContentListUnion,
+    config: GenerateContentConfig | undefined,
+    promptTokens: number | undefined,
+  ): Promise<void> {
+    if (!promptTokens) {
+      return;
+    }
+    const request = toContents(contents);
+    if (config?.systemInstruction) {
+      request.push(toContent(config.systemInstruction));
+    }
+    const declarations = getFunctionDeclarations(config?.tools);
+    if (declarations.length > 0) {
+      request.push({
+        role: 'user',
+        parts: [{ text: JSON.stringify(declarations) }],
+      });
+    }
+
+    const estimate = await this.estimate(model, request);
+    if (estimate === 0) {
+      return;
+    }
+    const observed = Math.min(
+      MAX_CALIBRATION,
+      Math.max(MIN_CALIBRATION, promptTokens / estimate),
+    );
+    const previous = calibrations.get(model);
+    calibrations.set(
+      model,
+      previous === undefined
+        ? observed
+        : previous + (observed - previous) * CALIBRATION_WEIGHT,
+    );
+  }
+
+  /**
+   * Passes a response stream through and calibrates from the usage reported
+   * with its last chunk.
+   */
+  async *calibrateFromStream(
+    model: string,
+    contents: ContentListUnion,
+    config: GenerateContentConfig | undefined,
+    stream: AsyncGenerator<GenerateContentResponse>,
+  ): AsyncGenerator<GenerateContentResponse> {
+    let promptTokens: number | undefined;
+    for await (const chunk of stream) {
+      promptTokens = chunk.usageMetadata?.promptTokenCount ?? promptTokens;
+      yield chunk;
+    }
+    await this.calibrate(model, contents, config, promptTokens);
+  }
+
+  private async estimate(model: string, contents: Content[]): Promise<number> {
+    const tokenizer = await getTokenizer(
+      this.tokenizer ?? tokenizerForModel(model),
+    );
+    let total = 0;
+    for (const content of contents) {
+      for (const part of content.parts ?? []) {
+        total += countPartTokens(tokenizer, part);
+      }
+    }
+    return total;
+  }
+}
+
+function countPartTokens(tokenizer: Tokenizer, part: Part): number {
+  if (part.text) {
+    return tokenizer.countTokens(part.text);
+  }
+  if (part.functionCall) {
+    return tokenizer.countTokens(
+      `${part.functionCall.name ?? ''}${JSON.stringify(part.functionCall.args ?? {})}`,
+    );
+  }
+  if (part.functionResponse) {
+    return tokenizer.countTokens(
+      `${part.functionResponse.name ?? ''}${JSON.stringify(part.functionResponse.response ?? {})}`,
+    );
+  }
+  if (part.inlineData || part.fileData) {
+    return ATTACHMENT_TOKEN_ESTIMATE;
+  }
+  return 0;
+}
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import os from 'os';
+import { BackgroundProcessService } from './backgroundProcessService.js';
+import { ShellExecutionService } from './shellExecutionService.js';
+
+describe.skipIf(os.platform() === 'win32')('BackgroundProcessService', () => {
+  let service: BackgroundProcessService;
+  const signal = new AbortController().signal;
+
+  beforeEach(() => {
+    service = new BackgroundProcessService();
+  });
+
+  afterEach(() => {
+    service.killAll();
+    vi.restoreAllMocks();
+  });
+
+  it('should buffer the output of a running process', async () => {
+    service.start(
+      'server',
+      'echo starting; sleep 0.1; echo ready >&2; sleep 30',
+      '/',
+    );
+
+    const result = await service.waitForOutput('server', /ready/, 5000, signal);
+
+    expect(result).toEqual({ type: 'matched', line: 'ready' });
+    expect(service.getOutput('server')).toEqual({
+      output: 'starting\nready\n',
+      truncated: false,
+    });
+    expect(service.get('server')).toMatchObject({
+      status: 'running',
+      command: 'echo starting; sleep 0.1; echo ready >&2; sleep 30',
+    });
+  });
+
+  it('should match output printed before waiting', async () => {
+    service.start('build', 'echo done', '/');
+    await service.waitForOutput('build', /never/, 5000, signal);
+
+    const result = await service.waitForOutput('build', /done/, 50, signal);
+
+    expect(result).toEqual({ type: 'matched', line: 'done' });
+  });
+
+  it('should stop waiting when the process exits', async () => {
+    service.start('broken', 'echo failed; exit 3', '/');
+
+    const result = await service.waitForOutput(
+      'broken',
+      /listening/,
+      5000,
+      signal,
+    );
+
+    expect(result).toEqual({ type: 'exited' });
+    expect(service.get('broken')).toMatchObject({
+      status: 'exited',
+      exitCode: 3,
+    });
+  });
+
+  it('should stop waiting after the timeout', async () => {
+    service.start('quiet', 'sleep 30', '/');
+
+    const result = await service.waitForOutput('quiet', /ready/, 50, signal);
+
+    expect(result).toEqual({ type: 'timeout' });
+  });
+
+  it('should kill processes and allow their name to be reused', async () => {
+    const onChange = vi.fn();
+    service.on('change', onChange);
+    service.start('server', 'sleep 30', '/');
+    expect(() => service.start('server', 'sleep 30', '/')).toThrow(
+      'A process named "server" is already running.',
+    );
+    expect(service.getRunningCount()).toBe(1);
+
+    const info = await service.kill('server');
+
+    expect(info).toMatchObject({ status: 'exited', signal: 'SIGTERM' });
+    expect(service.getRunningCount()).toBe(0);
+    expect(onChange).toHaveBeenCalledTimes(2);
+    service.start('server', 'sleep 30', '/');
+    expect(service.list()).toHaveLength(1);
+  });
+
+  it('should keep only the latest output of a process', async () => {
+    const execute = vi.spyOn(ShellExecutionService, 'execute');
+    // About 2 MB of output, twice the buffer limit.
+    service.start(
+      'noisy',
+      'for i in $(seq 20000); do printf "%099d\\n" $i; done; echo done',
+      '/',
+    );
+
+    const result = await service.waitForOutput('noisy', /done/, 20000, signal);
+    const shellResult = await execute.mock.results[0].value.result;
+
+    expect(result).toEqual({ type: 'matched', line: 'done' });
+    const { output, truncated } = service.getOutput('noisy');
+    expect(truncated).toBe(true);
+    expect(output.length).toBeLessThanOrEqual(1024 * 1024);
+    expect(output.endsWith('00020000\ndone\n')).toBe(true);
+    expect(shellResult.rawOutput).toHaveLength(0);
+    expect(shellResult.output).toBe('');
+  });
+
+  it('should throw for unknown processes', () => {
+    expect(() => service.getOutput('missing')).toThrow(
+      'No background process is named "missing".',
+    );
+  });
+});
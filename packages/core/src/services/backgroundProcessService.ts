@@ -0,0 +1,248 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { EventEmitter } from 'events';
+import { ShellExecutionService } from './shellExecutionService.js';
+
+// The most output kept per process; older output is dropped.
+const MAX_BUFFERED_OUTPUT_LENGTH = 1024 * 1024;
+// A process can exit before the last of its output is read, so it is only
+// marked as exited once its output has been quiet for this long, or once
+// MAX_OUTPUT_DRAIN_MS has passed for processes whose children keep printing.
+const OUTPUT_DRAIN_MS = 50;
+const MAX_OUTPUT_DRAIN_MS = 1000;
+
+export type BackgroundProcessStatus = 'running' | 'exited';
+
+/** A snapshot of a process started by the `BackgroundProcessService`. */
+export interface BackgroundProcessInfo {
+  name: string;
+  command: string;
+  cwd: string;
+  pid: number | undefined;
+  status: BackgroundProcessStatus;
+  /** The exit code, or null if the process was terminated by a signal. */
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  /** The error if the process failed to start. */
+  error: string | null;
+  startedAt: number;
+  exitedAt?: number;
+}
+
+/** The result of waiting for a process to print a pattern. */
+export type WaitForOutputResult =
+  | { type: 'matched'; line: string }
+  | { type: 'exited' }
+  | { type: 'timeout' }
+  | { type: 'aborted' };
+
+interface BackgroundProcess {
+  info: BackgroundProcessInfo;
+  output: string;
+  /** Whether output was dropped to stay under the buffer limit. */
+  outputTruncated: boolean;
+  /** When output was last received, in milliseconds since the epoch. */
+  lastOutputAt: number;
+  abortController: AbortController;
+  exited: Promise<void>;
+}
+
+/**
+ * Runs named, long-running commands such as dev servers and watchers in the
+ * background, and buffers their output so it can be read while they run.
+ *
+ * Emits `change` whenever a process starts or exits.
+ */
+export class BackgroundProcessService extends EventEmitter {
+  private readonly processes = new Map<string, BackgroundProcess>();
+
+  /**
+   * Starts `command` under `name`. A name can be reused once its previous
+   * process has exited.
+   */
+  start(name: string, command: string, cwd: string): BackgroundProcessInfo {
+    if (this.processes.get(name)?.info.status === 'running') {
+      throw new Error(`A process named "${name}" is already running.`);
+    }
+
+    const abortController = new AbortController();
+    const handle = ShellExecutionService.execute(
+      command,
+      cwd,
+      (event) => {
+        if (event.type === 'data') {
+          this.appendOutput(entry, event.chunk);
+        }
+      },
+      abortController.signal,
+      // Only the last MAX_BUFFERED_OUTPUT_LENGTH characters are kept, in
+      // appendOutput.
+      { retainOutput: false },
+    );
+    const entry: BackgroundProcess = {
+      info: {
+        name,
+        command,
+        cwd,
+        pid: handle.pid,
+        status: 'running',
+        exitCode: null,
+        signal: null,
+        error: null,
+        startedAt: Date.now(),
+      },
+      output: '',
+      outputTruncated: false,
+      lastOutputAt: 0,
+      abortController,
+      exited: handle.result.then(async (result) => {
+        await this.drainOutput(entry);
+        entry.info = {
+          ...entry.info,
+          status: 'exited',
+          exitCode: result.exitCode,
+          signal: result.signal,
+          error: result.error?.message ?? null,
+          exitedAt: Date.now(),
+        };
+        this.emit('change');
+      }),
+    };
+    this.processes.set(name, entry);
+    this.emit('change');
+    return { ...entry.info };
+  }
+
+  get(name: string): BackgroundProcessInfo | undefined {
+    const entry = this.processes.get(name);
+    return entry ? { ...entry.info } : undefined;
+  }
+
+  list(): BackgroundProcessInfo[] {
+    return [...this.processes.values()].map((entry) => ({
+      ...entry.info,
+    }));
+  }
+
+  getRunningCount(): number {
+    return this.list().filter((info) => info.status === 'running').length;
+  }
+
+  /**
+   * Returns the buffered output of a process, and whether older output was
+   * dropped to stay under the buffer limit.
+   */
+  getOutput(name: string): { output: string; truncated: boolean } {
+    const entry = this.require(name);
+    return { output: entry.output, truncated: entry.outputTruncated };
+  }
+
+  /**
+   * Resolves once the output of a process, including output printed before
+   * the call, matches `pattern`, or once the process exits, `timeoutMs`
+   * passes or `signal` is aborted.
+   */
+  async waitForOutput(
+    name: string,
+    pattern: RegExp,
+    timeoutMs: number,
+    signal: AbortSignal,
+  ): Promise<WaitForOutputResult> {
+    const entry = this.require(name);
+    const findMatch = (): WaitForOutputResult | undefined => {
+      const line = entry.output
+        .split('\n')
+        .find((outputLine) => pattern.test(outputLine));
+      return line !== undefined ? { type: 'matched', line } : undefined;
+    };
+
+    const match = findMatch();
+    if (match) {
+      return match;
+    }
+    if (entry.info.status === 'exited') {
+      return { type: 'exited' };
+    }
+    if (signal.aborted) {
+      return { type: 'aborted' };
+    }
+
+    return new Promise<WaitForOutputResult>((resolve) => {
+      const finish = (result: WaitForOutputResult) => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', onAbort);
+        this.off(`output:${name}`, onOutput);
+        resolve(result);
+      };
+      const onOutput = () => {
+        const outputMatch = findMatch();
+        if (outputMatch) {
+          finish(outputMatch);
+        }
+      };
+      const onAbort = () => finish({ type: 'aborted' });
+      const timer = setTimeout(() => finish({ type: 'timeout' }), timeoutMs);
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.on(`output:${name}`, onOutput);
+      void entry.exited.then(() => finish(findMatch() ?? { type: 'exited' }));
+    });
+  }
+
+  /** Stops a process and its children, and resolves once it has exited. */
+  async kill(name: string): Promise<BackgroundProcessInfo> {
+    const entry = this.require(name);
+    entry.abortController.abort();
+    await entry.exited;
+    return { ...entry.info };
+  }
+
+  /**
+   * Stops all running processes without waiting for them to exit, for use
+   * when the CLI exits.
+   */
+  killAll(): void {
+    for (const entry of this.processes.values()) {
+      if (entry.info.status === 'running') {
+        entry.abortController.abort();
+      }
+    }
+  }
+
+  private require(name: string): BackgroundProcess {
+    const entry = this.processes.get(name);
+    if (!entry) {
+      throw new Error(`No background process is named "${name}".`);
+    }
+    return entry;
+  }
+
+  /** Resolves once no output has been received for OUTPUT_DRAIN_MS. */
+  private async drainOutput(entry: BackgroundProcess): Promise<void> {
+    const deadline = Date.now() + MAX_OUTPUT_DRAIN_MS;
+    do {
+      await new Promise((resolve) => setTimeout(resolve, OUTPUT_DRAIN_MS));
+    } while (
+      Date.now() - entry.lastOutputAt < OUTPUT_DRAIN_MS &&
+      Date.now() < deadline
+    );
+  }
+
+  private appendOutput(entry: BackgroundProcess, chunk: string): void {
+    entry.lastOutputAt = Date.now();
+    entry.output += chunk;
+    if (entry.output.length > MAX_BUFFERED_OUTPUT_LENGTH) {
+      // Drop whole lines, so that the buffer starts at a line.
+      const excess = entry.output.length - MAX_BUFFERED_OUTPUT_LENGTH;
+      const lineStart = entry.output.indexOf('\n', excess);
+      entry.output = entry.output.slice(
+        lineStart === -1 ? excess : lineStart + 1,
+      );
+      entry.outputTruncated = true;
+    }
+    this.emit(`output:${entry.info.name}`);
+  }
+}
@@ -335,7 +335,14 @@ Please analyze the conversation history to determine the possibility that the co
     try {
       result = await this.config
         .getGeminiClient()
-        .generateJson(contents, schema, signal, DEFAULT_GEMINI_FLASH_MODEL);
+        .generateJson(
+          contents,
+          schema,
+          signal,
+          DEFAULT_GEMINI_FLASH_MODEL,
+          undefined,
+          'loopDetection',
+        );
     } catch (e) {
       // Do nothing, treat it as a non-loop.
       this.config.getDebugMode() ? console.error(e) : console.debug(e);
@@ -150,6 +150,34 @@ describe('ShellExecutionService', () => {
       expect(result.output).toBe('');
       expect(onOutputEventMock).not.toHaveBeenCalled();
     });
+
+    it('should only stream output when it is not retained', async () => {
+      const handle = ShellExecutionService.execute(
+        'yes',
+        '/test/dir',
+        onOutputEventMock,
+        new AbortController().signal,
+        { retainOutput: false },
+      );
+      mockChildProcess.stdout?.emit('data', Buffer.from('y\n'));
+      mockChildProcess.stderr?.emit('data', Buffer.from('warning'));
+      mockChildProcess.emit('exit', 0, null);
+      const result = await handle.result;
+
+      expect(onOutputEventMock).toHaveBeenCalledWith({
+        type: 'data',
+        stream: 'stdout',
+        chunk: 'y\n',
+      });
+      expect(onOutputEventMock).toHaveBeenCalledWith({
+        type: 'data',
+        stream: 'stderr',
+        chunk: 'warning',
+      });
+      expect(result.rawOutput).toHaveLength(0);
+      expect(result.output).toBe('');
+      expect(result.exitCode).toBe(0);
+    });
   });
 
   describe('Failed Execution', () => {
@@ -13,6 +13,17 @@ import { isBinary } from '../utils/textUtils.js';
 
 const SIGKILL_TIMEOUT_MS = 200;
 
+/** Options for a shell command execution. */
+export interface ShellExecutionOptions {
+  /**
+   * Whether to keep the output for the result. When false, the output is
+   * only streamed to `onOutputEvent` and the output fields of the result are
+   * empty, so that long-running commands do not hold all of their output in
+   * memory. Defaults to true.
+   */
+  retainOutput?: boolean;
+}
+
 /** A structured result from a shell command execution. */
 export interface ShellExecutionResult {
   /** The raw, unprocessed output buffer. */
@@ -79,6 +90,7 @@ export class ShellExecutionService {
    * @param cwd The working directory to execute the command in.
    * @param onOutputEvent A callback for streaming structured events about the execution, including data chunks and status updates.
    * @param abortSignal An AbortSignal to terminate the process and its children.
+   * @param options Options for the execution.
    * @returns An object containing the process ID (pid) and a promise that
    *          resolves with the complete execution result.
    */
@@ -87,6 +99,7 @@ export class ShellExecutionService {
     cwd: string,
     onOutputEvent: (event: ShellOutputEvent) => void,
     abortSignal: AbortSignal,
+    { retainOutput = true }: ShellExecutionOptions = {},
   ): ShellExecutionHandle {
     const isWindows = os.platform() === 'win32';
     const shell = isWindows ? 'cmd.exe' : 'bash';
@@ -110,12 +123,14 @@ export class ShellExecutionService {
       let stdout = '';
       let stderr = '';
       const outputChunks: Buffer[] = [];
+      let bytesReceived = 0;
       let error: Error | null = null;
       let exited = false;
 
       let isStreamingRawContent = true;
       const MAX_SNIFF_SIZE = 4096;
       let sniffedBytes = 0;
+      const sniffChunks: Buffer[] = [];
 
       const handleOutput = (data: Buffer, stream: 'stdout' | 'stderr') => {
         if (!stdoutDecoder || !stderrDecoder) {
@@ -131,11 +146,17 @@ export class ShellExecutionService {
           }
         }
 
-        outputChunks.push(data);
+        bytesReceived += data.length;
+        if (retainOutput) {
+          outputChunks.push(data);
+        }
 
         // Binary detection logic. This only runs until we've made a determination.
         if (isStreamingRawContent && sniffedBytes < MAX_SNIFF_SIZE) {
-          const sniffBuffer = Buffer.concat(outputChunks.slice(0, 20));
+          if (sniffChunks.length < 20) {
+            sniffChunks.push(data);
+          }
+          const sniffBuffer = Buffer.concat(sniffChunks);
           sniffedBytes = sniffBuffer.length;
 
           if (isBinary(sniffBuffer)) {
@@ -151,20 +172,18 @@ export class ShellExecutionService {
             : stderrDecoder.decode(data, { stream: true });
         const strippedChunk = stripAnsi(decodedChunk);
 
-        if (stream === 'stdout') {
-          stdout += strippedChunk;
-        } else {
-          stderr += strippedChunk;
+        if (retainOutput) {
+          if (stream === 'stdout') {
+            stdout += strippedChunk;
+          } else {
+            stderr += strippedChunk;
+          }
         }
 
         if (isStreamingRawContent) {
           onOutputEvent({ type: 'data', stream, chunk: strippedChunk });
         } else {
-          const totalBytes = outputChunks.reduce(
-            (sum, chunk) => sum + chunk.length,
-            0,
-          );
-          onOutputEvent({ type: 'binary_progress', bytesReceived: totalBytes });
+          onOutputEvent({ type: 'binary_progress', bytesReceived });
         }
       };
 
@@ -201,10 +220,10 @@ export class ShellExecutionService {
         exited = true;
         abortSignal.removeEventListener('abort', abortHandler);
 
-        if (stdoutDecoder) {
+        if (retainOutput && stdoutDecoder) {
           stdout += stripAnsi(stdoutDecoder.decode());
         }
-        if (stderrDecoder) {
+        if (retainOutput && stderrDecoder) {
           stderr += stripAnsi(stderrDecoder.decode());
         }
 
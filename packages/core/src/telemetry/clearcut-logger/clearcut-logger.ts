@@ -23,6 +23,7 @@ import {
 import { EventMetadataKey } from './event-metadata-key.js';
 import { Config } from '../../config/config.js';
 import { safeJsonStringify } from '../../utils/safeJsonStringify.js';
+import { redactSecrets } from '../../utils/redaction.js';
 import {
   getCachedGoogleAccount,
   getLifetimeGoogleAccounts,
@@ -132,7 +133,7 @@ export class ClearcutLogger {
             log_event: eventsToSend,
           },
         ];
-        const body = safeJsonStringify(request);
+        const body = redactSecrets(safeJsonStringify(request));
         const options = {
           hostname: 'play.googleapis.com',
           path: '/log',
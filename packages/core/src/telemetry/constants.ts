@@ -13,6 +13,7 @@ export const EVENT_API_ERROR = 'gemini_cli.api_error';
 export const EVENT_API_RESPONSE = 'gemini_cli.api_response';
 export const EVENT_CLI_CONFIG = 'gemini_cli.config';
 export const EVENT_FLASH_FALLBACK = 'gemini_cli.flash_fallback';
+export const EVENT_PROVIDER_FAILOVER = 'gemini_cli.provider_failover';
 export const EVENT_FLASH_DECIDED_TO_CONTINUE =
   'gemini_cli.flash_decided_to_continue';
 
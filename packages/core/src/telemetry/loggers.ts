@@ -15,6 +15,7 @@ import {
   EVENT_TOOL_CALL,
   EVENT_USER_PROMPT,
   EVENT_FLASH_FALLBACK,
+  EVENT_PROVIDER_FAILOVER,
   EVENT_FLASH_DECIDED_TO_CONTINUE,
   SERVICE_NAME,
 } from './constants.js';
@@ -28,6 +29,7 @@ import {
   FlashFallbackEvent,
   FlashDecidedToContinueEvent,
   LoopDetectedEvent,
+  ProviderFailoverEvent,
 } from './types.js';
 import {
   recordApiErrorMetrics,
@@ -39,6 +41,7 @@ import { isTelemetrySdkInitialized } from './sdk.js';
 import { uiTelemetryService, UiEvent } from './uiTelemetry.js';
 import { ClearcutLogger } from './clearcut-logger/clearcut-logger.js';
 import { safeJsonStringify } from '../utils/safeJsonStringify.js';
+import { redactSecrets } from '../utils/redaction.js';
 
 const shouldLogUserPrompts = (config: Config): boolean =>
   config.getTelemetryLogPromptsEnabled();
@@ -49,6 +52,22 @@ function getCommonAttributes(config: Config): LogAttributes {
   };
 }
 
+// Prompts, tool arguments and error messages can all contain credentials.
+function redactLogRecord(logRecord: LogRecord): LogRecord {
+  const attributes: LogAttributes = {};
+  for (const [key, value] of Object.entries(logRecord.attributes ?? {})) {
+    attributes[key] = typeof value === 'string' ? redactSecrets(value) : value;
+  }
+  return {
+    ...logRecord,
+    body:
+      typeof logRecord.body === 'string'
+        ? redactSecrets(logRecord.body)
+        : logRecord.body,
+    attributes,
+  };
+}
+
 export function logCliConfiguration(
   config: Config,
   event: StartSessionEvent,
@@ -78,7 +97,7 @@ export function logCliConfiguration(
     body: 'CLI configuration loaded.',
     attributes,
   };
-  logger.emit(logRecord);
+  logger.emit(redactLogRecord(logRecord));
 }
 
 export function logUserPrompt(config: Config, event: UserPromptEvent): void {
@@ -101,7 +120,7 @@ export function logUserPrompt(config: Config, event: UserPromptEvent): void {
     body: `User prompt. Length: ${event.prompt_length}.`,
     attributes,
   };
-  logger.emit(logRecord);
+  logger.emit(redactLogRecord(logRecord));
 }
 
 export function logToolCall(config: Config, event: ToolCallEvent): void {
@@ -133,7 +152,7 @@ export function logToolCall(config: Config, event: ToolCallEvent): void {
     body: `Tool call: ${event.function_name}${event.decision ? `. Decision: ${event.decision}` : ''}. Success: ${event.success}. Duration: ${event.duration_ms}ms.`,
     attributes,
   };
-  logger.emit(logRecord);
+  logger.emit(redactLogRecord(logRecord));
   recordToolCallMetrics(
     config,
     event.function_name,
@@ -159,7 +178,7 @@ export function logApiRequest(config: Config, event: ApiRequestEvent): void {
     body: `API request to ${event.model}.`,
     attributes,
   };
-  logger.emit(logRecord);
+  logger.emit(redactLogRecord(logRecord));
 }
 
 export function logFlashFallback(
@@ -181,7 +200,31 @@ export function logFlashFallback(
     body: `Switching to flash as Fallback.`,
     attributes,
   };
-  logger.emit(logRecord);
+  logger.emit(redactLogRecord(logRecord));
+}
+
+export function logProviderFailover(
+  config: Config,
+  event: ProviderFailoverEvent,
+): void {
+  if (!isTelemetrySdkInitialized()) return;
+
+  const attributes: LogAttributes = {
+    ...getCommonAttributes(config),
+    ...event,
+    'event.name': EVENT_PROVIDER_FAILOVER,
+    'event.timestamp': new Date().toISOString(),
+  };
+  if (typeof event.status_code === 'number') {
+    attributes[SemanticAttributes.HTTP_STATUS_CODE] = event.status_code;
+  }
+
+  const logger = logs.getLogger(SERVICE_NAME);
+  const logRecord: LogRecord = {
+    body: `Failing over from ${event.from_provider}/${event.from_model} to ${event.to_provider}/${event.to_model}. Error: ${event.error}.`,
+    attributes,
+  };
+  logger.emit(redactLogRecord(logRecord));
 }
 
 export function logApiError(config: Config, event: ApiErrorEvent): void {
@@ -216,7 +259,7 @@ export function logApiError(config: Config, event: ApiErrorEvent): void {
     body: `API error for ${event.model}. Error: ${event.error}. Duration: ${event.duration_ms}ms.`,
     attributes,
   };
-  logger.emit(logRecord);
+  logger.emit(redactLogRecord(logRecord));
   recordApiErrorMetrics(
     config,
     event.model,
@@ -257,7 +300,7 @@ export function logApiResponse(config: Config, event: ApiResponseEvent): void {
     body: `API response from ${event.model}. Status: ${event.status_code || 'N/A'}. Duration: ${event.duration_ms}ms.`,
     attributes,
   };
-  logger.emit(logRecord);
+  logger.emit(redactLogRecord(logRecord));
   recordApiResponseMetrics(
     config,
     event.model,
@@ -309,7 +352,7 @@ export function logLoopDetected(
     body: `Loop detected. Type: ${event.loop_type}.`,
     attributes,
   };
-  logger.emit(logRecord);
+  logger.emit(redactLogRecord(logRecord));
 }
 
 export function logFlashDecidedToContinue(
@@ -330,5 +373,5 @@ export function logFlashDecidedToContinue(
     body: `Flash decided to continue.`,
     attributes,
   };
-  logger.emit(logRecord);
+  logger.emit(redactLogRecord(logRecord));
 }
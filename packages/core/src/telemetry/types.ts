@@ -5,7 +5,7 @@
  */
 
 import { GenerateContentResponseUsageMetadata } from '@google/genai';
-import { Config } from '../config/config.js';
+import { Config, ModelRole } from '../config/config.js';
 import { CompletedToolCall } from '../core/coreToolScheduler.js';
 import { ToolConfirmationOutcome } from '../tools/tools.js';
 import { AuthType } from '../core/contentGenerator.js';
@@ -62,7 +62,7 @@ export class StartSessionEvent {
 
     this['event.name'] = 'cli_config';
     this.model = config.getModel();
-    this.embedding_model = config.getEmbeddingModel();
+    this.embedding_model = config.getEmbeddingModel() ?? '';
     this.sandbox_enabled =
       typeof config.getSandbox() === 'string' || !!config.getSandbox();
     this.core_tools_enabled = (config.getCoreTools() ?? []).join(',');
@@ -168,6 +168,8 @@ export class ApiErrorEvent {
   duration_ms: number;
   prompt_id: string;
   auth_type?: string;
+  /** The auxiliary role the request was made for; unset for the main chat. */
+  role?: ModelRole;
 
   constructor(
     model: string,
@@ -177,6 +179,7 @@ export class ApiErrorEvent {
     auth_type?: string,
     error_type?: string,
     status_code?: number | string,
+    role?: ModelRole,
   ) {
     this['event.name'] = 'api_error';
     this['event.timestamp'] = new Date().toISOString();
@@ -187,6 +190,7 @@ export class ApiErrorEvent {
     this.duration_ms = duration_ms;
     this.prompt_id = prompt_id;
     this.auth_type = auth_type;
+    this.role = role;
   }
 }
 
@@ -206,6 +210,8 @@ export class ApiResponseEvent {
   response_text?: string;
   prompt_id: string;
   auth_type?: string;
+  /** The auxiliary role the request was made for; unset for the main chat. */
+  role?: ModelRole;
 
   constructor(
     model: string,
@@ -215,6 +221,7 @@ export class ApiResponseEvent {
     usage_data?: GenerateContentResponseUsageMetadata,
     response_text?: string,
     error?: string,
+    role?: ModelRole,
   ) {
     this['event.name'] = 'api_response';
     this['event.timestamp'] = new Date().toISOString();
@@ -231,6 +238,7 @@ export class ApiResponseEvent {
     this.error = error;
     this.prompt_id = prompt_id;
     this.auth_type = auth_type;
+    this.role = role;
   }
 }
 
@@ -246,6 +254,35 @@ export class FlashFallbackEvent {
   }
 }
 
+export class ProviderFailoverEvent {
+  'event.name': 'provider_failover';
+  'event.timestamp': string; // ISO 8601
+  from_provider: string;
+  from_model: string;
+  to_provider: string;
+  to_model: string;
+  error: string;
+  status_code?: number;
+
+  constructor(
+    from_provider: string,
+    from_model: string,
+    to_provider: string,
+    to_model: string,
+    error: string,
+    status_code?: number,
+  ) {
+    this['event.name'] = 'provider_failover';
+    this['event.timestamp'] = new Date().toISOString();
+    this.from_provider = from_provider;
+    this.from_model = from_model;
+    this.to_provider = to_provider;
+    this.to_model = to_model;
+    this.error = error;
+    this.status_code = status_code;
+  }
+}
+
 export enum LoopType {
   CONSECUTIVE_IDENTICAL_TOOL_CALLS = 'consecutive_identical_tool_calls',
   CHANTING_IDENTICAL_SENTENCES = 'chanting_identical_sentences',
@@ -287,5 +324,6 @@ export type TelemetryEvent =
   | ApiErrorEvent
   | ApiResponseEvent
   | FlashFallbackEvent
+  | ProviderFailoverEvent
   | LoopDetectedEvent
   | FlashDecidedToContinueEvent;
@@ -23,6 +23,11 @@ import {
   SuccessfulToolCall,
 } from '../core/coreToolScheduler.js';
 import { Tool, ToolConfirmationOutcome } from '../tools/tools.js';
+import { addDailySpend } from '../utils/dailySpend.js';
+
+vi.mock('../utils/dailySpend.js', () => ({
+  addDailySpend: vi.fn(),
+}));
 
 const createFakeCompletedToolCall = (
   name: string,
@@ -85,6 +90,7 @@ describe('UiTelemetryService', () => {
   let service: UiTelemetryService;
 
   beforeEach(() => {
+    vi.clearAllMocks();
     service = new UiTelemetryService();
   });
 
@@ -329,6 +335,92 @@ describe('UiTelemetryService', () => {
     });
   });
 
+  describe('Role Attribution', () => {
+    it('should attribute requests made for auxiliary roles', () => {
+      service.addEvent({
+        'event.name': EVENT_API_RESPONSE,
+        model: 'gemini-2.5-flash',
+        duration_ms: 100,
+        input_token_count: 10,
+        output_token_count: 5,
+        total_token_count: 15,
+        cached_content_token_count: 0,
+        thoughts_token_count: 0,
+        tool_token_count: 0,
+        role: 'nextSpeaker',
+      } as ApiResponseEvent & { 'event.name': typeof EVENT_API_RESPONSE });
+      service.addEvent({
+        'event.name': EVENT_API_ERROR,
+        model: 'gemini-2.5-flash',
+        duration_ms: 50,
+        error: 'Something went wrong',
+        role: 'nextSpeaker',
+      } as ApiErrorEvent & { 'event.name': typeof EVENT_API_ERROR });
+
+      const metrics = service.getMetrics();
+      expect(metrics.models['gemini-2.5-flash'].api.totalRequests).toBe(2);
+      expect(metrics.models['gemini-2.5-flash'].roles).toEqual({
+        nextSpeaker: { totalRequests: 2, totalTokens: 15 },
+      });
+    });
+
+    it('should not count side calls as the last prompt token count', () => {
+      service.addEvent({
+        'event.name': EVENT_API_RESPONSE,
+        model: 'gemini-2.5-flash',
+        duration_ms: 100,
+        input_token_count: 10,
+        output_token_count: 5,
+        total_token_count: 15,
+        cached_content_token_count: 0,
+        thoughts_token_count: 0,
+        tool_token_count: 0,
+        role: 'compression',
+      } as ApiResponseEvent & { 'event.name': typeof EVENT_API_RESPONSE });
+
+      expect(service.getLastPromptTokenCount()).toBe(0);
+    });
+  });
+
+  describe('Daily Spend', () => {
+    const responseEvent = (model: string, role?: 'compression') =>
+      ({
+        'event.name': EVENT_API_RESPONSE,
+        model,
+        duration_ms: 100,
+        input_token_count: 1_000_000,
+        output_token_count: 0,
+        total_token_count: 1_000_000,
+        cached_content_token_count: 0,
+        thoughts_token_count: 0,
+        tool_token_count: 0,
+        role,
+      }) as ApiResponseEvent & { 'event.name': typeof EVENT_API_RESPONSE };
+
+    it('should not record the daily spend unless asked to', () => {
+      service.addEvent(responseEvent('gemini-2.5-pro'));
+
+      expect(addDailySpend).not.toHaveBeenCalled();
+    });
+
+    it('should add the cost of each response to the daily spend', () => {
+      service.recordDailySpend();
+      service.addEvent(responseEvent('gemini-2.5-pro'));
+      service.addEvent(responseEvent('gemini-2.5-pro', 'compression'));
+
+      expect(addDailySpend).toHaveBeenCalledTimes(2);
+      expect(addDailySpend).toHaveBeenNthCalledWith(1, 1.25);
+      expect(addDailySpend).toHaveBeenNthCalledWith(2, 1.25);
+    });
+
+    it('should not record responses of models without known pricing', () => {
+      service.recordDailySpend();
+      service.addEvent(responseEvent('unknown-model'));
+
+      expect(addDailySpend).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Tool Call Event Processing', () => {
     it('should process a single successful ToolCallEvent', () => {
       const toolCall = createFakeCompletedToolCall(
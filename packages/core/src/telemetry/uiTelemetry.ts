@@ -17,6 +17,9 @@ import {
   ToolCallEvent,
   ToolCallDecision,
 } from './types.js';
+import type { ModelRole } from '../config/config.js';
+import { calculateCost } from '../core/modelPricing.js';
+import { addDailySpend } from '../utils/dailySpend.js';
 
 export type UiEvent =
   | (ApiResponseEvent & { 'event.name': typeof EVENT_API_RESPONSE })
@@ -35,6 +38,11 @@ export interface ToolCallStats {
   };
 }
 
+export interface RoleMetrics {
+  totalRequests: number;
+  totalTokens: number;
+}
+
 export interface ModelMetrics {
   api: {
     totalRequests: number;
@@ -49,6 +57,8 @@ export interface ModelMetrics {
     thoughts: number;
     tool: number;
   };
+  /** Usage by auxiliary roles, which is included in the totals above. */
+  roles?: Partial<Record<ModelRole, RoleMetrics>>;
 }
 
 export interface SessionMetrics {
@@ -102,6 +112,15 @@ const createInitialMetrics = (): SessionMetrics => ({
 export class UiTelemetryService extends EventEmitter {
   #metrics: SessionMetrics = createInitialMetrics();
   #lastPromptTokenCount = 0;
+  #recordsDailySpend = false;
+
+  /**
+   * Adds the cost of each later model response to the daily spend, whether
+   * the session is interactive or not.
+   */
+  recordDailySpend(): void {
+    this.#recordsDailySpend = true;
+  }
 
   addEvent(event: UiEvent) {
     switch (event['event.name']) {
@@ -161,6 +180,25 @@ export class UiTelemetryService extends EventEmitter {
     modelMetrics.tokens.thoughts += event.thoughts_token_count;
     modelMetrics.tokens.tool += event.tool_token_count;
 
+    if (this.#recordsDailySpend) {
+      const cost = calculateCost(event.model, {
+        prompt: event.input_token_count,
+        candidates: event.output_token_count,
+        cached: event.cached_content_token_count,
+        thoughts: event.thoughts_token_count,
+      });
+      if (cost) {
+        addDailySpend(cost);
+      }
+    }
+
+    if (event.role) {
+      const roleMetrics = this.getOrCreateRoleMetrics(modelMetrics, event.role);
+      roleMetrics.totalRequests++;
+      roleMetrics.totalTokens += event.total_token_count;
+      // Side calls do not fill the main chat's context window.
+      return;
+    }
     this.#lastPromptTokenCount = event.input_token_count;
   }
 
@@ -169,6 +207,17 @@ export class UiTelemetryService extends EventEmitter {
     modelMetrics.api.totalRequests++;
     modelMetrics.api.totalErrors++;
     modelMetrics.api.totalLatencyMs += event.duration_ms;
+    if (event.role) {
+      this.getOrCreateRoleMetrics(modelMetrics, event.role).totalRequests++;
+    }
+  }
+
+  private getOrCreateRoleMetrics(
+    modelMetrics: ModelMetrics,
+    role: ModelRole,
+  ): RoleMetrics {
+    modelMetrics.roles ??= {};
+    return (modelMetrics.roles[role] ??= { totalRequests: 0, totalTokens: 0 });
   }
 
   private processToolCall(event: ToolCallEvent) {
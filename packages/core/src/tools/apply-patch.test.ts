@@ -0,0 +1,213 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import { ApplyPatchTool } from './apply-patch.js';
+import { ApprovalMode, Config } from '../config/config.js';
+import { FileDiff, ToolEditConfirmationDetails } from './tools.js';
+
+describe('ApplyPatchTool', () => {
+  let tool: ApplyPatchTool;
+  let rootDir: string;
+  let mockConfig: Config;
+  const signal = new AbortController().signal;
+
+  const readFile = (file: string) =>
+    fs.readFileSync(path.join(rootDir, file), 'utf8');
+  const writeFile = (file: string, content: string) =>
+    fs.writeFileSync(path.join(rootDir, file), content, 'utf8');
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'apply-patch-test-'));
+    mockConfig = {
+      getTargetDir: () => rootDir,
+      getApprovalMode: vi.fn(() => ApprovalMode.DEFAULT),
+      setApprovalMode: vi.fn(),
+    } as unknown as Config;
+    tool = new ApplyPatchTool(mockConfig);
+
+    writeFile('a.ts', 'const a = 1;\nexport { a };\n');
+    writeFile('b.ts', 'const b = 1;\nexport { b };\n');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  const patch = [
+    '*** Begin Patch',
+    '*** Update File: a.ts',
+    '-const a = 1;',
+    '+const a = 2;',
+    ' export { a };',
+    '*** Update File: b.ts',
+    '*** Move to: lib/b.ts',
+    '-const b = 1;',
+    '+const b = 2;',
+    '*** Add File: c.ts',
+    '+export const c = 3;',
+    '*** End Patch',
+  ].join('\n');
+
+  describe('validateToolParams', () => {
+    it('should reject paths outside the root directory', () => {
+      expect(
+        tool.validateToolParams({
+          patch: '*** Begin Patch\n*** Delete File: ../x.ts\n*** End Patch',
+        }),
+      ).toBe(
+        `File path must be within the root directory (${rootDir}): ../x.ts`,
+      );
+    });
+
+    it('should reject patches that cannot be parsed', () => {
+      expect(tool.validateToolParams({ patch: 'just text' })).toMatch(
+        /^Invalid patch: The patch does not change any files./,
+      );
+    });
+  });
+
+  describe('shouldConfirmExecute', () => {
+    it('should show the changes to all files in one diff', async () => {
+      const details = (await tool.shouldConfirmExecute(
+        { patch },
+        signal,
+      )) as ToolEditConfirmationDetails;
+
+      expect(details.title).toBe('Confirm Patch: 3 files');
+      expect(details.fileDiff).toContain('Index: a.ts\n');
+      expect(details.fileDiff).toContain(
+        `--- b.ts\tCurrent\n+++ ${path.join('lib', 'b.ts')}\tProposed`,
+      );
+      expect(details.fileDiff).toContain('+export const c = 3;');
+    });
+
+    it('should not ask for confirmation in AUTO_EDIT mode', async () => {
+      vi.mocked(mockConfig.getApprovalMode).mockReturnValue(
+        ApprovalMode.AUTO_EDIT,
+      );
+
+      expect(await tool.shouldConfirmExecute({ patch }, signal)).toBe(false);
+    });
+  });
+
+  describe('getDescription', () => {
+    it('should describe every file change relative to the root', () => {
+      expect(
+        tool.getDescription({
+          patch: patch.replace(
+            '*** Move to: lib/b.ts',
+            `*** Move to: ${path.join(rootDir, 'lib', 'b.ts')}`,
+          ),
+        }),
+      ).toBe(
+        `Update a.ts, Move b.ts to ${path.join('lib', 'b.ts')}, Create c.ts`,
+      );
+    });
+  });
+
+  describe('execute', () => {
+    it('should apply all changes', async () => {
+      const result = await tool.execute({ patch }, signal);
+
+      expect(readFile('a.ts')).toBe('const a = 2;\nexport { a };\n');
+      expect(fs.existsSync(path.join(rootDir, 'b.ts'))).toBe(false);
+      expect(readFile('lib/b.ts')).toBe('const b = 2;\nexport { b };\n');
+      expect(readFile('c.ts')).toBe('export const c = 3;\n');
+      expect(result.llmContent).toBe(
+        [
+          'Successfully applied the patch:',
+          `Modified ${path.join(rootDir, 'a.ts')}`,
+          `Moved ${path.join(rootDir, 'b.ts')} to ${path.join(rootDir, 'lib', 'b.ts')}`,
+          `Created ${path.join(rootDir, 'c.ts')}`,
+        ].join('\n'),
+      );
+      expect((result.returnDisplay as FileDiff).fileName).toBe('3 files');
+    });
+
+    it('should apply unified diffs', async () => {
+      const result = await tool.execute(
+        {
+          patch: [
+            '--- a/a.ts',
+            '+++ b/a.ts',
+            '@@ -1,2 +1,2 @@',
+            '-const a = 1;',
+            '+const a = 10;',
+            ' export { a };',
+          ].join('\n'),
+        },
+        signal,
+      );
+
+      expect(result.llmContent).toContain('Successfully applied the patch');
+      expect(readFile('a.ts')).toBe('const a = 10;\nexport { a };\n');
+    });
+
+    it('should not change any file if one change does not apply', async () => {
+      const result = await tool.execute(
+        {
+          patch: patch.replace(
+            '*** Add File: c.ts',
+            '*** Update File: a.ts\n-missing line\n*** Add File: c.ts',
+          ),
+        },
+        signal,
+      );
+      expect(result.llmContent).toBe(
+        `Failed to apply the patch, no files were changed. The patch changes ${path.join(rootDir, 'a.ts')} more than once. Combine the changes to each file.`,
+      );
+
+      const mismatch = await tool.execute(
+        { patch: patch.replace('-const b = 1;', '-const b = 100;') },
+        signal,
+      );
+      expect(mismatch.llmContent).toContain(
+        `Cannot change ${path.join(rootDir, 'b.ts')}. Hunk 1 does not match the file. Could not find these lines:\nconst b = 100;`,
+      );
+
+      expect(readFile('a.ts')).toBe('const a = 1;\nexport { a };\n');
+      expect(readFile('b.ts')).toBe('const b = 1;\nexport { b };\n');
+      expect(fs.existsSync(path.join(rootDir, 'c.ts'))).toBe(false);
+    });
+
+    it('should restore the tree if a write fails', async () => {
+      const writeFileSync = fs.writeFileSync;
+      vi.spyOn(fs, 'writeFileSync').mockImplementation((file, ...args) => {
+        if (String(file).endsWith('c.ts')) {
+          throw new Error('ENOSPC: no space left on device');
+        }
+        return writeFileSync(file, ...args);
+      });
+
+      const result = await tool.execute({ patch }, signal);
+
+      expect(result.llmContent).toBe(
+        'Error applying the patch, no files were changed: ENOSPC: no space left on device',
+      );
+      expect(readFile('a.ts')).toBe('const a = 1;\nexport { a };\n');
+      expect(readFile('b.ts')).toBe('const b = 1;\nexport { b };\n');
+      expect(fs.readdirSync(rootDir).sort()).toEqual(['a.ts', 'b.ts']);
+    });
+
+    it('should refuse to add files that exist', async () => {
+      const result = await tool.execute(
+        {
+          patch: '*** Begin Patch\n*** Add File: a.ts\n+x\n*** End Patch',
+        },
+        signal,
+      );
+
+      expect(result.llmContent).toBe(
+        `Failed to apply the patch, no files were changed. Cannot add ${path.join(rootDir, 'a.ts')}, because the file already exists.`,
+      );
+    });
+  });
+});
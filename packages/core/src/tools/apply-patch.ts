@@ -0,0 +1,482 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import * as path from 'path';
+import * as Diff from 'diff';
+import {
+  BaseTool,
+  Icon,
+  ToolCallConfirmationDetails,
+  ToolConfirmationOutcome,
+  ToolEditConfirmationDetails,
+  ToolLocation,
+  ToolResult,
+} from './tools.js';
+import { Type } from '@google/genai';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { getErrorMessage, isNodeError } from '../utils/errors.js';
+import { Config, ApprovalMode } from '../config/config.js';
+import { applyHunks, FilePatch, parsePatch } from '../utils/patch.js';
+import { DEFAULT_DIFF_OPTIONS } from './diffOptions.js';
+import { ReadFileTool } from './read-file.js';
+import { isWithinRoot } from '../utils/fileUtils.js';
+
+/**
+ * Parameters for the ApplyPatch tool
+ */
+export interface ApplyPatchToolParams {
+  /**
+   * A unified diff or an envelope of file changes
+   */
+  patch: string;
+}
+
+interface FileChange {
+  /** The absolute path of the file before the change. */
+  filePath: string;
+  /** The absolute path of the file after the change, if it is moved. */
+  newFilePath?: string;
+  /** The content before the change, or null for a new file. */
+  originalContent: string | null;
+  /** The content after the change, or null for a deleted file. */
+  newContent: string | null;
+}
+
+function readFileIfExists(filePath: string): string | null {
+  try {
+    // Normalize line endings to LF, as the edit tool does.
+    return fs.readFileSync(filePath, 'utf8').replace(/\r\n/g, '\n');
+  } catch (err) {
+    if (!isNodeError(err) || err.code !== 'ENOENT') {
+      throw err;
+    }
+    return null;
+  }
+}
+
+/**
+ * Removes the directories from `dir` up to `createdDir`, which `mkdirSync`
+ * created, deepest first. Directories that are not empty are kept.
+ */
+function removeCreatedDirs(dir: string, createdDir: string): void {
+  for (
+    let current = dir;
+    current.startsWith(createdDir);
+    current = path.dirname(current)
+  ) {
+    if (fs.readdirSync(current).length > 0) {
+      return;
+    }
+    fs.rmdirSync(current);
+  }
+}
+
+/**
+ * Implementation of the ApplyPatch tool logic
+ */
+export class ApplyPatchTool extends BaseTool<ApplyPatchToolParams, ToolResult> {
+  static readonly Name = 'apply_patch';
+
+  constructor(private readonly config: Config) {
+    super(
+      ApplyPatchTool.Name,
+      'ApplyPatch',
+      `Applies a patch that adds, deletes, moves or changes any number of files in one step. Every change is checked against the current contents of the files before anything is written, and either all of them are applied or none are. Prefer this tool over repeated \`replace\` calls for changes that span several places or files. Always use the ${ReadFileTool.Name} tool to examine the current content of files before changing them.
+
+The patch can be a unified diff, as printed by \`git diff\`, or an envelope in this format:
+
+*** Begin Patch
+*** Update File: src/app.ts
+@@ function main() {
+   const config = load();
+-  start(config);
++  await start(config);
+ }
+*** Add File: src/version.ts
++export const VERSION = '1.0.0';
+*** Delete File: src/legacy.ts
+*** Update File: src/old-name.ts
+*** Move to: src/new-name.ts
+@@
+-export const name = 'old';
++export const name = 'new';
+*** End Patch
+
+In the envelope, \`@@\` starts a hunk and may be followed by a line that the hunk comes after, to tell apart code that appears more than once. Lines starting with a space are context, \`-\` lines are removed and \`+\` lines are added. Include about 3 lines of context before and after each change. Paths are relative to the project root directory, or absolute.`,
+      Icon.Pencil,
+      {
+        properties: {
+          patch: {
+            description:
+              'The patch to apply, as a unified diff or a "*** Begin Patch" envelope.',
+            type: Type.STRING,
+          },
+        },
+        required: ['patch'],
+        type: Type.OBJECT,
+      },
+    );
+  }
+
+  private resolvePath(filePath: string): string {
+    return path.resolve(this.config.getTargetDir(), filePath);
+  }
+
+  /**
+   * Validates the parameters for the ApplyPatch tool
+   * @param params Parameters to validate
+   * @returns Error message string or null if valid
+   */
+  validateToolParams(params: ApplyPatchToolParams): string | null {
+    const errors = SchemaValidator.validate(this.schema.parameters, params);
+    if (errors) {
+      return errors;
+    }
+
+    let filePatches: FilePatch[];
+    try {
+      filePatches = parsePatch(params.patch);
+    } catch (error) {
+      return `Invalid patch: ${getErrorMessage(error)}`;
+    }
+
+    const targetDir = this.config.getTargetDir();
+    for (const filePatch of filePatches) {
+      const paths = [filePatch.path];
+      if (filePatch.type === 'update' && filePatch.movePath) {
+        paths.push(filePatch.movePath);
+      }
+      for (const filePath of paths) {
+        if (!filePath) {
+          return 'Invalid patch: a file path is missing.';
+        }
+        if (!isWithinRoot(this.resolvePath(filePath), targetDir)) {
+          return `File path must be within the root directory (${targetDir}): ${filePath}`;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Determines any file locations affected by the tool execution
+   * @param params Parameters for the tool execution
+   * @returns A list of such paths
+   */
+  toolLocations(params: ApplyPatchToolParams): ToolLocation[] {
+    try {
+      return parsePatch(params.patch).map((filePatch) => ({
+        path: this.resolvePath(filePatch.path),
+      }));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Checks every file change of the patch against the current contents of
+   * the files, and calculates their new contents without writing them.
+   * @throws An error describing the first change that cannot be applied
+   */
+  private calculateChanges(params: ApplyPatchToolParams): FileChange[] {
+    const changes: FileChange[] = [];
+    const touched = new Set<string>();
+    const claim = (filePath: string) => {
+      if (touched.has(filePath)) {
+        throw new Error(
+          `The patch changes ${filePath} more than once. Combine the changes to each file.`,
+        );
+      }
+      touched.add(filePath);
+    };
+
+    for (const filePatch of parsePatch(params.patch)) {
+      const filePath = this.resolvePath(filePatch.path);
+      claim(filePath);
+      const currentContent = readFileIfExists(filePath);
+
+      switch (filePatch.type) {
+        case 'add':
+          if (currentContent !== null) {
+            throw new Error(
+              `Cannot add ${filePath}, because the file already exists.`,
+            );
+          }
+          changes.push({
+            filePath,
+            originalContent: null,
+            newContent: filePatch.content,
+          });
+          break;
+        case 'delete':
+          if (currentContent === null) {
+            throw new Error(
+              `Cannot delete ${filePath}, because the file does not exist.`,
+            );
+          }
+          changes.push({
+            filePath,
+            originalContent: currentContent,
+            newContent: null,
+          });
+          break;
+        case 'update': {
+          if (currentContent === null) {
+            throw new Error(
+              `Cannot change ${filePath}, because the file does not exist.`,
+            );
+          }
+          let newContent: string;
+          try {
+            newContent = applyHunks(currentContent, filePatch.hunks);
+          } catch (error) {
+            throw new Error(
+              `Cannot change ${filePath}. ${getErrorMessage(error)}\nUse the ${ReadFileTool.Name} tool to check the current content of the file.`,
+            );
+          }
+          let newFilePath: string | undefined;
+          if (filePatch.movePath) {
+            newFilePath = this.resolvePath(filePatch.movePath);
+            claim(newFilePath);
+            if (fs.existsSync(newFilePath)) {
+              throw new Error(
+                `Cannot move ${filePath} to ${newFilePath}, because the file already exists.`,
+              );
+            }
+          }
+          changes.push({
+            filePath,
+            newFilePath,
+            originalContent: currentContent,
+            newContent,
+          });
+          break;
+        }
+        default:
+          throw new Error('An unhandled file patch was found.');
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Creates one diff covering the changes to all files.
+   */
+  private createCombinedDiff(changes: FileChange[]): string {
+    const targetDir = this.config.getTargetDir();
+    return changes
+      .map((change) => {
+        const oldName = makeRelative(change.filePath, targetDir);
+        const newName = change.newFilePath
+          ? makeRelative(change.newFilePath, targetDir)
+          : oldName;
+        const fileDiff = Diff.createTwoFilesPatch(
+          oldName,
+          newName,
+          change.originalContent ?? '',
+          change.newContent ?? '',
+          'Current',
+          'Proposed',
+          DEFAULT_DIFF_OPTIONS,
+        );
+        // Like `createPatch`, start each file with an index line, which the
+        // CLI uses to tell the files apart.
+        return `Index: ${newName}\n${fileDiff}`;
+      })
+      .join('');
+  }
+
+  /**
+   * Handles the confirmation prompt for the ApplyPatch tool in the CLI,
+   * showing the changes to all files in one diff.
+   */
+  async shouldConfirmExecute(
+    params: ApplyPatchToolParams,
+    _abortSignal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    if (this.config.getApprovalMode() === ApprovalMode.AUTO_EDIT) {
+      return false;
+    }
+    if (this.validateToolParams(params)) {
+      return false; // skip confirmation, execute call will fail immediately
+    }
+
+    let changes: FileChange[];
+    try {
+      changes = this.calculateChanges(params);
+    } catch (error) {
+      console.log(`Error preparing patch: ${getErrorMessage(error)}`);
+      return false;
+    }
+
+    const targetDir = this.config.getTargetDir();
+    const fileName =
+      changes.length === 1
+        ? path.basename(changes[0].newFilePath ?? changes[0].filePath)
+        : `${changes.length} files`;
+    const confirmationDetails: ToolEditConfirmationDetails = {
+      type: 'edit',
+      title: `Confirm Patch: ${
+        changes.length === 1
+          ? shortenPath(makeRelative(changes[0].filePath, targetDir))
+          : `${changes.length} files`
+      }`,
+      fileName,
+      fileDiff: this.createCombinedDiff(changes),
+      originalContent: changes.length === 1 ? changes[0].originalContent : null,
+      newContent: changes.length === 1 ? (changes[0].newContent ?? '') : '',
+      onConfirm: async (outcome: ToolConfirmationOutcome) => {
+        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
+          this.config.setApprovalMode(ApprovalMode.AUTO_EDIT);
+        }
+      },
+    };
+    return confirmationDetails;
+  }
+
+  getDescription(params: ApplyPatchToolParams): string {
+    let filePatches: FilePatch[];
+    try {
+      filePatches = parsePatch(params.patch);
+    } catch {
+      return `Model did not provide a valid patch`;
+    }
+    const targetDir = this.config.getTargetDir();
+    return filePatches
+      .map((filePatch) => {
+        const relativePath = shortenPath(
+          makeRelative(this.resolvePath(filePatch.path), targetDir),
+        );
+        switch (filePatch.type) {
+          case 'add':
+            return `Create ${relativePath}`;
+          case 'delete':
+            return `Delete ${relativePath}`;
+          default:
+            return filePatch.movePath
+              ? `Move ${relativePath} to ${shortenPath(
+                  makeRelative(this.resolvePath(filePatch.movePath), targetDir),
+                )}`
+              : `Update ${relativePath}`;
+        }
+      })
+      .join(', ');
+  }
+
+  /**
+   * Writes the changes of a patch, restoring the files already written, and
+   * removing the directories created for them, if one of the writes fails.
+   */
+  private writeChanges(changes: FileChange[]): void {
+    const undo: Array<() => void> = [];
+    try {
+      for (const change of changes) {
+        const target = change.newFilePath ?? change.filePath;
+        if (change.newContent !== null) {
+          const previous = readFileIfExists(target);
+          const createdDir = fs.mkdirSync(path.dirname(target), {
+            recursive: true,
+          });
+          if (createdDir) {
+            undo.push(() =>
+              removeCreatedDirs(path.dirname(target), createdDir),
+            );
+          }
+          fs.writeFileSync(target, change.newContent, 'utf8');
+          undo.push(() =>
+            previous === null
+              ? fs.rmSync(target, { force: true })
+              : fs.writeFileSync(target, previous, 'utf8'),
+          );
+        }
+        if (change.newContent === null || change.newFilePath) {
+          fs.rmSync(change.filePath);
+          undo.push(() =>
+            fs.writeFileSync(change.filePath, change.originalContent!, 'utf8'),
+          );
+        }
+      }
+    } catch (error) {
+      for (const restore of undo.reverse()) {
+        try {
+          restore();
+        } catch (restoreError) {
+          console.error(
+            `Failed to restore a file after a failed patch: ${getErrorMessage(restoreError)}`,
+          );
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Applies all changes of the patch, or none of them.
+   * @param params Parameters for the patch
+   * @returns Result of the patch
+   */
+  async execute(
+    params: ApplyPatchToolParams,
+    _signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return {
+        llmContent: `Error: Invalid parameters provided. Reason: ${validationError}`,
+        returnDisplay: `Error: ${validationError}`,
+      };
+    }
+
+    let changes: FileChange[];
+    try {
+      changes = this.calculateChanges(params);
+    } catch (error) {
+      const errorMsg = getErrorMessage(error);
+      return {
+        llmContent: `Failed to apply the patch, no files were changed. ${errorMsg}`,
+        returnDisplay: `Error: ${errorMsg.split('\n')[0]}`,
+      };
+    }
+
+    try {
+      this.writeChanges(changes);
+    } catch (error) {
+      const errorMsg = getErrorMessage(error);
+      return {
+        llmContent: `Error applying the patch, no files were changed: ${errorMsg}`,
+        returnDisplay: `Error writing files: ${errorMsg}`,
+      };
+    }
+
+    const summary = changes.map((change) => {
+      if (change.originalContent === null) {
+        return `Created ${change.filePath}`;
+      }
+      if (change.newContent === null) {
+        return `Deleted ${change.filePath}`;
+      }
+      return change.newFilePath
+        ? `Moved ${change.filePath} to ${change.newFilePath}`
+        : `Modified ${change.filePath}`;
+    });
+    const fileDiff = this.createCombinedDiff(changes);
+    return {
+      llmContent: `Successfully applied the patch:\n${summary.join('\n')}`,
+      returnDisplay: {
+        fileDiff,
+        fileName:
+          changes.length === 1
+            ? path.basename(changes[0].newFilePath ?? changes[0].filePath)
+            : `${changes.length} files`,
+        originalContent:
+          changes.length === 1 ? changes[0].originalContent : null,
+        newContent: changes.length === 1 ? (changes[0].newContent ?? '') : '',
+      },
+    };
+  }
+}
@@ -219,6 +219,61 @@ describe('EditTool', () => {
         /File path must be within the root directory/,
       );
     });
+
+    it('should return null for valid edits', () => {
+      const params: EditToolParams = {
+        file_path: path.join(rootDir, 'test.txt'),
+        edits: [
+          { old_string: 'a', new_string: 'b' },
+          { old_string: 'c', new_string: 'd', expected_replacements: 2 },
+        ],
+      };
+      expect(tool.validateToolParams(params)).toBeNull();
+    });
+
+    it('should return error if neither old_string nor edits is provided', () => {
+      const params: EditToolParams = {
+        file_path: path.join(rootDir, 'test.txt'),
+      };
+      expect(tool.validateToolParams(params)).toBe(
+        'Provide old_string and new_string, or edits.',
+      );
+    });
+
+    it('should return error if both old_string and edits are provided', () => {
+      const params: EditToolParams = {
+        file_path: path.join(rootDir, 'test.txt'),
+        old_string: 'old',
+        new_string: 'new',
+        edits: [{ old_string: 'a', new_string: 'b' }],
+      };
+      expect(tool.validateToolParams(params)).toBe(
+        'Provide either edits, or old_string and new_string, but not both.',
+      );
+    });
+
+    it('should return error for an edit with an empty old_string', () => {
+      const params: EditToolParams = {
+        file_path: path.join(rootDir, 'test.txt'),
+        edits: [
+          { old_string: 'a', new_string: 'b' },
+          { old_string: '', new_string: 'c' },
+        ],
+      };
+      expect(tool.validateToolParams(params)).toMatch(
+        /The old_string of edit 2 is empty/,
+      );
+    });
+
+    it('should return error for an empty edits array', () => {
+      const params: EditToolParams = {
+        file_path: path.join(rootDir, 'test.txt'),
+        edits: [],
+      };
+      expect(tool.validateToolParams(params)).toBe(
+        'edits must contain at least one edit.',
+      );
+    });
   });
 
   describe('shouldConfirmExecute', () => {
@@ -262,6 +317,28 @@ describe('EditTool', () => {
       );
     });
 
+    it('should show all edits in one diff', async () => {
+      fs.writeFileSync(filePath, 'first line\nsecond line\n');
+      const params: EditToolParams = {
+        file_path: filePath,
+        edits: [
+          { old_string: 'first', new_string: '1st' },
+          { old_string: 'second', new_string: '2nd' },
+        ],
+      };
+      const confirmation = (await tool.shouldConfirmExecute(
+        params,
+        new AbortController().signal,
+      )) as FileDiff & { title: string };
+
+      expect(mockEnsureCorrectEdit).toHaveBeenCalledTimes(2);
+      expect(confirmation.title).toBe(`Confirm Edit: ${testFile}`);
+      expect(confirmation.fileDiff).toContain(
+        '-first line\n-second line\n+1st line\n+2nd line',
+      );
+      expect(confirmation.newContent).toBe('1st line\n2nd line\n');
+    });
+
     it('should return false if old_string is not found (ensureCorrectEdit returns 0)', async () => {
       fs.writeFileSync(filePath, 'some content here');
       const params: EditToolParams = {
@@ -621,6 +698,119 @@ describe('EditTool', () => {
       expect(result.llmContent).toMatch(/No changes to apply/);
       expect(result.returnDisplay).toMatch(/No changes to apply/);
     });
+
+    describe('with edits', () => {
+      it('should apply all edits in order and report each of them', async () => {
+        fs.writeFileSync(filePath, 'let a = 1;\nlet b = a + a;\n', 'utf8');
+        const params: EditToolParams = {
+          file_path: filePath,
+          edits: [
+            { old_string: 'a', new_string: 'x', expected_replacements: 3 },
+            { old_string: 'let x = 1;', new_string: 'const x = 1;' },
+          ],
+        };
+
+        const result = await tool.execute(params, new AbortController().signal);
+
+        expect(fs.readFileSync(filePath, 'utf8')).toBe(
+          'const x = 1;\nlet b = x + x;\n',
+        );
+        expect(result.llmContent).toBe(
+          `Successfully modified file: ${filePath} (2 edits, 4 replacements).\nEdit 1: applied (3 replacements).\nEdit 2: applied (1 replacements).`,
+        );
+        const display = result.returnDisplay as FileDiff;
+        expect(display.fileName).toBe(testFile);
+        expect(display.originalContent).toBe('let a = 1;\nlet b = a + a;\n');
+        expect(display.newContent).toBe('const x = 1;\nlet b = x + x;\n');
+      });
+
+      it('should not change the file and report every failed edit', async () => {
+        const initialContent = 'one two three';
+        fs.writeFileSync(filePath, initialContent, 'utf8');
+        const params: EditToolParams = {
+          file_path: filePath,
+          edits: [
+            { old_string: 'one', new_string: '1' },
+            { old_string: 'four', new_string: '4' },
+            { old_string: 'three', new_string: 'three' },
+          ],
+        };
+
+        const result = await tool.execute(params, new AbortController().signal);
+
+        expect(fs.readFileSync(filePath, 'utf8')).toBe(initialContent);
+        expect(result.llmContent).toContain(
+          `Failed to edit, 2 of 3 edits could not be applied to ${filePath}. No edits made.`,
+        );
+        expect(result.llmContent).toContain(
+          [
+            'Edit 1: applied (1 replacements).',
+            'Edit 2: failed, 0 occurrences found for old_string.',
+            'Edit 3: failed, old_string and new_string are identical.',
+          ].join('\n'),
+        );
+        expect(result.returnDisplay).toBe(
+          'Error: Failed to edit, 2 of 3 edits could not be applied.',
+        );
+      });
+
+      it('should check each edit against the result of the previous ones', async () => {
+        fs.writeFileSync(filePath, 'alpha', 'utf8');
+        const params: EditToolParams = {
+          file_path: filePath,
+          edits: [
+            { old_string: 'alpha', new_string: 'beta' },
+            { old_string: 'alpha', new_string: 'gamma' },
+          ],
+        };
+
+        const result = await tool.execute(params, new AbortController().signal);
+
+        expect(result.llmContent).toContain(
+          'Edit 2: failed, 0 occurrences found for old_string.',
+        );
+        expect(fs.readFileSync(filePath, 'utf8')).toBe('alpha');
+      });
+
+      it('should return error if the file does not exist', async () => {
+        const params: EditToolParams = {
+          file_path: filePath,
+          edits: [{ old_string: 'old', new_string: 'new' }],
+        };
+
+        const result = await tool.execute(params, new AbortController().signal);
+
+        expect(result.llmContent).toBe(`File not found: ${filePath}`);
+        expect(fs.existsSync(filePath)).toBe(false);
+      });
+    });
+  });
+
+  describe('getModifyContext', () => {
+    it('should propose the content of the corrected edits', async () => {
+      const filePath = path.join(rootDir, 'modify_me.txt');
+      fs.writeFileSync(filePath, 'const a = "x";\r\nconst b = 1;\r\n', 'utf8');
+      // The corrector unescapes the old_string of the first edit.
+      mockEnsureCorrectEdit.mockImplementation(async (_, __, params) => ({
+        params: { ...params, old_string: params.old_string.replace(/\\/g, '') },
+        occurrences: 1,
+      }));
+      const params: EditToolParams = {
+        file_path: filePath,
+        edits: [
+          { old_string: 'const a = \\"x\\";', new_string: 'const a = "y";' },
+          { old_string: 'const b = 1;', new_string: 'const b = 2;' },
+        ],
+      };
+      const modifyContext = tool.getModifyContext(new AbortController().signal);
+
+      expect(await modifyContext.getCurrentContent(params)).toBe(
+        'const a = "x";\nconst b = 1;\n',
+      );
+      expect(await modifyContext.getProposedContent(params)).toBe(
+        'const a = "y";\nconst b = 2;\n',
+      );
+    });
   });
 
   describe('getDescription', () => {
@@ -674,5 +864,17 @@ describe('EditTool', () => {
         `${testFileName}: this is a very long old string... => this is a very long new string...`,
       );
     });
+
+    it('should return the number of edits when edits are provided', () => {
+      const testFileName = 'edits.txt';
+      const params: EditToolParams = {
+        file_path: path.join(rootDir, testFileName),
+        edits: [
+          { old_string: 'a', new_string: 'b' },
+          { old_string: 'c', new_string: 'd' },
+        ],
+      };
+      expect(tool.getDescription(params)).toBe(`${testFileName}: 2 edits`);
+    });
   });
 });
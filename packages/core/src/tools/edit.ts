@@ -28,6 +28,27 @@ import { ReadFileTool } from './read-file.js';
 import { ModifiableTool, ModifyContext } from './modifiable-tool.js';
 import { isWithinRoot } from '../utils/fileUtils.js';
 
+/**
+ * A single replacement within a file
+ */
+export interface EditToolReplacement {
+  /**
+   * The text to replace
+   */
+  old_string: string;
+
+  /**
+   * The text to replace it with
+   */
+  new_string: string;
+
+  /**
+   * Number of replacements expected. Defaults to 1 if not specified.
+   * Use when you want to replace multiple occurrences.
+   */
+  expected_replacements?: number;
+}
+
 /**
  * Parameters for the Edit tool
  */
@@ -38,14 +59,14 @@ export interface EditToolParams {
   file_path: string;
 
   /**
-   * The text to replace
+   * The text to replace. Required unless `edits` is provided.
    */
-  old_string: string;
+  old_string?: string;
 
   /**
-   * The text to replace it with
+   * The text to replace it with. Required unless `edits` is provided.
    */
-  new_string: string;
+  new_string?: string;
 
   /**
    * Number of replacements expected. Defaults to 1 if not specified.
@@ -53,18 +74,46 @@ export interface EditToolParams {
    */
   expected_replacements?: number;
 
+  /**
+   * Replacements to apply in order, each to the result of the previous ones,
+   * instead of a single `old_string` and `new_string`.
+   */
+  edits?: EditToolReplacement[];
+
   /**
    * Whether the edit was modified manually by the user.
    */
   modified_by_user?: boolean;
 }
 
+interface EditResult {
+  occurrences: number;
+  error?: string;
+}
+
 interface CalculatedEdit {
   currentContent: string | null;
   newContent: string;
   occurrences: number;
   error?: { display: string; raw: string };
   isNewFile: boolean;
+  /** The outcome of each replacement, when `edits` is provided. */
+  editResults?: EditResult[];
+}
+
+function isSingleEdit(
+  params: EditToolParams,
+): params is EditToolParams & EditToolReplacement {
+  return params.old_string !== undefined && params.new_string !== undefined;
+}
+
+function describeEditResults(editResults: EditResult[]): string {
+  return editResults
+    .map(
+      (result, index) =>
+        `Edit ${index + 1}: ${result.error ? `failed, ${result.error}` : `applied (${result.occurrences} replacements).`}`,
+    )
+    .join('\n');
 }
 
 /**
@@ -90,7 +139,8 @@ Expectation for required parameters:
 3. \`new_string\` MUST be the exact literal text to replace \`old_string\` with (also including all whitespace, indentation, newlines, and surrounding code etc.). Ensure the resulting code is correct and idiomatic.
 4. NEVER escape \`old_string\` or \`new_string\`, that would break the exact literal text requirement.
 **Important:** If ANY of the above are not satisfied, the tool will fail. CRITICAL for \`old_string\`: Must uniquely identify the single instance to change. Include at least 3 lines of context BEFORE and AFTER the target text, matching whitespace and indentation precisely. If this string matches multiple locations, or does not match exactly, the tool will fail.
-**Multiple replacements:** Set \`expected_replacements\` to the number of occurrences you want to replace. The tool will replace ALL occurrences that match \`old_string\` exactly. Ensure the number of replacements matches your expectation.`,
+**Multiple replacements:** Set \`expected_replacements\` to the number of occurrences you want to replace. The tool will replace ALL occurrences that match \`old_string\` exactly. Ensure the number of replacements matches your expectation.
+**Multiple edits:** To make several changes to the same file in one call, provide \`edits\`, a list of \`old_string\`, \`new_string\` and optional \`expected_replacements\`, instead of \`old_string\` and \`new_string\`. The edits are applied in order, each to the result of the previous ones, and the file is only written if all of them succeed.`,
       Icon.Pencil,
       {
         properties: {
@@ -101,12 +151,12 @@ Expectation for required parameters:
           },
           old_string: {
             description:
-              'The exact literal text to replace, preferably unescaped. For single replacements (default), include at least 3 lines of context BEFORE and AFTER the target text, matching whitespace and indentation precisely. For multiple replacements, specify expected_replacements parameter. If this string is not the exact literal text (i.e. you escaped it) or does not match exactly, the tool will fail.',
+              'The exact literal text to replace, preferably unescaped. For single replacements (default), include at least 3 lines of context BEFORE and AFTER the target text, matching whitespace and indentation precisely. For multiple replacements, specify expected_replacements parameter. If this string is not the exact literal text (i.e. you escaped it) or does not match exactly, the tool will fail. Required unless `edits` is provided.',
             type: Type.STRING,
           },
           new_string: {
             description:
-              'The exact literal text to replace `old_string` with, preferably unescaped. Provide the EXACT text. Ensure the resulting code is correct and idiomatic.',
+              'The exact literal text to replace `old_string` with, preferably unescaped. Provide the EXACT text. Ensure the resulting code is correct and idiomatic. Required unless `edits` is provided.',
             type: Type.STRING,
           },
           expected_replacements: {
@@ -115,8 +165,35 @@ Expectation for required parameters:
               'Number of replacements expected. Defaults to 1 if not specified. Use when you want to replace multiple occurrences.',
             minimum: 1,
           },
+          edits: {
+            description:
+              'Several replacements to make in the file, instead of `old_string` and `new_string`. They are applied in order, each to the result of the previous ones, and the file is only changed if all of them succeed.',
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                old_string: {
+                  description:
+                    'The exact literal text to replace, preferably unescaped, with enough context to identify it uniquely. Must not be empty.',
+                  type: Type.STRING,
+                },
+                new_string: {
+                  description:
+                    'The exact literal text to replace `old_string` with, preferably unescaped.',
+                  type: Type.STRING,
+                },
+                expected_replacements: {
+                  type: Type.NUMBER,
+                  description:
+                    'Number of replacements expected. Defaults to 1 if not specified.',
+                  minimum: 1,
+                },
+              },
+              required: ['old_string', 'new_string'],
+            },
+          },
         },
-        required: ['file_path', 'old_string', 'new_string'],
+        required: ['file_path'],
         type: Type.OBJECT,
       },
     );
@@ -141,6 +218,27 @@ Expectation for required parameters:
       return `File path must be within the root directory (${this.config.getTargetDir()}): ${params.file_path}`;
     }
 
+    if (params.edits !== undefined) {
+      if (
+        params.old_string !== undefined ||
+        params.new_string !== undefined ||
+        params.expected_replacements !== undefined
+      ) {
+        return 'Provide either edits, or old_string and new_string, but not both.';
+      }
+      if (params.edits.length === 0) {
+        return 'edits must contain at least one edit.';
+      }
+      const emptyIndex = params.edits.findIndex(
+        (edit) => edit.old_string === '',
+      );
+      if (emptyIndex !== -1) {
+        return `The old_string of edit ${emptyIndex + 1} is empty. To create a new file, use old_string and new_string instead of edits.`;
+      }
+    } else if (!isSingleEdit(params)) {
+      return 'Provide old_string and new_string, or edits.';
+    }
+
     return null;
   }
 
@@ -183,6 +281,10 @@ Expectation for required parameters:
     params: EditToolParams,
     abortSignal: AbortSignal,
   ): Promise<CalculatedEdit> {
+    if (params.edits || !isSingleEdit(params)) {
+      return this.calculateEdits(params, params.edits ?? [], abortSignal);
+    }
+
     const expectedReplacements = params.expected_replacements ?? 1;
     let currentContent: string | null = null;
     let fileExists = false;
@@ -276,6 +378,96 @@ Expectation for required parameters:
     };
   }
 
+  /**
+   * Calculates the outcome of several replacements, applied in order to an
+   * in-memory copy of the file. The edit fails if any of them fails, but every
+   * replacement is checked so that all failures can be reported at once.
+   * @throws File system errors if reading the file fails unexpectedly (e.g., permissions)
+   */
+  private async calculateEdits(
+    params: EditToolParams,
+    edits: EditToolReplacement[],
+    abortSignal: AbortSignal,
+  ): Promise<CalculatedEdit> {
+    let currentContent: string;
+    try {
+      // Normalize line endings to LF for consistent processing.
+      currentContent = fs
+        .readFileSync(params.file_path, 'utf8')
+        .replace(/\r\n/g, '\n');
+    } catch (err: unknown) {
+      if (!isNodeError(err) || err.code !== 'ENOENT') {
+        throw err;
+      }
+      return {
+        currentContent: null,
+        newContent: '',
+        occurrences: 0,
+        error: {
+          display: `File not found. Cannot apply edits.`,
+          raw: `File not found: ${params.file_path}`,
+        },
+        isNewFile: false,
+      };
+    }
+
+    let newContent = currentContent;
+    let occurrences = 0;
+    const editResults: EditResult[] = [];
+    for (const edit of edits) {
+      const expectedReplacements = edit.expected_replacements ?? 1;
+      const correctedEdit = await ensureCorrectEdit(
+        params.file_path,
+        newContent,
+        { ...edit, file_path: params.file_path },
+        this.config.getGeminiClient(),
+        abortSignal,
+      );
+      const { old_string: oldString, new_string: newString } =
+        correctedEdit.params;
+
+      let error: string | undefined;
+      if (correctedEdit.occurrences === 0) {
+        error = `0 occurrences found for old_string.`;
+      } else if (correctedEdit.occurrences !== expectedReplacements) {
+        const occurrenceTerm =
+          expectedReplacements === 1 ? 'occurrence' : 'occurrences';
+        error = `expected ${expectedReplacements} ${occurrenceTerm} but found ${correctedEdit.occurrences} for old_string.`;
+      } else if (oldString === newString) {
+        error = `old_string and new_string are identical.`;
+      }
+
+      if (error) {
+        editResults.push({ occurrences: 0, error });
+        continue;
+      }
+      newContent = this._applyReplacement(
+        newContent,
+        oldString,
+        newString,
+        false,
+      );
+      occurrences += correctedEdit.occurrences;
+      editResults.push({ occurrences: correctedEdit.occurrences });
+    }
+
+    const failedCount = editResults.filter((result) => result.error).length;
+    return {
+      currentContent,
+      newContent,
+      occurrences,
+      error:
+        failedCount > 0
+          ? {
+              display: `Failed to edit, ${failedCount} of ${edits.length} edits could not be applied.`,
+              raw: `Failed to edit, ${failedCount} of ${edits.length} edits could not be applied to ${params.file_path}. No edits made. Edits are applied in order, each to the result of the previous ones.\n${describeEditResults(editResults)}\nEnsure you're not escaping content incorrectly and check whitespace, indentation, and context. Use ${ReadFileTool.Name} tool to verify.`,
+            }
+          : undefined,
+      isNewFile: false,
+      editResults,
+    };
+  }
+
   /**
    * Handles the confirmation prompt for the Edit tool in the CLI.
    * It needs to calculate the diff to show the user.
@@ -335,6 +527,14 @@ Expectation for required parameters:
   }
 
   getDescription(params: EditToolParams): string {
+    if (params.file_path && params.edits) {
+      const relativePath = makeRelative(
+        params.file_path,
+        this.config.getTargetDir(),
+      );
+      const editTerm = params.edits.length === 1 ? 'edit' : 'edits';
+      return `${shortenPath(relativePath)}: ${params.edits.length} ${editTerm}`;
+    }
     if (!params.file_path || !params.old_string || !params.new_string) {
       return `Model did not provide valid parameters for edit tool`;
     }
@@ -424,7 +624,9 @@ Expectation for required parameters:
       const llmSuccessMessageParts = [
         editData.isNewFile
           ? `Created new file: ${params.file_path} with provided content.`
-          : `Successfully modified file: ${params.file_path} (${editData.occurrences} replacements).`,
+          : editData.editResults
+            ? `Successfully modified file: ${params.file_path} (${editData.editResults.length} edits, ${editData.occurrences} replacements).\n${describeEditResults(editData.editResults)}`
+            : `Successfully modified file: ${params.file_path} (${editData.occurrences} replacements).`,
       ];
       if (params.modified_by_user) {
         llmSuccessMessageParts.push(
@@ -455,10 +657,16 @@ Expectation for required parameters:
     }
   }
 
-  getModifyContext(_: AbortSignal): ModifyContext<EditToolParams> {
+  getModifyContext(abortSignal: AbortSignal): ModifyContext<EditToolParams> {
     return {
       getFilePath: (params: EditToolParams) => params.file_path,
       getCurrentContent: async (params: EditToolParams): Promise<string> => {
+        if (params.edits) {
+          // Use the same normalized content that the edits are applied to.
+          return (
+            (await this.calculateEdit(params, abortSignal)).currentContent ?? ''
+          );
+        }
         try {
           return fs.readFileSync(params.file_path, 'utf8');
         } catch (err) {
@@ -467,12 +675,16 @@ Expectation for required parameters:
         }
       },
       getProposedContent: async (params: EditToolParams): Promise<string> => {
+        if (params.edits) {
+          // Apply the corrected edits, as execute() does.
+          return (await this.calculateEdit(params, abortSignal)).newContent;
+        }
         try {
           const currentContent = fs.readFileSync(params.file_path, 'utf8');
           return this._applyReplacement(
             currentContent,
-            params.old_string,
-            params.new_string,
+            params.old_string ?? '',
+            params.new_string ?? '',
             params.old_string === '' && currentContent === '',
           );
         } catch (err) {
@@ -486,6 +698,8 @@ Expectation for required parameters:
         originalParams: EditToolParams,
       ): EditToolParams => ({
         ...originalParams,
+        // The user's version of the file replaces all edits.
+        edits: undefined,
         old_string: oldContent,
         new_string: modifiedProposedContent,
         modified_by_user: true,
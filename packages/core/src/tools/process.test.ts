@@ -0,0 +1,212 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ProcessTool } from './process.js';
+import { type Config } from '../config/config.js';
+import {
+  BackgroundProcessInfo,
+  BackgroundProcessService,
+} from '../services/backgroundProcessService.js';
+import { ToolConfirmationOutcome } from './tools.js';
+
+const runningInfo: BackgroundProcessInfo = {
+  name: 'server',
+  command: 'npm run dev',
+  cwd: '/test/dir',
+  pid: 123,
+  status: 'running',
+  exitCode: null,
+  signal: null,
+  error: null,
+  startedAt: 0,
+};
+
+describe('ProcessTool', () => {
+  let tool: ProcessTool;
+  let service: {
+    [K in keyof BackgroundProcessService]: ReturnType<typeof vi.fn>;
+  };
+  let mockConfig: Config;
+  const signal = new AbortController().signal;
+
+  beforeEach(() => {
+    service = {
+      start: vi.fn().mockReturnValue(runningInfo),
+      get: vi.fn().mockReturnValue(runningInfo),
+      list: vi.fn().mockReturnValue([]),
+      getOutput: vi.fn(),
+      waitForOutput: vi.fn(),
+      kill: vi.fn(),
+    } as unknown as typeof service;
+    mockConfig = {
+      getCoreTools: vi.fn().mockReturnValue([]),
+      getExcludeTools: vi.fn().mockReturnValue([]),
+      getTargetDir: vi.fn().mockReturnValue('/test/dir'),
+      getBackgroundProcessService: () => service,
+    } as unknown as Config;
+    tool = new ProcessTool(mockConfig);
+  });
+
+  describe('validateToolParams', () => {
+    it('should require a name for actions other than list', () => {
+      expect(tool.validateToolParams({ action: 'kill' })).toBe(
+        'A name is required for the "kill" action.',
+      );
+      expect(tool.validateToolParams({ action: 'list' })).toBeNull();
+    });
+
+    it('should require a pattern to wait for', () => {
+      expect(tool.validateToolParams({ action: 'wait', name: 'server' })).toBe(
+        'A pattern is required for the "wait" action.',
+      );
+    });
+
+    it('should apply the shell command restrictions when starting', () => {
+      (mockConfig.getExcludeTools as ReturnType<typeof vi.fn>).mockReturnValue([
+        'run_shell_command(rm)',
+      ]);
+
+      expect(
+        tool.validateToolParams({
+          action: 'start',
+          name: 'cleanup',
+          command: 'rm -rf dist',
+        }),
+      ).toBe("Command 'rm -rf dist' is blocked by configuration");
+    });
+  });
+
+  describe('shouldConfirmExecute', () => {
+    it('should only ask to confirm starting new commands', async () => {
+      const params = {
+        action: 'start' as const,
+        name: 'server',
+        command: 'npm run dev',
+      };
+      const details = await tool.shouldConfirmExecute(params, signal);
+
+      expect(details).toMatchObject({ type: 'exec', rootCommand: 'npm' });
+      if (details && details.type === 'exec') {
+        await details.onConfirm(ToolConfirmationOutcome.ProceedAlways);
+      }
+      expect(await tool.shouldConfirmExecute(params, signal)).toBe(false);
+      expect(
+        await tool.shouldConfirmExecute(
+          { action: 'kill', name: 'server' },
+          signal,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe('execute', () => {
+    it('should start processes in the target directory', async () => {
+      const result = await tool.execute(
+        { action: 'start', name: 'server', command: 'npm run dev' },
+        signal,
+      );
+
+      expect(service.start).toHaveBeenCalledWith(
+        'server',
+        'npm run dev',
+        '/test/dir',
+      );
+      expect(result.returnDisplay).toBe('Started server (PID 123).');
+    });
+
+    it('should return the last lines of output matching the pattern', async () => {
+      service.getOutput.mockReturnValue({
+        output: 'GET /a 200\nGET /b 500\nGET /c 200\nGET /d 500\n',
+        truncated: true,
+      });
+
+      const result = await tool.execute(
+        { action: 'output', name: 'server', pattern: '500$', lines: 1 },
+        signal,
+      );
+
+      expect(result.llmContent).toBe(
+        [
+          'server: running (PID 123), `npm run dev` in (root)',
+          'Showing the last 1 of 2 line(s) matching /500$/.',
+          'Older output was dropped to stay under the buffer limit.',
+          'GET /d 500',
+        ].join('\n'),
+      );
+    });
+
+    it('should wait for the pattern', async () => {
+      service.waitForOutput.mockResolvedValue({
+        type: 'matched',
+        line: 'listening on :3000',
+      });
+
+      const result = await tool.execute(
+        { action: 'wait', name: 'server', pattern: 'listening on', timeout: 5 },
+        signal,
+      );
+
+      expect(service.waitForOutput).toHaveBeenCalledWith(
+        'server',
+        /listening on/,
+        5000,
+        signal,
+      );
+      expect(result.returnDisplay).toBe('listening on :3000');
+    });
+
+    it('should report processes that exit while waiting', async () => {
+      service.waitForOutput.mockResolvedValue({ type: 'exited' });
+      service.get.mockReturnValue({
+        ...runningInfo,
+        status: 'exited',
+        exitCode: 1,
+      });
+
+      const result = await tool.execute(
+        { action: 'wait', name: 'server', pattern: 'listening' },
+        signal,
+      );
+
+      expect(result.llmContent).toBe(
+        'server: exited with code 1, `npm run dev` in (root)\nThe process exited before printing a line matching /listening/. Use the "output" action to see why.',
+      );
+    });
+
+    it('should kill processes', async () => {
+      service.kill.mockResolvedValue({
+        ...runningInfo,
+        status: 'exited',
+        signal: 'SIGTERM',
+      });
+
+      const result = await tool.execute(
+        { action: 'kill', name: 'server' },
+        signal,
+      );
+
+      expect(result.llmContent).toBe(
+        'Stopped server: terminated by SIGTERM, `npm run dev` in (root)',
+      );
+    });
+
+    it('should return errors from the service', async () => {
+      service.getOutput.mockImplementation(() => {
+        throw new Error('No background process is named "db".');
+      });
+
+      const result = await tool.execute(
+        { action: 'output', name: 'db' },
+        signal,
+      );
+
+      expect(result.llmContent).toBe(
+        'Error: No background process is named "db".',
+      );
+    });
+  });
+});
@@ -0,0 +1,405 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Config } from '../config/config.js';
+import {
+  BaseTool,
+  ToolResult,
+  ToolCallConfirmationDetails,
+  ToolExecuteConfirmationDetails,
+  ToolConfirmationOutcome,
+  Icon,
+} from './tools.js';
+import { Type } from '@google/genai';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { getErrorMessage } from '../utils/errors.js';
+import {
+  getCommandRoots,
+  isCommandAllowed,
+  stripShellWrapper,
+} from '../utils/shell-utils.js';
+import { BackgroundProcessInfo } from '../services/backgroundProcessService.js';
+
+const DEFAULT_OUTPUT_LINES = 50;
+const DEFAULT_WAIT_TIMEOUT_SECONDS = 60;
+const MAX_WAIT_TIMEOUT_SECONDS = 600;
+
+export type ProcessAction = 'start' | 'output' | 'wait' | 'list' | 'kill';
+
+export interface ProcessToolParams {
+  action: ProcessAction;
+  /** The name of the process; required for all actions but `list`. */
+  name?: string;
+  /** The command to start; required for `start`. */
+  command?: string;
+  description?: string;
+  directory?: string;
+  /** The number of output lines to return for `output`. */
+  lines?: number;
+  /** The regex to filter output by for `output`, or to wait for for `wait`. */
+  pattern?: string;
+  /** How long `wait` waits, in seconds. */
+  timeout?: number;
+}
+
+function describeStatus(info: BackgroundProcessInfo): string {
+  if (info.status === 'running') {
+    return `running (PID ${info.pid ?? 'unknown'})`;
+  }
+  if (info.error) {
+    return `failed: ${info.error}`;
+  }
+  return info.signal
+    ? `terminated by ${info.signal}`
+    : `exited with code ${info.exitCode}`;
+}
+
+function describeProcess(info: BackgroundProcessInfo, targetDir: string) {
+  const directory = path.relative(targetDir, info.cwd) || '(root)';
+  return `${info.name}: ${describeStatus(info)}, \`${info.command}\` in ${directory}`;
+}
+
+export class ProcessTool extends BaseTool<ProcessToolParams, ToolResult> {
+  static Name: string = 'manage_process';
+  private allowlist: Set<string> = new Set();
+
+  constructor(private readonly config: Config) {
+    super(
+      ProcessTool.Name,
+      'Process',
+      `Starts and manages long-running background processes, such as dev servers, watchers and databases, that keep running while you continue to work. Unlike \`run_shell_command\` with \`&\`, the output of these processes can be read at any time. All of them are stopped when the CLI exits.
+
+      Actions:
+      start: Runs \`command\` as \`bash -c <command>\` in the background under a unique \`name\`.
+      output: Returns the last \`lines\` lines of output (stdout and stderr) of the process, only counting lines that match the \`pattern\` regex if one is given.
+      wait: Waits until the process prints a line that matches the \`pattern\` regex (e.g. "listening on"), exits, or \`timeout\` seconds pass. Lines printed before the call count.
+      list: Lists the processes and their status.
+      kill: Stops the process and its children.`,
+      Icon.Terminal,
+      {
+        type: Type.OBJECT,
+        properties: {
+          action: {
+            type: Type.STRING,
+            enum: ['start', 'output', 'wait', 'list', 'kill'],
+            description: 'The action to perform.',
+          },
+          name: {
+            type: Type.STRING,
+            description:
+              'Name of the process, e.g. `dev-server`. Required for all actions but `list`.',
+          },
+          command: {
+            type: Type.STRING,
+            description:
+              'Exact bash command to run as `bash -c <command>`. Required for `start`. Do not add `&`.',
+          },
+          description: {
+            type: Type.STRING,
+            description:
+              'Brief description of the command for the user, for `start`. No line breaks.',
+          },
+          directory: {
+            type: Type.STRING,
+            description:
+              '(OPTIONAL) Directory to run the command in, for `start`, if not the project root directory. Must be relative to the project root directory and must already exist.',
+          },
+          lines: {
+            type: Type.NUMBER,
+            description: `(OPTIONAL) Number of output lines to return, for \`output\`. Defaults to ${DEFAULT_OUTPUT_LINES}.`,
+          },
+          pattern: {
+            type: Type.STRING,
+            description:
+              'Regular expression to filter output lines by, for `output`, or to wait for, for `wait` (required).',
+          },
+          timeout: {
+            type: Type.NUMBER,
+            description: `(OPTIONAL) Seconds to wait, for \`wait\`. Defaults to ${DEFAULT_WAIT_TIMEOUT_SECONDS}, at most ${MAX_WAIT_TIMEOUT_SECONDS}.`,
+          },
+        },
+        required: ['action'],
+      },
+      false, // output is not markdown
+    );
+  }
+
+  getDescription(params: ProcessToolParams): string {
+    switch (params.action) {
+      case 'start': {
+        let description = `Start ${params.name}: ${params.command}`;
+        if (params.directory) {
+          description += ` [in ${params.directory}]`;
+        }
+        if (params.description) {
+          description += ` (${params.description.replace(/\n/g, ' ')})`;
+        }
+        return description;
+      }
+      case 'output':
+        return params.pattern
+          ? `Search output of ${params.name} for /${params.pattern}/`
+          : `Read output of ${params.name}`;
+      case 'wait':
+        return `Wait for ${params.name} to print /${params.pattern}/`;
+      case 'list':
+        return 'List background processes';
+      case 'kill':
+        return `Stop ${params.name}`;
+      default:
+        return `${params.action} ${params.name ?? ''}`.trim();
+    }
+  }
+
+  validateToolParams(params: ProcessToolParams): string | null {
+    const errors = SchemaValidator.validate(this.schema.parameters, params);
+    if (errors) {
+      return errors;
+    }
+    if (params.action !== 'list' && !params.name?.trim()) {
+      return `A name is required for the "${params.action}" action.`;
+    }
+    if (params.pattern !== undefined) {
+      try {
+        new RegExp(params.pattern);
+      } catch (error) {
+        return `Invalid regular expression pattern: ${params.pattern}. Error: ${getErrorMessage(error)}`;
+      }
+    }
+    if (params.lines !== undefined && params.lines <= 0) {
+      return 'Lines must be a positive number.';
+    }
+    if (params.timeout !== undefined && params.timeout <= 0) {
+      return 'Timeout must be a positive number.';
+    }
+    if (params.action === 'wait' && !params.pattern) {
+      return 'A pattern is required for the "wait" action.';
+    }
+    if (params.action === 'start') {
+      return this.validateStartParams(params);
+    }
+    return null;
+  }
+
+  private validateStartParams(params: ProcessToolParams): string | null {
+    const command = params.command ?? '';
+    if (!command.trim()) {
+      return 'Command cannot be empty.';
+    }
+    const commandCheck = isCommandAllowed(command, this.config);
+    if (!commandCheck.allowed) {
+      return commandCheck.reason ?? `Command is not allowed: ${command}`;
+    }
+    if (getCommandRoots(command).length === 0) {
+      return 'Could not identify command root to obtain permission from user.';
+    }
+    if (params.directory) {
+      if (path.isAbsolute(params.directory)) {
+        return 'Directory cannot be absolute. Must be relative to the project root directory.';
+      }
+      const directory = path.resolve(
+        this.config.getTargetDir(),
+        params.directory,
+      );
+      if (!fs.existsSync(directory)) {
+        return 'Directory must exist.';
+      }
+    }
+    return null;
+  }
+
+  async shouldConfirmExecute(
+    params: ProcessToolParams,
+    _abortSignal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    // Only starting a process runs a command; the other actions act on
+    // processes the user already approved.
+    if (params.action !== 'start' || this.validateToolParams(params)) {
+      return false;
+    }
+
+    const command = stripShellWrapper(params.command!);
+    const rootCommands = [...new Set(getCommandRoots(command))];
+    const commandsToConfirm = rootCommands.filter(
+      (command) => !this.allowlist.has(command),
+    );
+    if (commandsToConfirm.length === 0) {
+      return false;
+    }
+
+    const confirmationDetails: ToolExecuteConfirmationDetails = {
+      type: 'exec',
+      title: 'Confirm Background Process',
+      command: params.command!,
+      rootCommand: commandsToConfirm.join(', '),
+      onConfirm: async (outcome: ToolConfirmationOutcome) => {
+        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
+          commandsToConfirm.forEach((command) => this.allowlist.add(command));
+        }
+      },
+    };
+    return confirmationDetails;
+  }
+
+  async execute(
+    params: ProcessToolParams,
+    signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return {
+        llmContent: `Error: Invalid parameters provided. Reason: ${validationError}`,
+        returnDisplay: validationError,
+      };
+    }
+
+    try {
+      switch (params.action) {
+        case 'start':
+          return this.start(params);
+        case 'output':
+          return this.output(params);
+        case 'wait':
+          return await this.wait(params, signal);
+        case 'list':
+          return this.list();
+        case 'kill':
+          return await this.kill(params);
+        default:
+          throw new Error(`Unknown action "${params.action}".`);
+      }
+    } catch (error) {
+      const errorMessage = getErrorMessage(error);
+      return {
+        llmContent: `Error: ${errorMessage}`,
+        returnDisplay: `Error: ${errorMessage}`,
+      };
+    }
+  }
+
+  private start(params: ProcessToolParams): ToolResult {
+    const cwd = path.resolve(
+      this.config.getTargetDir(),
+      params.directory || '',
+    );
+    const info = this.config
+      .getBackgroundProcessService()
+      .start(params.name!, stripShellWrapper(params.command!), cwd);
+    const description = describeProcess(info, this.config.getTargetDir());
+    return {
+      llmContent: `Started ${description}. Use the "wait" or "output" action to check on it.`,
+      returnDisplay: `Started ${info.name} (PID ${info.pid ?? 'unknown'}).`,
+    };
+  }
+
+  private output(params: ProcessToolParams): ToolResult {
+    const service = this.config.getBackgroundProcessService();
+    const { output, truncated } = service.getOutput(params.name!);
+    const info = service.get(params.name!)!;
+
+    let lines = output.split('\n');
+    if (lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+    if (params.pattern) {
+      const pattern = new RegExp(params.pattern);
+      lines = lines.filter((line) => pattern.test(line));
+    }
+    const count = params.lines ?? DEFAULT_OUTPUT_LINES;
+    const shown = lines.slice(-count);
+
+    const header = [
+      describeProcess(info, this.config.getTargetDir()),
+      params.pattern
+        ? `Showing the last ${shown.length} of ${lines.length} line(s) matching /${params.pattern}/.`
+        : `Showing the last ${shown.length} of ${lines.length} line(s).`,
+      ...(truncated
+        ? ['Older output was dropped to stay under the buffer limit.']
+        : []),
+    ].join('\n');
+    return {
+      llmContent: `${header}\n${shown.join('\n') || '(no output)'}`,
+      returnDisplay: shown.join('\n') || '(no output)',
+    };
+  }
+
+  private async wait(
+    params: ProcessToolParams,
+    signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const service = this.config.getBackgroundProcessService();
+    const timeout = Math.min(
+      params.timeout ?? DEFAULT_WAIT_TIMEOUT_SECONDS,
+      MAX_WAIT_TIMEOUT_SECONDS,
+    );
+    const result = await service.waitForOutput(
+      params.name!,
+      new RegExp(params.pattern!),
+      timeout * 1000,
+      signal,
+    );
+    const description = describeProcess(
+      service.get(params.name!)!,
+      this.config.getTargetDir(),
+    );
+
+    switch (result.type) {
+      case 'matched':
+        return {
+          llmContent: `${description}\nMatched: ${result.line}`,
+          returnDisplay: result.line,
+        };
+      case 'exited':
+        return {
+          llmContent: `${description}\nThe process exited before printing a line matching /${params.pattern}/. Use the "output" action to see why.`,
+          returnDisplay: `${params.name} exited before printing /${params.pattern}/.`,
+        };
+      case 'timeout':
+        return {
+          llmContent: `${description}\nNo line matched /${params.pattern}/ within ${timeout} seconds.`,
+          returnDisplay: `Timed out after ${timeout} seconds.`,
+        };
+      case 'aborted':
+        return {
+          llmContent: 'Waiting was cancelled by user.',
+          returnDisplay: 'Waiting cancelled by user.',
+        };
+      default:
+        throw new Error('An unhandled wait result was found.');
+    }
+  }
+
+  private list(): ToolResult {
+    const processes = this.config.getBackgroundProcessService().list();
+    if (processes.length === 0) {
+      return {
+        llmContent: 'No background processes have been started.',
+        returnDisplay: 'No background processes.',
+      };
+    }
+    const content = processes
+      .map((info) => describeProcess(info, this.config.getTargetDir()))
+      .join('\n');
+    return { llmContent: content, returnDisplay: content };
+  }
+
+  private async kill(params: ProcessToolParams): Promise<ToolResult> {
+    const service = this.config.getBackgroundProcessService();
+    const wasRunning = service.get(params.name!)?.status === 'running';
+    const info = await service.kill(params.name!);
+    const description = describeProcess(info, this.config.getTargetDir());
+    return {
+      llmContent: wasRunning
+        ? `Stopped ${description}`
+        : `The process was not running. ${description}`,
+      returnDisplay: wasRunning
+        ? `Stopped ${info.name}.`
+        : `${info.name} was not running.`,
+    };
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { WebFetchCache, WebFetchCacheEntry } from './web-fetch-cache.js';
+
+const entry = (url: string): WebFetchCacheEntry => ({
+  url,
+  etag: '"1"',
+  contentType: 'text/html',
+  content: `Content of ${url}`,
+  truncated: false,
+});
+
+describe('WebFetchCache', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'web-fetch-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return stored entries by URL', async () => {
+    const cache = new WebFetchCache(path.join(tempDir, 'cache'));
+    await cache.set(entry('https://a.example'));
+
+    expect(await cache.get('https://a.example')).toEqual(
+      entry('https://a.example'),
+    );
+    expect(await cache.get('https://b.example')).toBeUndefined();
+  });
+
+  it('should evict the least recently used entries', async () => {
+    const cache = new WebFetchCache(tempDir, 2);
+    await cache.set(entry('https://a.example'));
+    await cache.set(entry('https://b.example'));
+    // Make "a" older than "b", then use it.
+    const past = new Date(Date.now() - 60_000);
+    for (const file of fs.readdirSync(tempDir)) {
+      fs.utimesSync(path.join(tempDir, file), past, past);
+    }
+    await cache.get('https://a.example');
+
+    await cache.set(entry('https://c.example'));
+
+    expect(await cache.get('https://a.example')).toBeDefined();
+    expect(await cache.get('https://b.example')).toBeUndefined();
+    expect(await cache.get('https://c.example')).toBeDefined();
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHash } from 'node:crypto';
+import { promises as fsp } from 'node:fs';
+import path from 'node:path';
+
+const DEFAULT_MAX_ENTRIES = 200;
+
+/**
+ * A converted page and the validators to revalidate it with. Only pages
+ * served with an `ETag` or `Last-Modified` header are cached, since others
+ * cannot be revalidated.
+ */
+export interface WebFetchCacheEntry {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  contentType: string;
+  title?: string;
+  content: string;
+  truncated: boolean;
+}
+
+/**
+ * An on-disk cache of fetched pages, one JSON file per URL. Reading an entry
+ * marks it as recently used, and the least recently used entries are
+ * evicted once there are more than `maxEntries`.
+ *
+ * The cache is an optimization, so failures to read or write it are only
+ * logged.
+ */
+export class WebFetchCache {
+  constructor(
+    private readonly dir: string,
+    private readonly maxEntries = DEFAULT_MAX_ENTRIES,
+  ) {}
+
+  async get(url: string): Promise<WebFetchCacheEntry | undefined> {
+    const file = this.fileFor(url);
+    try {
+      const entry = JSON.parse(
+        await fsp.readFile(file, 'utf-8'),
+      ) as WebFetchCacheEntry;
+      if (entry.url !== url) {
+        return undefined;
+      }
+      const now = new Date();
+      await fsp.utimes(file, now, now);
+      return entry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.debug(`Could not read the web fetch cache for ${url}.`, error);
+      }
+      return undefined;
+    }
+  }
+
+  async set(entry: WebFetchCacheEntry): Promise<void> {
+    try {
+      await fsp.mkdir(this.dir, { recursive: true });
+      await fsp.writeFile(
+        this.fileFor(entry.url),
+        JSON.stringify(entry),
+        'utf-8',
+      );
+      await this.evict();
+    } catch (error) {
+      console.debug(
+        `Could not write the web fetch cache for ${entry.url}.`,
+        error,
+      );
+    }
+  }
+
+  private async evict(): Promise<void> {
+    const files = (await fsp.readdir(this.dir)).filter((file) =>
+      file.endsWith('.json'),
+    );
+    if (files.length <= this.maxEntries) {
+      return;
+    }
+    const entries = await Promise.all(
+      files.map(async (file) => {
+        const filePath = path.join(this.dir, file);
+        return { filePath, mtime: (await fsp.stat(filePath)).mtimeMs };
+      }),
+    );
+    entries.sort((a, b) => b.mtime - a.mtime);
+    await Promise.all(
+      entries
+        .slice(this.maxEntries)
+        .map(({ filePath }) => fsp.rm(filePath, { force: true })),
+    );
+  }
+
+  private fileFor(url: string): string {
+    return path.join(
+      this.dir,
+      `${createHash('sha256').update(url).digest('hex')}.json`,
+    );
+  }
+}
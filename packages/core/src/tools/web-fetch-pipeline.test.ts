@@ -0,0 +1,278 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+} from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import {
+  WebFetchPipeline,
+  htmlToMarkdown,
+  isAllowedByRobots,
+  parseRobotsTxt,
+} from './web-fetch-pipeline.js';
+
+type Route = (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+// A one-page PDF that shows "Hello PDF world".
+function createPdf(): Buffer {
+  const stream = 'BT /F1 12 Tf 72 720 Td (Hello PDF world) Tj ET';
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf +=
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets
+      .map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`)
+      .join('') +
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+describe('htmlToMarkdown', () => {
+  it('should convert the main content to markdown', () => {
+    const { title, content } = htmlToMarkdown(
+      `<html><head><title>Guide &amp; notes</title></head><body>
+        <nav><a href="/">Home</a></nav>
+        <article>
+          <h1>Install</h1>
+          <p>Run <code>npm i</code>, see <a href="../docs/setup">setup</a>.</p>
+          <pre><code>npm i
+  --save</code></pre>
+          <ul><li>One</li><li>Two</li></ul>
+        </article>
+        <footer>Copyright</footer>
+      </body></html>`,
+      'https://example.com/guide/install',
+    );
+
+    expect(title).toBe('Guide & notes');
+    expect(content).toBe(
+      '# Install\n\n' +
+        'Run `npm i`, see [setup](https://example.com/docs/setup).\n\n' +
+        '```\nnpm i\n  --save\n```\n\n' +
+        '- One\n- Two',
+    );
+  });
+
+  it('should convert the whole page when it has no main content element', () => {
+    const { content } = htmlToMarkdown(
+      '<html><body><h2>Notes</h2><p>Text</p><script>x()</script></body></html>',
+      'https://example.com',
+    );
+
+    expect(content).toBe('## Notes\n\nText');
+  });
+});
+
+describe('robots.txt', () => {
+  it('should apply the group naming this client over the wildcard group', () => {
+    const rules = parseRobotsTxt(
+      [
+        'User-agent: *',
+        'Disallow: /',
+        '',
+        'User-agent: GeminiCLI',
+        'Disallow: /private',
+        'Allow: /private/docs$',
+      ].join('\n'),
+    );
+
+    expect(isAllowedByRobots(rules, '/blog')).toBe(true);
+    expect(isAllowedByRobots(rules, '/private/keys')).toBe(false);
+    expect(isAllowedByRobots(rules, '/private/docs')).toBe(true);
+    expect(isAllowedByRobots(rules, '/private/docs/more')).toBe(false);
+  });
+
+  it('should match wildcards', () => {
+    const rules = parseRobotsTxt('User-agent: *\nDisallow: /*.json$');
+
+    expect(isAllowedByRobots(rules, '/data.json')).toBe(false);
+    expect(isAllowedByRobots(rules, '/data.json?x=1')).toBe(true);
+  });
+
+  it('should not merge a group with an empty Disallow into the next group', () => {
+    const rules = parseRobotsTxt(
+      [
+        'User-agent: GeminiCLI',
+        'Disallow:',
+        '',
+        'User-agent: OtherBot',
+        'Disallow: /',
+      ].join('\n'),
+    );
+
+    expect(isAllowedByRobots(rules, '/')).toBe(true);
+    expect(isAllowedByRobots(rules, '/blog')).toBe(true);
+  });
+});
+
+describe('WebFetchPipeline', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let routes: Record<string, Route>;
+  let tempDir: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const route = routes[req.url ?? ''];
+      if (route) {
+        route(req, res);
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    routes = {};
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'web-fetch-test-'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const signal = new AbortController().signal;
+
+  it('should pretty-print JSON', async () => {
+    routes['/data'] = (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end('{"a":[1,2]}');
+    };
+
+    const page = await new WebFetchPipeline().fetch(`${baseUrl}/data`, signal);
+
+    expect(page.content).toBe(
+      '```json\n{\n  "a": [\n    1,\n    2\n  ]\n}\n```',
+    );
+  });
+
+  it('should extract the text of PDFs', async () => {
+    routes['/paper.pdf'] = (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/pdf' });
+      res.end(createPdf());
+    };
+
+    const page = await new WebFetchPipeline().fetch(
+      `${baseUrl}/paper.pdf`,
+      signal,
+    );
+
+    expect(page.content).toBe('Hello PDF world');
+  });
+
+  it('should cut off responses at the size limit', async () => {
+    routes['/big'] = (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('x'.repeat(5000));
+    };
+
+    const page = await new WebFetchPipeline({ maxBytes: 100 }).fetch(
+      `${baseUrl}/big`,
+      signal,
+    );
+
+    expect(page.content).toBe('x'.repeat(100));
+    expect(page.truncated).toBe(true);
+  });
+
+  it('should time out slow responses', async () => {
+    routes['/slow'] = (_req, res) => {
+      setTimeout(() => res.writeHead(200).end('late'), 500);
+    };
+
+    await expect(
+      new WebFetchPipeline({ timeoutMs: 50 }).fetch(`${baseUrl}/slow`, signal),
+    ).rejects.toThrow('Request timed out after 50ms');
+  });
+
+  it('should reject unsupported content types', async () => {
+    routes['/image'] = (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'image/png' });
+      res.end('png');
+    };
+
+    await expect(
+      new WebFetchPipeline().fetch(`${baseUrl}/image`, signal),
+    ).rejects.toThrow('Unsupported content type "image/png".');
+  });
+
+  it('should revalidate cached pages with their ETag', async () => {
+    let requests = 0;
+    routes['/page'] = (req, res) => {
+      requests++;
+      if (req.headers['if-none-match'] === '"v1"') {
+        res.writeHead(304).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/html', ETag: '"v1"' });
+      res.end('<html><body><main><p>Cached</p></main></body></html>');
+    };
+    const pipeline = new WebFetchPipeline({ cacheDir: tempDir });
+
+    const first = await pipeline.fetch(`${baseUrl}/page`, signal);
+    const second = await new WebFetchPipeline({ cacheDir: tempDir }).fetch(
+      `${baseUrl}/page`,
+      signal,
+    );
+
+    expect(requests).toBe(2);
+    expect(first).toMatchObject({ content: 'Cached', fromCache: false });
+    expect(second).toMatchObject({ content: 'Cached', fromCache: true });
+  });
+
+  it('should not fetch pages that robots.txt disallows', async () => {
+    const fetchSpy = vi
+      .spyOn(global, 'fetch')
+      .mockImplementation(async (input) =>
+        String(input).endsWith('/robots.txt')
+          ? new Response('User-agent: *\nDisallow: /private/')
+          : new Response('ok', { headers: { 'Content-Type': 'text/plain' } }),
+      );
+    const pipeline = new WebFetchPipeline();
+
+    await expect(
+      pipeline.fetch('https://example.com/private/page', signal),
+    ).rejects.toThrow('The robots.txt of https://example.com disallows');
+    expect(
+      (await pipeline.fetch('https://example.com/public', signal)).content,
+    ).toBe('ok');
+    // robots.txt is fetched once per origin.
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,458 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { convert, FormatCallback, HtmlToTextOptions } from 'html-to-text';
+import { FetchError, isPrivateIp } from '../utils/fetch.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { WebFetchCache, WebFetchCacheEntry } from './web-fetch-cache.js';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const ROBOTS_TIMEOUT_MS = 5000;
+
+// The product token that robots.txt rules can address.
+const ROBOTS_USER_AGENT = 'GeminiCLI';
+const USER_AGENT = `${ROBOTS_USER_AGENT}/${process.env.CLI_VERSION || process.version} (${process.platform}; ${process.arch})`;
+
+// The elements that hold a page's main content, most specific first. Pages
+// without any of them are converted whole.
+const MAIN_CONTENT_SELECTORS: Array<[RegExp, string]> = [
+  [/<article[\s>]/i, 'article'],
+  [/<main[\s>]/i, 'main'],
+  [/role\s*=\s*["']?main["'\s>]/i, '[role=main]'],
+];
+
+// Page chrome that is not part of the content.
+const SKIPPED_ELEMENTS = [
+  'nav',
+  'footer',
+  'aside',
+  'form',
+  'button',
+  'iframe',
+  'svg',
+  'img',
+  'noscript',
+];
+
+export interface FetchedPage {
+  url: string;
+  contentType: string;
+  title?: string;
+  /** The content as markdown, or as text for PDFs. */
+  content: string;
+  /** Whether the response was cut off at the size limit. */
+  truncated: boolean;
+  fromCache: boolean;
+}
+
+export interface WebFetchPipelineOptions {
+  /** Where to cache fetched pages; pages are not cached without it. */
+  cacheDir?: string;
+  timeoutMs?: number;
+  maxBytes?: number;
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number;
+}
+
+/**
+ * Parses the rules of a robots.txt that apply to this client: those of the
+ * group naming it, or else of the `*` group.
+ */
+export function parseRobotsTxt(text: string): RobotsRule[] {
+  const groups: Array<{ agents: string[]; rules: RobotsRule[] }> = [];
+  let current: { agents: string[]; rules: RobotsRule[] } | undefined;
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    if (field === 'user-agent') {
+      if (!current || current.rules.length > 0) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+    } else if ((field === 'allow' || field === 'disallow') && current) {
+      if (!value) {
+        // An empty `Disallow` allows everything. It is still a rule, so that
+        // the group ends here rather than merging with the next one.
+        current.rules.push({ allow: true, pattern: /^/, length: 0 });
+        continue;
+      }
+      const pattern = value
+        .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\\\$$/, '$');
+      current.rules.push({
+        allow: field === 'allow',
+        pattern: new RegExp(`^${pattern}`),
+        length: value.length,
+      });
+    }
+  }
+
+  const token = ROBOTS_USER_AGENT.toLowerCase();
+  const group =
+    groups.find((g) => g.agents.some((agent) => agent.includes(token))) ??
+    groups.find((g) => g.agents.includes('*'));
+  return group?.rules ?? [];
+}
+
+/**
+ * Whether a path is allowed by robots.txt rules: the longest matching rule
+ * decides, and `Allow` wins ties.
+ */
+export function isAllowedByRobots(rules: RobotsRule[], path: string): boolean {
+  let decision: RobotsRule | undefined;
+  for (const rule of rules) {
+    if (
+      rule.pattern.test(path) &&
+      (!decision ||
+        rule.length > decision.length ||
+        (rule.length === decision.length && rule.allow))
+    ) {
+      decision = rule;
+    }
+  }
+  return decision?.allow ?? true;
+}
+
+function resolveUrl(href: string, baseUrl: string): string | undefined {
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+const markdownFormatters: Record<string, FormatCallback> = {
+  markdownHeading: (elem, walk, builder, options) => {
+    builder.openBlock({ leadingLineBreaks: 2 });
+    builder.addLiteral(`${'#'.repeat(options.level as number)} `);
+    walk(elem.children, builder);
+    builder.closeBlock({ trailingLineBreaks: 2 });
+  },
+  markdownLink: (elem, walk, builder, options) => {
+    const href = elem.attribs?.href;
+    const url =
+      href && !href.startsWith('#') && !href.startsWith('javascript:')
+        ? resolveUrl(href, options.baseUrl as string)
+        : undefined;
+    if (!url) {
+      walk(elem.children, builder);
+      return;
+    }
+    builder.addLiteral('[');
+    walk(elem.children, builder);
+    builder.addLiteral(`](${url})`);
+  },
+  markdownCode: (elem, walk, builder) => {
+    // Code in a <pre> is already fenced.
+    if (elem.parent?.name === 'pre') {
+      walk(elem.children, builder);
+      return;
+    }
+    builder.addLiteral('`');
+    walk(elem.children, builder);
+    builder.addLiteral('`');
+  },
+  markdownPre: (elem, walk, builder) => {
+    builder.openBlock({ leadingLineBreaks: 2, isPre: true });
+    builder.addLiteral('```\n');
+    walk(elem.children, builder);
+    builder.addLiteral('\n```');
+    builder.closeBlock({ trailingLineBreaks: 2 });
+  },
+};
+
+/**
+ * Converts the main content of an HTML page to markdown, the way reader
+ * modes do: the first of `<article>`, `<main>` and `role="main"` that the
+ * page has is kept, and navigation, forms and other chrome are dropped.
+ */
+export function htmlToMarkdown(
+  html: string,
+  baseUrl: string,
+): { title?: string; content: string } {
+  const title = html
+    .match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+    ?.replace(/\s+/g, ' ')
+    .trim();
+  const mainSelector = MAIN_CONTENT_SELECTORS.find(([test]) =>
+    test.test(html),
+  )?.[1];
+
+  const options: HtmlToTextOptions = {
+    wordwrap: false,
+    ...(mainSelector
+      ? {
+          baseElements: { selectors: [mainSelector], returnDomByDefault: true },
+        }
+      : {}),
+    formatters: markdownFormatters,
+    selectors: [
+      ...[1, 2, 3, 4, 5, 6].map((level) => ({
+        selector: `h${level}`,
+        format: 'markdownHeading',
+        options: { level },
+      })),
+      { selector: 'a', format: 'markdownLink', options: { baseUrl } },
+      { selector: 'code', format: 'markdownCode' },
+      { selector: 'pre', format: 'markdownPre' },
+      { selector: 'ul', options: { itemPrefix: '- ' } },
+      { selector: 'table', format: 'dataTable' },
+      ...SKIPPED_ELEMENTS.map((selector) => ({ selector, format: 'skip' })),
+    ],
+  };
+  return {
+    title: title ? convert(title, { wordwrap: false }) : undefined,
+    content: convert(html, options).trim(),
+  };
+}
+
+async function pdfToText(data: Uint8Array): Promise<string> {
+  // pdf.js is large, so it is only loaded for the first PDF.
+  const { extractText, getDocumentProxy } = await import('unpdf');
+  const { text } = await extractText(await getDocumentProxy(data), {
+    mergePages: true,
+  });
+  return text.trim();
+}
+
+function decode(data: Uint8Array, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset ?? 'utf-8').decode(data);
+  } catch {
+    return new TextDecoder('utf-8').decode(data);
+  }
+}
+
+/**
+ * Reads a response body up to `maxBytes`, cancelling the rest.
+ */
+async function readBody(
+  response: Response,
+  maxBytes: number,
+): Promise<{ data: Uint8Array; truncated: boolean }> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+  const reader = response.body?.getReader();
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    chunks.push(value);
+    size += value.byteLength;
+    if (size > maxBytes) {
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+  }
+  const data = new Uint8Array(Math.min(size, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, data.length - offset);
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return { data, truncated };
+}
+
+/**
+ * Fetches pages locally, independent of the model provider: it honours
+ * robots.txt, limits the time and size of each fetch, converts HTML to
+ * markdown, extracts the text of PDFs, pretty-prints JSON and revalidates
+ * cached pages with their `ETag` or `Last-Modified` header.
+ */
+export class WebFetchPipeline {
+  private readonly cache?: WebFetchCache;
+  private readonly timeoutMs: number;
+  private readonly maxBytes: number;
+  private readonly robots = new Map<string, Promise<RobotsRule[]>>();
+
+  constructor(options: WebFetchPipelineOptions = {}) {
+    this.cache = options.cacheDir
+      ? new WebFetchCache(options.cacheDir)
+      : undefined;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  }
+
+  async fetch(url: string, signal: AbortSignal): Promise<FetchedPage> {
+    const parsedUrl = new URL(url);
+    // Local and private network servers are the user's own.
+    if (
+      !isPrivateIp(url) &&
+      parsedUrl.hostname !== 'localhost' &&
+      !isAllowedByRobots(
+        await this.getRobotsRules(parsedUrl.origin, signal),
+        parsedUrl.pathname + parsedUrl.search,
+      )
+    ) {
+      throw new Error(
+        `The robots.txt of ${parsedUrl.origin} disallows ${url}.`,
+      );
+    }
+
+    const cached = await this.cache?.get(url);
+    const headers: Record<string, string> = {
+      'User-Agent': USER_AGENT,
+      Accept:
+        'text/html,application/xhtml+xml,application/json,application/pdf,text/*;q=0.9,*/*;q=0.5',
+    };
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    }
+    if (cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
+
+    const response = await this.request(url, headers, signal);
+    if (response.status === 304 && cached) {
+      return { ...this.toPage(cached), url, fromCache: true };
+    }
+    if (!response.ok) {
+      throw new Error(
+        `Request failed with status code ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const [mimeType, ...params] = (response.headers.get('content-type') ?? '')
+      .split(';')
+      .map((part) => part.trim());
+    const contentType = mimeType.toLowerCase();
+    const charset = params
+      .find((param) => param.toLowerCase().startsWith('charset='))
+      ?.slice('charset='.length)
+      .replace(/"/g, '');
+    const { data, truncated } = await readBody(response, this.maxBytes);
+
+    const entry: WebFetchCacheEntry = {
+      url,
+      etag: response.headers.get('etag') ?? undefined,
+      lastModified: response.headers.get('last-modified') ?? undefined,
+      contentType,
+      truncated,
+      ...(await this.convert(contentType, data, charset, truncated, url)),
+    };
+    if (entry.etag || entry.lastModified) {
+      await this.cache?.set(entry);
+    }
+    return { ...this.toPage(entry), fromCache: false };
+  }
+
+  private async convert(
+    contentType: string,
+    data: Uint8Array,
+    charset: string | undefined,
+    truncated: boolean,
+    url: string,
+  ): Promise<{ title?: string; content: string }> {
+    if (contentType === 'application/pdf') {
+      if (truncated) {
+        throw new Error(
+          `The PDF is larger than the limit of ${this.maxBytes} bytes.`,
+        );
+      }
+      return { content: await pdfToText(data) };
+    }
+
+    const text = decode(data, charset);
+    if (contentType === 'application/json' || contentType.endsWith('+json')) {
+      let json = text;
+      try {
+        json = JSON.stringify(JSON.parse(text), null, 2);
+      } catch {
+        // Truncated or invalid JSON is shown as it is.
+      }
+      return { content: `\`\`\`json\n${json}\n\`\`\`` };
+    }
+    if (
+      contentType === 'text/html' ||
+      contentType === 'application/xhtml+xml' ||
+      (!contentType && /<html[\s>]/i.test(text))
+    ) {
+      return htmlToMarkdown(text, url);
+    }
+    if (
+      !contentType ||
+      contentType.startsWith('text/') ||
+      contentType.endsWith('xml')
+    ) {
+      return { content: text };
+    }
+    throw new Error(`Unsupported content type "${contentType}".`);
+  }
+
+  private async request(
+    url: string,
+    headers: Record<string, string>,
+    signal: AbortSignal,
+    timeoutMs = this.timeoutMs,
+  ): Promise<Response> {
+    const timeout = AbortSignal.timeout(timeoutMs);
+    try {
+      return await fetch(url, {
+        headers,
+        signal: AbortSignal.any([signal, timeout]),
+      });
+    } catch (error) {
+      if (timeout.aborted && !signal.aborted) {
+        throw new FetchError(
+          `Request timed out after ${timeoutMs}ms`,
+          'ETIMEDOUT',
+        );
+      }
+      throw new FetchError(getErrorMessage(error));
+    }
+  }
+
+  /**
+   * Fetches the robots.txt rules of an origin once per pipeline. Sites
+   * without a readable robots.txt allow everything.
+   */
+  private getRobotsRules(
+    origin: string,
+    signal: AbortSignal,
+  ): Promise<RobotsRule[]> {
+    let rules = this.robots.get(origin);
+    if (!rules) {
+      rules = this.request(
+        `${origin}/robots.txt`,
+        { 'User-Agent': USER_AGENT },
+        signal,
+        ROBOTS_TIMEOUT_MS,
+      )
+        .then(async (response) =>
+          response.ok ? parseRobotsTxt(await response.text()) : [],
+        )
+        .catch(() => []);
+      this.robots.set(origin, rules);
+    }
+    return rules;
+  }
+
+  private toPage(entry: WebFetchCacheEntry): Omit<FetchedPage, 'fromCache'> {
+    return {
+      url: entry.url,
+      contentType: entry.contentType,
+      title: entry.title,
+      content: entry.content,
+      truncated: entry.truncated,
+    };
+  }
+}
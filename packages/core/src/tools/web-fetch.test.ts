@@ -4,18 +4,32 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { WebFetchTool } from './web-fetch.js';
+import { WebFetchPipeline } from './web-fetch-pipeline.js';
 import { Config, ApprovalMode } from '../config/config.js';
 import { ToolConfirmationOutcome } from './tools.js';
+import { getTokenizer } from '../providers/tokenizer.js';
+
+vi.mock('../providers/tokenizer.js', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('../providers/tokenizer.js')>();
+  return { ...actual, getTokenizer: vi.fn(actual.getTokenizer) };
+});
 
 describe('WebFetchTool', () => {
   const mockConfig = {
     getApprovalMode: vi.fn(),
     setApprovalMode: vi.fn(),
     getProxy: vi.fn(),
+    getProjectTempDir: () => '/tmp/project',
+    getModel: () => 'gemini-2.5-pro',
   } as unknown as Config;
 
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
   describe('shouldConfirmExecute', () => {
     it('should return confirmation details with the correct prompt and urls', async () => {
       const tool = new WebFetchTool(mockConfig);
@@ -84,4 +98,123 @@ describe('WebFetchTool', () => {
       expect(setApprovalMode).toHaveBeenCalledWith(ApprovalMode.AUTO_EDIT);
     });
   });
+
+  describe('execute', () => {
+    const signal = new AbortController().signal;
+
+    it('should return short content as it is', async () => {
+      vi.spyOn(WebFetchPipeline.prototype, 'fetch').mockImplementation(
+        async (url) => {
+          if (url.includes('broken')) {
+            throw new Error('Request failed with status code 500');
+          }
+          return {
+            url,
+            contentType: 'text/html',
+            title: 'Example',
+            content: 'Hello',
+            truncated: false,
+            fromCache: true,
+          };
+        },
+      );
+      const tool = new WebFetchTool(mockConfig);
+
+      const result = await tool.execute(
+        { prompt: 'Compare https://example.com and https://broken.example' },
+        signal,
+      );
+
+      expect(result.llmContent).toBe(
+        'Content fetched for the request "Compare https://example.com and https://broken.example":\n\n' +
+          '--- Example (https://example.com) ---\nHello\n\n' +
+          'Error fetching https://broken.example: Request failed with status code 500',
+      );
+      expect(result.returnDisplay).toBe(
+        'Fetched 1 of 2 URL(s), some from the cache.',
+      );
+    });
+
+    it('should have the model process long content', async () => {
+      vi.spyOn(WebFetchPipeline.prototype, 'fetch').mockResolvedValue({
+        url: 'https://example.com',
+        contentType: 'text/plain',
+        content: 'word '.repeat(20000),
+        truncated: false,
+        fromCache: false,
+      });
+      const generateContent = vi.fn().mockResolvedValue({
+        candidates: [{ content: { parts: [{ text: 'Summary' }] } }],
+      });
+      const tool = new WebFetchTool({
+        ...mockConfig,
+        getGeminiClient: () => ({ generateContent }),
+      } as unknown as Config);
+
+      const result = await tool.execute(
+        { prompt: 'Summarize https://example.com' },
+        signal,
+      );
+
+      expect(result.llmContent).toBe('Summary');
+      expect(generateContent).toHaveBeenCalledWith(
+        [
+          {
+            role: 'user',
+            parts: [{ text: expect.stringContaining('word word') }],
+          },
+        ],
+        {},
+        signal,
+        undefined,
+        'summarizer',
+      );
+    });
+
+    it('should not tokenize content that is far over the limit', async () => {
+      vi.spyOn(WebFetchPipeline.prototype, 'fetch').mockResolvedValue({
+        url: 'https://example.com',
+        contentType: 'text/plain',
+        content: 'x'.repeat(200000),
+        truncated: false,
+        fromCache: false,
+      });
+      const countTokens = vi.fn().mockReturnValue(0);
+      vi.mocked(getTokenizer).mockResolvedValueOnce({
+        name: 'o200k_base',
+        countTokens,
+      });
+      const generateContent = vi.fn().mockResolvedValue({
+        candidates: [{ content: { parts: [{ text: 'Summary' }] } }],
+      });
+      const tool = new WebFetchTool({
+        ...mockConfig,
+        getGeminiClient: () => ({ generateContent }),
+      } as unknown as Config);
+
+      const result = await tool.execute(
+        { prompt: 'Summarize https://example.com' },
+        signal,
+      );
+
+      expect(result.llmContent).toBe('Summary');
+      expect(countTokens).not.toHaveBeenCalled();
+    });
+
+    it('should return an error when no URL can be fetched', async () => {
+      vi.spyOn(WebFetchPipeline.prototype, 'fetch').mockRejectedValue(
+        new Error('The robots.txt of https://example.com disallows fetching /'),
+      );
+      const tool = new WebFetchTool(mockConfig);
+
+      const result = await tool.execute(
+        { prompt: 'Summarize https://example.com' },
+        signal,
+      );
+
+      expect(result.llmContent).toBe(
+        'Error: Error fetching https://example.com: The robots.txt of https://example.com disallows fetching /',
+      );
+    });
+  });
 });
@@ -16,11 +16,16 @@ import { Type } from '@google/genai';
 import { getErrorMessage } from '../utils/errors.js';
 import { Config, ApprovalMode } from '../config/config.js';
 import { getResponseText } from '../utils/generateContentResponseUtilities.js';
-import { fetchWithTimeout, isPrivateIp } from '../utils/fetch.js';
-import { convert } from 'html-to-text';
 import { ProxyAgent, setGlobalDispatcher } from 'undici';
-
-const URL_FETCH_TIMEOUT_MS = 10000;
+import path from 'node:path';
+import { FetchedPage, WebFetchPipeline } from './web-fetch-pipeline.js';
+import { getTokenizer, tokenizerForModel } from '../providers/tokenizer.js';
+
+const MAX_URLS = 20;
+// Fetched content up to this size is returned as it is; larger content is
+// processed by the model according to the prompt.
+const MAX_CONTENT_TOKENS = 10000;
+// The most content the model is given to process.
 const MAX_CONTENT_LENGTH = 100000;
 
 // Helper function to extract URLs from a string
@@ -29,25 +34,21 @@ function extractUrls(text: string): string[] {
   return text.match(urlRegex) || [];
 }
 
-// Interfaces for grounding metadata (similar to web-search.ts)
-interface GroundingChunkWeb {
-  uri?: string;
-  title?: string;
-}
-
-interface GroundingChunkItem {
-  web?: GroundingChunkWeb;
-}
-
-interface GroundingSupportSegment {
-  startIndex: number;
-  endIndex: number;
-  text?: string;
+function toRawGitHubUrl(url: string): string {
+  if (url.includes('github.com') && url.includes('/blob/')) {
+    return url
+      .replace('github.com', 'raw.githubusercontent.com')
+      .replace('/blob/', '/');
+  }
+  return url;
 }
 
-interface GroundingSupportItem {
-  segment?: GroundingSupportSegment;
-  groundingChunkIndices?: number[];
+function formatPage(page: FetchedPage): string {
+  const heading = page.title ? `${page.title} (${page.url})` : page.url;
+  const note = page.truncated
+    ? '\n\n[The content was cut off at the size limit.]'
+    : '';
+  return `--- ${heading} ---\n${page.content}${note}`;
 }
 
 /**
@@ -65,6 +66,7 @@ export interface WebFetchToolParams {
  */
 export class WebFetchTool extends BaseTool<WebFetchToolParams, ToolResult> {
   static readonly Name: string = 'web_fetch';
+  private pipeline?: WebFetchPipeline;
 
   constructor(private readonly config: Config) {
     super(
@@ -90,69 +92,13 @@ export class WebFetchTool extends BaseTool<WebFetchToolParams, ToolResult> {
     }
   }
 
-  private async executeFallback(
-    params: WebFetchToolParams,
-    signal: AbortSignal,
-  ): Promise<ToolResult> {
-    const urls = extractUrls(params.prompt);
-    if (urls.length === 0) {
-      return {
-        llmContent: 'Error: No URL found in the prompt for fallback.',
-        returnDisplay: 'Error: No URL found in the prompt for fallback.',
-      };
-    }
-    // For now, we only support one URL for fallback
-    let url = urls[0];
-
-    // Convert GitHub blob URL to raw URL
-    if (url.includes('github.com') && url.includes('/blob/')) {
-      url = url
-        .replace('github.com', 'raw.githubusercontent.com')
-        .replace('/blob/', '/');
-    }
-
-    try {
-      const response = await fetchWithTimeout(url, URL_FETCH_TIMEOUT_MS);
-      if (!response.ok) {
-        throw new Error(
-          `Request failed with status code ${response.status} ${response.statusText}`,
-        );
-      }
-      const html = await response.text();
-      const textContent = convert(html, {
-        wordwrap: false,
-        selectors: [
-          { selector: 'a', options: { ignoreHref: true } },
-          { selector: 'img', format: 'skip' },
-        ],
-      }).substring(0, MAX_CONTENT_LENGTH);
-
-      const geminiClient = this.config.getGeminiClient();
-      const fallbackPrompt = `The user requested the following: "${params.prompt}".
-
-I was unable to access the URL directly. Instead, I have fetched the raw content of the page. Please use the following content to answer the user's request. Do not attempt to access the URL again.
-
----
-${textContent}
----`;
-      const result = await geminiClient.generateContent(
-        [{ role: 'user', parts: [{ text: fallbackPrompt }] }],
-        {},
-        signal,
-      );
-      const resultText = getResponseText(result) || '';
-      return {
-        llmContent: resultText,
-        returnDisplay: `Content for ${url} processed using fallback fetch.`,
-      };
-    } catch (e) {
-      const error = e as Error;
-      const errorMessage = `Error during fallback fetch for ${url}: ${error.message}`;
-      return {
-        llmContent: `Error: ${errorMessage}`,
-        returnDisplay: `Error: ${errorMessage}`,
-      };
+  private getPipeline(): WebFetchPipeline {
+    if (!this.pipeline) {
+      this.pipeline = new WebFetchPipeline({
+        cacheDir: path.join(this.config.getProjectTempDir(), 'web-fetch-cache'),
+      });
     }
+    return this.pipeline;
   }
 
   validateParams(params: WebFetchToolParams): string | null {
@@ -194,14 +140,7 @@ ${textContent}
 
     // Perform GitHub URL conversion here to differentiate between user-provided
     // URL and the actual URL to be fetched.
-    const urls = extractUrls(params.prompt).map((url) => {
-      if (url.includes('github.com') && url.includes('/blob/')) {
-        return url
-          .replace('github.com', 'raw.githubusercontent.com')
-          .replace('/blob/', '/');
-      }
-      return url;
-    });
+    const urls = extractUrls(params.prompt).map(toRawGitHubUrl);
 
     const confirmationDetails: ToolCallConfirmationDetails = {
       type: 'info',
@@ -229,124 +168,74 @@ ${textContent}
       };
     }
 
-    const userPrompt = params.prompt;
-    const urls = extractUrls(userPrompt);
-    const url = urls[0];
-    const isPrivate = isPrivateIp(url);
-
-    if (isPrivate) {
-      return this.executeFallback(params, signal);
+    const urls = extractUrls(params.prompt)
+      .slice(0, MAX_URLS)
+      .map(toRawGitHubUrl);
+    const fetched = await Promise.all(
+      urls.map(async (url) => {
+        try {
+          return await this.getPipeline().fetch(url, signal);
+        } catch (error) {
+          return `Error fetching ${url}: ${getErrorMessage(error)}`;
+        }
+      }),
+    );
+    const pages = fetched.filter(
+      (page): page is FetchedPage => typeof page !== 'string',
+    );
+    const errors = fetched.filter(
+      (page): page is string => typeof page === 'string',
+    );
+    if (pages.length === 0) {
+      const errorMessage = errors.join('\n');
+      return {
+        llmContent: `Error: ${errorMessage}`,
+        returnDisplay: `Error: ${errorMessage}`,
+      };
     }
 
-    const geminiClient = this.config.getGeminiClient();
+    const content = [...pages.map(formatPage), ...errors].join('\n\n');
+    const returnDisplay = `Fetched ${pages.length} of ${urls.length} URL(s)${
+      pages.some((page) => page.fromCache) ? ', some from the cache' : ''
+    }.`;
+    const tokenizer = await getTokenizer(
+      tokenizerForModel(this.config.getModel()),
+    );
+    // Content longer than MAX_CONTENT_LENGTH is far over the token limit, and
+    // is not tokenized, as that takes seconds for large pages.
+    if (
+      content.length <= MAX_CONTENT_LENGTH &&
+      tokenizer.countTokens(content) <= MAX_CONTENT_TOKENS
+    ) {
+      return {
+        llmContent: `Content fetched for the request "${params.prompt}":\n\n${content}`,
+        returnDisplay,
+      };
+    }
 
     try {
-      const response = await geminiClient.generateContent(
-        [{ role: 'user', parts: [{ text: userPrompt }] }],
-        { tools: [{ urlContext: {} }] },
-        signal, // Pass signal
-      );
-
-      console.debug(
-        `[WebFetchTool] Full response for prompt "${userPrompt.substring(
-          0,
-          50,
-        )}...":`,
-        JSON.stringify(response, null, 2),
-      );
-
-      let responseText = getResponseText(response) || '';
-      const urlContextMeta = response.candidates?.[0]?.urlContextMetadata;
-      const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
-      const sources = groundingMetadata?.groundingChunks as
-        | GroundingChunkItem[]
-        | undefined;
-      const groundingSupports = groundingMetadata?.groundingSupports as
-        | GroundingSupportItem[]
-        | undefined;
+      const prompt = `The user requested the following: "${params.prompt}".
 
-      // Error Handling
-      let processingError = false;
+I have fetched the content of the URLs, but it is too long to use as it is. Please use the following content to answer the user's request. Do not attempt to access the URLs again.
 
-      if (
-        urlContextMeta?.urlMetadata &&
-        urlContextMeta.urlMetadata.length > 0
-      ) {
-        const allStatuses = urlContextMeta.urlMetadata.map(
-          (m) => m.urlRetrievalStatus,
+---
+${content.substring(0, MAX_CONTENT_LENGTH)}
+---`;
+      const result = await this.config
+        .getGeminiClient()
+        .generateContent(
+          [{ role: 'user', parts: [{ text: prompt }] }],
+          {},
+          signal,
+          undefined,
+          'summarizer',
         );
-        if (allStatuses.every((s) => s !== 'URL_RETRIEVAL_STATUS_SUCCESS')) {
-          processingError = true;
-        }
-      } else if (!responseText.trim() && !sources?.length) {
-        // No URL metadata and no content/sources
-        processingError = true;
-      }
-
-      if (
-        !processingError &&
-        !responseText.trim() &&
-        (!sources || sources.length === 0)
-      ) {
-        // Successfully retrieved some URL (or no specific error from urlContextMeta), but no usable text or grounding data.
-        processingError = true;
-      }
-
-      if (processingError) {
-        return this.executeFallback(params, signal);
-      }
-
-      const sourceListFormatted: string[] = [];
-      if (sources && sources.length > 0) {
-        sources.forEach((source: GroundingChunkItem, index: number) => {
-          const title = source.web?.title || 'Untitled';
-          const uri = source.web?.uri || 'Unknown URI'; // Fallback if URI is missing
-          sourceListFormatted.push(`[${index + 1}] ${title} (${uri})`);
-        });
-
-        if (groundingSupports && groundingSupports.length > 0) {
-          const insertions: Array<{ index: number; marker: string }> = [];
-          groundingSupports.forEach((support: GroundingSupportItem) => {
-            if (support.segment && support.groundingChunkIndices) {
-              const citationMarker = support.groundingChunkIndices
-                .map((chunkIndex: number) => `[${chunkIndex + 1}]`)
-                .join('');
-              insertions.push({
-                index: support.segment.endIndex,
-                marker: citationMarker,
-              });
-            }
-          });
-
-          insertions.sort((a, b) => b.index - a.index);
-          const responseChars = responseText.split('');
-          insertions.forEach((insertion) => {
-            responseChars.splice(insertion.index, 0, insertion.marker);
-          });
-          responseText = responseChars.join('');
-        }
-
-        if (sourceListFormatted.length > 0) {
-          responseText += `
-
-Sources:
-${sourceListFormatted.join('\n')}`;
-        }
-      }
-
-      const llmContent = responseText;
-
-      console.debug(
-        `[WebFetchTool] Formatted tool response for prompt "${userPrompt}:\n\n":`,
-        llmContent,
-      );
-
       return {
-        llmContent,
-        returnDisplay: `Content processed from prompt.`,
+        llmContent: getResponseText(result) || '',
+        returnDisplay: `${returnDisplay} The content was processed by the model, as it exceeded ${MAX_CONTENT_TOKENS} tokens.`,
       };
     } catch (error: unknown) {
-      const errorMessage = `Error processing web content for prompt "${userPrompt.substring(
+      const errorMessage = `Error processing web content for prompt "${params.prompt.substring(
         0,
         50,
       )}...": ${getErrorMessage(error)}`;
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createSearchBackend } from './web-search-backends.js';
+
+interface StubRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('createSearchBackend', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: StubRequest[];
+  let reply: { status: number; body: unknown };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({
+          method: req.method,
+          url: req.url,
+          headers: req.headers,
+          body,
+        });
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    reply = { status: 200, body: {} };
+  });
+
+  const signal = new AbortController().signal;
+
+  it('should not create a backend for gemini', () => {
+    expect(createSearchBackend({})).toBeUndefined();
+    expect(createSearchBackend({ backend: 'gemini' })).toBeUndefined();
+  });
+
+  it('should search SearxNG through its JSON API', async () => {
+    reply.body = {
+      results: [
+        { title: 'Vitest', url: 'https://vitest.dev', content: 'Test runner' },
+      ],
+    };
+    const backend = createSearchBackend({
+      backend: 'searxng',
+      url: `${baseUrl}/searx`,
+    });
+
+    expect(await backend!.search('vitest docs', signal)).toEqual([
+      { title: 'Vitest', url: 'https://vitest.dev', snippet: 'Test runner' },
+    ]);
+    expect(requests[0].url).toBe('/searx/search?q=vitest+docs&format=json');
+  });
+
+  it('should search Brave with the subscription token and strip markup', async () => {
+    reply.body = {
+      web: {
+        results: [
+          {
+            title: 'Node.js',
+            url: 'https://nodejs.org',
+            description: 'The <strong>Node.js</strong> &amp; npm runtime',
+          },
+        ],
+      },
+    };
+    const backend = createSearchBackend({
+      backend: 'brave',
+      url: `${baseUrl}/brave`,
+      apiKey: 'brave-key',
+      maxResults: 3,
+    });
+
+    expect(await backend!.search('node', signal)).toEqual([
+      {
+        title: 'Node.js',
+        url: 'https://nodejs.org',
+        snippet: 'The Node.js & npm runtime',
+      },
+    ]);
+    expect(requests[0].url).toBe('/brave?q=node&count=3');
+    expect(requests[0].headers['x-subscription-token']).toBe('brave-key');
+  });
+
+  it('should search Tavily with a JSON request', async () => {
+    reply.body = {
+      results: [{ title: 'A', url: 'https://a.example', content: 'About A' }],
+    };
+    const backend = createSearchBackend({
+      backend: 'tavily',
+      url: `${baseUrl}/tavily`,
+      apiKey: 'tvly-key',
+    });
+
+    expect(await backend!.search('a', signal)).toHaveLength(1);
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].headers.authorization).toBe('Bearer tvly-key');
+    expect(JSON.parse(requests[0].body)).toEqual({
+      query: 'a',
+      max_results: 5,
+    });
+  });
+
+  it('should read results from a generic JSON endpoint', async () => {
+    reply.body = {
+      data: {
+        items: [
+          { name: 'One', link: 'https://one.example', snippet: 'First' },
+          { name: 'No link' },
+          { name: 'Two', link: 'https://two.example', snippet: 'Second' },
+        ],
+      },
+    };
+    const backend = createSearchBackend({
+      backend: 'http',
+      url: `${baseUrl}/search?lang=en`,
+      queryParam: 'query',
+      resultsPath: 'data.items',
+      maxResults: 1,
+    });
+
+    expect(await backend!.search('one', signal)).toEqual([
+      { title: 'One', url: 'https://one.example', snippet: 'First' },
+    ]);
+    expect(requests[0].url).toBe('/search?lang=en&query=one');
+  });
+
+  it('should report failed requests with their status', async () => {
+    reply = { status: 429, body: { error: 'rate limited' } };
+    const backend = createSearchBackend({ backend: 'http', url: baseUrl });
+
+    await expect(backend!.search('x', signal)).rejects.toThrow(
+      'The http search request failed with status 429',
+    );
+  });
+
+  it('should require the settings of the selected backend', () => {
+    expect(() => createSearchBackend({ backend: 'searxng' })).toThrow(
+      'requires "webSearch.url"',
+    );
+    expect(() => createSearchBackend({ backend: 'brave' })).toThrow(
+      'requires "webSearch.apiKey"',
+    );
+    expect(() =>
+      createSearchBackend({
+        backend: 'tavily',
+        apiKeyEnv: 'WEB_SEARCH_TEST_MISSING_KEY',
+      }),
+    ).toThrow('WEB_SEARCH_TEST_MISSING_KEY');
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { convert } from 'html-to-text';
+import type { WebSearchSettings } from '../config/config.js';
+import { registerSecret } from '../utils/redaction.js';
+
+const DEFAULT_MAX_RESULTS = 5;
+const BRAVE_API_URL = 'https://api.search.brave.com/res/v1/web/search';
+const TAVILY_API_URL = 'https://api.tavily.com/search';
+
+export interface WebSearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+/**
+ * A search service that `google_web_search` sends queries to instead of
+ * asking Gemini for Google Search grounding.
+ */
+export interface SearchBackend {
+  readonly name: string;
+  search(query: string, signal: AbortSignal): Promise<WebSearchResult[]>;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+// Brave highlights matches with <strong> and escapes entities; SearxNG
+// passes through whatever the engines return.
+function toPlainText(snippet: string): string {
+  return convert(snippet, { wordwrap: false }).trim();
+}
+
+async function requestJson(
+  backend: string,
+  url: string,
+  init: RequestInit,
+): Promise<unknown> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new Error(
+      `The ${backend} search request failed with status ${response.status} ${response.statusText}${body ? `: ${body.slice(0, 200)}` : ''}`,
+    );
+  }
+  return response.json();
+}
+
+function getPath(data: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .filter(Boolean)
+    .reduce<unknown>(
+      (value, key) =>
+        value && typeof value === 'object'
+          ? (value as JsonObject)[key]
+          : undefined,
+      data,
+    );
+}
+
+/**
+ * Maps search results to titles, URLs and snippets, accepting the field
+ * names that search APIs commonly use, and drops results without a URL.
+ */
+function toResults(items: unknown, maxResults: number): WebSearchResult[] {
+  if (!Array.isArray(items)) {
+    throw new Error('The search response does not contain a list of results.');
+  }
+  return items
+    .filter((item): item is JsonObject => !!item && typeof item === 'object')
+    .map((item) => ({
+      title: toPlainText(asString(item.title ?? item.name)),
+      url: asString(item.url ?? item.link ?? item.href),
+      snippet: toPlainText(
+        asString(item.snippet ?? item.content ?? item.description),
+      ),
+    }))
+    .filter((result) => result.url)
+    .slice(0, maxResults);
+}
+
+/** Searches a SearxNG instance through its JSON API. */
+class SearxngBackend implements SearchBackend {
+  readonly name = 'searxng';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly settings: WebSearchSettings,
+    private readonly maxResults: number,
+  ) {}
+
+  async search(query: string, signal: AbortSignal): Promise<WebSearchResult[]> {
+    const url = new URL('search', this.baseUrl.replace(/\/?$/, '/'));
+    url.searchParams.set('q', query);
+    url.searchParams.set('format', 'json');
+    const data = await requestJson(this.name, url.toString(), {
+      headers: { Accept: 'application/json', ...this.settings.headers },
+      signal,
+    });
+    return toResults(getPath(data, 'results'), this.maxResults);
+  }
+}
+
+/** Searches with the Brave Search API. */
+class BraveBackend implements SearchBackend {
+  readonly name = 'brave';
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly settings: WebSearchSettings,
+    private readonly maxResults: number,
+  ) {}
+
+  async search(query: string, signal: AbortSignal): Promise<WebSearchResult[]> {
+    const url = new URL(this.settings.url ?? BRAVE_API_URL);
+    url.searchParams.set('q', query);
+    url.searchParams.set('count', String(this.maxResults));
+    const data = await requestJson(this.name, url.toString(), {
+      headers: {
+        Accept: 'application/json',
+        'X-Subscription-Token': this.apiKey,
+        ...this.settings.headers,
+      },
+      signal,
+    });
+    return toResults(getPath(data, 'web.results') ?? [], this.maxResults);
+  }
+}
+
+/** Searches with the Tavily API. */
+class TavilyBackend implements SearchBackend {
+  readonly name = 'tavily';
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly settings: WebSearchSettings,
+    private readonly maxResults: number,
+  ) {}
+
+  async search(query: string, signal: AbortSignal): Promise<WebSearchResult[]> {
+    const data = await requestJson(
+      this.name,
+      this.settings.url ?? TAVILY_API_URL,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.apiKey}`,
+          ...this.settings.headers,
+        },
+        body: JSON.stringify({ query, max_results: this.maxResults }),
+        signal,
+      },
+    );
+    return toResults(getPath(data, 'results'), this.maxResults);
+  }
+}
+
+/**
+ * Searches any endpoint that takes the query as a URL parameter and returns
+ * JSON results with a title, a URL and a snippet.
+ */
+class HttpJsonBackend implements SearchBackend {
+  readonly name = 'http';
+
+  constructor(
+    private readonly endpoint: string,
+    private readonly apiKey: string | undefined,
+    private readonly settings: WebSearchSettings,
+    private readonly maxResults: number,
+  ) {}
+
+  async search(query: string, signal: AbortSignal): Promise<WebSearchResult[]> {
+    const url = new URL(this.endpoint);
+    url.searchParams.set(this.settings.queryParam ?? 'q', query);
+    const data = await requestJson(this.name, url.toString(), {
+      headers: {
+        Accept: 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        ...this.settings.headers,
+      },
+      signal,
+    });
+    return toResults(
+      getPath(data, this.settings.resultsPath ?? 'results'),
+      this.maxResults,
+    );
+  }
+}
+
+function resolveApiKey(settings: WebSearchSettings): string | undefined {
+  let apiKey = settings.apiKey;
+  if (settings.apiKeyEnv) {
+    apiKey = process.env[settings.apiKeyEnv];
+    if (!apiKey) {
+      throw new Error(
+        `The web search backend reads its API key from ${settings.apiKeyEnv}, but that environment variable is not set.`,
+      );
+    }
+  }
+  registerSecret(apiKey);
+  return apiKey;
+}
+
+function requireSetting(
+  value: string | undefined,
+  backend: string,
+  setting: string,
+): string {
+  if (!value) {
+    throw new Error(
+      `The "${backend}" web search backend requires "webSearch.${setting}" in settings.json.`,
+    );
+  }
+  return value;
+}
+
+/**
+ * Creates the search backend selected by the `webSearch` settings, or
+ * returns undefined for `gemini`, which searches through the model itself.
+ */
+export function createSearchBackend(
+  settings: WebSearchSettings,
+): SearchBackend | undefined {
+  const backend = settings.backend ?? 'gemini';
+  const maxResults = settings.maxResults ?? DEFAULT_MAX_RESULTS;
+  switch (backend) {
+    case 'gemini':
+      return undefined;
+    case 'searxng':
+      return new SearxngBackend(
+        requireSetting(settings.url, backend, 'url'),
+        settings,
+        maxResults,
+      );
+    case 'brave':
+      return new BraveBackend(
+        requireSetting(resolveApiKey(settings), backend, 'apiKey'),
+        settings,
+        maxResults,
+      );
+    case 'tavily':
+      return new TavilyBackend(
+        requireSetting(resolveApiKey(settings), backend, 'apiKey'),
+        settings,
+        maxResults,
+      );
+    case 'http':
+      return new HttpJsonBackend(
+        requireSetting(settings.url, backend, 'url'),
+        resolveApiKey(settings),
+        settings,
+        maxResults,
+      );
+    default:
+      throw new Error(
+        `Unknown web search backend "${backend}". Use gemini, searxng, brave, tavily or http.`,
+      );
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { WebSearchTool } from './web-search.js';
+import { Config, WebSearchSettings } from '../config/config.js';
+import { AuthType } from '../core/contentGenerator.js';
+
+function createConfig(
+  webSearch: WebSearchSettings,
+  authType = AuthType.USE_MULTI_LLM,
+): Config {
+  return {
+    getWebSearchSettings: () => webSearch,
+    getContentGeneratorConfig: () => ({ authType }),
+    getGeminiClient: vi.fn(),
+  } as unknown as Config;
+}
+
+describe('WebSearchTool', () => {
+  const signal = new AbortController().signal;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should format backend results with citation markers and sources', async () => {
+    vi.spyOn(global, 'fetch').mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          results: [
+            { title: 'One', url: 'https://one.example', content: 'First' },
+            { title: 'Two', url: 'https://two.example', content: 'Second' },
+          ],
+        }),
+      ),
+    );
+    const tool = new WebSearchTool(
+      createConfig({ backend: 'searxng', url: 'http://localhost:8888' }),
+    );
+
+    const result = await tool.execute({ query: 'numbers' }, signal);
+
+    expect(result.llmContent).toBe(
+      'Web search results for "numbers":\n\n' +
+        'One: First [1]\n\nTwo: Second [2]\n\n' +
+        'Sources:\n[1] One (https://one.example)\n[2] Two (https://two.example)',
+    );
+    expect(result.sources).toEqual([
+      { web: { title: 'One', uri: 'https://one.example' } },
+      { web: { title: 'Two', uri: 'https://two.example' } },
+    ]);
+  });
+
+  it('should report when the backend finds nothing', async () => {
+    vi.spyOn(global, 'fetch').mockResolvedValue(
+      new Response(JSON.stringify({ results: [] })),
+    );
+    const tool = new WebSearchTool(
+      createConfig({ backend: 'searxng', url: 'http://localhost:8888' }),
+    );
+
+    const result = await tool.execute({ query: 'nothing' }, signal);
+
+    expect(result.returnDisplay).toBe('No information found.');
+  });
+
+  it('should ask for a backend when the model is not Gemini', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const config = createConfig({});
+    const tool = new WebSearchTool(config);
+
+    const result = await tool.execute({ query: 'anything' }, signal);
+
+    expect(result.llmContent).toContain('"webSearch.backend"');
+    expect(config.getGeminiClient).not.toHaveBeenCalled();
+  });
+});
@@ -12,6 +12,12 @@ import { SchemaValidator } from '../utils/schemaValidator.js';
 import { getErrorMessage } from '../utils/errors.js';
 import { Config } from '../config/config.js';
 import { getResponseText } from '../utils/generateContentResponseUtilities.js';
+import { AuthType } from '../core/contentGenerator.js';
+import {
+  SearchBackend,
+  WebSearchResult,
+  createSearchBackend,
+} from './web-search-backends.js';
 
 interface GroundingChunkWeb {
   uri?: string;
@@ -56,7 +62,8 @@ export interface WebSearchToolResult extends ToolResult {
 }
 
 /**
- * A tool to perform web searches using Google Search via the Gemini API.
+ * A tool to perform web searches using Google Search via the Gemini API, or
+ * the search backend selected by the `webSearch` settings.
  */
 export class WebSearchTool extends BaseTool<
   WebSearchToolParams,
@@ -68,7 +75,7 @@ export class WebSearchTool extends BaseTool<
     super(
       WebSearchTool.Name,
       'GoogleSearch',
-      'Performs a web search using Google Search (via the Gemini API) and returns the results. This tool is useful for finding information on the internet based on a query.',
+      'Performs a web search using Google Search (via the Gemini API) or the configured search service and returns the results. This tool is useful for finding information on the internet based on a query.',
       Icon.Globe,
       {
         type: Type.OBJECT,
@@ -115,9 +122,22 @@ export class WebSearchTool extends BaseTool<
         returnDisplay: validationError,
       };
     }
-    const geminiClient = this.config.getGeminiClient();
 
     try {
+      const backend = createSearchBackend(this.config.getWebSearchSettings());
+      if (backend) {
+        return await this.searchWithBackend(backend, params.query, signal);
+      }
+      if (
+        this.config.getContentGeneratorConfig()?.authType ===
+        AuthType.USE_MULTI_LLM
+      ) {
+        throw new Error(
+          'Google Search grounding is only available with Gemini. Select a search backend with "webSearch.backend" in settings.json.',
+        );
+      }
+
+      const geminiClient = this.config.getGeminiClient();
       const response = await geminiClient.generateContent(
         [{ role: 'user', parts: [{ text: params.query }] }],
         { tools: [{ googleSearch: {} }] },
@@ -195,4 +215,36 @@ export class WebSearchTool extends BaseTool<
       };
     }
   }
+
+  private async searchWithBackend(
+    backend: SearchBackend,
+    query: string,
+    signal: AbortSignal,
+  ): Promise<WebSearchToolResult> {
+    const results = await backend.search(query, signal);
+    if (results.length === 0) {
+      return {
+        llmContent: `No search results or information found for query: "${query}"`,
+        returnDisplay: 'No information found.',
+      };
+    }
+
+    const text = results
+      .map(
+        (result: WebSearchResult, index: number) =>
+          `${result.title || 'Untitled'}: ${result.snippet} [${index + 1}]`,
+      )
+      .join('\n\n');
+    const sourceListFormatted = results.map(
+      (result: WebSearchResult, index: number) =>
+        `[${index + 1}] ${result.title || 'Untitled'} (${result.url})`,
+    );
+    return {
+      llmContent: `Web search results for "${query}":\n\n${text}\n\nSources:\n${sourceListFormatted.join('\n')}`,
+      returnDisplay: `Search results for "${query}" returned.`,
+      sources: results.map((result) => ({
+        web: { title: result.title, uri: result.url },
+      })),
+    };
+  }
 }
@@ -19,7 +19,7 @@ import {
   ToolConfirmationOutcome,
   ToolEditConfirmationDetails,
 } from './tools.js';
-import { type EditToolParams } from './edit.js';
+import { type EditToolReplacement } from './edit.js';
 import { ApprovalMode, Config } from '../config/config.js';
 import { ToolRegistry } from './tool-registry.js';
 import path from 'path';
@@ -116,7 +116,7 @@ describe('WriteFileTool', () => {
       async (
         filePath: string,
         _currentContent: string,
-        params: EditToolParams,
+        params: EditToolReplacement & { file_path: string },
         _client: GeminiClient,
         signal?: AbortSignal, // Make AbortSignal optional to match usage
       ): Promise<CorrectedEditResult> => {
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach, Mock } from 'vitest';
+import { addDailySpend, getDailySpend } from './dailySpend.js';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import path from 'node:path';
+
+vi.mock('os', async (importOriginal) => {
+  const os = await importOriginal<typeof import('os')>();
+  return {
+    ...os,
+    homedir: vi.fn(),
+  };
+});
+
+describe('dailySpend', () => {
+  let tempHomeDir: string;
+  const spendFile = () => path.join(tempHomeDir, '.gemini', 'daily_spend.json');
+  const today = new Date(2025, 6, 1, 9);
+  const tomorrow = new Date(2025, 6, 2, 9);
+
+  beforeEach(() => {
+    tempHomeDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'gemini-cli-test-home-'),
+    );
+    (os.homedir as Mock).mockReturnValue(tempHomeDir);
+  });
+  afterEach(() => {
+    fs.rmSync(tempHomeDir, { recursive: true, force: true });
+    vi.clearAllMocks();
+  });
+
+  it('should return 0 when nothing was spent', () => {
+    expect(getDailySpend(today)).toBe(0);
+  });
+
+  it('should add up the spend of the day', () => {
+    addDailySpend(0.5, today);
+    addDailySpend(0.25, today);
+
+    expect(getDailySpend(today)).toBe(0.75);
+    expect(JSON.parse(fs.readFileSync(spendFile(), 'utf-8'))).toEqual({
+      date: '2025-07-01',
+      usd: 0.75,
+    });
+  });
+
+  it('should write the spend before returning', () => {
+    addDailySpend(1, today);
+    addDailySpend(2, today);
+    addDailySpend(3, today);
+
+    expect(fs.existsSync(spendFile())).toBe(true);
+    expect(getDailySpend(today)).toBe(6);
+  });
+
+  it('should start over on a new day', () => {
+    addDailySpend(2, today);
+
+    expect(getDailySpend(tomorrow)).toBe(0);
+    addDailySpend(1, tomorrow);
+    expect(getDailySpend(tomorrow)).toBe(1);
+  });
+
+  it('should start over when the file is corrupted', () => {
+    fs.mkdirSync(path.dirname(spendFile()), { recursive: true });
+    fs.writeFileSync(spendFile(), 'not json');
+    const consoleDebugSpy = vi
+      .spyOn(console, 'debug')
+      .mockImplementation(() => {});
+
+    expect(getDailySpend(today)).toBe(0);
+    addDailySpend(1, today);
+    expect(getDailySpend(today)).toBe(1);
+    consoleDebugSpy.mockRestore();
+  });
+});
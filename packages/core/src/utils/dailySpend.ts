@@ -0,0 +1,80 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import * as os from 'os';
+import { GEMINI_DIR, DAILY_SPEND_FILENAME } from './paths.js';
+
+interface DailySpend {
+  /** The local date the spend was recorded on, as YYYY-MM-DD. */
+  date: string;
+  /** The spend in US dollars. */
+  usd: number;
+}
+
+function getDailySpendPath(): string {
+  return path.join(os.homedir(), GEMINI_DIR, DAILY_SPEND_FILENAME);
+}
+
+function toLocalDate(now: Date): string {
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+function parseSpend(content: string, date: string): number {
+  if (!content.trim()) {
+    return 0;
+  }
+  const spend = JSON.parse(content) as DailySpend;
+  return spend.date === date && typeof spend.usd === 'number' ? spend.usd : 0;
+}
+
+/**
+ * Returns how many US dollars were spent on models today, across all
+ * sessions.
+ */
+export function getDailySpend(now: Date = new Date()): number {
+  try {
+    const filePath = getDailySpendPath();
+    if (!existsSync(filePath)) {
+      return 0;
+    }
+    return parseSpend(readFileSync(filePath, 'utf-8'), toLocalDate(now));
+  } catch (error) {
+    console.debug('Error reading daily spend:', error);
+    return 0;
+  }
+}
+
+/**
+ * Adds to today's spend. The total starts over on each new day. The file is
+ * written synchronously, so that the spend of a response is not lost when
+ * the process exits right after it.
+ */
+export function addDailySpend(usd: number, now: Date = new Date()): void {
+  const filePath = getDailySpendPath();
+  const date = toLocalDate(now);
+  let spent = 0;
+  try {
+    spent = parseSpend(readFileSync(filePath, 'utf-8'), date);
+  } catch (error) {
+    if (
+      !(error instanceof Error && 'code' in error && error.code === 'ENOENT')
+    ) {
+      // The file is corrupted or not valid JSON, start over.
+      console.debug('Could not parse daily spend file, starting fresh.', error);
+    }
+  }
+  const spend: DailySpend = { date, usd: spent + usd };
+  try {
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    writeFileSync(filePath, JSON.stringify(spend, null, 2), 'utf-8');
+  } catch (error) {
+    console.debug('Error writing daily spend:', error);
+  }
+}
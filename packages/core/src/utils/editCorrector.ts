@@ -11,7 +11,7 @@ import {
   Type,
 } from '@google/genai';
 import { GeminiClient } from '../core/client.js';
-import { EditToolParams, EditTool } from '../tools/edit.js';
+import { EditToolReplacement, EditTool } from '../tools/edit.js';
 import { WriteFileTool } from '../tools/write-file.js';
 import { ReadFileTool } from '../tools/read-file.js';
 import { ReadManyFilesTool } from '../tools/read-many-files.js';
@@ -154,15 +154,15 @@ async function findLastEditTimestamp(
  * Results are cached to avoid redundant processing.
  *
  * @param currentContent The current content of the file.
- * @param originalParams The original EditToolParams
+ * @param originalParams The replacement to make, as given by the model
  * @param client The GeminiClient for LLM calls.
  * @returns A promise resolving to an object containing the (potentially corrected)
- *          EditToolParams (as CorrectedEditParams) and the final occurrences count.
+ *          replacement (as CorrectedEditParams) and the final occurrences count.
  */
 export async function ensureCorrectEdit(
   filePath: string,
   currentContent: string,
-  originalParams: EditToolParams, // This is the EditToolParams from edit.ts, without \'corrected\'
+  originalParams: EditToolReplacement & { file_path: string },
   client: GeminiClient,
   abortSignal: AbortSignal,
 ): Promise<CorrectedEditResult> {
@@ -412,6 +412,7 @@ Return ONLY the corrected target snippet in the specified JSON format with the k
       abortSignal,
       EditModel,
       EditConfig,
+      'editCorrection',
     );
 
     if (
@@ -500,6 +501,7 @@ Return ONLY the corrected string in the specified JSON format with the key 'corr
       abortSignal,
       EditModel,
       EditConfig,
+      'editCorrection',
     );
 
     if (
@@ -569,6 +571,7 @@ Return ONLY the corrected string in the specified JSON format with the key 'corr
       abortSignal,
       EditModel,
       EditConfig,
+      'editCorrection',
     );
 
     if (
@@ -635,6 +638,7 @@ Return ONLY the corrected string in the specified JSON format with the key 'corr
       abortSignal,
       EditModel,
       EditConfig,
+      'editCorrection',
     );
 
     if (
@@ -29,6 +29,20 @@ export class ForbiddenError extends Error {}
 export class UnauthorizedError extends Error {}
 export class BadRequestError extends Error {}
 
+/**
+ * Thrown when a request contains content (for example a PDF attached with
+ * `@file`) that the provider's wire format has no way to represent.
+ */
+export class UnsupportedContentError extends Error {
+  constructor(providerName: string, mimeType: string) {
+    super(
+      `The ${providerName} provider cannot send content of type "${mimeType}". ` +
+        'Remove the attachment or switch to a provider that supports it.',
+    );
+    this.name = 'UnsupportedContentError';
+  }
+}
+
 interface ResponseData {
   error?: {
     code?: number;
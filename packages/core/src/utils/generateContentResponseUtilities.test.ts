@@ -91,6 +91,13 @@ describe('generateContentResponseUtilities', () => {
       ]);
       expect(getResponseText(response)).toBe('Hello World');
     });
+    it('should ignore thought parts', () => {
+      const response = mockResponse([
+        { text: 'Thinking...', thought: true },
+        mockTextPart('Hello'),
+      ]);
+      expect(getResponseText(response)).toBe('Hello');
+    });
     it('should ignore function call parts', () => {
       const response = mockResponse([
         mockTextPart('Hello '),
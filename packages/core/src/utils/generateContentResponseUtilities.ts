@@ -24,6 +24,7 @@ export function getResponseText(
     return undefined;
   }
   const textSegments = parts
+    .filter((part) => !part.thought)
     .map((part) => part.text)
     .filter((text): text is string => typeof text === 'string');
 
@@ -39,6 +40,7 @@ export function getResponseTextFromParts(parts: Part[]): string | undefined {
     return undefined;
   }
   const textSegments = parts
+    .filter((part) => !part.thought)
     .map((part) => part.text)
     .filter((text): text is string => typeof text === 'string');
 
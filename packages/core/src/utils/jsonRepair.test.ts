@@ -0,0 +1,49 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseJsonLeniently } from './jsonRepair.js';
+
+describe('parseJsonLeniently', () => {
+  it('should parse plain JSON', () => {
+    expect(parseJsonLeniently('{"a": 1}')).toEqual({ a: 1 });
+  });
+
+  it('should extract JSON from prose and code fences', () => {
+    expect(
+      parseJsonLeniently(
+        'Sure! Here it is:\n```json\n{"next_speaker": "user"}\n```',
+      ),
+    ).toEqual({ next_speaker: 'user' });
+    expect(
+      parseJsonLeniently('The answer is {"a": "}"} as requested.'),
+    ).toEqual({ a: '}' });
+  });
+
+  it('should ignore reasoning before the answer', () => {
+    expect(
+      parseJsonLeniently('<think>Maybe {"a": 2}?</think>\n{"a": 1}'),
+    ).toEqual({ a: 1 });
+  });
+
+  it('should repair trailing commas and truncated output', () => {
+    expect(parseJsonLeniently('{"a": [1, 2,], "b": 3,}')).toEqual({
+      a: [1, 2],
+      b: 3,
+    });
+    expect(parseJsonLeniently('{"a": "text", "b": ["x", "y')).toEqual({
+      a: 'text',
+      b: ['x', 'y'],
+    });
+    expect(parseJsonLeniently('{"a": 1, "b":')).toEqual({ a: 1 });
+  });
+
+  it('should throw when there is no JSON', () => {
+    expect(() => parseJsonLeniently('I cannot help with that.')).toThrow(
+      SyntaxError,
+    );
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Parses JSON from a model response that was asked for JSON but may not
+ * have returned only JSON: the value may be wrapped in prose, a Markdown
+ * code fence or a `<think>` block, have trailing commas, or be cut off
+ * before its closing brackets. Throws a SyntaxError if no JSON value can be
+ * recovered.
+ */
+export function parseJsonLeniently(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const candidate = extractJsonValue(stripReasoning(text));
+    if (candidate === undefined) {
+      throw error;
+    }
+    try {
+      return JSON.parse(candidate);
+    } catch (_e) {
+      return JSON.parse(repairJson(candidate));
+    }
+  }
+}
+
+function stripReasoning(text: string): string {
+  return text.replace(/<think>[\s\S]*?(<\/think>|$)/g, '');
+}
+
+/**
+ * Returns the first JSON object or array in `text`, up to its closing
+ * bracket or the end of the text if it is never closed.
+ */
+function extractJsonValue(text: string): string | undefined {
+  const fenced = /```(?:json)?\s*\n([\s\S]*?)(?:```|$)/i.exec(text);
+  const source = fenced ? fenced[1] : text;
+  const start = source.search(/[{[]/);
+  if (start === -1) {
+    return undefined;
+  }
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) {
+        return source.slice(start, i + 1);
+      }
+    }
+  }
+  return source.slice(start).trimEnd();
+}
+
+/**
+ * Removes trailing commas and closes the strings, objects and arrays that a
+ * truncated response left open.
+ */
+function repairJson(json: string): string {
+  const closers: string[] = [];
+  let repaired = '';
+  let inString = false;
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+    if (inString) {
+      repaired += char;
+      if (char === '\\' && i + 1 < json.length) {
+        repaired += json[++i];
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      closers.push('}');
+    } else if (char === '[') {
+      closers.push(']');
+    } else if (char === '}' || char === ']') {
+      closers.pop();
+      repaired = repaired.replace(/,\s*$/, '');
+    }
+    repaired += char;
+  }
+
+  if (inString) {
+    repaired += '"';
+  }
+  // A key whose value was cut off entirely cannot be completed.
+  repaired = repaired.replace(/,?\s*"[^"]*"\s*:\s*$/, '').replace(/,\s*$/, '');
+  while (closers.length > 0) {
+    repaired += closers.pop();
+  }
+  return repaired;
+}
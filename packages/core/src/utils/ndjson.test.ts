@@ -0,0 +1,46 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseNdjson } from './ndjson.js';
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+async function collect(body: ReadableStream<Uint8Array>): Promise<unknown[]> {
+  const values: unknown[] = [];
+  for await (const value of parseNdjson(body)) {
+    values.push(value);
+  }
+  return values;
+}
+
+describe('parseNdjson', () => {
+  it('should parse one value per line across chunk boundaries', async () => {
+    const values = await collect(streamOf('{"a":', '1}\n{"b":2}\r\n', '\n'));
+    expect(values).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  it('should flush a final line without a trailing newline', async () => {
+    const values = await collect(streamOf('{"a":1}\n{"done":true}'));
+    expect(values).toEqual([{ a: 1 }, { done: true }]);
+  });
+
+  it('should throw on malformed lines', async () => {
+    await expect(collect(streamOf('{"a":1}\nnot json\n'))).rejects.toThrow(
+      /Failed to parse stream line/,
+    );
+  });
+});
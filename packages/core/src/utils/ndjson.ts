@@ -0,0 +1,62 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Parses a newline-delimited JSON (`application/x-ndjson`) body into values
+ * as they arrive. Blank lines are skipped.
+ */
+export async function* parseNdjson<T>(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parseLine = (line: string): T => {
+    try {
+      return JSON.parse(line) as T;
+    } catch (error) {
+      throw new Error(
+        `Failed to parse stream line: ${(error as Error).message}. Line: ${line.substring(0, 200)}`,
+      );
+    }
+  };
+
+  let finished = false;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done
+        ? decoder.decode()
+        : decoder.decode(value, { stream: true });
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+        if (line !== '') {
+          yield parseLine(line);
+        }
+      }
+
+      if (done) {
+        break;
+      }
+    }
+
+    finished = true;
+    // Flush a final line that was not terminated by a newline.
+    if (buffer.trim() !== '') {
+      yield parseLine(buffer.trim());
+    }
+  } finally {
+    if (!finished) {
+      // The consumer stopped early; close the underlying connection.
+      await reader.cancel().catch(() => {});
+    }
+    reader.releaseLock();
+  }
+}
@@ -133,6 +133,8 @@ export async function checkNextSpeaker(
       RESPONSE_SCHEMA,
       abortSignal,
       DEFAULT_GEMINI_FLASH_MODEL,
+      undefined,
+      'nextSpeaker',
     )) as unknown as NextSpeakerResponse;
 
     if (
@@ -0,0 +1,234 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyHunks, parsePatch } from './patch.js';
+
+describe('parsePatch', () => {
+  it('should parse the envelope format', () => {
+    const files = parsePatch(
+      [
+        '*** Begin Patch',
+        '*** Update File: src/app.ts',
+        '*** Move to: src/main.ts',
+        '@@ function main() {',
+        ' const a = 1;',
+        '-start();',
+        '+await start();',
+        '',
+        '*** Add File: src/new.ts',
+        '+export const value = 1;',
+        '*** Delete File: src/old.ts',
+        '*** End Patch',
+      ].join('\n'),
+    );
+
+    expect(files).toEqual([
+      {
+        type: 'update',
+        path: 'src/app.ts',
+        movePath: 'src/main.ts',
+        hunks: [
+          {
+            anchor: 'function main() {',
+            lines: [
+              { op: ' ', text: 'const a = 1;' },
+              { op: '-', text: 'start();' },
+              { op: '+', text: 'await start();' },
+            ],
+          },
+        ],
+      },
+      {
+        type: 'add',
+        path: 'src/new.ts',
+        content: 'export const value = 1;\n',
+      },
+      { type: 'delete', path: 'src/old.ts' },
+    ]);
+  });
+
+  it('should parse unified diffs', () => {
+    const files = parsePatch(
+      [
+        'diff --git a/src/app.ts b/src/app.ts',
+        'index 83db48f..bf269f4 100644',
+        '--- a/src/app.ts',
+        '+++ b/src/app.ts',
+        '@@ -10,3 +10,3 @@ function main() {',
+        ' const a = 1;',
+        '-start();',
+        '+await start();',
+        'diff --git a/src/new.ts b/src/new.ts',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/src/new.ts',
+        '@@ -0,0 +1 @@',
+        '+export const value = 1;',
+        '\\ No newline at end of file',
+        '--- a/src/old.ts',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-old',
+        '',
+      ].join('\n'),
+    );
+
+    expect(files).toEqual([
+      {
+        type: 'update',
+        path: 'src/app.ts',
+        movePath: undefined,
+        hunks: [
+          {
+            oldStart: 10,
+            lines: [
+              { op: ' ', text: 'const a = 1;' },
+              { op: '-', text: 'start();' },
+              { op: '+', text: 'await start();' },
+            ],
+          },
+        ],
+      },
+      {
+        type: 'add',
+        path: 'src/new.ts',
+        content: 'export const value = 1;\n',
+      },
+      { type: 'delete', path: 'src/old.ts' },
+    ]);
+  });
+
+  it('should throw for patches without changes', () => {
+    expect(() => parsePatch('Please update the file.')).toThrow(
+      'The patch does not change any files.',
+    );
+  });
+
+  it('should throw for malformed envelopes', () => {
+    expect(() =>
+      parsePatch(
+        [
+          '*** Begin Patch',
+          '*** Update File: a.ts',
+          '@@',
+          'no prefix',
+          '*** End Patch',
+        ].join('\n'),
+      ),
+    ).toThrow(
+      'Line 4: lines of a hunk must start with " ", "-" or "+", but found: no prefix',
+    );
+  });
+});
+
+describe('applyHunks', () => {
+  const content = [
+    'function a() {',
+    '  return 1;',
+    '}',
+    '',
+    'function b() {',
+    '  return 1;',
+    '}',
+    '',
+  ].join('\n');
+
+  it('should replace the matching lines', () => {
+    const result = applyHunks(content, [
+      {
+        lines: [
+          { op: ' ', text: 'function b() {' },
+          { op: '-', text: '  return 1;' },
+          { op: '+', text: '  return 2;' },
+        ],
+      },
+    ]);
+
+    expect(result).toBe(content.replace(/return 1;\n}\n$/, 'return 2;\n}\n'));
+  });
+
+  it('should ignore whitespace differences and keep the file context', () => {
+    const result = applyHunks(content, [
+      {
+        lines: [
+          { op: ' ', text: 'function a() {  ' },
+          { op: '-', text: 'return 1;' },
+          { op: '+', text: '  return 3;' },
+        ],
+      },
+    ]);
+
+    expect(result.split('\n').slice(0, 2)).toEqual([
+      'function a() {',
+      '  return 3;',
+    ]);
+  });
+
+  it('should use the anchor to choose between identical lines', () => {
+    const result = applyHunks(content, [
+      {
+        anchor: 'function b() {',
+        lines: [
+          { op: '-', text: '  return 1;' },
+          { op: '+', text: '  return 4;' },
+        ],
+      },
+    ]);
+
+    expect(result).toBe(content.replace(/return 1;\n}\n$/, 'return 4;\n}\n'));
+  });
+
+  it('should use the line number to choose between identical lines', () => {
+    const result = applyHunks(content, [
+      {
+        oldStart: 2,
+        lines: [
+          { op: '-', text: '  return 1;' },
+          { op: '+', text: '  return 5;' },
+        ],
+      },
+    ]);
+
+    expect(result).toBe(content.replace('return 1;', 'return 5;'));
+  });
+
+  it('should reject hunks that match several places', () => {
+    expect(() =>
+      applyHunks(content, [
+        {
+          lines: [
+            { op: '-', text: '  return 1;' },
+            { op: '+', text: '  return 6;' },
+          ],
+        },
+      ]),
+    ).toThrow(
+      'Hunk 1 matches 2 places in the file. Add more context lines to make it unique.',
+    );
+  });
+
+  it('should reject hunks that do not match', () => {
+    expect(() =>
+      applyHunks(content, [
+        {
+          lines: [
+            { op: ' ', text: 'function c() {' },
+            { op: '-', text: '  return 1;' },
+          ],
+        },
+      ]),
+    ).toThrow(
+      'Hunk 1 does not match the file. Could not find these lines:\nfunction c() {\n  return 1;',
+    );
+  });
+
+  it('should append hunks that only add lines', () => {
+    const result = applyHunks('a\n', [{ lines: [{ op: '+', text: 'b' }] }]);
+
+    expect(result).toBe('a\nb\n');
+  });
+});
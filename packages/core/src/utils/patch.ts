@@ -0,0 +1,382 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { unescapeStringForGeminiBug } from './editCorrector.js';
+
+export interface PatchLine {
+  op: ' ' | '-' | '+';
+  text: string;
+}
+
+export interface PatchHunk {
+  /** The 1-based line the hunk starts at in the old file, if the patch says. */
+  oldStart?: number;
+  /** A line the hunk comes after, such as the signature of a function. */
+  anchor?: string;
+  lines: PatchLine[];
+}
+
+export type FilePatch =
+  | { type: 'add'; path: string; content: string }
+  | { type: 'delete'; path: string }
+  | { type: 'update'; path: string; movePath?: string; hunks: PatchHunk[] };
+
+const BEGIN_PATCH = '*** Begin Patch';
+const END_PATCH = '*** End Patch';
+const ADD_FILE = '*** Add File: ';
+const DELETE_FILE = '*** Delete File: ';
+const UPDATE_FILE = '*** Update File: ';
+const MOVE_TO = '*** Move to: ';
+const END_OF_FILE = '*** End of File';
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+const DEV_NULL = '/dev/null';
+
+/**
+ * Parses a patch in the unified diff format, as printed by `git diff` and
+ * `diff -u`, or in the envelope format:
+ *
+ * ```
+ * *** Begin Patch
+ * *** Update File: src/app.ts
+ * @@ function main() {
+ * -  start();
+ * +  await start();
+ * *** Add File: src/new.ts
+ * +export const value = 1;
+ * *** Delete File: src/old.ts
+ * *** End Patch
+ * ```
+ *
+ * Line counts in unified diff hunk headers are ignored, since models often
+ * get them wrong; hunks end at the next header instead.
+ */
+export function parsePatch(patch: string): FilePatch[] {
+  const lines = patch.replace(/\r\n/g, '\n').split('\n');
+  const files = lines.some((line) => line.trim() === BEGIN_PATCH)
+    ? parseEnvelope(lines)
+    : parseUnifiedDiff(lines);
+  if (files.length === 0) {
+    throw new Error(
+      'The patch does not change any files. Use the unified diff format or the "*** Begin Patch" envelope format.',
+    );
+  }
+  return files;
+}
+
+function toPatchLine(line: string): PatchLine | undefined {
+  // Models often drop the space that marks empty context lines.
+  if (line === '') {
+    return { op: ' ', text: '' };
+  }
+  const op = line[0];
+  if (op === ' ' || op === '-' || op === '+') {
+    return { op, text: line.slice(1) };
+  }
+  return undefined;
+}
+
+function trimTrailingEmptyContext(hunk: PatchHunk): PatchHunk {
+  const lines = [...hunk.lines];
+  while (
+    lines.length > 0 &&
+    lines[lines.length - 1].op === ' ' &&
+    lines[lines.length - 1].text === ''
+  ) {
+    lines.pop();
+  }
+  return { ...hunk, lines };
+}
+
+function parseEnvelope(lines: string[]): FilePatch[] {
+  const files: FilePatch[] = [];
+  let index = lines.findIndex((line) => line.trim() === BEGIN_PATCH) + 1;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    if (line.trim() === END_PATCH) {
+      break;
+    }
+    if (line.startsWith(ADD_FILE)) {
+      const content: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].startsWith('***')) {
+        if (!lines[index].startsWith('+')) {
+          throw new Error(
+            `Line ${index + 1}: lines of an added file must start with "+", but found: ${lines[index]}`,
+          );
+        }
+        content.push(lines[index].slice(1));
+        index++;
+      }
+      files.push({
+        type: 'add',
+        path: line.slice(ADD_FILE.length).trim(),
+        content: content.length > 0 ? `${content.join('\n')}\n` : '',
+      });
+    } else if (line.startsWith(DELETE_FILE)) {
+      files.push({
+        type: 'delete',
+        path: line.slice(DELETE_FILE.length).trim(),
+      });
+      index++;
+    } else if (line.startsWith(UPDATE_FILE)) {
+      const path = line.slice(UPDATE_FILE.length).trim();
+      index++;
+      let movePath: string | undefined;
+      if (lines[index]?.startsWith(MOVE_TO)) {
+        movePath = lines[index].slice(MOVE_TO.length).trim();
+        index++;
+      }
+      const hunks: PatchHunk[] = [];
+      let hunk: PatchHunk | undefined;
+      while (index < lines.length) {
+        const hunkLine = lines[index];
+        if (hunkLine.trim() === END_OF_FILE) {
+          index++;
+          continue;
+        }
+        if (hunkLine.startsWith('***')) {
+          break;
+        }
+        if (hunkLine.startsWith('@@')) {
+          const anchor = hunkLine.slice(2).trim();
+          hunk = { anchor: anchor || undefined, lines: [] };
+          hunks.push(hunk);
+        } else {
+          const patchLine = toPatchLine(hunkLine);
+          if (!patchLine) {
+            throw new Error(
+              `Line ${index + 1}: lines of a hunk must start with " ", "-" or "+", but found: ${hunkLine}`,
+            );
+          }
+          if (!hunk) {
+            hunk = { lines: [] };
+            hunks.push(hunk);
+          }
+          hunk.lines.push(patchLine);
+        }
+        index++;
+      }
+      files.push({
+        type: 'update',
+        path,
+        movePath,
+        hunks: hunks.map(trimTrailingEmptyContext),
+      });
+    } else if (line.trim() === '') {
+      index++;
+    } else {
+      throw new Error(
+        `Line ${index + 1}: expected "${ADD_FILE.trim()}", "${DELETE_FILE.trim()}" or "${UPDATE_FILE.trim()}", but found: ${line}`,
+      );
+    }
+  }
+  return files;
+}
+
+function parseDiffPath(header: string, prefix: string): string {
+  // Drop the timestamp that `diff -u` adds after a tab.
+  const path = header.slice(4).split('\t')[0].trim();
+  return path.startsWith(prefix) ? path.slice(prefix.length) : path;
+}
+
+function parseUnifiedDiff(lines: string[]): FilePatch[] {
+  const files: FilePatch[] = [];
+  let index = 0;
+
+  const isFileHeader = (i: number) =>
+    lines[i]?.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ');
+
+  while (index < lines.length) {
+    if (!isFileHeader(index)) {
+      // Skip `diff --git`, `index` and other lines between files.
+      index++;
+      continue;
+    }
+    const oldPath = parseDiffPath(lines[index], 'a/');
+    const newPath = parseDiffPath(lines[index + 1], 'b/');
+    index += 2;
+
+    const hunks: PatchHunk[] = [];
+    while (index < lines.length && !isFileHeader(index)) {
+      const line = lines[index];
+      const header = line.match(HUNK_HEADER);
+      if (header) {
+        hunks.push({ oldStart: parseInt(header[1], 10), lines: [] });
+      } else if (hunks.length > 0 && !line.startsWith('\\')) {
+        const patchLine = toPatchLine(line);
+        if (!patchLine) {
+          // A `diff --git` line or other header starts the next file.
+          break;
+        }
+        hunks[hunks.length - 1].lines.push(patchLine);
+      }
+      index++;
+    }
+
+    if (oldPath === DEV_NULL) {
+      const content = hunks
+        .flatMap((hunk) => hunk.lines)
+        .filter((line) => line.op === '+')
+        .map((line) => line.text);
+      files.push({
+        type: 'add',
+        path: newPath,
+        content: content.length > 0 ? `${content.join('\n')}\n` : '',
+      });
+    } else if (newPath === DEV_NULL) {
+      files.push({ type: 'delete', path: oldPath });
+    } else {
+      files.push({
+        type: 'update',
+        path: oldPath,
+        movePath: newPath !== oldPath ? newPath : undefined,
+        hunks: hunks.map(trimTrailingEmptyContext),
+      });
+    }
+  }
+  return files;
+}
+
+// Ways of comparing lines, from strictest to loosest. Hunks are matched with
+// the strictest one that finds them, much like `ensureCorrectEdit` retries
+// with unescaped strings.
+const LINE_NORMALIZERS: Array<(line: string) => string> = [
+  (line) => line,
+  (line) => line.trimEnd(),
+  (line) => line.trim(),
+  (line) => unescapeStringForGeminiBug(line).trim(),
+];
+
+function findBlock(
+  lines: string[],
+  block: string[],
+  from: number,
+  normalize: (line: string) => string,
+): number[] {
+  const target = block.map(normalize);
+  const matches: number[] = [];
+  for (let start = from; start + block.length <= lines.length; start++) {
+    if (
+      target.every((line, offset) => normalize(lines[start + offset]) === line)
+    ) {
+      matches.push(start);
+    }
+  }
+  return matches;
+}
+
+function findAnchor(lines: string[], anchor: string, from: number): number {
+  for (const normalize of LINE_NORMALIZERS) {
+    const target = normalize(anchor);
+    const index = lines.findIndex(
+      (line, i) => i >= from && normalize(line) === target,
+    );
+    if (index !== -1) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+function describeHunk(hunk: PatchHunk, hunkIndex: number): string {
+  const oldLines = hunk.lines
+    .filter((line) => line.op !== '+')
+    .map((line) => line.text);
+  return `Hunk ${hunkIndex + 1} does not match the file. Could not find these lines:\n${oldLines.join('\n')}`;
+}
+
+/**
+ * Applies the hunks of a patch to the content of a file, in order. Each
+ * hunk's context and removed lines must match the file, ignoring differences
+ * in whitespace and escaping if they do not match exactly.
+ *
+ * @throws An error describing the first hunk that does not match.
+ */
+export function applyHunks(content: string, hunks: PatchHunk[]): string {
+  const hasTrailingNewline = content === '' || content.endsWith('\n');
+  const lines = content.split('\n');
+  if (hasTrailingNewline) {
+    lines.pop();
+  }
+
+  const result: string[] = [];
+  let cursor = 0;
+  hunks.forEach((hunk, hunkIndex) => {
+    let from = cursor;
+    if (hunk.anchor) {
+      const anchorIndex = findAnchor(lines, hunk.anchor, cursor);
+      if (anchorIndex === -1) {
+        throw new Error(
+          `Hunk ${hunkIndex + 1} does not match the file. Could not find the line: ${hunk.anchor}`,
+        );
+      }
+      from = anchorIndex + 1;
+    }
+
+    const oldLines = hunk.lines
+      .filter((line) => line.op !== '+')
+      .map((line) => line.text);
+    const hint = hunk.oldStart !== undefined ? hunk.oldStart - 1 : undefined;
+
+    let start: number | undefined;
+    let unescape = false;
+    if (oldLines.length === 0) {
+      // A hunk that only adds lines goes where it says, after its anchor or
+      // at the end of the file.
+      start = hint ?? (hunk.anchor ? from : lines.length);
+      start = Math.min(Math.max(start, cursor), lines.length);
+    } else {
+      for (const [level, normalize] of LINE_NORMALIZERS.entries()) {
+        const matches = findBlock(lines, oldLines, from, normalize);
+        if (matches.length === 0) {
+          continue;
+        }
+        if (matches.length > 1 && hint === undefined && !hunk.anchor) {
+          throw new Error(
+            `Hunk ${hunkIndex + 1} matches ${matches.length} places in the file. Add more context lines to make it unique.`,
+          );
+        }
+        start =
+          hint === undefined
+            ? matches[0]
+            : matches.reduce((closest, match) =>
+                Math.abs(match - hint) < Math.abs(closest - hint)
+                  ? match
+                  : closest,
+              );
+        unescape = level === LINE_NORMALIZERS.length - 1;
+        break;
+      }
+      if (start === undefined) {
+        throw new Error(describeHunk(hunk, hunkIndex));
+      }
+    }
+
+    result.push(...lines.slice(cursor, start));
+    let fileIndex = start;
+    for (const line of hunk.lines) {
+      if (line.op === ' ') {
+        // Keep the file's version of context lines.
+        result.push(lines[fileIndex++]);
+      } else if (line.op === '-') {
+        fileIndex++;
+      } else {
+        result.push(
+          unescape ? unescapeStringForGeminiBug(line.text) : line.text,
+        );
+      }
+    }
+    cursor = fileIndex;
+  });
+  result.push(...lines.slice(cursor));
+
+  const newContent = result.join('\n');
+  return hasTrailingNewline && result.length > 0
+    ? `${newContent}\n`
+    : newContent;
+}
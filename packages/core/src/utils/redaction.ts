@@ -0,0 +1,86 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const REDACTED = '[REDACTED]';
+
+// Shorter values are too likely to occur in ordinary text to be replaced
+// wherever they appear.
+const MIN_SECRET_LENGTH = 8;
+
+const SENSITIVE_HEADERS = new Set([
+  'authorization',
+  'proxy-authorization',
+  'x-api-key',
+  'api-key',
+  'x-goog-api-key',
+  'cookie',
+]);
+
+const SENSITIVE_HEADER_NAMES = [...SENSITIVE_HEADERS].join('|');
+
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  // "Authorization": "..." in JSON, and Authorization: ... in header dumps.
+  [
+    new RegExp(`("(?:${SENSITIVE_HEADER_NAMES})"\\s*:\\s*)"[^"]*"`, 'gi'),
+    `$1"${REDACTED}"`,
+  ],
+  [
+    new RegExp(`^((?:${SENSITIVE_HEADER_NAMES})\\s*:\\s*).+$`, 'gim'),
+    `$1${REDACTED}`,
+  ],
+  [/\b(Bearer\s+)[\w\-.~+/]+=*/gi, `$1${REDACTED}`],
+  [
+    /([?&](?:key|api[-_]?key|access_token|token)=)[^&#\s"']+/gi,
+    `$1${REDACTED}`,
+  ],
+  // Well-known key formats: OpenAI/Anthropic style and Google API keys.
+  [/\bsk-[\w-]{16,}/g, REDACTED],
+  [/\bAIza[\w-]{35}\b/g, REDACTED],
+];
+
+const registeredSecrets = new Set<string>();
+
+/**
+ * Registers a credential, such as a configured API key or a token fetched by
+ * an auth command, so that `redactSecrets` removes it wherever it appears.
+ */
+export function registerSecret(secret: string | undefined): void {
+  const trimmed = secret?.trim();
+  if (trimmed && trimmed.length >= MIN_SECRET_LENGTH) {
+    registeredSecrets.add(trimmed);
+  }
+}
+
+/**
+ * Replaces registered secrets, bearer tokens, credential headers, credential
+ * query parameters and well-known API key formats in `text`.
+ */
+export function redactSecrets(text: string): string {
+  let redacted = text;
+  for (const secret of registeredSecrets) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+  for (const [pattern, replacement] of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, replacement);
+  }
+  return redacted;
+}
+
+/**
+ * Returns a copy of `headers` that is safe to log.
+ */
+export function redactHeaders(
+  headers: Record<string, string>,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      SENSITIVE_HEADERS.has(name.toLowerCase())
+        ? REDACTED
+        : redactSecrets(value),
+    ]),
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseServerSentEvents, ServerSentEvent } from './sse.js';
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+async function collect(
+  body: ReadableStream<Uint8Array>,
+): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = [];
+  for await (const event of parseServerSentEvents(body)) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('parseServerSentEvents', () => {
+  it('should parse data events separated by blank lines', async () => {
+    const events = await collect(streamOf('data: one\n\ndata: two\n\n'));
+    expect(events.map((e) => e.data)).toEqual(['one', 'two']);
+  });
+
+  it('should handle events split across chunks', async () => {
+    const events = await collect(streamOf('da', 'ta: {"a"', ':1}\n', '\n'));
+    expect(events).toEqual([{ data: '{"a":1}' }]);
+  });
+
+  it('should join multi-line data and read event names and ids', async () => {
+    const events = await collect(
+      streamOf('event: message_delta\nid: 7\ndata: a\ndata: b\n\n'),
+    );
+    expect(events).toEqual([{ event: 'message_delta', id: '7', data: 'a\nb' }]);
+  });
+
+  it('should ignore comments and accept CRLF line endings', async () => {
+    const events = await collect(
+      streamOf(': keep-alive\r\n\r\ndata: x\r', '\n\r\n'),
+    );
+    expect(events.map((e) => e.data)).toEqual(['x']);
+  });
+
+  it('should flush a final event without a trailing blank line', async () => {
+    const events = await collect(streamOf('data: last'));
+    expect(events.map((e) => e.data)).toEqual(['last']);
+  });
+});
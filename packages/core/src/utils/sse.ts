@@ -0,0 +1,123 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * A single event dispatched from a `text/event-stream` response.
+ */
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Parses a `text/event-stream` body into events as they arrive.
+ *
+ * Follows the WHATWG event stream format: `data:` lines are joined with
+ * newlines, lines starting with `:` are comments, and an event is
+ * dispatched on each blank line. Events without any data are skipped.
+ */
+export async function* parseServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | undefined;
+  let id: string | undefined;
+  let dataLines: string[] = [];
+
+  const dispatch = (): ServerSentEvent | undefined => {
+    const dispatched =
+      dataLines.length > 0
+        ? { event, id, data: dataLines.join('\n') }
+        : undefined;
+    event = undefined;
+    dataLines = [];
+    return dispatched;
+  };
+
+  const processLine = (line: string): ServerSentEvent | undefined => {
+    if (line === '') {
+      return dispatch();
+    }
+    if (line.startsWith(':')) {
+      return undefined;
+    }
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+    switch (field) {
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'event':
+        event = value;
+        break;
+      case 'id':
+        id = value;
+        break;
+      default:
+        break;
+    }
+    return undefined;
+  };
+
+  let finished = false;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done
+        ? decoder.decode()
+        : decoder.decode(value, { stream: true });
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.search(/\r\n|\r|\n/)) !== -1) {
+        if (
+          !done &&
+          newlineIndex === buffer.length - 1 &&
+          buffer.endsWith('\r')
+        ) {
+          // The matching '\n' of a CRLF pair may arrive in the next chunk.
+          break;
+        }
+        const line = buffer.slice(0, newlineIndex);
+        const separatorLength =
+          buffer[newlineIndex] === '\r' && buffer[newlineIndex + 1] === '\n'
+            ? 2
+            : 1;
+        buffer = buffer.slice(newlineIndex + separatorLength);
+        const dispatched = processLine(line);
+        if (dispatched) {
+          yield dispatched;
+        }
+      }
+
+      if (done) {
+        break;
+      }
+    }
+
+    // Flush a final event that was not terminated by a blank line.
+    if (buffer !== '') {
+      processLine(buffer);
+    }
+    finished = true;
+    const dispatched = dispatch();
+    if (dispatched) {
+      yield dispatched;
+    }
+  } finally {
+    if (!finished) {
+      // The consumer stopped early; close the underlying connection.
+      await reader.cancel().catch(() => {});
+    }
+    reader.releaseLock();
+  }
+}
@@ -87,6 +87,7 @@ export async function summarizeToolOutput(
       toolOutputSummarizerConfig,
       abortSignal,
       DEFAULT_GEMINI_FLASH_MODEL,
+      'summarizer',
     )) as unknown as GenerateContentResponse;
     return getResponseText(parsedResponse) || textToSummarize;
   } catch (error) {